@@ -6,11 +6,14 @@
 export { AgentLoop } from './loop.js';
 export { MultiAgentManager, loadAgentConfigs } from './manager.js';
 export { createStrategy, UniversalStrategy } from './strategies/index.js';
+export { valuePortfolio, computePnl, getAgentPnl, parseSince } from './pnl.js';
+export type { PnlReport, PositionPnl } from './pnl.js';
 export type {
   AgentConfig,
   AgentState,
   AgentLoopState,
   AgentLoopStatus,
+  CircuitBreakerConfig,
   Action,
   Strategy,
   SwapActionParams,
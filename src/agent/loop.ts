@@ -13,21 +13,32 @@
  *
  * STOPPING: stop() sets a flag that causes the loop to exit after the current
  * tick finishes. It never interrupts a tick mid-execution.
+ *
+ * HALTING: an active halt in the audit DB (`agentw halt`, or a tripped circuit
+ * breaker) makes every tick a no-op until `agentw agent resume` clears it.
+ * Unlike a stop, the loop keeps running so it can pick up the resume.
  */
 
 import { PublicKey } from '@solana/web3.js';
 import { safePublicKey } from '../utils.js';
-import type { WalletClient } from '../wallet/types.js';
-import type { AdapterRegistry } from '../protocols/types.js';
+import type { PriceOracle, TxResult, WalletClient } from '../wallet/types.js';
+import type { AdapterRegistry, SwapResult } from '../protocols/types.js';
 import type { Logger } from '../logger/logger.js';
 import type { AuditDb } from '../logger/audit.js';
+import { valuePortfolio } from './pnl.js';
 import type {
+  Action,
   AgentConfig,
   AgentLoopState,
+  AgentLoopStatus,
   AgentState,
   Strategy,
 } from './types.js';
 
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_APPROVAL_TTL_MS = 15 * 60_000;
+const DEFAULT_BALANCE_DROP_WINDOW_MS = 60 * 60_000;
+
 // ── AgentLoop ─────────────────────────────────────────────────────────────────
 
 export class AgentLoop {
@@ -38,7 +49,11 @@ export class AgentLoop {
   private lastError: string | null = null;
   private startedAt: Date | null = null;
   private lastTxAmount: bigint = 0n;
-  private status: 'idle' | 'running' | 'stopped' | 'error' = 'idle';
+  private status: AgentLoopStatus = 'idle';
+  /** Failed or refused ticks since the last successful action. */
+  private consecutiveFailures = 0;
+  /** SOL balance seen at each tick within the balance-drop window, oldest first. */
+  private balanceSamples: Array<{ ts: number; lamports: bigint }> = [];
 
   constructor(
     private readonly config: AgentConfig,
@@ -47,6 +62,8 @@ export class AgentLoop {
     private readonly adapters: AdapterRegistry,
     private readonly logger: Logger,
     private readonly auditDb: AuditDb,
+    /** Values the wallet each tick for `agentw agent pnl`; no snapshots without it. */
+    private readonly priceOracle?: PriceOracle,
   ) { }
 
   // ── Public API ──────────────────────────────────────────────────────────────
@@ -174,13 +191,19 @@ export class AgentLoop {
       }
     }
 
+    // 0b. Skip the tick while a halt is active
+    if (this.isHalted()) return;
+
     let state: AgentState | undefined;
     try {
       // 1. Gather on-chain state
       state = await this.gatherState();
+      await this.recordPortfolio(state);
+      if (this.balanceDropped(state.solBalance)) return;
 
-      // 2. Strategy decides what to do
-      const action = await this.strategy.decide(state);
+      // 2. Run an action a human has approved, otherwise ask the strategy
+      const approved = this.claimApprovedAction();
+      const action = approved?.action ?? await this.strategy.decide(state);
 
       // 3. Noop — log and skip execution
       if (action.type === 'noop') {
@@ -203,7 +226,17 @@ export class AgentLoop {
         return;
       }
 
-      // 4. Execute the action
+      // 4. Queue large actions — and any that cannot be valued — for a human instead of executing them
+      const threshold = this.config.approvalThresholdLamports;
+      if (!approved && threshold !== undefined) {
+        const lamports = await actionLamports(action, state, this.priceOracle);
+        if (lamports === undefined || lamports > threshold) {
+          this.queueForApproval(action, state, lamports);
+          return;
+        }
+      }
+
+      // 5. Execute the action
       this.logger.info(
         {
           agentId: this.config.id,
@@ -211,6 +244,7 @@ export class AgentLoop {
           action: action.type,
           rationale: action.rationale,
           params: sanitiseParams(action.params),
+          approvalId: approved?.id,
         },
         'Tick: executing action',
       );
@@ -229,13 +263,16 @@ export class AgentLoop {
         }
       );
 
+      const spendBefore = this.wallet.getSpendingLimitStatus().sessionSpend;
       const result = await this.strategy.execute(action, this.wallet, this.adapters);
+      // What the guard actually recorded — persisted so the next process can rehydrate it
+      const spentLamports = this.wallet.getSpendingLimitStatus().sessionSpend - spendBefore;
 
       // BALANCE ACCURACY: Re-fetch balance AFTER transaction confirms
       const postTxBalance = await this.wallet.getSolBalance();
       this.lastActionAt = new Date();
 
-      // 5. Audit the result
+      // 6. Audit the result
       const eventType = !result
         ? 'agent_action'
         : result.status === 'confirmed'
@@ -254,6 +291,9 @@ export class AgentLoop {
           rationale: action.rationale,
           params: sanitiseParams(action.params),
           solBalance: postTxBalance.toString(), // Use the fresh balance
+          spentLamports: spentLamports.toString(),
+          ...(result ? tradeDetails(result) : {}),
+          ...(approved ? { approvalId: approved.id } : {}),
           ...this.getAuditLimitFields(action.type === 'swap' ? (action.params['amountIn'] as bigint) : action.type === 'transfer' ? (action.params['lamports'] as bigint) : 0n),
         },
         result
@@ -261,6 +301,9 @@ export class AgentLoop {
           : undefined,
       );
 
+      if (eventType === 'tx_failed') this.recordFailure(eventType);
+      else if (eventType !== 'tx_timeout') this.consecutiveFailures = 0;
+
       this.logger.info(
         {
           agentId: this.config.id,
@@ -299,7 +342,134 @@ export class AgentLoop {
           ...this.getAuditLimitFields(0n),
         },
       );
+
+      if (eventType === 'limit_breach') this.recordFailure(eventType);
+    }
+  }
+
+  // ── Halts and circuit breaker ───────────────────────────────────────────────
+
+  /**
+   * True while a halt covers this agent. Logs each halted tick as a noop so
+   * the audit trail (and the dashboard heartbeat) shows why nothing happens.
+   */
+  private isHalted(): boolean {
+    const walletPk = this.wallet.publicKey.toBase58();
+    const halt = this.auditDb.getActiveHalt(this.config.id);
+
+    if (!halt) {
+      if (this.status === 'halted') {
+        // Resumed — start the breaker from a clean slate
+        this.status = 'running';
+        this.consecutiveFailures = 0;
+        this.balanceSamples = [];
+        this.logger.info({ agentId: this.config.id }, 'Agent resumed');
+      }
+      return false;
+    }
+
+    if (this.status !== 'halted') {
+      this.status = 'halted';
+      this.logger.warn({ agentId: this.config.id, haltId: halt.id, reason: halt.reason }, 'Agent halted');
     }
+    this.auditDb.log(this.config.id, walletPk, 'agent_noop', {
+      tick: this.tickCount,
+      rationale: `Halted (#${halt.id}): ${halt.reason}`,
+      haltId: halt.id,
+      ...this.getAuditLimitFields(0n),
+    });
+    return true;
+  }
+
+  /** Counts a `tx_failed` or `limit_breach` tick and trips the breaker at the configured streak. */
+  private recordFailure(event: 'tx_failed' | 'limit_breach'): void {
+    this.consecutiveFailures++;
+    const max = this.config.circuitBreaker?.maxConsecutiveFailures;
+    if (max !== undefined && this.consecutiveFailures >= max) {
+      this.tripCircuitBreaker(`${this.consecutiveFailures} consecutive failures (last: ${event})`);
+    }
+  }
+
+  /**
+   * Records `lamports` and trips the breaker if it is `maxBalanceDropPct` or
+   * more below the highest balance seen within the window.
+   */
+  private balanceDropped(lamports: bigint): boolean {
+    const breaker = this.config.circuitBreaker;
+    if (breaker?.maxBalanceDropPct === undefined) return false;
+
+    const now = Date.now();
+    const windowStart = now - (breaker.balanceDropWindowMs ?? DEFAULT_BALANCE_DROP_WINDOW_MS);
+    this.balanceSamples = this.balanceSamples.filter((s) => s.ts >= windowStart);
+    this.balanceSamples.push({ ts: now, lamports });
+
+    const peak = this.balanceSamples.reduce((max, s) => (s.lamports > max ? s.lamports : max), 0n);
+    if (peak === 0n) return false;
+
+    // Basis points keep the comparison in integer arithmetic
+    const dropBps = ((peak - lamports) * 10_000n) / peak;
+    if (dropBps < BigInt(Math.round(breaker.maxBalanceDropPct * 100))) return false;
+
+    this.tripCircuitBreaker(
+      `SOL balance fell ${Number(dropBps) / 100}% from ${peak} to ${lamports} lamports`,
+    );
+    return true;
+  }
+
+  private tripCircuitBreaker(reason: string): void {
+    const haltId = this.auditDb.halt(
+      this.config.id,
+      reason,
+      'circuit_breaker',
+      'circuit_breaker',
+      this.wallet.publicKey.toBase58(),
+    );
+    this.status = 'halted';
+    this.logger.error({ agentId: this.config.id, haltId, reason }, 'Circuit breaker tripped — agent halted');
+  }
+
+  // ── Approvals ───────────────────────────────────────────────────────────────
+
+  /**
+   * Persists `action` to the approval queue, valued at `lamports` (0 when it
+   * could not be valued). While an earlier request is still pending, new
+   * over-threshold actions are dropped rather than piling up.
+   */
+  private queueForApproval(action: Action, state: AgentState, lamports: bigint | undefined): void {
+    const walletPk = this.wallet.publicKey.toBase58();
+    const pending = this.auditDb.listApprovals({ agentId: this.config.id, status: 'pending', limit: 1 })[0];
+
+    if (pending) {
+      this.auditDb.log(this.config.id, walletPk, 'agent_noop', {
+        tick: this.tickCount,
+        rationale: `Awaiting approval #${pending.id}; dropped ${action.type}: ${action.rationale}`,
+        solBalance: state.solBalance.toString(),
+        ...this.getAuditLimitFields(0n),
+      });
+      return;
+    }
+
+    const approvalId = this.auditDb.requestApproval({
+      agentId: this.config.id,
+      walletPk,
+      action: { type: action.type, params: sanitiseParams(action.params), rationale: action.rationale },
+      lamports: lamports ?? 0n,
+      ttlMs: this.config.approvalTtlMs ?? DEFAULT_APPROVAL_TTL_MS,
+    });
+
+    this.logger.warn(
+      { agentId: this.config.id, tick: this.tickCount, approvalId, action: action.type, lamports: lamports?.toString() },
+      lamports === undefined
+        ? 'Tick: action could not be valued — queued for approval'
+        : 'Tick: action exceeds approval threshold — queued for approval',
+    );
+  }
+
+  /** Takes the next approved, unexpired action for this agent, if any. */
+  private claimApprovedAction(): { id: number; action: Action } | undefined {
+    const row = this.auditDb.claimApprovedAction(this.config.id, this.wallet.publicKey.toBase58());
+    if (!row) return undefined;
+    return { id: row.id, action: JSON.parse(row.action_json) as Action };
   }
 
   // ── State gathering ─────────────────────────────────────────────────────────
@@ -309,27 +479,12 @@ export class AgentLoop {
    * This is the only place the agent touches the chain for reads.
    */
   private async gatherState(): Promise<AgentState> {
-    const [solBalance] = await Promise.all([
+    const [solBalance, holdings] = await Promise.all([
       this.wallet.getSolBalance(),
+      this.wallet.getTokenAccounts((this.config.trackedMints ?? []).map((mint) => safePublicKey(mint))),
     ]);
 
-    // Gather token balances for mints the strategy cares about
-    const tokenBalances = new Map<string, bigint>();
-    const trackedMints = this.getTrackedMints();
-
-    if (trackedMints.length > 0) {
-      await Promise.all(
-        trackedMints.map(async (mintStr) => {
-          try {
-            const mint = safePublicKey(mintStr);
-            const balance = await this.wallet.getTokenBalance(mint);
-            tokenBalances.set(mintStr, balance);
-          } catch {
-            tokenBalances.set(mintStr, 0n);
-          }
-        }),
-      );
-    }
+    const tokenBalances = new Map(holdings.map((holding) => [holding.mint, holding]));
 
     const limits = this.wallet.getSpendingLimitStatus();
 
@@ -345,22 +500,33 @@ export class AgentLoop {
         sessionSpend: limits.sessionSpend,
         sessionCap: limits.sessionCap,
         perTxCap: limits.perTxCap,
-        remainingBudget: limits.sessionCap - limits.sessionSpend,
+        remainingBudget: limits.remainingBudget,
       },
     };
   }
 
-  /** Extracts mint addresses this strategy cares about. Overridden to track common mints for general purposes. */
-  private getTrackedMints(): string[] {
-    // In universal mode, we track a set of common mints or just let the LLM see everything via state
-    // For now, we remain passive or could add a global "trackedMints" list in env.
-    return [];
+  /**
+   * Records a valued portfolio snapshot for PnL. Pricing is best-effort: a
+   * failed lookup is logged and never fails the tick.
+   */
+  private async recordPortfolio(state: AgentState): Promise<void> {
+    if (!this.priceOracle) return;
+    try {
+      this.auditDb.recordPortfolioSnapshot(await valuePortfolio(state, this.priceOracle));
+    } catch (err) {
+      this.logger.warn(
+        { agentId: this.config.id, err: err instanceof Error ? err.message : String(err) },
+        'Portfolio snapshot failed',
+      );
+    }
   }
 
   private getAuditLimitFields(lastTxAmount: bigint): Record<string, string> {
     const limits = this.wallet.getSpendingLimitStatus();
     return {
       sessionSpend: limits.sessionSpend.toString(),
+      sessionFees: limits.sessionFees.toString(),
+      sessionRent: limits.sessionRent.toString(),
       sessionCap: limits.sessionCap.toString(),
       perTxCap: limits.perTxCap.toString(),
       lastTxAmount: lastTxAmount.toString(),
@@ -370,10 +536,64 @@ export class AgentLoop {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
+/** Fee and swap amounts of a result, stringified for the audit log and PnL replay. */
+function tradeDetails(result: TxResult): Record<string, unknown> {
+  const details: Record<string, unknown> = {};
+  if (result.feeLamports !== undefined) details['feeLamports'] = String(result.feeLamports);
+  if ('inputMint' in result) {
+    const swap = result as SwapResult;
+    details['swap'] = {
+      inputMint: swap.inputMint,
+      outputMint: swap.outputMint,
+      inAmount: swap.inAmount.toString(),
+      outAmount: swap.outAmount.toString(),
+      ...(swap.transferFee !== undefined && { transferFee: swap.transferFee.toString() }),
+    };
+  }
+  return details;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * SOL value of an action in lamports, for the approval threshold. A swap
+ * out of an SPL token is priced through `oracle` against SOL; undefined when
+ * it cannot be — no oracle, no price, or an input mint missing from state.
+ */
+async function actionLamports(action: Action, state: AgentState, oracle?: PriceOracle): Promise<bigint | undefined> {
+  const { params } = action;
+  const amount = (value: unknown): bigint => (value === undefined || value === null ? 0n : BigInt(String(value)));
+
+  switch (action.type) {
+    case 'transfer':
+      return amount(params['lamports']);
+    case 'provide_liquidity':
+      return amount(params['amountSolLamports']);
+    case 'swap': {
+      const amountIn = amount(params['amountIn']);
+      const inputMint = String(params['inputMint']);
+      if (inputMint === WSOL_MINT) return amountIn;
+
+      const decimals = state.tokenBalances.get(inputMint)?.decimals;
+      if (!oracle || decimals === undefined) return undefined;
+      try {
+        const prices = await oracle.getPrices([WSOL_MINT, inputMint]);
+        const solUsd = prices.get(WSOL_MINT)?.priceUsd ?? null;
+        const inputUsd = prices.get(inputMint)?.priceUsd ?? null;
+        if (solUsd === null || inputUsd === null || solUsd <= 0) return undefined;
+        const lamports = (Number(amountIn) / 10 ** decimals) * (inputUsd / solUsd) * 1e9;
+        return BigInt(Math.ceil(lamports));
+      } catch {
+        return undefined;
+      }
+    }
+    default:
+      return 0n;
+  }
+}
+
 /**
  * Sanitises action params before writing to the audit log.
  * Converts BigInt values to strings and strips key-adjacent fields.
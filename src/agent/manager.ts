@@ -4,7 +4,7 @@
  * MultiAgentManager — launches and supervises N independent agent instances.
  *
  * ISOLATION GUARANTEE: Each agent receives its own WalletClient constructed
- * from its own keystore file. Agents share:
+ * from its own keystore file or remote signer. Agents share:
  *   - One Connection object (RPC connection pooling)
  *   - One Logger (with agentId bound per child logger)
  *   - One AuditDb
@@ -19,15 +19,18 @@
  * for all of them to finish their current tick.
  */
 
-import { Connection } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { createWalletClient } from '../wallet/wallet.js';
-import { loadKeystore, loadFromEnv } from '../wallet/keystore.js';
-import { createAdapterRegistry } from '../protocols/index.js';
+import { createGuardian, connectGuardian } from '../wallet/guardian.js';
+import { loadKeystore, getPublicKeyFromKeystore } from '../wallet/keystore.js';
+import { keystoreSigner, envSigner, connectRemoteSigner } from '../wallet/signers.js';
+import { connectSession } from '../wallet/session.js';
+import { createAdapterRegistry, createJupiterPriceOracle } from '../protocols/index.js';
 import { AgentLoop } from './loop.js';
 import { createStrategy } from './strategies/index.js';
 import { createAgentLogger } from '../logger/logger.js';
 import { AuditDb } from '../logger/audit.js';
-import type { WalletConfig } from '../wallet/types.js';
+import type { CoSigner, PriorityFeeConfig, Signer, SpendingLimits, WalletConfig } from '../wallet/types.js';
 import type { Logger } from '../logger/logger.js';
 import type { AgentConfig, AgentLoopState } from './types.js';
 
@@ -39,11 +42,17 @@ export class MultiAgentManager {
   private started = false;
   private auditDb: AuditDb;
 
+  /**
+   * @param sessionSocketPath Socket of an `agentw unlock` session. Agents whose
+   *                          wallet it holds sign through it instead of
+   *                          decrypting their keystore.
+   */
   constructor(
     private readonly configs: AgentConfig[],
     private readonly logger: Logger,
     private readonly rpcUrl: string,
     auditDbPath: string,
+    private readonly sessionSocketPath?: string,
   ) {
     this.auditDb = new AuditDb(auditDbPath);
   }
@@ -65,6 +74,7 @@ export class MultiAgentManager {
 
     const connection = new Connection(this.rpcUrl, 'confirmed');
     const adapters = createAdapterRegistry(connection, this.logger);
+    const priceOracle = createJupiterPriceOracle(connection);
 
     for (const config of this.configs) {
       const agentLogger = createAgentLogger(
@@ -74,7 +84,7 @@ export class MultiAgentManager {
       );
 
       // Build WalletClient — each agent gets its own isolated instance
-      const keypair = this.loadKeypair(config, password);
+      const signer = await this.loadSigner(config, password);
       const walletConfig: WalletConfig = {
         rpcUrl: this.rpcUrl,
         limits: config.limits,
@@ -82,12 +92,53 @@ export class MultiAgentManager {
         confirmationStrategy: 'confirmed',
         maxRetries: 3,
         retryDelayMs: 2_000,
+        // Rehydrate durable spend windows from this agent's confirmed history
+        ledger: this.auditDb.getSpendLedger(config.id, signer.publicKey.toBase58()),
+        // In-flight transactions survive restarts and are reconciled before the next send
+        txJournal: this.auditDb.getTxJournal(config.id, signer.publicKey.toBase58()),
+        priceOracle,
+        onPolicyViolation: (violation) => {
+          this.auditDb.log(config.id, signer.publicKey.toBase58(), 'limit_breach', {
+            code: 'LIMIT_BREACH',
+            instruction: violation.instruction,
+            programId: violation.programId,
+            account: violation.account ?? null,
+            error: violation.reason,
+          });
+        },
+        pauseOnBalanceAnomaly: config.pauseOnBalanceAnomaly === true,
+        useDurableNonce: config.useDurableNonce === true,
+        // Compute budget and priority fee are estimated per transaction
+        priorityFee: config.priorityFee ?? {},
+        ...(config.lookupTables && { lookupTables: config.lookupTables.map((table) => new PublicKey(table)) }),
+        // `agentw halt` and tripped circuit breakers stop signing mid-tick
+        haltCheck: () => {
+          const halt = this.auditDb.getActiveHalt(config.id);
+          return halt ? `${halt.reason} (halt #${halt.id})` : undefined;
+        },
+        coSignThresholdLamports: config.guardian?.thresholdLamports ?? 0n,
+        onBalanceAnomaly: (anomaly) => {
+          this.auditDb.log(config.id, signer.publicKey.toBase58(), 'unexpected_balance_change', {
+            code: 'UNEXPECTED_BALANCE_CHANGE',
+            discrepancies: anomaly.discrepancies.map((d) => ({
+              asset: d.asset,
+              expected: d.expected.toString(),
+              actual: d.actual.toString(),
+            })),
+            overheadLamports: anomaly.overheadLamports.toString(),
+            paused: anomaly.paused,
+          }, { signature: anomaly.signature, status: 'confirmed' });
+        },
       };
 
+      if (config.guardian) {
+        walletConfig.coSigner = await this.loadGuardian(config, signer.publicKey);
+      }
+
       const wallet = createWalletClient(
-        keypair,
+        signer,
         walletConfig,
-        createAgentLogger(this.logger, config.id, keypair.publicKey.toBase58()),
+        createAgentLogger(this.logger, config.id, signer.publicKey.toBase58()),
       );
 
       const strategy = createStrategy(this.rpcUrl, config.limits, agentLogger);
@@ -99,6 +150,7 @@ export class MultiAgentManager {
         adapters,
         createAgentLogger(this.logger, config.id, wallet.publicKey.toBase58()),
         this.auditDb,
+        priceOracle,
       );
 
       this.loops.set(config.id, loop);
@@ -149,7 +201,46 @@ export class MultiAgentManager {
 
   // ── Private ─────────────────────────────────────────────────────────────────
 
-  private loadKeypair(config: AgentConfig, passedPassword?: string): ReturnType<typeof loadKeystore> {
+  /**
+   * Connects to the agent's guardian daemon, or loads the guardian keystore
+   * in-process. Only GUARDIAN_PASSWORD decrypts the guardian keystore — a
+   * second key behind the agent's own password would guard nothing. Its
+   * windows rehydrate from the wallet's confirmed history, so a restart does
+   * not reset its caps.
+   */
+  private async loadGuardian(config: AgentConfig, wallet: PublicKey): Promise<CoSigner> {
+    const guardian = config.guardian!;
+    if (guardian.socketPath) return connectGuardian(guardian.socketPath);
+
+    const password = process.env['GUARDIAN_PASSWORD'];
+    if (!password) {
+      throw new Error(`Cannot load guardian for agent ${config.id}: set GUARDIAN_PASSWORD.`);
+    }
+    return createGuardian(
+      loadKeystore(guardian.keystorePath, password, { upgrade: true }),
+      {
+        rpcUrl: this.rpcUrl,
+        wallet,
+        limits: guardian.limits,
+        ledger: this.auditDb.getSpendLedger(config.id, wallet.toBase58()),
+      },
+      createAgentLogger(this.logger, config.id, wallet.toBase58()),
+    );
+  }
+
+  private async loadSigner(config: AgentConfig, passedPassword?: string): Promise<Signer> {
+    if (config.signer) {
+      const { url, authTokenEnv, publicKey } = config.signer;
+      const authToken = authTokenEnv ? process.env[authTokenEnv] : undefined;
+      if (authTokenEnv && !authToken) {
+        throw new Error(`Cannot reach the signer for agent ${config.id}: ${authTokenEnv} is not set.`);
+      }
+      return connectRemoteSigner(url, {
+        authToken,
+        publicKey: publicKey ? new PublicKey(publicKey) : undefined,
+      });
+    }
+
     const password = passedPassword ?? process.env['WALLET_PASSWORD'];
 
     // In test/dev environments, allow loading from env var
@@ -157,18 +248,29 @@ export class MultiAgentManager {
       ?? (this.configs.length === 1 ? process.env['WALLET_SECRET_KEY'] : undefined);
 
     if (envKey) {
-      return loadFromEnv(envKey);
+      return envSigner(envKey);
+    }
+
+    if (this.sessionSocketPath) {
+      const session = await connectSession(
+        this.sessionSocketPath,
+        new PublicKey(getPublicKeyFromKeystore(config.keystorePath)),
+      );
+      if (session) {
+        this.logger.info({ agentId: config.id }, 'Signing through the unlock session');
+        return session;
+      }
     }
 
     if (!password) {
       throw new Error(
         `Cannot load wallet for agent ${config.id}: ` +
         `WALLET_PASSWORD env var is not set and no WALLET_SECRET_KEY_${config.id.toUpperCase()} found. ` +
-        `Set WALLET_PASSWORD or pass --password to the CLI.`,
+        `Run \`agentw unlock\`, set WALLET_PASSWORD or pass --password to the CLI.`,
       );
     }
 
-    return loadKeystore(config.keystorePath, password);
+    return keystoreSigner(config.keystorePath, password, { upgrade: true });
   }
 }
 
@@ -177,17 +279,81 @@ export class MultiAgentManager {
 import * as fs from 'node:fs';
 import { z } from 'zod';
 
+const limitsSchema = z.object({
+  maxPerTxSol: z.number().positive().optional(),
+  maxSessionSol: z.number().positive().optional(),
+  // Also accept lamport bigint strings for precision
+  maxPerTxLamports: z.union([z.string(), z.number()]).optional(),
+  maxSessionLamports: z.union([z.string(), z.number()]).optional(),
+  // Durable windows — survive restarts via the audit DB ledger
+  maxRolling24hSol: z.number().positive().optional(),
+  maxRolling24hLamports: z.union([z.string(), z.number()]).optional(),
+  maxDailySol: z.number().positive().optional(),
+  maxDailyLamports: z.union([z.string(), z.number()]).optional(),
+  maxLifetimeSol: z.number().positive().optional(),
+  maxLifetimeLamports: z.union([z.string(), z.number()]).optional(),
+  // Network fees the session may pay; they also count toward the caps above
+  maxSessionFeesSol: z.number().positive().optional(),
+  maxSessionFeesLamports: z.union([z.string(), z.number()]).optional(),
+  // Per-mint caps in raw base units, keyed by base58 mint address
+  maxPerTxByMint: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+  maxSessionByMint: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+  // USD caps, priced at signing time via the Jupiter price oracle
+  maxPerTxUsd: z.number().positive().optional(),
+  maxSessionUsd: z.number().positive().optional(),
+  maxPriceAgeSec: z.number().positive().optional(),
+  // Opaque programs this agent may invoke; replaces the default allowlist
+  allowedPrograms: z.array(z.string().min(32)).optional(),
+  // Dangerous instruction kinds this agent may sign despite the built-in denylist
+  allowedInstructions: z.array(z.enum(['approve', 'setAuthority', 'closeAccount', 'assign'])).optional(),
+});
+
+const priorityFeeSchema = z.object({
+  percentile: z.number().min(0).max(100).optional(),
+  minMicroLamports: z.number().int().nonnegative().optional(),
+  maxMicroLamports: z.number().int().nonnegative().optional(),
+  maxFeeSol: z.number().nonnegative().optional(),
+  maxFeeLamports: z.union([z.string(), z.number()]).optional(),
+  computeUnitMargin: z.number().nonnegative().optional(),
+});
+
 const agentConfigSchema = z.object({
   id: z.string().min(1),
   keystorePath: z.string().min(1),
   intervalMs: z.number().positive(),
-  limits: z.object({
-    maxPerTxSol: z.number().positive().optional(),
-    maxSessionSol: z.number().positive().optional(),
-    // Also accept lamport bigint strings for precision
-    maxPerTxLamports: z.union([z.string(), z.number()]).optional(),
-    maxSessionLamports: z.union([z.string(), z.number()]).optional(),
-  }),
+  pauseOnBalanceAnomaly: z.boolean().optional(),
+  useDurableNonce: z.boolean().optional(),
+  // Actions above this SOL value wait in the approval queue for a human
+  approvalThresholdSol: z.number().positive().optional(),
+  approvalThresholdLamports: z.union([z.string(), z.number()]).optional(),
+  approvalTtlSec: z.number().positive().optional(),
+  limits: limitsSchema,
+  // Mints reported to the strategy even at zero balance; replaces TRACKED_MINTS
+  trackedMints: z.array(z.string().min(32)).optional(),
+  // Address lookup tables from `agentw wallet alt create`
+  lookupTables: z.array(z.string().min(32)).optional(),
+  // Remote signer that holds this agent's key instead of keystorePath
+  signer: z.object({
+    url: z.string().min(1),
+    authTokenEnv: z.string().min(1).optional(),
+    publicKey: z.string().min(32).optional(),
+  }).optional(),
+  // Second keystore that co-signs high-value transactions
+  guardian: z.object({
+    keystorePath: z.string().min(1),
+    socketPath: z.string().min(1).optional(),
+    thresholdSol: z.number().nonnegative().optional(),
+    thresholdLamports: z.union([z.string(), z.number()]).optional(),
+    limits: limitsSchema,
+  }).optional(),
+  // Priority-fee estimation; maxFeeSol / maxFeeLamports caps each transaction's priority fee
+  priorityFee: priorityFeeSchema.optional(),
+  // Halt the agent until `agentw agent resume` when any of these trip
+  circuitBreaker: z.object({
+    maxConsecutiveFailures: z.number().int().positive().optional(),
+    maxBalanceDropPct: z.number().positive().max(100).optional(),
+    balanceDropWindowSec: z.number().positive().optional(),
+  }).optional(),
 });
 
 const SOL_TO_LAMPORTS = 1_000_000_000n;
@@ -206,23 +372,93 @@ export function loadAgentConfigs(configPath: string): AgentConfig[] {
       throw new Error(`agents.json[${i}] is invalid: ${parsed.error.message}`);
     }
 
-    const { limits } = parsed.data;
+    const {
+      limits, approvalThresholdSol, approvalThresholdLamports, approvalTtlSec, guardian, circuitBreaker, priorityFee,
+      ...agent
+    } = parsed.data;
+
+    const config: AgentConfig = { ...agent, limits: toSpendingLimits(limits) };
+    const trackedMints = agent.trackedMints ?? defaultTrackedMints();
+    if (trackedMints.length > 0) config.trackedMints = trackedMints;
+    const threshold = optionalLamports(approvalThresholdLamports, approvalThresholdSol);
+    if (threshold !== undefined) config.approvalThresholdLamports = threshold;
+    if (approvalTtlSec !== undefined) config.approvalTtlMs = approvalTtlSec * 1_000;
+    if (guardian) {
+      config.guardian = {
+        keystorePath: guardian.keystorePath,
+        socketPath: guardian.socketPath,
+        thresholdLamports: optionalLamports(guardian.thresholdLamports, guardian.thresholdSol) ?? 0n,
+        limits: toSpendingLimits(guardian.limits),
+      };
+    }
+    if (priorityFee) config.priorityFee = toPriorityFeeConfig(priorityFee);
+    if (circuitBreaker) {
+      const { balanceDropWindowSec, ...breaker } = circuitBreaker;
+      config.circuitBreaker = { ...breaker };
+      if (balanceDropWindowSec !== undefined) config.circuitBreaker.balanceDropWindowMs = balanceDropWindowSec * 1_000;
+    }
+    return config;
+  });
+}
+
+/** Comma-separated TRACKED_MINTS, the fleet-wide default for `trackedMints`. */
+function defaultTrackedMints(): string[] {
+  return (process.env['TRACKED_MINTS'] ?? '').split(',').map((m) => m.trim()).filter(Boolean);
+}
 
-    // Convert SOL values to lamports bigints
-    const maxPerTxLamports = limits.maxPerTxLamports
-      ? BigInt(String(limits.maxPerTxLamports))
-      : BigInt(Math.round((limits.maxPerTxSol ?? 0.1) * Number(SOL_TO_LAMPORTS)));
+/** Converts the JSON limits block (SOL or lamport values) to SpendingLimits. */
+function toSpendingLimits(limits: z.infer<typeof limitsSchema>): SpendingLimits {
+  // Convert SOL values to lamports bigints
+  const maxPerTxLamports = limits.maxPerTxLamports
+    ? BigInt(String(limits.maxPerTxLamports))
+    : BigInt(Math.round((limits.maxPerTxSol ?? 0.1) * Number(SOL_TO_LAMPORTS)));
+
+  const maxSessionLamports = limits.maxSessionLamports
+    ? BigInt(String(limits.maxSessionLamports))
+    : BigInt(Math.round((limits.maxSessionSol ?? 1.0) * Number(SOL_TO_LAMPORTS)));
+
+  const spendingLimits: SpendingLimits = { maxPerTxLamports, maxSessionLamports };
+
+  const maxRolling24hLamports = optionalLamports(limits.maxRolling24hLamports, limits.maxRolling24hSol);
+  if (maxRolling24hLamports !== undefined) spendingLimits.maxRolling24hLamports = maxRolling24hLamports;
+  const maxDailyLamports = optionalLamports(limits.maxDailyLamports, limits.maxDailySol);
+  if (maxDailyLamports !== undefined) spendingLimits.maxDailyLamports = maxDailyLamports;
+  const maxLifetimeLamports = optionalLamports(limits.maxLifetimeLamports, limits.maxLifetimeSol);
+  if (maxLifetimeLamports !== undefined) spendingLimits.maxLifetimeLamports = maxLifetimeLamports;
+  const maxSessionFeesLamports = optionalLamports(limits.maxSessionFeesLamports, limits.maxSessionFeesSol);
+  if (maxSessionFeesLamports !== undefined) spendingLimits.maxSessionFeesLamports = maxSessionFeesLamports;
+  if (limits.maxPerTxByMint) spendingLimits.maxPerTxByMint = mintCaps(limits.maxPerTxByMint);
+  if (limits.maxSessionByMint) spendingLimits.maxSessionByMint = mintCaps(limits.maxSessionByMint);
+  if (limits.maxPerTxUsd !== undefined) spendingLimits.maxPerTxUsd = limits.maxPerTxUsd;
+  if (limits.maxSessionUsd !== undefined) spendingLimits.maxSessionUsd = limits.maxSessionUsd;
+  if (limits.maxPriceAgeSec !== undefined) spendingLimits.maxPriceAgeSec = limits.maxPriceAgeSec;
+  if (limits.allowedPrograms) spendingLimits.allowedPrograms = limits.allowedPrograms;
+  if (limits.allowedInstructions) spendingLimits.allowedInstructions = limits.allowedInstructions;
+
+  return spendingLimits;
+}
 
-    const maxSessionLamports = limits.maxSessionLamports
-      ? BigInt(String(limits.maxSessionLamports))
-      : BigInt(Math.round((limits.maxSessionSol ?? 1.0) * Number(SOL_TO_LAMPORTS)));
+/** Converts the JSON priorityFee block (SOL or lamport ceiling) to PriorityFeeConfig. */
+function toPriorityFeeConfig(fee: z.infer<typeof priorityFeeSchema>): PriorityFeeConfig {
+  const config: PriorityFeeConfig = {};
+  if (fee.percentile !== undefined) config.percentile = fee.percentile;
+  if (fee.minMicroLamports !== undefined) config.minMicroLamports = fee.minMicroLamports;
+  if (fee.maxMicroLamports !== undefined) config.maxMicroLamports = fee.maxMicroLamports;
+  const maxFeeLamports = optionalLamports(fee.maxFeeLamports, fee.maxFeeSol);
+  if (maxFeeLamports !== undefined) config.maxFeeLamports = maxFeeLamports;
+  if (fee.computeUnitMargin !== undefined) config.computeUnitMargin = fee.computeUnitMargin;
+  return config;
+}
 
-    return {
-      ...parsed.data,
-      limits: {
-        maxPerTxLamports,
-        maxSessionLamports,
-      },
-    } satisfies AgentConfig;
-  });
+/** Lamport values take precedence over SOL values; returns undefined when neither is set. */
+function optionalLamports(lamports?: string | number, sol?: number): bigint | undefined {
+  if (lamports !== undefined) return BigInt(String(lamports));
+  if (sol !== undefined) return BigInt(Math.round(sol * Number(SOL_TO_LAMPORTS)));
+  return undefined;
+}
+
+function mintCaps(raw: Record<string, string | number>): Record<string, bigint> {
+  return Object.fromEntries(
+    Object.entries(raw).map(([mint, amount]) => [mint, BigInt(String(amount))]),
+  );
 }
@@ -0,0 +1,319 @@
+/**
+ * @file src/agent/pnl.ts
+ *
+ * Portfolio valuation and profit-and-loss per agent.
+ *
+ * AgentLoop values the wallet (SOL plus every token) at the start of each
+ * tick and records a PortfolioSnapshot in the audit DB. computePnl() replays
+ * the agent's confirmed transactions between the first and last snapshot of
+ * a window with average-cost accounting:
+ *
+ *   - A swap realises (value of what was sold − its cost basis) and gives the
+ *     bought asset a basis equal to that value. Trades are priced from the
+ *     snapshot taken just before them.
+ *   - Network fees spend SOL; the basis of that SOL is a realised loss.
+ *   - Transfers out remove basis without realising anything: moving funds
+ *     away is not a loss.
+ *   - Any change a snapshot shows that the replayed transactions do not
+ *     explain is an external flow. An inflow (deposit, airdrop) is a
+ *     contribution with a basis equal to its value then; an outflow is a
+ *     withdrawal, removed at average cost. Neither is profit or loss.
+ *   - Unrealised PnL is each holding's value in the last snapshot minus its
+ *     remaining basis.
+ *
+ * Holdings without a price are listed in `unpricedMints` and left out.
+ */
+
+import type { AuditDb, AuditRow, PortfolioHolding, PortfolioSnapshot } from '../logger/audit.js';
+import type { PriceOracle } from '../wallet/types.js';
+import type { AgentState } from './types.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** SOL is valued, and tracked, under the WSOL mint. */
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SOL_DECIMALS = 9;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PositionPnl {
+  mint: string;
+  symbol?: string;
+  /** Raw base units held at the end of the window. */
+  amount: bigint;
+  decimals: number;
+  valueUsd: number;
+  costBasisUsd: number;
+  unrealisedUsd: number;
+}
+
+export interface PnlReport {
+  agentId: string;
+  /** Timestamps of the first and last snapshot used, or null with no snapshots. */
+  from: string | null;
+  to: string | null;
+  startValueUsd: number | null;
+  endValueUsd: number | null;
+  realisedUsd: number;
+  unrealisedUsd: number;
+  /** realisedUsd + unrealisedUsd. */
+  netPnlUsd: number;
+  feesLamports: bigint;
+  /** Fees valued at the SOL price when each was paid. */
+  feesUsd: number;
+  transfersOutUsd: number;
+  /** External inflows, valued when a snapshot first showed them. */
+  contributionsUsd: number;
+  /** External outflows, valued when a snapshot first showed them. */
+  withdrawalsUsd: number;
+  /** Confirmed transactions replayed. */
+  trades: number;
+  snapshots: number;
+  positions: PositionPnl[];
+  unpricedMints: string[];
+}
+
+interface Position {
+  amount: bigint;
+  basisUsd: number;
+}
+
+// ── Valuation ─────────────────────────────────────────────────────────────────
+
+/**
+ * Values `state` with one `oracle.getPrices` call. WSOL token balances are
+ * folded into SOL.
+ */
+export async function valuePortfolio(state: AgentState, oracle: PriceOracle): Promise<PortfolioSnapshot> {
+  let lamports = state.solBalance;
+  const tokens = [...state.tokenBalances.values()].filter((t) => {
+    if (t.mint !== SOL_MINT) return true;
+    lamports += t.amount;
+    return false;
+  });
+
+  const prices = await oracle.getPrices([SOL_MINT, ...tokens.map((t) => t.mint)]);
+  const priceOf = (mint: string): number | null => prices.get(mint)?.priceUsd ?? null;
+
+  const holdings: PortfolioHolding[] = [
+    { mint: SOL_MINT, symbol: 'SOL', amount: lamports, decimals: SOL_DECIMALS, priceUsd: priceOf(SOL_MINT) },
+    ...tokens.map((t) => {
+      const holding: PortfolioHolding = { mint: t.mint, amount: t.amount, decimals: t.decimals, priceUsd: priceOf(t.mint) };
+      if (t.symbol !== undefined) holding.symbol = t.symbol;
+      return holding;
+    }),
+  ];
+
+  return {
+    ts: new Date(state.snapshotAt).toISOString(),
+    agentId: state.agentId,
+    walletPk: state.walletPubkey,
+    holdings,
+    valueUsd: holdings.reduce((sum, h) => sum + (holdingValue(h) ?? 0), 0),
+  };
+}
+
+function holdingValue(h: PortfolioHolding): number | null {
+  return h.priceUsd === null ? null : toUi(h.amount, h.decimals) * h.priceUsd;
+}
+
+function toUi(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+// ── PnL ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Computes PnL from `snapshots` (any order) and the agent's `tx_confirmed`
+ * rows. Only transactions between the first and last snapshot count.
+ */
+export function computePnl(agentId: string, snapshots: PortfolioSnapshot[], txRows: AuditRow[]): PnlReport {
+  const sorted = [...snapshots].sort((a, b) => a.ts.localeCompare(b.ts));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const report: PnlReport = {
+    agentId,
+    from: first?.ts ?? null,
+    to: last?.ts ?? null,
+    startValueUsd: first?.valueUsd ?? null,
+    endValueUsd: last?.valueUsd ?? null,
+    realisedUsd: 0,
+    unrealisedUsd: 0,
+    netPnlUsd: 0,
+    feesLamports: 0n,
+    feesUsd: 0,
+    transfersOutUsd: 0,
+    contributionsUsd: 0,
+    withdrawalsUsd: 0,
+    trades: 0,
+    snapshots: sorted.length,
+    positions: [],
+    unpricedMints: [],
+  };
+  if (!first || !last) return report;
+
+  // Opening positions carry their starting value as basis
+  const positions = new Map<string, Position>();
+  for (const h of first.holdings) {
+    positions.set(h.mint, { amount: h.amount, basisUsd: holdingValue(h) ?? 0 });
+  }
+
+  const decimalsOf = new Map<string, number>();
+  for (const s of sorted) for (const h of s.holdings) decimalsOf.set(h.mint, h.decimals);
+
+  /** Price of `mint` in the latest snapshot at or before `ts`. */
+  const priceAt = (mint: string, ts: string): number | null => {
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const s = sorted[i]!;
+      if (s.ts > ts) continue;
+      const price = s.holdings.find((h) => h.mint === mint)?.priceUsd;
+      if (price !== undefined && price !== null) return price;
+    }
+    return null;
+  };
+  const valueAt = (mint: string, amount: bigint, ts: string): number | null => {
+    const price = priceAt(mint, ts);
+    return price === null ? null : toUi(amount, decimalsOf.get(mint) ?? 0) * price;
+  };
+
+  /** Removes `amount` from a position at average cost; returns the basis removed. */
+  const dispose = (mint: string, amount: bigint): number => {
+    const pos = positions.get(mint);
+    if (!pos || pos.amount <= 0n || amount <= 0n) return 0;
+    const taken = amount < pos.amount ? amount : pos.amount;
+    const basis = pos.basisUsd * (Number(taken) / Number(pos.amount));
+    pos.amount -= taken;
+    pos.basisUsd -= basis;
+    return basis;
+  };
+  const acquire = (mint: string, amount: bigint, basisUsd: number): void => {
+    const pos = positions.get(mint) ?? { amount: 0n, basisUsd: 0 };
+    pos.amount += amount;
+    pos.basisUsd += basisUsd;
+    positions.set(mint, pos);
+  };
+
+  /** Books what `snapshot` holds beyond, or short of, the replayed positions as external flows. */
+  const reconcile = (snapshot: PortfolioSnapshot): void => {
+    const held = new Map(snapshot.holdings.map((h) => [h.mint, h]));
+    for (const mint of new Set([...positions.keys(), ...held.keys()])) {
+      const h = held.get(mint);
+      const diff = (h?.amount ?? 0n) - (positions.get(mint)?.amount ?? 0n);
+      if (diff > 0n) {
+        const valueUsd = valueAt(mint, diff, snapshot.ts);
+        report.contributionsUsd += valueUsd ?? 0;
+        acquire(mint, diff, valueUsd ?? 0);
+      } else if (diff < 0n) {
+        const basis = dispose(mint, -diff);
+        report.withdrawalsUsd += valueAt(mint, -diff, snapshot.ts) ?? basis;
+      }
+    }
+  };
+
+  const trades = txRows
+    .filter((r) => r.event === 'tx_confirmed' && r.ts >= first.ts && r.ts <= last.ts)
+    .sort((a, b) => a.ts.localeCompare(b.ts));
+
+  // Each snapshot after the first is reconciled once the trades before it are replayed
+  let next = 1;
+  for (const row of trades) {
+    while (next < sorted.length && sorted[next]!.ts < row.ts) reconcile(sorted[next++]!);
+
+    let details: Record<string, unknown>;
+    try {
+      details = JSON.parse(row.details_json) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+    report.trades++;
+
+    const fee = optionalBigInt(details['feeLamports']);
+    if (fee !== undefined && fee > 0n) {
+      report.feesLamports += fee;
+      report.feesUsd += valueAt(SOL_MINT, fee, row.ts) ?? 0;
+      report.realisedUsd -= dispose(SOL_MINT, fee);
+    }
+
+    const swap = details['swap'] as Record<string, unknown> | undefined;
+    if (swap) {
+      const inputMint = String(swap['inputMint']);
+      const outputMint = String(swap['outputMint']);
+      const inAmount = optionalBigInt(swap['inAmount']) ?? 0n;
+      const outAmount = optionalBigInt(swap['outAmount']) ?? 0n;
+      const tradeUsd = valueAt(inputMint, inAmount, row.ts) ?? valueAt(outputMint, outAmount, row.ts);
+
+      const basis = dispose(inputMint, inAmount);
+      if (tradeUsd !== null) report.realisedUsd += tradeUsd - basis;
+      // An unpriced trade carries the sold basis across rather than inventing a value
+      acquire(outputMint, outAmount, tradeUsd ?? basis);
+      continue;
+    }
+
+    if (details['action'] === 'transfer') {
+      const params = details['params'] as Record<string, unknown> | undefined;
+      const lamports = optionalBigInt(params?.['lamports']) ?? 0n;
+      const basis = dispose(SOL_MINT, lamports);
+      report.transfersOutUsd += valueAt(SOL_MINT, lamports, row.ts) ?? basis;
+    }
+  }
+  while (next < sorted.length) reconcile(sorted[next++]!);
+
+  for (const h of last.holdings) {
+    const valueUsd = holdingValue(h);
+    if (valueUsd === null) {
+      if (h.amount > 0n) report.unpricedMints.push(h.mint);
+      continue;
+    }
+    const costBasisUsd = positions.get(h.mint)?.basisUsd ?? 0;
+    const position: PositionPnl = {
+      mint: h.mint,
+      amount: h.amount,
+      decimals: h.decimals,
+      valueUsd,
+      costBasisUsd,
+      unrealisedUsd: valueUsd - costBasisUsd,
+    };
+    if (h.symbol !== undefined) position.symbol = h.symbol;
+    report.positions.push(position);
+    report.unrealisedUsd += position.unrealisedUsd;
+  }
+
+  report.netPnlUsd = report.realisedUsd + report.unrealisedUsd;
+  return report;
+}
+
+/** PnL for `agentId` from its snapshots and confirmed transactions since `since` (ISO). */
+export function getAgentPnl(db: AuditDb, agentId: string, since?: string): PnlReport {
+  const snapshots = db.listPortfolioSnapshots(agentId, since);
+  const txRows = db.query({
+    agentId,
+    event: 'tx_confirmed',
+    limit: Number.MAX_SAFE_INTEGER,
+    ...(snapshots[0] && { since: snapshots[0].ts }),
+  });
+  return computePnl(agentId, snapshots, txRows);
+}
+
+/**
+ * Parses a `--since` value: an ISO date, or a duration back from `now` such
+ * as `30m`, `24h` or `7d`. Returns an ISO timestamp.
+ */
+export function parseSince(value: string, now = Date.now()): string {
+  const duration = /^(\d+(?:\.\d+)?)([mhd])$/.exec(value.trim());
+  if (duration) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[duration[2] as 'm' | 'h' | 'd'];
+    return new Date(now - Number(duration[1]) * unitMs).toISOString();
+  }
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) throw new Error(`Invalid --since "${value}". Use an ISO date or a duration like 24h or 7d.`);
+  return new Date(ts).toISOString();
+}
+
+function optionalBigInt(value: unknown): bigint | undefined {
+  if (value === undefined || value === null) return undefined;
+  try {
+    return BigInt(String(value));
+  } catch {
+    return undefined;
+  }
+}
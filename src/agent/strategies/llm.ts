@@ -124,6 +124,7 @@ CAPABILITIES:
 2. Opportunistic Swapping: You may swap SOL for tokens (like USDC) to manage inventory for future LP, to take profits, or to rebalance your portfolio.
 3. Portfolio Rebalancing: Maintain healthy asset ratios to support active positions.
 4. Monitoring: Hold if market conditions or balances are unfavorable.
+5. Housekeeping: Close token accounts with a zero balance to reclaim their rent (about 0.002 SOL each).
 
 CURRENT BUDGET CONSTRAINTS:
 - Max per transaction: ${limitsSol.maxPerTx} SOL (${this.limits.maxPerTxLamports} lamports)
@@ -139,6 +140,7 @@ ACTION TYPES:
 - { "type": "swap", "params": { "inputMint": "string", "outputMint": "string", "amountIn": "string", "slippageBps": 100, "adapter": "jupiter"|"orca"|"best" }, "rationale": "string" }
 - { "type": "transfer", "params": { "to": "string", "lamports": "string" }, "rationale": "string" }
 - { "type": "provide_liquidity", "params": { "amountSolLamports": "string" }, "rationale": "string" }
+- { "type": "close_accounts", "params": { "mints": ["string"] }, "rationale": "string" }  (omit "mints" to close every empty account)
 - { "type": "noop", "params": {}, "rationale": "string" }
 
 RULES:
@@ -147,7 +149,8 @@ RULES:
 - Prioritize Yield: Your mission is to maximize fee generation through LP.
 - Strategic Swapping: While LP is the goal, feel free to swap to acquire tokens if you believe it improves long-term portfolio performance or prepares the wallet for dual-sided positions.
 - Always provide a clear, technical rationale explaining your decision.
-- All amounts must be strings representing BigInt (lamports/atoms).`;
+- All amounts must be strings representing BigInt (lamports/atoms).
+- tokenBalances lists every token you hold; "amount" is in atoms and "uiAmount" = amount / 10^decimals.`;
     }
 
     private buildUserMessage(state: AgentState): string {
@@ -161,7 +164,12 @@ RULES:
             ...state,
             solBalance: state.solBalance.toString(),
             tokenBalances: Object.fromEntries(
-                Array.from(state.tokenBalances.entries()).map(([k, v]) => [k, v.toString()])
+                Array.from(state.tokenBalances.entries()).map(([mint, t]) => [mint, {
+                    symbol: t.symbol ?? null,
+                    amount: t.amount.toString(),
+                    decimals: t.decimals,
+                    uiAmount: Number(t.amount) / 10 ** t.decimals,
+                }])
             ),
             lastActionAt: state.lastActionAt?.toISOString() || null,
             spendingStatus: {
@@ -5,7 +5,15 @@
  */
 
 import { Connection, Transaction, SystemProgram } from '@solana/web3.js';
-import type { Strategy, AgentState, Action, SwapActionParams, TransferActionParams, ProvideLiquidityActionParams } from '../types.js';
+import type {
+    Strategy,
+    AgentState,
+    Action,
+    SwapActionParams,
+    TransferActionParams,
+    ProvideLiquidityActionParams,
+    CloseAccountsActionParams,
+} from '../types.js';
 import type { WalletClient, TxResult } from '../../wallet/types.js';
 import type { AdapterRegistry } from '../../protocols/types.js';
 import { safePublicKey } from '../../utils.js';
@@ -40,6 +48,8 @@ export class UniversalStrategy implements Strategy {
                     return await this.executeTransfer(action.params as any, wallet);
                 case 'provide_liquidity':
                     return await this.executeProvideLiquidity(action.params as any, wallet);
+                case 'close_accounts':
+                    return await this.executeCloseAccounts(action.params as CloseAccountsActionParams, wallet);
                 default:
                     throw new Error(`UniversalStrategy: unknown action type '${action.type}'`);
             }
@@ -124,4 +134,27 @@ export class UniversalStrategy implements Strategy {
         // Self-transfer for LP simulation doesn't "spend" SOL from the session budget
         return await wallet.signAndSendTransaction(tx, 0n);
     }
+
+    /**
+     * Closes empty token accounts. Returns null when there were none, else
+     * the first transaction that did not confirm, or the last one.
+     */
+    private async executeCloseAccounts(
+        params: CloseAccountsActionParams,
+        wallet: WalletClient,
+    ): Promise<TxResult | null> {
+        const mints = Array.isArray(params.mints) ? params.mints.map((m) => safePublicKey(m)) : undefined;
+        const closed = await wallet.closeEmptyTokenAccounts(mints);
+        if (closed.length === 0) return null;
+
+        const refused = closed.find((c) => c.status !== 'confirmed');
+        if (refused) {
+            return {
+                signature: refused.signature,
+                status: refused.status === 'skipped' ? 'failed' : refused.status,
+                ...(refused.error !== undefined && { error: refused.error }),
+            };
+        }
+        return { signature: closed[closed.length - 1]!.signature, status: 'confirmed' };
+    }
 }
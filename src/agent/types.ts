@@ -8,7 +8,13 @@
  * agent layer can be tested with mock wallets and mock adapters.
  */
 
-import type { WalletClient, TxResult, SpendingLimits } from '../wallet/types.js';
+import type {
+  WalletClient,
+  TxResult,
+  SpendingLimits,
+  TokenHolding,
+  PriorityFeeConfig,
+} from '../wallet/types.js';
 import type { AdapterRegistry } from '../protocols/types.js';
 
 // ── Agent configuration (loaded from agents.json) ─────────────────────────────
@@ -25,6 +31,77 @@ export interface AgentConfig {
    * Stored as SOL numbers in agents.json, converted to lamports at load time.
    */
   limits: SpendingLimits;
+  /**
+   * Stop signing for this agent after a confirmed transaction moves more than
+   * it declared. The anomaly is audited either way.
+   */
+  pauseOnBalanceAnomaly?: boolean | undefined;
+  /**
+   * Send through the wallet's durable nonce account so retries never
+   * double-submit. Create it first with `agentw wallet nonce create`.
+   */
+  useDurableNonce?: boolean | undefined;
+  /**
+   * Actions worth more than this many lamports are queued for human approval
+   * instead of executed; so are SPL-input swaps the price oracle cannot value.
+   * Undefined means every action runs autonomously.
+   */
+  approvalThresholdLamports?: bigint | undefined;
+  /** How long a queued action stays approvable and executable, in ms. Defaults to 15 minutes. */
+  approvalTtlMs?: number | undefined;
+  /**
+   * Sign through a remote signer instead of loading `keystorePath`. The agent
+   * process then holds no key material.
+   */
+  signer?: RemoteSignerConfig | undefined;
+  /**
+   * Mints to report in AgentState even while the wallet holds none (base58).
+   * Held mints are always reported. Defaults to TRACKED_MINTS from the environment.
+   */
+  trackedMints?: string[] | undefined;
+  /**
+   * Address lookup tables (base58) the wallet compiles its transactions
+   * against. Create and fill them with `agentw wallet alt`.
+   */
+  lookupTables?: string[] | undefined;
+  /** Second keystore that must co-sign this agent's high-value transactions. */
+  guardian?: GuardianAgentConfig | undefined;
+  /** Conditions that halt this agent until `agentw agent resume`. */
+  circuitBreaker?: CircuitBreakerConfig | undefined;
+  /** Priority-fee percentile and ceilings. Estimation is always on; these tune it. */
+  priorityFee?: PriorityFeeConfig | undefined;
+}
+
+export interface CircuitBreakerConfig {
+  /** Trip after this many `tx_failed` / `limit_breach` ticks in a row. */
+  maxConsecutiveFailures?: number | undefined;
+  /** Trip when the SOL balance falls by this percentage (0–100) within `balanceDropWindowMs`. */
+  maxBalanceDropPct?: number | undefined;
+  /** Window for `maxBalanceDropPct`, in ms. Defaults to one hour. */
+  balanceDropWindowMs?: number | undefined;
+}
+
+export interface RemoteSignerConfig {
+  /** `http://host:port`, `https://host:port` or `unix:/path/to.sock` (see `agentw signer serve`). */
+  url: string;
+  /** Environment variable holding the signer's bearer token. */
+  authTokenEnv?: string | undefined;
+  /** Expected wallet address; the agent refuses a signer that reports another. */
+  publicKey?: string | undefined;
+}
+
+export interface GuardianAgentConfig {
+  /** Encrypted keystore holding the guardian key. */
+  keystorePath: string;
+  /**
+   * When set, the agent asks a guardian daemon (`agentw guardian start`) on
+   * this Unix socket instead of loading the keystore in-process.
+   */
+  socketPath?: string | undefined;
+  /** Spends above this many lamports, and all SPL spends, need the guardian. */
+  thresholdLamports: bigint;
+  /** The guardian's own limits, enforced independently of `AgentConfig.limits`. */
+  limits: SpendingLimits;
 }
 
 // ── Agent runtime state ───────────────────────────────────────────────────────
@@ -37,8 +114,11 @@ export interface AgentState {
   agentId: string;
   walletPubkey: string;
   solBalance: bigint;
-  /** Token balances keyed by mint address (base58). */
-  tokenBalances: Map<string, bigint>;
+  /**
+   * Every token the wallet holds plus its tracked mints, keyed by mint
+   * address (base58). Amounts are raw base units; divide by 10^decimals.
+   */
+  tokenBalances: Map<string, TokenHolding>;
   /** Timestamp of the last non-noop action, or null if no action yet. */
   lastActionAt: Date | null;
   /** Total ticks completed since agent start. */
@@ -62,9 +142,10 @@ export interface AgentState {
  * the intent into wallet/adapter calls.
  *
  * `noop` means the strategy decided to do nothing this tick.
+ * `close_accounts` reclaims the rent of empty token accounts.
  */
 export interface Action {
-  type: 'swap' | 'transfer' | 'provide_liquidity' | 'noop';
+  type: 'swap' | 'transfer' | 'provide_liquidity' | 'close_accounts' | 'noop';
   params: Record<string, unknown>;
   /** Human-readable explanation written to the audit log. */
   rationale: string;
@@ -87,6 +168,11 @@ export interface ProvideLiquidityActionParams {
   amountSolLamports: bigint;
 }
 
+export interface CloseAccountsActionParams {
+  /** Base58 mints whose empty accounts to close. Omit to close every empty account. */
+  mints?: string[];
+}
+
 // ── Strategy interface ────────────────────────────────────────────────────────
 
 /**
@@ -119,7 +205,7 @@ export interface Strategy {
 
 // ── Agent loop state (for observability) ─────────────────────────────────────
 
-export type AgentLoopStatus = 'idle' | 'running' | 'stopped' | 'error';
+export type AgentLoopStatus = 'idle' | 'running' | 'halted' | 'stopped' | 'error';
 
 export interface AgentLoopState {
   agentId: string;
@@ -7,26 +7,35 @@
  *   agentw agent start  --name <id> --strategy <s> [--interval <ms>]  # launch one
  *   agentw agent status [--name <id>]            # show live loop state
  *   agentw agent log    --name <id> [--last <n>] # query audit DB events
+ *   agentw agent pnl    --name <id> [--since <t>] # portfolio value and PnL
+ *   agentw agent resume --name <id> | --all      # clear a halt (see `agentw halt`)
  *
  * `agent start` is a long-running process. SIGINT/SIGTERM trigger manager.stop()
  * then process.exit(0). The audit DB is always flushed before exit.
  */
 
 import { Command } from 'commander';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
-import { Keypair } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import { env, spendingLimits } from '../../config/env.js';
 import { MultiAgentManager, loadAgentConfigs } from '../../agent/manager.js';
-import { createKeystore } from '../../wallet/keystore.js';
-import { AuditDb } from '../../logger/audit.js';
+import { createKeystore, createDerivedKeystore, getPublicKeyFromKeystore } from '../../wallet/keystore.js';
+import { getSessionStatus } from '../../wallet/session.js';
+import { MAX_HD_INDEX } from '../../wallet/hd.js';
+import { SpendingLimitGuard } from '../../wallet/limits.js';
+import { createJupiterPriceOracle } from '../../protocols/oracle.js';
+import { AuditDb, HALT_ALL, type AuditRow } from '../../logger/audit.js';
 import { createLogger } from '../../logger/logger.js';
+import { getAgentPnl, parseSince } from '../../agent/pnl.js';
 import {
   header, subheader, success, info, warn, kv, table,
   formatBalance, formatAuditRows, errorAndExit, fatalError, printLine, c,
-  spinner, promptPassword,
+  spinner, promptPassword, lamportsToSol, formatTokenBalance,
 } from '../output.js';
 import type { AgentConfig } from '../../agent/types.js';
+import type { SpendingLimits } from '../../wallet/types.js';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -38,6 +47,59 @@ function resolveConfigPath(flagPath?: string): string {
   return path.resolve(flagPath ?? env.AGENTS_CONFIG_PATH);
 }
 
+function tryLoadAgentConfigs(configPath: string): AgentConfig[] {
+  if (!fs.existsSync(configPath)) return [];
+  try {
+    return loadAgentConfigs(configPath);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Prints spend against each configured window and marks the binding one.
+ * Durable windows are rehydrated from the ledger exactly as a restarted agent
+ * would see them; session spend comes from the latest audit row.
+ */
+function printSpendWindows(db: AuditDb, agentId: string, latest: AuditRow, limits: SpendingLimits): void {
+  let guard: SpendingLimitGuard;
+  try {
+    guard = new SpendingLimitGuard(
+      limits,
+      db.getSpendLedger(agentId, latest.wallet_pk),
+      // Never queried here; USD caps just require an oracle to validate
+      createJupiterPriceOracle(new Connection(env.SOLANA_RPC_URL, 'confirmed')),
+    );
+  } catch {
+    return; // invalid limits config — nothing meaningful to show
+  }
+
+  let sessionSpend = 0n;
+  try {
+    const details = JSON.parse(latest.details_json) as Record<string, unknown>;
+    if (details['sessionSpend'] !== undefined) sessionSpend = BigInt(String(details['sessionSpend']));
+  } catch { /* keep 0 */ }
+
+  const windows = guard.getWindows().map((w) => {
+    if (w.window !== 'session') return w;
+    const remaining = w.cap - sessionSpend;
+    return { ...w, spent: sessionSpend, remaining: remaining > 0n ? remaining : 0n };
+  });
+  const binding = windows.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+
+  printLine('');
+  table(
+    ['Window', 'Spent (SOL)', 'Cap (SOL)', 'Remaining (SOL)', ''],
+    windows.map((w) => [
+      w.window,
+      lamportsToSol(w.spent),
+      lamportsToSol(w.cap),
+      lamportsToSol(w.remaining),
+      w === binding ? '← binding' : '',
+    ]),
+  );
+}
+
 // ── agent start ───────────────────────────────────────────────────────────────
 
 const startCmd = new Command('start')
@@ -104,12 +166,16 @@ const startCmd = new Command('start')
     info(`Agents:    ${configs!.length}`);
     printLine('');
 
-    const manager = new MultiAgentManager(configs!, logger, rpcUrl, dbPath);
+    const sessionSocketPath = path.resolve(env.SESSION_SOCKET_PATH);
+    const manager = new MultiAgentManager(configs!, logger, rpcUrl, dbPath, sessionSocketPath);
 
-    // Resolve password if in single-agent mode and not provided
+    // Resolve password if in single-agent mode and not provided or unlocked
     let password = opts.password;
     if (opts.name && !password && !env.WALLET_PASSWORD && process.stdin.isTTY) {
-      password = await promptPassword(`Password for agent "${opts.name}": `);
+      const session = await getSessionStatus(sessionSocketPath);
+      if (!session?.publicKeys.includes(getPublicKeyFromKeystore(configs![0]!.keystorePath))) {
+        password = await promptPassword(`Password for agent "${opts.name}": `);
+      }
     }
 
     // ── Graceful shutdown ───────────────────────────────────────────────────
@@ -163,8 +229,10 @@ const statusCmd = new Command('status')
   .description('Show the current state of agent loops (reads from audit DB)')
   .option('--name <id>', 'Filter to a single agent')
   .option('--db <path>', 'Audit DB path')
-  .action((opts: { name?: string; db?: string }) => {
+  .option('--config <path>', 'Path to agents.json (for spending limits)')
+  .action((opts: { name?: string; db?: string; config?: string }) => {
     const dbPath = resolveAuditDbPath(opts.db);
+    const agentConfigs = tryLoadAgentConfigs(resolveConfigPath(opts.config));
 
     if (!fs.existsSync(dbPath)) {
       info('No audit DB found — no agents have run yet.');
@@ -207,6 +275,9 @@ const statusCmd = new Command('status')
           if (recent[0].status) {
             info(`Last status: ${recent[0].status}`);
           }
+
+          const limits = agentConfigs.find((cfg) => cfg.id === agentId)?.limits ?? spendingLimits;
+          printSpendWindows(db, agentId, recent[0], limits);
         }
         printLine('');
       }
@@ -272,6 +343,88 @@ const logCmd = new Command('log')
     }
   });
 
+// ── agent pnl ─────────────────────────────────────────────────────────────────
+
+function formatUsd(value: number): string {
+  const text = `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  return value > 0 ? c.green(`+${text}`) : value < 0 ? c.red(text) : text;
+}
+
+const pnlCmd = new Command('pnl')
+  .description('Show portfolio value and realised/unrealised PnL from recorded snapshots')
+  .requiredOption('--name <id>', 'Agent ID')
+  .option('--since <time>', 'Window start: ISO date or duration like 24h or 7d (default: all history)')
+  .option('--db <path>', 'Audit DB path')
+  .option('--json', 'Output the report as JSON')
+  .action((opts: { name: string; since?: string; db?: string; json?: boolean }) => {
+    const dbPath = resolveAuditDbPath(opts.db);
+    if (!fs.existsSync(dbPath)) {
+      errorAndExit(`No audit DB found at ${dbPath}. No agents have run yet.`);
+    }
+
+    let since: string | undefined;
+    try {
+      since = opts.since !== undefined ? parseSince(opts.since) : undefined;
+    } catch (err) {
+      errorAndExit(err instanceof Error ? err.message : String(err));
+    }
+
+    const db = new AuditDb(dbPath);
+    try {
+      const report = getAgentPnl(db, opts.name, since);
+
+      if (opts.json) {
+        process.stdout.write(
+          JSON.stringify(report, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value), 2) + '\n',
+        );
+        return;
+      }
+
+      header(`PnL — ${opts.name}`);
+
+      if (report.snapshots === 0) {
+        info(`No portfolio snapshots${since ? ` since ${since}` : ''}. Snapshots are recorded every tick while the agent runs.`);
+        printLine('');
+        return;
+      }
+
+      kv([
+        ['Window', `${report.from} → ${report.to}`],
+        ['Snapshots', String(report.snapshots)],
+        ['Start value', `$${report.startValueUsd!.toFixed(2)}`],
+        ['End value', `$${report.endValueUsd!.toFixed(2)}`],
+        ['Realised', formatUsd(report.realisedUsd)],
+        ['Unrealised', formatUsd(report.unrealisedUsd)],
+        ['Net PnL', c.bold(formatUsd(report.netPnlUsd))],
+        ['Fees paid', `${lamportsToSol(report.feesLamports, 9)} SOL ($${report.feesUsd.toFixed(4)})`],
+        ['Transfers out', `$${report.transfersOutUsd.toFixed(2)}`],
+        ['Deposits', `$${report.contributionsUsd.toFixed(2)}`],
+        ['Withdrawals', `$${report.withdrawalsUsd.toFixed(2)}`],
+        ['Transactions', String(report.trades)],
+      ]);
+
+      subheader('Positions');
+      table(
+        ['Asset', 'Amount', 'Value', 'Cost basis', 'Unrealised'],
+        report.positions.map((p) => [
+          p.symbol ?? p.mint,
+          formatTokenBalance(p.amount, p.decimals),
+          `$${p.valueUsd.toFixed(2)}`,
+          `$${p.costBasisUsd.toFixed(2)}`,
+          formatUsd(p.unrealisedUsd),
+        ]),
+      );
+
+      if (report.unpricedMints.length > 0) {
+        printLine('');
+        warn(`No price for ${report.unpricedMints.join(', ')} — excluded from PnL.`);
+      }
+      printLine('');
+    } finally {
+      db.close();
+    }
+  });
+
 // ── agent stop ────────────────────────────────────────────────────────────────
 
 const stopCmd = new Command('stop')
@@ -309,6 +462,53 @@ const stopCmd = new Command('stop')
     }
   });
 
+// ── agent resume ──────────────────────────────────────────────────────────────
+
+const resumeCmd = new Command('resume')
+  .description('Clear a manual halt or tripped circuit breaker (audited)')
+  .option('--name <id>', 'Agent ID to resume')
+  .option('--all', 'Clear the global halt raised by `agentw halt --all`')
+  .option('--by <who>', 'Recorded as the operator in the audit log')
+  .option('--db <path>', 'Audit DB path')
+  .action((opts: { name?: string; all?: boolean; by?: string; db?: string }) => {
+    if (opts.all === (opts.name !== undefined)) {
+      errorAndExit('Pass exactly one of --all or --name <id>.');
+    }
+
+    const dbPath = resolveAuditDbPath(opts.db);
+    if (!fs.existsSync(dbPath)) {
+      errorAndExit(`No audit DB found at ${dbPath}. Nothing is halted.`);
+    }
+
+    const db = new AuditDb(dbPath);
+    try {
+      const target = opts.name ?? HALT_ALL;
+      header(opts.all ? 'Resuming All Agents' : `Resuming Agent: ${opts.name}`);
+
+      const cleared = db.resume(target, opts.by ?? `cli:${os.userInfo().username}`);
+      if (cleared.length === 0) {
+        info(opts.all ? 'No global halt is active.' : `Agent "${opts.name}" has no halt of its own.`);
+      } else {
+        for (const halt of cleared) {
+          success(`Cleared halt #${halt.id} (${halt.source}): ${halt.reason}`);
+        }
+      }
+
+      // A global halt still blocks an agent whose own halt was just cleared
+      if (opts.name) {
+        const remaining = db.getActiveHalt(opts.name);
+        if (remaining) {
+          warn(`Still halted by global halt #${remaining.id}. Run \`agentw agent resume --all\` to clear it.`);
+        } else if (cleared.length > 0) {
+          info('The agent resumes on its next tick.');
+        }
+      }
+      printLine('');
+    } finally {
+      db.close();
+    }
+  });
+
 // ── agent create ──────────────────────────────────────────────────────────────
 
 const createCmd = new Command('create')
@@ -317,11 +517,15 @@ const createCmd = new Command('create')
   .option('--password <pass>', 'Encryption password (min 8 chars)')
   .option('--interval <ms>', 'Tick interval in ms', '30000')
   .option('--config <path>', 'Path to agents.json', 'agents.json')
+  .option('--hd-index <n>', "Derive the wallet at m/44'/501'/<n>'/0' from an HD master instead of generating one")
+  .option('--master <master>', 'HD master name for --hd-index', 'master')
   .action(async (opts: {
     name: string;
     password?: string;
     interval: string;
     config: string;
+    hdIndex?: string;
+    master: string;
   }) => {
     const { name, config: configPath } = opts;
 
@@ -336,12 +540,25 @@ const createCmd = new Command('create')
       errorAndExit(`Keystore for agent "${name}" already exists at ${kpPath}.`);
     }
 
+    const hdIndex = opts.hdIndex === undefined ? undefined : Number(opts.hdIndex);
+    if (hdIndex !== undefined && (!Number.isInteger(hdIndex) || hdIndex < 0 || hdIndex > MAX_HD_INDEX)) {
+      errorAndExit(`--hd-index must be an integer from 0 to ${MAX_HD_INDEX}.`);
+    }
+    const masterPath = path.join(keystoresDir, `${opts.master}.master.json`);
+    if (hdIndex !== undefined && !fs.existsSync(masterPath)) {
+      errorAndExit(`HD master "${opts.master}" not found. Run: agentw wallet master --name ${opts.master}`);
+    }
+
     let password = opts.password || env.WALLET_PASSWORD;
     if (!password) {
       if (!process.stdin.isTTY) {
         errorAndExit('No password provided. Set --password, WALLET_PASSWORD env var, or run interactively.');
       }
-      password = await promptPassword(`New password for agent "${name}" (min 8 chars): `);
+      password = await promptPassword(
+        hdIndex === undefined
+          ? `New password for agent "${name}" (min 8 chars): `
+          : `Password for HD master "${opts.master}": `,
+      );
     }
 
     if (password.length < 8) {
@@ -350,13 +567,17 @@ const createCmd = new Command('create')
 
     header(`Creating Agent: ${name}`);
 
-    const spin = spinner('Generating keypair and encrypting keystore…');
-    const keypair = Keypair.generate();
+    let publicKey: string;
+    const spin = spinner(hdIndex === undefined
+      ? 'Generating keypair and encrypting keystore…'
+      : 'Decrypting master and deriving keypair…');
     try {
-      createKeystore(keypair, password, kpPath);
+      publicKey = hdIndex === undefined
+        ? createKeystore(Keypair.generate(), password, kpPath).publicKey
+        : createDerivedKeystore(masterPath, password, hdIndex, kpPath).publicKey;
     } catch (err) {
       spin.stop();
-      fatalError(err, 'createKeystore');
+      fatalError(err, hdIndex === undefined ? 'createKeystore' : 'createDerivedKeystore');
     }
     spin.stop();
 
@@ -395,7 +616,7 @@ const createCmd = new Command('create')
     printLine('');
     kv([
       ['Agent ID', name],
-      ['Public Key', keypair.publicKey.toBase58()],
+      ['Public Key', publicKey],
       ['Config', fullConfigPath],
     ]);
     printLine('');
@@ -410,5 +631,7 @@ export const agentCommand = new Command('agent')
   .addCommand(startCmd)
   .addCommand(statusCmd)
   .addCommand(logCmd)
+  .addCommand(pnlCmd)
   .addCommand(stopCmd)
+  .addCommand(resumeCmd)
   .addCommand(createCmd);
@@ -0,0 +1,147 @@
+/**
+ * @file src/cli/commands/approvals.ts
+ *
+ * Approval queue subcommand group:
+ *
+ *   agentw approvals list    [--name <id>] [--status <s>]  # show queued actions
+ *   agentw approvals approve <id> [--by <who>]            # let the agent execute it
+ *   agentw approvals reject  <id> [--by <who>]            # discard it
+ *
+ * Agents with `approvalThresholdLamports` queue larger actions in the audit
+ * DB instead of executing them. Decisions are written to the same DB, so
+ * these commands work against a running `agent start` process. An approved
+ * action runs on the agent's next tick, provided it has not expired.
+ */
+
+import { Command } from 'commander';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { env } from '../../config/env.js';
+import { AuditDb, type ApprovalStatus } from '../../logger/audit.js';
+import {
+  header, success, info, kv, table, errorAndExit, printLine, lamportsToSol,
+} from '../output.js';
+
+const STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired', 'executed'];
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function openDb(flagPath?: string): AuditDb {
+  const dbPath = path.resolve(flagPath ?? env.AUDIT_DB_PATH);
+  if (!fs.existsSync(dbPath)) {
+    errorAndExit(`No audit DB found at ${dbPath}. No agents have run yet.`);
+  }
+  return new AuditDb(dbPath);
+}
+
+function parseId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) errorAndExit(`Invalid approval id: ${raw}`);
+  return id;
+}
+
+function decide(decision: 'approved' | 'rejected') {
+  return (rawId: string, opts: { by?: string; db?: string }): void => {
+    const id = parseId(rawId);
+    const db = openDb(opts.db);
+    try {
+      let row;
+      try {
+        row = db.decideApproval(id, decision, opts.by ?? `cli:${os.userInfo().username}`);
+      } catch (err) {
+        errorAndExit(err instanceof Error ? err.message : String(err));
+      }
+
+      success(`Approval #${id} ${decision}.`);
+      kv([
+        ['Agent', row.agent_id],
+        ['Action', row.action_type],
+        ['Amount', `${lamportsToSol(BigInt(row.lamports))} SOL`],
+        ['Expires', new Date(row.expires_at).toLocaleString()],
+      ]);
+      if (decision === 'approved') {
+        info('The agent will execute it on its next tick if it has not expired by then.');
+      }
+      printLine('');
+    } finally {
+      db.close();
+    }
+  };
+}
+
+// ── approvals list ────────────────────────────────────────────────────────────
+
+const listCmd = new Command('list')
+  .description('List queued actions (pending by default)')
+  .option('--name <id>', 'Filter by agent ID')
+  .option('--status <status>', `One of: ${STATUSES.join(', ')}, all`, 'pending')
+  .option('--db <path>', 'Audit DB path')
+  .option('--json', 'Output raw JSON (one object per line)')
+  .action((opts: { name?: string; status: string; db?: string; json?: boolean }) => {
+    if (opts.status !== 'all' && !STATUSES.includes(opts.status as ApprovalStatus)) {
+      errorAndExit(`Unknown status "${opts.status}".`);
+    }
+
+    const db = openDb(opts.db);
+    try {
+      const query: { agentId?: string; status?: ApprovalStatus } = {};
+      if (opts.name) query.agentId = opts.name;
+      if (opts.status !== 'all') query.status = opts.status as ApprovalStatus;
+      const rows = db.listApprovals(query);
+
+      if (opts.json) {
+        for (const row of rows) {
+          process.stdout.write(JSON.stringify(row) + '\n');
+        }
+        return;
+      }
+
+      header(`Approvals${opts.name ? ` — ${opts.name}` : ''}`);
+      if (rows.length === 0) {
+        info(`No ${opts.status === 'all' ? '' : `${opts.status} `}approvals.`);
+        printLine('');
+        return;
+      }
+
+      table(
+        ['ID', 'Agent', 'Action', 'Amount (SOL)', 'Status', 'Expires', 'Rationale'],
+        rows.map((r) => [
+          String(r.id),
+          r.agent_id,
+          r.action_type,
+          lamportsToSol(BigInt(r.lamports)),
+          r.status,
+          new Date(r.expires_at).toLocaleTimeString(),
+          r.rationale.length > 40 ? `${r.rationale.slice(0, 39)}…` : r.rationale,
+        ]),
+      );
+      printLine('');
+    } finally {
+      db.close();
+    }
+  });
+
+// ── approvals approve / reject ────────────────────────────────────────────────
+
+const approveCmd = new Command('approve')
+  .description('Approve a pending action')
+  .argument('<id>', 'Approval ID (see `approvals list`)')
+  .option('--by <who>', 'Recorded as the approver in the audit log')
+  .option('--db <path>', 'Audit DB path')
+  .action(decide('approved'));
+
+const rejectCmd = new Command('reject')
+  .description('Reject a pending action')
+  .argument('<id>', 'Approval ID (see `approvals list`)')
+  .option('--by <who>', 'Recorded as the rejecter in the audit log')
+  .option('--db <path>', 'Audit DB path')
+  .action(decide('rejected'));
+
+// ── approvals command group ───────────────────────────────────────────────────
+
+export const approvalsCommand = new Command('approvals')
+  .description('Review actions waiting for human approval')
+  .addCommand(listCmd)
+  .addCommand(approveCmd)
+  .addCommand(rejectCmd);
@@ -13,6 +13,8 @@ import { Command } from 'commander';
 import { createLogger } from '../../logger/index.js';
 import { MultiAgentManager, loadAgentConfigs } from '../../agent/manager.js';
 import { getPublicKeyFromKeystore } from '../../wallet/keystore.js';
+import { getAgentPnl, parseSince } from '../../agent/pnl.js';
+import type { ApprovalStatus } from '../../logger/audit.js';
 import type { AgentLoopState } from '../../agent/types.js';
 
 export const dashboardCommand = new Command('dashboard')
@@ -24,6 +26,8 @@ export const dashboardCommand = new Command('dashboard')
         const rpcUrl = process.env['SOLANA_RPC_URL'] ?? 'https://api.devnet.solana.com';
         const auditDbPath = process.env['AUDIT_DB_PATH'] ?? './logs/audit.db';
         const port = parseInt(opts.port, 10);
+        // Approving moves funds, so the POST routes stay disabled unless a token is configured
+        const approvalToken = process.env['DASHBOARD_APPROVAL_TOKEN'];
 
         const manager = new MultiAgentManager([], logger, rpcUrl, auditDbPath);
 
@@ -66,6 +70,30 @@ export const dashboardCommand = new Command('dashboard')
                     return;
                 }
 
+                // Matched before the /api/agents listing, which claims every URL under it
+                const pnlRoute = req.url?.match(/^\/api\/agents\/([^/?]+)\/pnl(?:\?.*)?$/);
+                if (req.method === 'GET' && pnlRoute) {
+                    const url = new URL(req.url!, 'http://localhost');
+                    const sinceParam = url.searchParams.get('since');
+                    let since: string | undefined;
+                    try {
+                        since = sinceParam ? parseSince(sinceParam) : undefined;
+                    } catch (e) {
+                        res.writeHead(400, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }));
+                        return;
+                    }
+                    try {
+                        const report = getAgentPnl(manager.getAuditDb(), decodeURIComponent(pnlRoute[1]!), since);
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify(report, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value)));
+                    } catch (e) {
+                        res.writeHead(500, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: String(e) }));
+                    }
+                    return;
+                }
+
                 if (req.method === 'GET' && req.url?.startsWith('/api/agents')) {
                     const configs = loadAgentConfigs(opts.config);
                     const states = await manager.getAgentStates();
@@ -131,7 +159,7 @@ export const dashboardCommand = new Command('dashboard')
                         // Count errors by doing a quick group query on the DB
                         let errorCount = 0;
                         try {
-                            const errorEvents = ['agent_error', 'limit_breach', 'tx_failed', 'tx_timeout'];
+                            const errorEvents = ['agent_error', 'limit_breach', 'unexpected_balance_change', 'tx_failed', 'tx_timeout'];
                             let totalErrors = 0;
                             for (const event of errorEvents) {
                                 totalErrors += auditDb.count(agentId, currentPubkey, event as any);
@@ -233,7 +261,7 @@ export const dashboardCommand = new Command('dashboard')
                             lastTxSol: state ? Number(state.lastTxAmount) / 1_000_000_000 : (existing.lastTxSol ?? 0),
                             balance: liveBalances.get(agentId) ?? (state ? Number(state.solBalance) / 1_000_000_000 : latestSolBalance),
                             pubkey: state?.walletPubkey ?? latestPubkey,
-                            status: isRunning ? 'running' : 'stopped'
+                            status: !isRunning ? 'stopped' : auditDb.getActiveHalt(agentId) ? 'halted' : 'running'
                         };
                     }
 
@@ -312,7 +340,7 @@ export const dashboardCommand = new Command('dashboard')
                                 const isSwap = details.action === 'swap' || row.event.includes('swap');
 
                                 let tagClass = 'noop';
-                                if (row.event.includes('error') || row.event.includes('fail') || row.event === 'limit_breach') {
+                                if (row.event.includes('error') || row.event.includes('fail') || row.event === 'limit_breach' || row.event === 'unexpected_balance_change') {
                                     tagClass = 'error';
                                 } else if (row.event === 'tx_confirmed' || row.event === 'agent_action') {
                                     tagClass = isLP ? 'provide_liquidity' : 'confirmed';
@@ -367,6 +395,51 @@ export const dashboardCommand = new Command('dashboard')
                     return;
                 }
 
+                if (req.method === 'GET' && req.url?.startsWith('/api/approvals')) {
+                    const url = new URL(req.url, 'http://localhost');
+                    const status = url.searchParams.get('status') ?? 'pending';
+                    const agentId = url.searchParams.get('agent');
+                    try {
+                        const query: { agentId?: string; status?: ApprovalStatus } = {};
+                        if (agentId) query.agentId = agentId;
+                        if (status !== 'all') query.status = status as ApprovalStatus;
+                        const approvals = manager.getAuditDb().listApprovals(query);
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ approvals }));
+                    } catch (e) {
+                        res.writeHead(500, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: String(e) }));
+                    }
+                    return;
+                }
+
+                const decisionRoute = req.url?.match(/^\/api\/approvals\/(\d+)\/(approve|reject)$/);
+                if (req.method === 'POST' && decisionRoute) {
+                    if (!approvalToken) {
+                        res.writeHead(403, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'Set DASHBOARD_APPROVAL_TOKEN to enable approvals from the dashboard.' }));
+                        return;
+                    }
+                    if (req.headers['authorization'] !== `Bearer ${approvalToken}`) {
+                        res.writeHead(401, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'Invalid or missing approval token.' }));
+                        return;
+                    }
+
+                    const id = Number(decisionRoute[1]);
+                    const decision = decisionRoute[2] === 'approve' ? 'approved' : 'rejected';
+                    try {
+                        const approval = manager.getAuditDb().decideApproval(id, decision, 'dashboard');
+                        res.writeHead(200, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ approval }));
+                    } catch (e) {
+                        // Unknown, expired or already-decided approvals
+                        res.writeHead(409, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }));
+                    }
+                    return;
+                }
+
                 res.writeHead(404, { 'Content-Type': 'text/plain' });
                 res.end('Not Found\n');
             })();
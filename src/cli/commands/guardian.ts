@@ -0,0 +1,135 @@
+/**
+ * @file src/cli/commands/guardian.ts
+ *
+ * Guardian subcommand group:
+ *
+ *   agentw guardian start --name <id> [--socket <path>]  # run the co-signer daemon
+ *
+ * The daemon loads the guardian keystore named in the agent's `guardian`
+ * config entry and serves co-signing requests on a Unix socket. Point the
+ * agent at the same socket (`guardian.socketPath`) so the guardian key never
+ * enters the agent process. The guardian's windows start from the wallet's
+ * confirmed history in the audit DB, so restarting it does not reset its caps.
+ *
+ * `guardian start` is a long-running process. SIGINT/SIGTERM close the socket
+ * then process.exit(0).
+ */
+
+import { Command } from 'commander';
+import * as path from 'node:path';
+import type * as net from 'node:net';
+import { PublicKey } from '@solana/web3.js';
+import { env } from '../../config/env.js';
+import { loadAgentConfigs } from '../../agent/manager.js';
+import { loadKeystore, getPublicKeyFromKeystore } from '../../wallet/keystore.js';
+import { createGuardian, serveGuardian } from '../../wallet/guardian.js';
+import { AuditDb } from '../../logger/audit.js';
+import { createLogger } from '../../logger/logger.js';
+import {
+  header, success, info, warn, kv, errorAndExit, fatalError, printLine, lamportsToSol,
+  promptPassword,
+} from '../output.js';
+
+// ── guardian start ────────────────────────────────────────────────────────────
+
+const startCmd = new Command('start')
+  .description('Serve guardian co-signatures for one agent over a Unix socket')
+  .requiredOption('--name <id>', 'Agent ID whose guardian to run')
+  .option('--config <path>', 'Path to agents.json config file')
+  .option('--socket <path>', 'Socket path (defaults to guardian.socketPath in the config)')
+  .option('--password <pw>', 'Guardian keystore password (or set GUARDIAN_PASSWORD)')
+  .option('--rpc <url>', 'Override SOLANA_RPC_URL')
+  .option('--db <path>', 'Audit DB path (overrides AUDIT_DB_PATH)')
+  .action(async (opts: {
+    name: string;
+    config?: string;
+    socket?: string;
+    password?: string;
+    rpc?: string;
+    db?: string;
+  }) => {
+    const configPath = path.resolve(opts.config ?? env.AGENTS_CONFIG_PATH);
+    let config;
+    try {
+      config = loadAgentConfigs(configPath).find((c) => c.id === opts.name);
+    } catch (err) {
+      fatalError(err, 'loadAgentConfigs()');
+    }
+    if (!config) errorAndExit(`Agent "${opts.name}" not found in ${configPath}.`);
+
+    const guardianConfig = config.guardian;
+    if (!guardianConfig) errorAndExit(`Agent "${opts.name}" has no guardian configured.`);
+
+    const socketPath = opts.socket ?? guardianConfig.socketPath;
+    if (!socketPath) errorAndExit('No socket path. Pass --socket or set guardian.socketPath.');
+
+    let password = opts.password ?? process.env['GUARDIAN_PASSWORD'];
+    if (!password && process.stdin.isTTY) {
+      password = await promptPassword(`Guardian password for agent "${opts.name}": `);
+    }
+    if (!password) errorAndExit('No guardian password. Pass --password or set GUARDIAN_PASSWORD.');
+
+    const logger = createLogger({ level: env.LOG_LEVEL });
+    const rpcUrl = opts.rpc ?? env.SOLANA_RPC_URL;
+
+    let server: net.Server;
+    try {
+      const wallet = new PublicKey(getPublicKeyFromKeystore(config.keystorePath));
+      // The ledger is read once when the guardian is built, so the DB can close straight after
+      const db = new AuditDb(path.resolve(opts.db ?? env.AUDIT_DB_PATH));
+      let guardian;
+      try {
+        guardian = createGuardian(
+          loadKeystore(guardianConfig.keystorePath, password, { upgrade: true }),
+          {
+            rpcUrl,
+            wallet,
+            limits: guardianConfig.limits,
+            ledger: db.getSpendLedger(config.id, wallet.toBase58()),
+          },
+          logger,
+        );
+      } finally {
+        db.close();
+      }
+      server = await serveGuardian(guardian, path.resolve(socketPath), logger);
+
+      header('Molthold — Guardian');
+      kv([
+        ['Agent', config.id],
+        ['Wallet', wallet.toBase58()],
+        ['Guardian', guardian.publicKey.toBase58()],
+        ['Socket', path.resolve(socketPath)],
+        ['Threshold', `${lamportsToSol(guardianConfig.thresholdLamports)} SOL`],
+        ['Per-tx cap', `${lamportsToSol(guardianConfig.limits.maxPerTxLamports)} SOL`],
+        ['Session cap', `${lamportsToSol(guardianConfig.limits.maxSessionLamports)} SOL`],
+      ]);
+      printLine('');
+      info('Waiting for co-signing requests. Press Ctrl+C to stop.');
+    } catch (err) {
+      fatalError(err, 'guardian start');
+    }
+
+    // ── Graceful shutdown ───────────────────────────────────────────────────
+    let stopping = false;
+
+    function shutdown(signal: string): void {
+      if (stopping) return;
+      stopping = true;
+      printLine('');
+      warn(`Received ${signal} — closing guardian socket…`);
+      server.close(() => {
+        success('Guardian stopped.');
+        process.exit(0);
+      });
+    }
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  });
+
+// ── guardian command group ────────────────────────────────────────────────────
+
+export const guardianCommand = new Command('guardian')
+  .description('Run the guardian co-signer for high-value transactions')
+  .addCommand(startCmd);
@@ -0,0 +1,73 @@
+/**
+ * @file src/cli/commands/halt.ts
+ *
+ * Emergency halt:
+ *
+ *   agentw halt --all          [--reason <text>]  # halt every agent
+ *   agentw halt --name <id>    [--reason <text>]  # halt one agent
+ *   agentw halt --list                            # show active halts
+ *
+ * A halt is written to the audit DB, where every running AgentLoop checks it
+ * at the start of each tick and every WalletClient checks it before signing —
+ * including the ones `agentw wallet` commands build, matched on the wallet name.
+ * Halted agents keep their process alive but do nothing until
+ * `agentw agent resume` clears the halt.
+ */
+
+import { Command } from 'commander';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { env } from '../../config/env.js';
+import { AuditDb, HALT_ALL } from '../../logger/audit.js';
+import { header, success, info, warn, table, errorAndExit, printLine } from '../output.js';
+
+export const haltCommand = new Command('halt')
+  .description('Stop all signing immediately for one or every agent')
+  .option('--all', 'Halt every agent')
+  .option('--name <id>', 'Halt one agent')
+  .option('--reason <text>', 'Recorded in the audit log', 'Manual emergency halt')
+  .option('--by <who>', 'Recorded as the operator in the audit log')
+  .option('--list', 'List active halts instead of raising one')
+  .option('--db <path>', 'Audit DB path')
+  .action((opts: { all?: boolean; name?: string; reason: string; by?: string; list?: boolean; db?: string }) => {
+    if (!opts.list && opts.all === (opts.name !== undefined)) {
+      errorAndExit('Pass exactly one of --all or --name <id>.');
+    }
+
+    // Create the DB if needed — a halt must land even before any agent has run
+    const db = new AuditDb(path.resolve(opts.db ?? env.AUDIT_DB_PATH));
+    try {
+      if (opts.list) {
+        header('Active Halts');
+        const rows = db.listActiveHalts();
+        if (rows.length === 0) {
+          info('No active halts.');
+        } else {
+          table(
+            ['ID', 'Agent', 'Source', 'Since', 'By', 'Reason'],
+            rows.map((r) => [
+              String(r.id),
+              r.agent_id === HALT_ALL ? 'ALL' : r.agent_id,
+              r.source,
+              new Date(r.created_at).toLocaleString(),
+              r.created_by,
+              r.reason,
+            ]),
+          );
+        }
+        printLine('');
+        return;
+      }
+
+      const target = opts.name ?? HALT_ALL;
+      const id = db.halt(target, opts.reason, 'manual', opts.by ?? `cli:${os.userInfo().username}`);
+
+      header(opts.all ? 'Halting All Agents' : `Halting Agent: ${opts.name}`);
+      success(`Halt #${id} recorded.`);
+      info('Running agents refuse to sign immediately and skip every tick until resumed.');
+      warn(`Resume with: agentw agent resume ${opts.all ? '--all' : `--name ${opts.name}`}`);
+      printLine('');
+    } finally {
+      db.close();
+    }
+  });
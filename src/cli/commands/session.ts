@@ -0,0 +1,165 @@
+/**
+ * @file src/cli/commands/session.ts
+ *
+ * Unlock session (ssh-agent style):
+ *
+ *   agentw unlock (--name <id,...> | --all | --agents) [--ttl <minutes>]
+ *   agentw unlock --status
+ *   agentw lock
+ *
+ * `unlock` asks for the password once, decrypts the chosen keystores and
+ * holds them in memory, serving signatures on the 0600 Unix socket at
+ * SESSION_SOCKET_PATH until the TTL runs out or `agentw lock` is run.
+ * `wallet balance`, `wallet transfer` and `agent start` sign through the
+ * session when it holds their wallet, so no password is typed or passed on
+ * the command line. Agents started on a session stop signing when it locks.
+ *
+ * `unlock` is a long-running process. SIGINT/SIGTERM lock the session then
+ * process.exit(0).
+ */
+
+import { Command } from 'commander';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { env } from '../../config/env.js';
+import { loadAgentConfigs } from '../../agent/manager.js';
+import { keystoreSigner } from '../../wallet/signers.js';
+import {
+  serveSession, getSessionStatus, lockSession, DEFAULT_SESSION_TTL_MS, type UnlockSession,
+} from '../../wallet/session.js';
+import { WalletError, type Signer } from '../../wallet/types.js';
+import { createLogger } from '../../logger/logger.js';
+import {
+  header, success, info, warn, kv, errorAndExit, fatalError, printLine, promptPassword,
+} from '../output.js';
+
+const KEYSTORES_DIR = path.resolve(process.cwd(), 'keystores');
+
+function sessionSocketPath(): string {
+  return path.resolve(env.SESSION_SOCKET_PATH);
+}
+
+/** Keystore paths to unlock, keyed by a display name. */
+function selectKeystores(opts: { name?: string; all?: boolean; agents?: boolean; config?: string }): Map<string, string> {
+  const selected = new Map<string, string>();
+
+  if (opts.agents) {
+    const configPath = path.resolve(opts.config ?? env.AGENTS_CONFIG_PATH);
+    try {
+      for (const agent of loadAgentConfigs(configPath)) selected.set(agent.id, path.resolve(agent.keystorePath));
+    } catch (err) {
+      fatalError(err, 'loadAgentConfigs()');
+    }
+  }
+  if (opts.all && fs.existsSync(KEYSTORES_DIR)) {
+    for (const f of fs.readdirSync(KEYSTORES_DIR).filter((f) => f.endsWith('.keystore.json'))) {
+      selected.set(f.replace('.keystore.json', ''), path.join(KEYSTORES_DIR, f));
+    }
+  }
+  for (const name of (opts.name ?? '').split(',').map((n) => n.trim()).filter(Boolean)) {
+    const kpPath = path.join(KEYSTORES_DIR, `${name}.keystore.json`);
+    if (!fs.existsSync(kpPath)) errorAndExit(`Wallet "${name}" not found in ${KEYSTORES_DIR}.`);
+    selected.set(name, kpPath);
+  }
+  return selected;
+}
+
+// ── unlock ────────────────────────────────────────────────────────────────────
+
+export const unlockCommand = new Command('unlock')
+  .description('Hold decrypted wallets in memory for a while so commands need no password')
+  .option('--name <id,...>', 'Wallets in keystores/ to unlock (comma-separated)')
+  .option('--all', 'Unlock every wallet in keystores/')
+  .option('--agents', 'Unlock every agent keystore in agents.json')
+  .option('--config <path>', 'Path to agents.json config file (with --agents)')
+  .option('--ttl <minutes>', 'Lock automatically after this many minutes', String(DEFAULT_SESSION_TTL_MS / 60_000))
+  .option('--password <pass>', 'Keystore password (prefer WALLET_PASSWORD or the prompt)')
+  .option('--status', 'Show the running session instead of starting one')
+  .action(async (opts: {
+    name?: string;
+    all?: boolean;
+    agents?: boolean;
+    config?: string;
+    ttl: string;
+    password?: string;
+    status?: boolean;
+  }) => {
+    const socketPath = sessionSocketPath();
+
+    if (opts.status) {
+      header('Unlock Session');
+      const status = await getSessionStatus(socketPath);
+      if (!status) {
+        info('No session running.');
+      } else {
+        kv([
+          ['Socket', socketPath],
+          ['Locks at', new Date(status.expiresAt).toLocaleString()],
+          ['Wallets', status.publicKeys.join('\n')],
+        ]);
+      }
+      printLine('');
+      return;
+    }
+
+    const ttlMinutes = Number(opts.ttl);
+    if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) errorAndExit('--ttl must be a positive number of minutes.');
+
+    const keystores = selectKeystores(opts);
+    if (keystores.size === 0) errorAndExit('Nothing to unlock. Pass --name <id,...>, --all or --agents.');
+
+    let password = opts.password ?? env.WALLET_PASSWORD;
+    if (!password && process.stdin.isTTY) password = await promptPassword('Wallet password: ');
+    if (!password) errorAndExit('No password. Set WALLET_PASSWORD or run interactively.');
+
+    const signers: Signer[] = [];
+    for (const [name, kpPath] of keystores) {
+      try {
+        signers.push(keystoreSigner(kpPath, password, { upgrade: true }));
+      } catch (err) {
+        if (err instanceof WalletError && err.code === 'INVALID_KEYSTORE') {
+          errorAndExit(`Cannot unlock "${name}": ${err.message}`);
+        }
+        fatalError(err, `unlock ${name}`);
+      }
+    }
+
+    const logger = createLogger({ level: 'warn' });
+    let session: UnlockSession;
+    try {
+      session = await serveSession(signers, socketPath, ttlMinutes * 60_000, logger);
+    } catch (err) {
+      fatalError(err, 'unlock');
+    }
+
+    header('Molthold — Unlock Session');
+    kv([
+      ['Socket', socketPath],
+      ['Locks at', new Date(session.expiresAt).toLocaleString()],
+      ['Wallets', [...keystores.keys()].join(', ')],
+    ]);
+    printLine('');
+    info('Wallets unlocked. Run `agentw lock` or press Ctrl+C to lock now.');
+
+    process.on('SIGINT', () => { void session.lock(); });
+    process.on('SIGTERM', () => { void session.lock(); });
+
+    await session.locked;
+    success('Session locked. Keys dropped from memory.');
+    process.exit(0);
+  });
+
+// ── lock ──────────────────────────────────────────────────────────────────────
+
+export const lockCommand = new Command('lock')
+  .description('Lock the running unlock session immediately')
+  .action(async () => {
+    let locked: boolean;
+    try {
+      locked = await lockSession(sessionSocketPath());
+    } catch (err) {
+      fatalError(err, 'lock');
+    }
+    if (locked) success('Session locked.');
+    else warn('No session running.');
+  });
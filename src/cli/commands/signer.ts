@@ -0,0 +1,106 @@
+/**
+ * @file src/cli/commands/signer.ts
+ *
+ * Signer subcommand group:
+ *
+ *   agentw signer serve --name <id> [--url <endpoint>]  # run the remote signer
+ *
+ * The server unlocks the agent's keystore and answers signMessage requests
+ * over JSON-RPC on a Unix socket or HTTP. Point the agent at the same
+ * endpoint (`signer.url`) so its key never enters the agent process. The
+ * bearer token is read from the variable named by `signer.authTokenEnv`
+ * (default SIGNER_AUTH_TOKEN) and is required for HTTP endpoints.
+ *
+ * `signer serve` is a long-running process. SIGINT/SIGTERM close the server
+ * then process.exit(0).
+ */
+
+import { Command } from 'commander';
+import * as path from 'node:path';
+import type * as http from 'node:http';
+import { env } from '../../config/env.js';
+import { loadAgentConfigs } from '../../agent/manager.js';
+import { keystoreSigner, serveSigner } from '../../wallet/signers.js';
+import { createLogger } from '../../logger/logger.js';
+import {
+  header, success, info, warn, kv, errorAndExit, fatalError, printLine, promptPassword,
+} from '../output.js';
+
+// ── signer serve ──────────────────────────────────────────────────────────────
+
+const serveCmd = new Command('serve')
+  .description("Serve one agent's signatures over JSON-RPC")
+  .requiredOption('--name <id>', 'Agent ID whose keystore to serve')
+  .option('--config <path>', 'Path to agents.json config file')
+  .option('--url <endpoint>', 'unix:/path or http://host:port (defaults to signer.url in the config)')
+  .option('--password <pw>', 'Keystore password (or set WALLET_PASSWORD)')
+  .action(async (opts: {
+    name: string;
+    config?: string;
+    url?: string;
+    password?: string;
+  }) => {
+    const configPath = path.resolve(opts.config ?? env.AGENTS_CONFIG_PATH);
+    let config;
+    try {
+      config = loadAgentConfigs(configPath).find((c) => c.id === opts.name);
+    } catch (err) {
+      fatalError(err, 'loadAgentConfigs()');
+    }
+    if (!config) errorAndExit(`Agent "${opts.name}" not found in ${configPath}.`);
+
+    const endpoint = opts.url ?? config.signer?.url;
+    if (!endpoint) errorAndExit('No endpoint. Pass --url or set signer.url.');
+
+    const tokenEnv = config.signer?.authTokenEnv ?? 'SIGNER_AUTH_TOKEN';
+    const authToken = process.env[tokenEnv];
+
+    let password = opts.password ?? env.WALLET_PASSWORD;
+    if (!password && process.stdin.isTTY) {
+      password = await promptPassword(`Wallet password for agent "${opts.name}": `);
+    }
+    if (!password) errorAndExit('No wallet password. Pass --password or set WALLET_PASSWORD.');
+
+    const logger = createLogger({ level: env.LOG_LEVEL });
+
+    let server: http.Server;
+    try {
+      const signer = keystoreSigner(config.keystorePath, password, { upgrade: true });
+      server = await serveSigner(signer, endpoint, { authToken }, logger);
+
+      header('Molthold — Signer');
+      kv([
+        ['Agent', config.id],
+        ['Wallet', signer.publicKey.toBase58()],
+        ['Endpoint', endpoint],
+        ['Auth', authToken ? `bearer token from ${tokenEnv}` : 'none (socket mode 0600)'],
+      ]);
+      printLine('');
+      info('Waiting for signing requests. Press Ctrl+C to stop.');
+    } catch (err) {
+      fatalError(err, 'signer serve');
+    }
+
+    // ── Graceful shutdown ───────────────────────────────────────────────────
+    let stopping = false;
+
+    function shutdown(signal: string): void {
+      if (stopping) return;
+      stopping = true;
+      printLine('');
+      warn(`Received ${signal} — closing signer…`);
+      server.close(() => {
+        success('Signer stopped.');
+        process.exit(0);
+      });
+    }
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  });
+
+// ── signer command group ──────────────────────────────────────────────────────
+
+export const signerCommand = new Command('signer')
+  .description('Run a remote signer so agent processes hold no key material')
+  .addCommand(serveCmd);
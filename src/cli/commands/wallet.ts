@@ -8,6 +8,53 @@
  *   agentw wallet airdrop --name <id> [--amount <sol>]
  *   agentw wallet transfer --name <id> --to <pubkey> --amount <lamports>
  *   agentw wallet list
+ *   agentw wallet rekey --name <id> [--new-password <pass>] [--kdf argon2id|scrypt] [--master]
+ *   agentw wallet master [--name <master>] [--words 12|24] [--import]
+ *   agentw wallet derive --index <n> [--name <id>] [--master <master>]
+ *   agentw wallet export --out <file> (--name <id,...> | --all) [--config <path>]
+ *   agentw wallet import --in <file> [--force] [--config <path>] [--list]
+ *   agentw wallet split   --name <id> --shares <n> --threshold <k> [--out <dir>] [--remove]
+ *   agentw wallet recover --name <id> --share <file> [--share <file> …]
+ *   agentw wallet nonce create --name <id>
+ *   agentw wallet nonce show   --name <id>
+ *   agentw wallet alt create     --name <id> [--address <pubkey> …]
+ *   agentw wallet alt extend     --name <id> --table <pubkey> --address <pubkey> [--address …]
+ *   agentw wallet alt deactivate --name <id> --table <pubkey>
+ *   agentw wallet alt close      --name <id> --table <pubkey>
+ *   agentw wallet alt list       --name <id>
+ *   agentw wallet payout --name <id> --csv <file> [--dry-run] [--yes]
+ *   agentw wallet sweep-rent [--config <path>] [--agent <id> …] [--dry-run] [--yes]
+ *
+ * `balance` and `transfer` sign through a running `agentw unlock` session
+ * when one holds the wallet and no --password is given.
+ *
+ * HD mode: `wallet master` encrypts one BIP39 mnemonic into
+ * keystores/<master>.master.json; `wallet derive` writes keystores that
+ * hold only an index on m/44'/501'/n'/0' and unlock with the master's
+ * password. Backing up the mnemonic backs up every derived wallet.
+ *
+ * Backups: `wallet export` re-encrypts the chosen keystores and their
+ * agents.json entries under one export passphrase; `wallet import` verifies
+ * every key against its public key before writing anything.
+ *
+ * Shamir: `wallet split` turns one keystore into n share files, each
+ * encrypted under its own holder's password; `wallet recover` needs k of
+ * them to rebuild a normal keystore.
+ *
+ * Durable nonce: `wallet nonce create` funds the wallet's nonce account at
+ * its seed-derived address; agents with `useDurableNonce` then send through
+ * it so retried transactions cannot land twice.
+ *
+ * Lookup tables: `wallet alt` manages the address lookup tables the wallet
+ * controls. Agents compile against the ones listed in their `lookupTables`.
+ *
+ * Payouts: `wallet payout` reads `address,amount[,mint]` rows, shows them
+ * as a table, and after confirmation sends them with sendBatch(): as few
+ * transactions as fit, with the whole batch checked against the spending
+ * limits before the first one goes out.
+ *
+ * Rent: `wallet sweep-rent` closes the empty token accounts of every agent in
+ * agents.json, returning each account's rent deposit to its wallet.
  *
  * Password resolution order (highest priority first):
  *   1. --password flag
@@ -19,17 +66,35 @@
  */
 
 import { Command } from 'commander';
-import { Keypair, PublicKey, Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Keypair, PublicKey, Connection, LAMPORTS_PER_SOL, type Transaction } from '@solana/web3.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { env, spendingLimits } from '../../config/env.js';
-import { createKeystore, loadKeystore, getPublicKeyFromKeystore } from '../../wallet/keystore.js';
+import {
+  createKeystore, rekeyKeystore, getPublicKeyFromKeystore, type KeystoreOptions,
+  createMasterKeystore, createDerivedKeystore,
+} from '../../wallet/keystore.js';
+import { generateMnemonic, normalizeMnemonic, validateMnemonic, MAX_HD_INDEX } from '../../wallet/hd.js';
+import { exportBackup, importBackup, readBackup, type BackupAgent, type ExportWallet } from '../../wallet/backup.js';
+import { splitKeystore, recoverKeystore, readShare, type ShareTarget } from '../../wallet/shamir.js';
 import { createWalletClient } from '../../wallet/wallet.js';
-import { WalletError } from '../../wallet/types.js';
+import {
+  findEmptyTokenAccounts, getTokenMintInfo, getTokenSymbol, type EmptyTokenAccount,
+} from '../../wallet/tokens.js';
+import { createNonceAccountTransaction, getNonceAccount, getNonceAddress } from '../../wallet/nonce.js';
+import {
+  createLookupTableTransaction, extendLookupTableTransactions, deactivateLookupTableTransaction,
+  closeLookupTableTransaction, findLookupTables, MAX_EXTEND_ADDRESSES,
+} from '../../wallet/alt.js';
+import { keystoreSigner } from '../../wallet/signers.js';
+import { connectSession } from '../../wallet/session.js';
+import { createJupiterPriceOracle } from '../../protocols/oracle.js';
+import { WalletError, type Argon2idParams, type BatchTransfer, type Signer } from '../../wallet/types.js';
 import { createLogger } from '../../logger/logger.js';
+import { AuditDb } from '../../logger/audit.js';
 import {
   header, success, info, kv, formatBalance, errorAndExit, fatalError,
-  spinner, promptPassword, table, printLine,
+  spinner, promptPassword, promptConfirm, table, printLine, warn,
 } from '../output.js';
 
 // ── Keystore directory ────────────────────────────────────────────────────────
@@ -40,6 +105,19 @@ function keystorePath(name: string): string {
   return path.join(KEYSTORES_DIR, `${name}.keystore.json`);
 }
 
+function masterKeystorePath(name: string): string {
+  return path.join(KEYSTORES_DIR, `${name}.master.json`);
+}
+
+/** Parses an HD account index flag, exiting on anything out of range. */
+function parseHdIndex(raw: string): number {
+  const index = Number(raw);
+  if (!Number.isInteger(index) || index < 0 || index > MAX_HD_INDEX) {
+    errorAndExit(`--index must be an integer from 0 to ${MAX_HD_INDEX}.`);
+  }
+  return index;
+}
+
 // ── Password resolution ───────────────────────────────────────────────────────
 
 async function resolvePassword(flagPassword?: string, promptMsg = 'Wallet password: '): Promise<string> {
@@ -57,33 +135,76 @@ async function resolvePassword(flagPassword?: string, promptMsg = 'Wallet passwo
 
 // ── Shared wallet builder ─────────────────────────────────────────────────────
 
-function loadWallet(name: string, password: string) {
-  const kpPath = keystorePath(name);
+/** The halt covering `name` (its own or `halt --all`), read fresh from the audit DB. */
+function activeHalt(name: string): string | undefined {
+  const dbPath = path.resolve(env.AUDIT_DB_PATH);
+  if (!fs.existsSync(dbPath)) return undefined;
+
+  const db = new AuditDb(dbPath);
+  try {
+    const halt = db.getActiveHalt(name);
+    return halt ? `${halt.reason} (halt #${halt.id})` : undefined;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Builds a WalletClient for `name`. Without --password, a running
+ * `agentw unlock` session that holds the wallet signs instead, so no
+ * password or KDF run is needed. `kpPath` defaults to the keystore named `name`.
+ * Like an agent's wallet, it refuses to sign while `agentw halt` covers `name`.
+ */
+async function loadWallet(name: string, flagPassword?: string, kpPath = keystorePath(name)) {
   if (!fs.existsSync(kpPath)) {
     errorAndExit(`Wallet "${name}" not found. Run: agentw wallet create --name ${name}`);
   }
 
-  const logger = createLogger({ level: 'warn' }); // suppress RPC noise in CLI
-  let keypair: Keypair;
   try {
-    keypair = loadKeystore(kpPath, password);
+    return await openWallet(name, flagPassword, kpPath);
   } catch (err) {
     if (err instanceof WalletError && err.code === 'INVALID_KEYSTORE') {
       errorAndExit('Wrong password or corrupted keystore.');
     }
     fatalError(err, 'loadWallet');
   }
+}
+
+/**
+ * loadWallet() for commands that work through several wallets: throws
+ * instead of exiting, so one bad keystore does not stop the rest.
+ */
+async function openWallet(
+  name: string,
+  flagPassword: string | undefined,
+  kpPath: string,
+): Promise<ReturnType<typeof createWalletClient>> {
+  let signer: Signer | undefined;
+  if (!flagPassword) {
+    signer = await connectSession(
+      path.resolve(env.SESSION_SOCKET_PATH),
+      new PublicKey(getPublicKeyFromKeystore(kpPath)),
+    );
+  }
+  if (!signer) {
+    if (!flagPassword && !env.WALLET_PASSWORD && !process.stdin.isTTY) {
+      throw new WalletError('INVALID_CONFIG', 'No password provided and no running session holds this wallet.');
+    }
+    signer = keystoreSigner(kpPath, await resolvePassword(flagPassword), { upgrade: true });
+  }
 
-  const wallet = createWalletClient(keypair!, {
+  const logger = createLogger({ level: 'warn' }); // suppress RPC noise in CLI
+  return createWalletClient(signer, {
     rpcUrl: env.SOLANA_RPC_URL,
     limits: spendingLimits,
     simulateBeforeSend: true,
     confirmationStrategy: 'confirmed',
     maxRetries: 3,
     retryDelayMs: 2_000,
+    priceOracle: createJupiterPriceOracle(new Connection(env.SOLANA_RPC_URL, 'confirmed')),
+    priorityFee: {},
+    haltCheck: () => activeHalt(name),
   }, logger);
-
-  return wallet;
 }
 
 // ── wallet create ─────────────────────────────────────────────────────────────
@@ -128,7 +249,7 @@ const createCmd = new Command('create')
       ['Name', name],
       ['Public key', keystore.publicKey],
       ['File', kpPath],
-      ['Encryption', 'AES-256-GCM / scrypt'],
+      ['Encryption', 'AES-256-GCM / Argon2id'],
     ]);
     printLine('');
     info('Fund this wallet with: agentw wallet airdrop --name ' + name);
@@ -143,8 +264,7 @@ const balanceCmd = new Command('balance')
   .requiredOption('--name <id>', 'Wallet identifier')
   .option('--password <pass>', 'Decryption password')
   .action(async (opts: { name: string; password?: string }) => {
-    const password = await resolvePassword(opts.password);
-    const wallet = loadWallet(opts.name, password);
+    const wallet = await loadWallet(opts.name, opts.password);
 
     header(`Balance: ${opts.name}`);
 
@@ -166,7 +286,12 @@ const balanceCmd = new Command('balance')
       ['SOL balance', formatBalance(balance!)],
       ['Per-tx cap', formatBalance(limits.perTxCap)],
       ['Session spent', formatBalance(limits.sessionSpend)],
+      ['  of which fees', formatBalance(limits.sessionFees)],
+      ['  of which rent', formatBalance(limits.sessionRent)],
       ['Session cap', formatBalance(limits.sessionCap)],
+      ...(limits.sessionFeeCap !== undefined
+        ? [['Session fee cap', formatBalance(limits.sessionFeeCap)] as [string, string]]
+        : []),
     ]);
     printLine('');
   });
@@ -259,8 +384,7 @@ const transferCmd = new Command('transfer')
       errorAndExit('Transfer amount must be at least 1 lamport.');
     }
 
-    const password = await resolvePassword(opts.password);
-    const wallet = loadWallet(opts.name, password);
+    const wallet = await loadWallet(opts.name, opts.password);
 
     header(`Transfer: ${opts.name} → ${opts.to.slice(0, 12)}…`);
 
@@ -324,19 +448,1121 @@ const listCmd = new Command('list')
       const full = path.join(KEYSTORES_DIR, f);
       const stat = fs.statSync(full);
       let pubkey = 'unknown';
+      let source = 'random';
       try {
         pubkey = getPublicKeyFromKeystore(full);
+        const ks = JSON.parse(fs.readFileSync(full, 'utf8')) as { kind?: string; derivationPath?: string };
+        if (ks.kind === 'hd') source = ks.derivationPath ?? 'hd';
       } catch { /* skip */ }
 
       return [
         name,
         pubkey,
+        source,
         stat.mtime.toLocaleDateString(),
         `${(stat.size / 1024).toFixed(1)} KB`,
       ];
     });
 
-    table(['Name', 'Public Key', 'Modified', 'Size'], rows);
+    table(['Name', 'Public Key', 'Source', 'Modified', 'Size'], rows);
+    printLine('');
+  });
+
+// ── wallet rekey ──────────────────────────────────────────────────────────────
+
+const rekeyCmd = new Command('rekey')
+  .description('Re-encrypt a keystore under a new password and/or stronger KDF parameters')
+  .requiredOption('--name <id>', 'Wallet name')
+  .option('--password <pass>', 'Current password')
+  .option('--new-password <pass>', 'New password (min 8 chars). Omit to keep the current one.')
+  .option('--kdf <kdf>', 'argon2id or scrypt', 'argon2id')
+  .option('--memory <kib>', 'Argon2id memory cost in KiB')
+  .option('--iterations <n>', 'Argon2id iterations')
+  .option('--scrypt-n <n>', 'scrypt cost N (power of two)')
+  .option('--master', 'Treat --name as an HD master (keystores/<name>.master.json)')
+  .action(async (opts: {
+    name: string;
+    master?: boolean;
+    password?: string;
+    newPassword?: string;
+    kdf: string;
+    memory?: string;
+    iterations?: string;
+    scryptN?: string;
+  }) => {
+    const kpPath = opts.master ? masterKeystorePath(opts.name) : keystorePath(opts.name);
+    if (!fs.existsSync(kpPath)) {
+      errorAndExit(`${opts.master ? 'HD master' : 'Wallet'} "${opts.name}" not found at ${kpPath}.`);
+    }
+    if (opts.kdf !== 'argon2id' && opts.kdf !== 'scrypt') {
+      errorAndExit(`Unknown KDF "${opts.kdf}". Use argon2id or scrypt.`);
+    }
+
+    const parseCount = (raw: string | undefined, flag: string): number | undefined => {
+      if (raw === undefined) return undefined;
+      const n = Number(raw);
+      if (!Number.isInteger(n) || n <= 0) errorAndExit(`${flag} must be a positive integer.`);
+      return n;
+    };
+    const memory = parseCount(opts.memory, '--memory');
+    const iterations = parseCount(opts.iterations, '--iterations');
+    const scryptN = parseCount(opts.scryptN, '--scrypt-n');
+
+    const password = await resolvePassword(opts.password, `Current password for "${opts.name}": `);
+    let newPassword = opts.newPassword;
+    if (newPassword === undefined && process.stdin.isTTY) {
+      newPassword = await promptPassword('New password (leave blank to keep the current one): ');
+    }
+    if (!newPassword) newPassword = password;
+    if (newPassword.length < 8) {
+      errorAndExit('Password must be at least 8 characters.');
+    }
+
+    const argon2: Partial<Argon2idParams> = {};
+    if (memory !== undefined) argon2.m = memory;
+    if (iterations !== undefined) argon2.t = iterations;
+    const options: KeystoreOptions = { kdf: opts.kdf, argon2 };
+    if (scryptN !== undefined) options.scryptN = scryptN;
+
+    header(`Rekeying wallet: ${opts.name}`);
+    const spin = spinner('Decrypting and re-encrypting keystore…');
+    let keystore;
+    try {
+      keystore = rekeyKeystore(kpPath, password, newPassword, options);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && (err.code === 'INVALID_KEYSTORE' || err.code === 'INVALID_CONFIG')) {
+        errorAndExit(err.message);
+      }
+      fatalError(err, 'rekeyKeystore');
+    }
+    spin.stop();
+
+    success(`Keystore re-encrypted at ${kpPath}`);
+    printLine('');
+    const params = keystore.encrypted.kdf === 'argon2id'
+      ? `m=${keystore.encrypted.kdfParams.m} KiB, t=${keystore.encrypted.kdfParams.t}, p=${keystore.encrypted.kdfParams.p}`
+      : `N=${keystore.encrypted.kdfParams.N}, r=${keystore.encrypted.kdfParams.r}, p=${keystore.encrypted.kdfParams.p}`;
+    kv([
+      'kind' in keystore
+        ? ['Fingerprint', keystore.fingerprint]
+        : ['Public key', keystore.publicKey],
+      ['Version', String(keystore.version)],
+      ['KDF', `${keystore.encrypted.kdf} (${params})`],
+      ['Password', newPassword === password ? 'unchanged' : 'changed'],
+    ]);
+    printLine('');
+  });
+
+// ── wallet master ─────────────────────────────────────────────────────────────
+
+const masterCmd = new Command('master')
+  .description('Create an encrypted HD master mnemonic for deriving agent wallets')
+  .option('--name <master>', 'Master name', 'master')
+  .option('--words <n>', 'Mnemonic length: 12 or 24', '24')
+  .option('--import', 'Enter an existing mnemonic instead of generating one (fleet recovery)')
+  .option('--password <pass>', 'Encryption password (min 8 chars)')
+  .action(async (opts: { name: string; words: string; import?: boolean; password?: string }) => {
+    if (!/^[\w-]+$/.test(opts.name)) {
+      errorAndExit('Master name may only contain letters, numbers, hyphens, and underscores.');
+    }
+    if (opts.words !== '12' && opts.words !== '24') {
+      errorAndExit('--words must be 12 or 24.');
+    }
+
+    const masterPath = masterKeystorePath(opts.name);
+    if (fs.existsSync(masterPath)) {
+      errorAndExit(`HD master "${opts.name}" already exists at ${masterPath}.`);
+    }
+
+    let mnemonic: string;
+    if (opts.import) {
+      if (!process.stdin.isTTY) errorAndExit('--import needs an interactive terminal.');
+      mnemonic = normalizeMnemonic(await promptPassword('Mnemonic (input hidden): '));
+      if (!validateMnemonic(mnemonic)) errorAndExit('That is not a valid BIP39 mnemonic.');
+    } else {
+      mnemonic = generateMnemonic(opts.words === '12' ? 12 : 24);
+    }
+
+    const password = await resolvePassword(opts.password, 'New master password (min 8 chars): ');
+    if (password.length < 8) {
+      errorAndExit('Password must be at least 8 characters.');
+    }
+
+    header(`${opts.import ? 'Importing' : 'Creating'} HD master: ${opts.name}`);
+    const spin = spinner('Encrypting mnemonic…');
+    let master;
+    try {
+      master = createMasterKeystore(mnemonic, password, masterPath);
+    } catch (err) {
+      spin.stop();
+      fatalError(err, 'createMasterKeystore');
+    }
+    spin.stop();
+
+    success(`Master saved to ${masterPath}`);
+    printLine('');
+    kv([
+      ['Name', opts.name],
+      ['Fingerprint', master.fingerprint],
+      ['File', masterPath],
+      ['Encryption', 'AES-256-GCM / Argon2id'],
+    ]);
+    printLine('');
+
+    if (!opts.import) {
+      warn('Write down this mnemonic and store it offline. It is shown only once and');
+      warn('recovers every wallet derived from this master:');
+      printLine('');
+      printLine(`  ${mnemonic}`);
+      printLine('');
+    }
+    info(`Derive agent wallets with: agentw wallet derive --master ${opts.name} --index <n>`);
+    printLine('');
+  });
+
+// ── wallet derive ─────────────────────────────────────────────────────────────
+
+const deriveCmd = new Command('derive')
+  .description("Derive a wallet at m/44'/501'/<index>'/0' from an HD master")
+  .requiredOption('--index <n>', 'Account index')
+  .option('--name <id>', 'Wallet name (default: <master>-<index>)')
+  .option('--master <master>', 'HD master name', 'master')
+  .option('--password <pass>', 'Master password')
+  .action(async (opts: { index: string; name?: string; master: string; password?: string }) => {
+    const index = parseHdIndex(opts.index);
+    const name = opts.name ?? `${opts.master}-${index}`;
+    if (!/^[\w-]+$/.test(name)) {
+      errorAndExit('Wallet name may only contain letters, numbers, hyphens, and underscores.');
+    }
+
+    const masterPath = masterKeystorePath(opts.master);
+    if (!fs.existsSync(masterPath)) {
+      errorAndExit(`HD master "${opts.master}" not found. Run: agentw wallet master --name ${opts.master}`);
+    }
+    const kpPath = keystorePath(name);
+    if (fs.existsSync(kpPath)) {
+      errorAndExit(`Wallet "${name}" already exists at ${kpPath}.`);
+    }
+
+    const password = await resolvePassword(opts.password, `Password for HD master "${opts.master}": `);
+
+    header(`Deriving wallet: ${name}`);
+    const spin = spinner('Decrypting master and deriving keypair…');
+    let keystore;
+    try {
+      keystore = createDerivedKeystore(masterPath, password, index, kpPath);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && err.code === 'INVALID_KEYSTORE') {
+        errorAndExit('Wrong password or corrupted master keystore.');
+      }
+      fatalError(err, 'createDerivedKeystore');
+    }
+    spin.stop();
+
+    success(`Keystore saved to ${kpPath}`);
+    printLine('');
+    kv([
+      ['Name', name],
+      ['Public key', keystore.publicKey],
+      ['Path', keystore.derivationPath],
+      ['Master', `${opts.master} (${keystore.masterFingerprint})`],
+    ]);
+    printLine('');
+    info('This keystore holds no key. It unlocks with the master password, and the');
+    info('master mnemonic plus this index recover it.');
+    printLine('');
+  });
+
+// ── wallet export ─────────────────────────────────────────────────────────────
+
+/** Reads agents.json as raw entries, so unknown fields survive a round trip. */
+function readAgentEntries(configPath: string): Array<Record<string, unknown> & { id: string }> {
+  if (!fs.existsSync(configPath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8')) as unknown;
+    return Array.isArray(parsed) ? (parsed as Array<Record<string, unknown> & { id: string }>) : [];
+  } catch {
+    errorAndExit(`Could not parse ${configPath}.`);
+  }
+}
+
+async function resolvePassphrase(flag: string | undefined, promptMsg: string): Promise<string> {
+  let passphrase = flag;
+  if (!passphrase) {
+    if (!process.stdin.isTTY) errorAndExit('No export passphrase. Pass --passphrase or run interactively.');
+    passphrase = await promptPassword(promptMsg);
+  }
+  if (passphrase.length < 8) errorAndExit('Export passphrase must be at least 8 characters.');
+  return passphrase;
+}
+
+const exportCmd = new Command('export')
+  .description('Write wallets and their agents.json entries to an encrypted backup bundle')
+  .requiredOption('--out <file>', 'Bundle path')
+  .option('--name <ids>', 'Comma-separated wallet names')
+  .option('--all', 'Export every wallet in keystores/')
+  .option('--config <path>', 'agents.json to take matching entries from', 'agents.json')
+  .option('--password <pass>', 'Current wallet password')
+  .option('--passphrase <pass>', 'Export passphrase (min 8 chars)')
+  .action(async (opts: {
+    out: string;
+    name?: string;
+    all?: boolean;
+    config: string;
+    password?: string;
+    passphrase?: string;
+  }) => {
+    if (opts.all === (opts.name !== undefined)) {
+      errorAndExit('Pass exactly one of --all or --name <ids>.');
+    }
+    const outPath = path.resolve(opts.out);
+    if (fs.existsSync(outPath)) {
+      errorAndExit(`${outPath} already exists.`);
+    }
+
+    const names = opts.all
+      ? (fs.existsSync(KEYSTORES_DIR) ? fs.readdirSync(KEYSTORES_DIR) : [])
+        .filter((f) => f.endsWith('.keystore.json'))
+        .map((f) => f.replace('.keystore.json', ''))
+      : opts.name!.split(',').map((n) => n.trim()).filter(Boolean);
+    if (names.length === 0) errorAndExit('No wallets to export.');
+
+    const wallets: ExportWallet[] = names.map((name) => {
+      const kpPath = keystorePath(name);
+      if (!fs.existsSync(kpPath)) errorAndExit(`Wallet "${name}" not found at ${kpPath}.`);
+      return { name, keystorePath: kpPath };
+    });
+
+    // Carry along the agents.json entries that sign with an exported wallet
+    const agents: BackupAgent[] = [];
+    for (const config of readAgentEntries(path.resolve(opts.config))) {
+      if (typeof config['keystorePath'] !== 'string') continue;
+      const wallet = wallets.find((w) => w.keystorePath === path.resolve(config['keystorePath'] as string));
+      if (wallet) agents.push({ wallet: wallet.name, config });
+    }
+
+    const password = await resolvePassword(opts.password);
+    const passphrase = await resolvePassphrase(opts.passphrase, 'Export passphrase (min 8 chars): ');
+
+    header('Exporting wallets');
+    const spin = spinner('Decrypting keystores and encrypting bundle…');
+    let bundle;
+    try {
+      bundle = exportBackup(wallets, password, passphrase, outPath, { agents });
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && (err.code === 'INVALID_KEYSTORE' || err.code === 'INVALID_CONFIG')) {
+        errorAndExit(err.message);
+      }
+      fatalError(err, 'exportBackup');
+    }
+    spin.stop();
+
+    success(`Backup written to ${outPath}`);
+    printLine('');
+    table(['Name', 'Kind', 'Address'], bundle.manifest.wallets.map((w) => [w.name, w.kind, w.address]));
+    printLine('');
+    info(`Agents included: ${bundle.manifest.agents.length > 0 ? bundle.manifest.agents.join(', ') : 'none'}`);
+    warn('The bundle is only as strong as its passphrase. Store them separately.');
+    printLine('');
+  });
+
+// ── wallet import ─────────────────────────────────────────────────────────────
+
+const importCmd = new Command('import')
+  .description('Restore wallets and agents.json entries from a backup bundle')
+  .requiredOption('--in <file>', 'Bundle path')
+  .option('--force', 'Overwrite existing keystores and agents.json entries')
+  .option('--list', 'Show the bundle manifest without decrypting it')
+  .option('--config <path>', 'agents.json to merge bundled entries into', 'agents.json')
+  .option('--password <pass>', 'Password for the restored keystores (min 8 chars)')
+  .option('--passphrase <pass>', 'Export passphrase')
+  .action(async (opts: {
+    in: string;
+    force?: boolean;
+    list?: boolean;
+    config: string;
+    password?: string;
+    passphrase?: string;
+  }) => {
+    const bundlePath = path.resolve(opts.in);
+    let bundle;
+    try {
+      bundle = readBackup(bundlePath);
+    } catch (err) {
+      errorAndExit(err instanceof Error ? err.message : String(err));
+    }
+
+    if (opts.list) {
+      header(`Backup: ${path.basename(bundlePath)}`);
+      kv([['Created', new Date(bundle.createdAt).toLocaleString()]]);
+      printLine('');
+      table(['Name', 'Kind', 'Address'], bundle.manifest.wallets.map((w) => [w.name, w.kind, w.address]));
+      printLine('');
+      info(`Agents: ${bundle.manifest.agents.length > 0 ? bundle.manifest.agents.join(', ') : 'none'}`);
+      printLine('');
+      return;
+    }
+
+    const passphrase = await resolvePassphrase(opts.passphrase, 'Export passphrase: ');
+    const password = await resolvePassword(opts.password, 'Password for the restored wallets (min 8 chars): ');
+    if (password.length < 8) {
+      errorAndExit('Password must be at least 8 characters.');
+    }
+
+    header('Importing wallets');
+    const spin = spinner('Decrypting bundle and verifying keys…');
+    let result;
+    try {
+      result = importBackup(bundlePath, passphrase, {
+        keystoresDir: KEYSTORES_DIR,
+        password,
+        force: opts.force === true,
+      });
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && (err.code === 'INVALID_KEYSTORE' || err.code === 'INVALID_CONFIG')) {
+        errorAndExit(err.message);
+      }
+      fatalError(err, 'importBackup');
+    }
+    spin.stop();
+
+    for (const file of result.written) success(`Restored ${path.relative(process.cwd(), file)}`);
+
+    if (result.agents.length > 0) {
+      const configPath = path.resolve(opts.config);
+      const configs = readAgentEntries(configPath);
+      for (const agent of result.agents) {
+        const entry = { ...agent, keystorePath: path.relative(process.cwd(), agent['keystorePath'] as string) };
+        const existing = configs.findIndex((c) => c.id === agent.id);
+        if (existing === -1) {
+          configs.push(entry);
+          success(`Added agent "${agent.id}" to ${opts.config}`);
+        } else if (opts.force) {
+          configs[existing] = entry;
+          success(`Replaced agent "${agent.id}" in ${opts.config}`);
+        } else {
+          warn(`Agent "${agent.id}" already exists in ${opts.config}. Skipping (use --force to replace).`);
+        }
+      }
+      fs.writeFileSync(configPath, JSON.stringify(configs, null, 2), 'utf8');
+    }
+    printLine('');
+  });
+
+// ── wallet split ──────────────────────────────────────────────────────────────
+
+const splitCmd = new Command('split')
+  .description('Split a wallet key into Shamir shares, each encrypted under its holder\'s password')
+  .requiredOption('--name <id>', 'Wallet to split')
+  .requiredOption('--shares <n>', 'Number of shares to write')
+  .requiredOption('--threshold <k>', 'Shares needed to recover')
+  .option('--out <dir>', 'Directory for the share files (default: keystores/<name>-shares)')
+  .option('--password <pass>', 'Current wallet password')
+  .option('--share-password <pass>', 'Password for the next share, in order (repeatable)', (v: string, acc: string[]) => [...acc, v], [] as string[])
+  .option('--remove', 'Delete the original keystore once every share is written')
+  .action(async (opts: {
+    name: string;
+    shares: string;
+    threshold: string;
+    out?: string;
+    password?: string;
+    sharePassword: string[];
+    remove?: boolean;
+  }) => {
+    const shares = Number(opts.shares);
+    const threshold = Number(opts.threshold);
+    if (!Number.isInteger(shares) || !Number.isInteger(threshold) || threshold < 2 || shares < threshold || shares > 255) {
+      errorAndExit('Need 2 ≤ --threshold ≤ --shares ≤ 255.');
+    }
+
+    const kpPath = keystorePath(opts.name);
+    if (!fs.existsSync(kpPath)) {
+      errorAndExit(`Wallet "${opts.name}" not found at ${kpPath}.`);
+    }
+    const outDir = path.resolve(opts.out ?? path.join(KEYSTORES_DIR, `${opts.name}-shares`));
+    const paths = Array.from({ length: shares }, (_, i) => path.join(outDir, `${opts.name}.share-${i + 1}-of-${shares}.json`));
+    const existing = paths.filter((p) => fs.existsSync(p));
+    if (existing.length > 0) {
+      errorAndExit(`Share files already exist: ${existing.map((p) => path.basename(p)).join(', ')}`);
+    }
+
+    const password = await resolvePassword(opts.password, `Current password for "${opts.name}": `);
+
+    const targets: ShareTarget[] = [];
+    for (const [i, sharePath] of paths.entries()) {
+      let sharePassword = opts.sharePassword[i];
+      if (sharePassword === undefined) {
+        if (!process.stdin.isTTY) errorAndExit(`Pass --share-password once per share (${shares} needed).`);
+        sharePassword = await promptPassword(`Password for share ${i + 1} of ${shares} (min 8 chars): `);
+      }
+      if (sharePassword.length < 8) errorAndExit('Share passwords must be at least 8 characters.');
+      targets.push({ path: sharePath, password: sharePassword });
+    }
+
+    header(`Splitting wallet: ${opts.name}`);
+    const spin = spinner(`Writing ${shares} shares (any ${threshold} recover the key)…`);
+    let files;
+    try {
+      files = splitKeystore(kpPath, password, threshold, targets);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && (err.code === 'INVALID_KEYSTORE' || err.code === 'INVALID_CONFIG')) {
+        errorAndExit(err.message);
+      }
+      fatalError(err, 'splitKeystore');
+    }
+    spin.stop();
+
+    for (const p of paths) success(`Share written to ${p}`);
+    printLine('');
+    kv([
+      ['Public key', files[0]!.publicKey],
+      ['Split ID', files[0]!.splitId],
+      ['Threshold', `${threshold} of ${shares}`],
+    ]);
+    printLine('');
+
+    if (opts.remove) {
+      fs.rmSync(kpPath);
+      warn(`Removed ${kpPath}. Recover with: agentw wallet recover --name ${opts.name} --share <file> …`);
+    } else {
+      warn(`${kpPath} still unlocks the wallet on its own. Remove it once the shares are distributed.`);
+    }
+    info('Give each share file to a different operator, together with its password.');
+    printLine('');
+  });
+
+// ── wallet recover ────────────────────────────────────────────────────────────
+
+const recoverCmd = new Command('recover')
+  .description('Rebuild a wallet keystore from Shamir shares')
+  .requiredOption('--name <id>', 'Name for the rebuilt wallet')
+  .requiredOption('--share <file>', 'Share file (repeat for each share)', (v: string, acc: string[]) => [...acc, v], [] as string[])
+  .option('--password <pass>', 'Password for the rebuilt keystore (min 8 chars)')
+  .action(async (opts: { name: string; share: string[]; password?: string }) => {
+    if (!/^[\w-]+$/.test(opts.name)) {
+      errorAndExit('Wallet name may only contain letters, numbers, hyphens, and underscores.');
+    }
+    const kpPath = keystorePath(opts.name);
+    if (fs.existsSync(kpPath)) {
+      errorAndExit(`Wallet "${opts.name}" already exists at ${kpPath}.`);
+    }
+
+    const inputs: ShareTarget[] = [];
+    for (const file of opts.share) {
+      const sharePath = path.resolve(file);
+      let share;
+      try {
+        share = readShare(sharePath);
+      } catch (err) {
+        errorAndExit(err instanceof Error ? err.message : String(err));
+      }
+      if (!process.stdin.isTTY) errorAndExit('wallet recover asks each share holder for their password; run it interactively.');
+      const sharePassword = await promptPassword(
+        `Password for share ${share.index} of ${share.shares} (${share.publicKey.slice(0, 8)}…): `,
+      );
+      inputs.push({ path: sharePath, password: sharePassword });
+    }
+
+    const password = await resolvePassword(opts.password, 'Password for the rebuilt keystore (min 8 chars): ');
+    if (password.length < 8) {
+      errorAndExit('Password must be at least 8 characters.');
+    }
+
+    header(`Recovering wallet: ${opts.name}`);
+    const spin = spinner('Decrypting shares and rebuilding key…');
+    let keystore;
+    try {
+      keystore = recoverKeystore(inputs, password, kpPath);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && (err.code === 'INVALID_KEYSTORE' || err.code === 'INVALID_CONFIG')) {
+        errorAndExit(err.message);
+      }
+      fatalError(err, 'recoverKeystore');
+    }
+    spin.stop();
+
+    success(`Keystore saved to ${kpPath}`);
+    printLine('');
+    kv([
+      ['Name', opts.name],
+      ['Public key', keystore.publicKey],
+      ['Shares used', String(inputs.length)],
+    ]);
+    printLine('');
+  });
+
+// ── wallet nonce ──────────────────────────────────────────────────────────────
+
+const nonceCreateCmd = new Command('create')
+  .description('Create and fund this wallet\'s durable nonce account')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; password?: string }) => {
+    const wallet = await loadWallet(opts.name, opts.password);
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+
+    header(`Nonce Account: ${opts.name}`);
+
+    const spin = spinner('Creating nonce account…');
+    try {
+      const address = await getNonceAddress(wallet.publicKey);
+      const existing = await getNonceAccount(connection, address);
+      if (existing) {
+        spin.stop();
+        info(`Nonce account already exists: ${address.toBase58()}`);
+        printLine('');
+        return;
+      }
+
+      const { transaction, lamports } = await createNonceAccountTransaction(connection, wallet.publicKey);
+      const result = await wallet.signAndSendTransaction(transaction, BigInt(lamports), address.toBase58());
+      spin.stop();
+
+      if (result.status !== 'confirmed') {
+        errorAndExit(`Nonce account creation ${result.status}${result.error ? `: ${result.error}` : ''}`);
+      }
+      success('Nonce account created.');
+      kv([
+        ['Address', address.toBase58()],
+        ['Authority', wallet.publicKey.toBase58()],
+        ['Rent deposit', formatBalance(BigInt(lamports))],
+        ['Signature', result.signature ?? 'n/a'],
+      ]);
+      info('Set "useDurableNonce": true on the agent in agents.json to send through it.');
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && err.code === 'LIMIT_BREACH') {
+        errorAndExit(`Transaction rejected by spending limit: ${err.message}`);
+      }
+      fatalError(err, 'nonce create');
+    }
+    printLine('');
+  });
+
+const nonceShowCmd = new Command('show')
+  .description('Show this wallet\'s durable nonce account')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .action(async (opts: { name: string }) => {
+    const kpPath = keystorePath(opts.name);
+    if (!fs.existsSync(kpPath)) {
+      errorAndExit(`Wallet "${opts.name}" not found.`);
+    }
+    const address = await getNonceAddress(new PublicKey(getPublicKeyFromKeystore(kpPath)));
+
+    header(`Nonce Account: ${opts.name}`);
+    try {
+      const account = await getNonceAccount(new Connection(env.SOLANA_RPC_URL, 'confirmed'), address);
+      if (!account) {
+        info(`No nonce account at ${address.toBase58()}. Run: agentw wallet nonce create --name ${opts.name}`);
+      } else {
+        kv([
+          ['Address', address.toBase58()],
+          ['Authority', account.authorizedPubkey.toBase58()],
+          ['Nonce', account.nonce],
+          ['Fee / signature', `${account.feeCalculator.lamportsPerSignature} lamports`],
+        ]);
+      }
+    } catch (err) {
+      fatalError(err, 'nonce show');
+    }
+    printLine('');
+  });
+
+const nonceCmd = new Command('nonce')
+  .description('Manage the durable nonce account used for idempotent retries')
+  .addCommand(nonceCreateCmd)
+  .addCommand(nonceShowCmd);
+
+// ── wallet alt ────────────────────────────────────────────────────────────────
+
+/** Parses a public-key flag, exiting if it is invalid. */
+function parsePublicKey(value: string, flag: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    errorAndExit(`Invalid public key for ${flag}: ${value}`);
+  }
+}
+
+/** Signs and sends each transaction in turn, exiting on the first that does not confirm. */
+async function sendAll(
+  wallet: Awaited<ReturnType<typeof loadWallet>>,
+  transactions: Transaction[],
+  what: string,
+): Promise<string[]> {
+  const signatures: string[] = [];
+  for (const transaction of transactions) {
+    const result = await wallet.signAndSendTransaction(transaction);
+    if (result.status !== 'confirmed') {
+      errorAndExit(`${what} ${result.status}${result.error ? `: ${result.error}` : ''}`);
+    }
+    signatures.push(result.signature ?? 'n/a');
+  }
+  return signatures;
+}
+
+const collectAddress = (v: string, acc: string[]): string[] => [...acc, v];
+
+const altCreateCmd = new Command('create')
+  .description('Create an address lookup table controlled by this wallet')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .option('--address <pubkey>', 'Address to add (repeatable)', collectAddress, [] as string[])
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; address: string[]; password?: string }) => {
+    const addresses = opts.address.map((a) => parsePublicKey(a, '--address'));
+    const wallet = await loadWallet(opts.name, opts.password);
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+
+    header(`Lookup Table: ${opts.name}`);
+
+    const spin = spinner('Creating lookup table…');
+    try {
+      const { transaction, address } = await createLookupTableTransaction(connection, wallet.publicKey, addresses);
+      const signatures = await sendAll(wallet, [transaction], 'Lookup table creation');
+      const rest = addresses.slice(MAX_EXTEND_ADDRESSES);
+      if (rest.length > 0) {
+        const { transactions } = await extendLookupTableTransactions(connection, wallet.publicKey, address, rest);
+        signatures.push(...await sendAll(wallet, transactions, 'Lookup table extension'));
+      }
+      spin.stop();
+
+      success('Lookup table created.');
+      kv([
+        ['Address', address.toBase58()],
+        ['Authority', wallet.publicKey.toBase58()],
+        ['Addresses', String(new Set(addresses.map((a) => a.toBase58())).size)],
+        ['Signatures', signatures.join(', ')],
+      ]);
+      info(`Add "${address.toBase58()}" to the agent's "lookupTables" in agents.json to compile against it.`);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && err.code === 'LIMIT_BREACH') {
+        errorAndExit(`Transaction rejected by spending limit: ${err.message}`);
+      }
+      fatalError(err, 'alt create');
+    }
+    printLine('');
+  });
+
+const altExtendCmd = new Command('extend')
+  .description('Add addresses to one of this wallet\'s lookup tables')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .requiredOption('--table <pubkey>', 'Lookup table address')
+  .requiredOption('--address <pubkey>', 'Address to add (repeatable)', collectAddress, [] as string[])
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; table: string; address: string[]; password?: string }) => {
+    const table = parsePublicKey(opts.table, '--table');
+    const addresses = opts.address.map((a) => parsePublicKey(a, '--address'));
+    const wallet = await loadWallet(opts.name, opts.password);
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+
+    header(`Lookup Table: ${opts.name}`);
+
+    const spin = spinner('Extending lookup table…');
+    try {
+      const { transactions, added } = await extendLookupTableTransactions(
+        connection, wallet.publicKey, table, addresses,
+      );
+      if (added.length === 0) {
+        spin.stop();
+        info('Every address is already in the table.');
+        printLine('');
+        return;
+      }
+      const signatures = await sendAll(wallet, transactions, 'Lookup table extension');
+      spin.stop();
+
+      success(`Added ${added.length} address${added.length === 1 ? '' : 'es'}.`);
+      kv([
+        ['Address', table.toBase58()],
+        ['Signatures', signatures.join(', ')],
+      ]);
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && err.code === 'LIMIT_BREACH') {
+        errorAndExit(`Transaction rejected by spending limit: ${err.message}`);
+      }
+      fatalError(err, 'alt extend');
+    }
+    printLine('');
+  });
+
+const altDeactivateCmd = new Command('deactivate')
+  .description('Deactivate a lookup table so it can later be closed')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .requiredOption('--table <pubkey>', 'Lookup table address')
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; table: string; password?: string }) => {
+    const table = parsePublicKey(opts.table, '--table');
+    const wallet = await loadWallet(opts.name, opts.password);
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+
+    header(`Lookup Table: ${opts.name}`);
+
+    const spin = spinner('Deactivating lookup table…');
+    try {
+      const transaction = await deactivateLookupTableTransaction(connection, wallet.publicKey, table);
+      const [signature] = await sendAll(wallet, [transaction], 'Lookup table deactivation');
+      spin.stop();
+
+      success('Lookup table deactivated.');
+      kv([
+        ['Address', table.toBase58()],
+        ['Signature', signature ?? 'n/a'],
+      ]);
+      info('Remove it from "lookupTables" in agents.json. It can be closed in about 513 slots (~4 minutes).');
+    } catch (err) {
+      spin.stop();
+      fatalError(err, 'alt deactivate');
+    }
+    printLine('');
+  });
+
+const altCloseCmd = new Command('close')
+  .description('Close a deactivated lookup table and reclaim its rent')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .requiredOption('--table <pubkey>', 'Lookup table address')
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; table: string; password?: string }) => {
+    const table = parsePublicKey(opts.table, '--table');
+    const wallet = await loadWallet(opts.name, opts.password);
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+
+    header(`Lookup Table: ${opts.name}`);
+
+    const spin = spinner('Closing lookup table…');
+    try {
+      const transaction = await closeLookupTableTransaction(connection, wallet.publicKey, table);
+      const [signature] = await sendAll(wallet, [transaction], 'Lookup table close');
+      spin.stop();
+
+      success('Lookup table closed; its rent was returned to the wallet.');
+      kv([
+        ['Address', table.toBase58()],
+        ['Signature', signature ?? 'n/a'],
+      ]);
+    } catch (err) {
+      spin.stop();
+      fatalError(err, 'alt close');
+    }
+    printLine('');
+  });
+
+const altListCmd = new Command('list')
+  .description('List the lookup tables this wallet controls')
+  .requiredOption('--name <id>', 'Wallet identifier')
+  .action(async (opts: { name: string }) => {
+    const kpPath = keystorePath(opts.name);
+    if (!fs.existsSync(kpPath)) {
+      errorAndExit(`Wallet "${opts.name}" not found.`);
+    }
+    const authority = new PublicKey(getPublicKeyFromKeystore(kpPath));
+
+    header(`Lookup Tables: ${opts.name}`);
+    try {
+      const tables = await findLookupTables(new Connection(env.SOLANA_RPC_URL, 'confirmed'), authority);
+      if (tables.length === 0) {
+        info(`No lookup tables. Run: agentw wallet alt create --name ${opts.name}`);
+      }
+      for (const t of tables) {
+        kv([
+          ['Address', t.key.toBase58()],
+          ['Addresses', String(t.state.addresses.length)],
+          ['Status', t.isActive() ? 'active' : `deactivated at slot ${t.state.deactivationSlot}`],
+        ]);
+        printLine('');
+      }
+    } catch (err) {
+      fatalError(err, 'alt list');
+    }
+    printLine('');
+  });
+
+const altCmd = new Command('alt')
+  .description('Manage the address lookup tables this wallet\'s transactions compile against')
+  .addCommand(altCreateCmd)
+  .addCommand(altExtendCmd)
+  .addCommand(altDeactivateCmd)
+  .addCommand(altCloseCmd)
+  .addCommand(altListCmd);
+
+// ── wallet payout ─────────────────────────────────────────────────────────────
+
+/** Wide enough for full addresses: a payout table is checked by eye. */
+const PAYOUT_TABLE_WIDTH = 200;
+
+/** One row of a payout file, before amounts are scaled to base units. */
+interface PayoutRow {
+  line: number;
+  to: PublicKey;
+  amount: string;
+  mint?: PublicKey;
+}
+
+/**
+ * Parses a payout CSV: `address,amount[,mint]` per line, amounts in SOL or in
+ * whole tokens of the mint. A header line, blank lines and `#` comments are
+ * skipped. Exits naming the first bad line.
+ */
+function parsePayoutCsv(text: string): PayoutRow[] {
+  const rows: PayoutRow[] = [];
+  for (const [i, raw] of text.split(/\r?\n/).entries()) {
+    const line = i + 1;
+    const cells = raw.split(',').map((cell) => cell.trim());
+    if (cells.every((cell) => cell === '') || cells[0]!.startsWith('#')) continue;
+    if (rows.length === 0 && /^(address|recipient|to)$/i.test(cells[0]!)) continue;
+
+    if (cells.length < 2 || cells.length > 3) {
+      errorAndExit(`Line ${line}: expected address,amount[,mint], got "${raw.trim()}".`);
+    }
+    const [address, amount, mint] = cells as [string, string, string | undefined];
+    let to: PublicKey;
+    try {
+      to = new PublicKey(address);
+    } catch {
+      errorAndExit(`Line ${line}: invalid address "${address}".`);
+    }
+    if (!/^\d+(\.\d+)?$/.test(amount) || /^[0.]+$/.test(amount)) {
+      errorAndExit(`Line ${line}: amount must be a positive number, got "${amount}".`);
+    }
+    const row: PayoutRow = { line, to, amount };
+    if (mint) {
+      try {
+        row.mint = new PublicKey(mint);
+      } catch {
+        errorAndExit(`Line ${line}: invalid mint "${mint}".`);
+      }
+    }
+    rows.push(row);
+  }
+  if (rows.length === 0) errorAndExit('The CSV has no payout rows.');
+  return rows;
+}
+
+/** Scales a decimal string to base units, exiting if it has too many decimals. */
+function toBaseUnits(amount: string, decimals: number, line: number): bigint {
+  const [whole = '0', fraction = ''] = amount.split('.');
+  if (fraction.length > decimals) {
+    errorAndExit(`Line ${line}: ${amount} has more than ${decimals} decimal places.`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/** Formats base units with `decimals` places, trimming trailing zeros. */
+function fromBaseUnits(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return digits.slice(0, digits.length - decimals) + (fraction ? `.${fraction}` : '');
+}
+
+const payoutCmd = new Command('payout')
+  .description('Pay many recipients from a CSV in as few transactions as fit')
+  .requiredOption('--name <id>', 'Source wallet identifier')
+  .requiredOption('--csv <file>', 'CSV of address,amount[,mint] rows; amounts in SOL or whole tokens')
+  .option('--dry-run', 'Show the payouts without sending')
+  .option('--yes', 'Send without asking for confirmation')
+  .option('--password <pass>', 'Decryption password')
+  .action(async (opts: { name: string; csv: string; dryRun?: boolean; yes?: boolean; password?: string }) => {
+    if (!fs.existsSync(opts.csv)) errorAndExit(`CSV not found: ${opts.csv}`);
+    const rows = parsePayoutCsv(fs.readFileSync(opts.csv, 'utf8'));
+
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+    const assets = new Map<string, { decimals: number; symbol: string }>([['SOL', { decimals: 9, symbol: 'SOL' }]]);
+    try {
+      for (const { mint } of rows) {
+        if (mint && !assets.has(mint.toBase58())) {
+          const { decimals } = await getTokenMintInfo(connection, mint);
+          assets.set(mint.toBase58(), { decimals, symbol: getTokenSymbol(mint.toBase58()) ?? `${mint.toBase58().slice(0, 8)}…` });
+        }
+      }
+    } catch (err) {
+      fatalError(err, 'payout');
+    }
+    const transfers: BatchTransfer[] = rows.map(({ line, to, amount, mint }) => ({
+      to,
+      amount: toBaseUnits(amount, assets.get(mint?.toBase58() ?? 'SOL')!.decimals, line),
+      ...(mint !== undefined && { mint }),
+    }));
+
+    header(`Payout: ${opts.name}`);
+    table(
+      ['Line', 'Recipient', 'Amount', 'Asset'],
+      transfers.map(({ to, amount, mint }, i) => {
+        const asset = assets.get(mint?.toBase58() ?? 'SOL')!;
+        return [String(rows[i]!.line), to.toBase58(), fromBaseUnits(amount, asset.decimals), asset.symbol];
+      }),
+      { maxWidth: PAYOUT_TABLE_WIDTH },
+    );
+    printLine('');
+    const totals = new Map<string, bigint>();
+    for (const { amount, mint } of transfers) {
+      const key = mint?.toBase58() ?? 'SOL';
+      totals.set(key, (totals.get(key) ?? 0n) + amount);
+    }
+    kv([
+      ['Recipients', String(transfers.length)],
+      ...[...totals].map(([key, total]): [string, string] => {
+        const asset = assets.get(key)!;
+        return [`Total ${asset.symbol}`, fromBaseUnits(total, asset.decimals)];
+      }),
+      ['Network', env.SOLANA_NETWORK],
+    ]);
+    printLine('');
+
+    if (opts.dryRun) {
+      info('Dry run: nothing was sent.');
+      printLine('');
+      return;
+    }
+    if (!opts.yes) {
+      if (!process.stdin.isTTY) errorAndExit('Pass --yes to send without a confirmation prompt.');
+      if (!await promptConfirm(`Send ${transfers.length} payouts?`)) {
+        info('Cancelled.');
+        return;
+      }
+    }
+
+    const wallet = await loadWallet(opts.name, opts.password);
+    const spin = spinner('Checking limits and sending payouts…');
+    try {
+      const results = await wallet.sendBatch(transfers);
+      spin.stop();
+
+      table(
+        ['Line', 'Recipient', 'Status', 'Signature'],
+        results.map((r, i) => [String(rows[i]!.line), r.to, r.status, r.signature ?? r.error ?? '']),
+        { maxWidth: PAYOUT_TABLE_WIDTH * 2 },
+      );
+      printLine('');
+      const confirmed = results.filter((r) => r.status === 'confirmed').length;
+      if (confirmed === results.length) {
+        success(`All ${confirmed} payouts confirmed.`);
+      } else {
+        warn(`${confirmed} of ${results.length} payouts confirmed. Check the rest before re-running.`);
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      spin.stop();
+      if (err instanceof WalletError && err.code === 'LIMIT_BREACH') {
+        errorAndExit(`Payout rejected by spending limit: ${err.message}`);
+      }
+      fatalError(err, 'payout');
+    }
+    printLine('');
+  });
+
+// ── wallet sweep-rent ─────────────────────────────────────────────────────────
+
+const sweepRentCmd = new Command('sweep-rent')
+  .description('Close empty token accounts across all agents and reclaim their rent')
+  .option('--config <path>', 'Path to agents.json config file')
+  .option('--agent <id>', 'Only this agent (repeatable)', (v: string, acc: string[]) => [...acc, v], [] as string[])
+  .option('--dry-run', 'List the accounts without closing them')
+  .option('--yes', 'Close without asking for confirmation')
+  .option('--password <pass>', 'Decryption password, for wallets without a running session')
+  .action(async (opts: { config?: string; agent: string[]; dryRun?: boolean; yes?: boolean; password?: string }) => {
+    const configPath = path.resolve(opts.config ?? env.AGENTS_CONFIG_PATH);
+    const entries = readAgentEntries(configPath)
+      .filter((entry) => opts.agent.length === 0 || opts.agent.includes(entry.id));
+    if (entries.length === 0) errorAndExit(`No matching agents in ${configPath}.`);
+
+    const wallets: Array<{ id: string; kpPath: string; owner: PublicKey }> = [];
+    for (const entry of entries) {
+      const kpPath = typeof entry['keystorePath'] === 'string' ? path.resolve(entry['keystorePath']) : undefined;
+      if (!kpPath || !fs.existsSync(kpPath)) {
+        warn(`Skipping agent "${entry.id}": keystore not found.`);
+        continue;
+      }
+      wallets.push({ id: entry.id, kpPath, owner: new PublicKey(getPublicKeyFromKeystore(kpPath)) });
+    }
+
+    header('Sweep Rent');
+    const connection = new Connection(env.SOLANA_RPC_URL, 'confirmed');
+    const spin = spinner('Finding empty token accounts…');
+    const found: Array<{ id: string; kpPath: string; accounts: EmptyTokenAccount[] }> = [];
+    try {
+      for (const wallet of wallets) {
+        const accounts = await findEmptyTokenAccounts(connection, wallet.owner);
+        if (accounts.length > 0) found.push({ ...wallet, accounts });
+      }
+    } catch (err) {
+      spin.stop();
+      fatalError(err, 'sweep-rent');
+    }
+    spin.stop();
+
+    const all = found.flatMap(({ id, accounts }) => accounts.map((account) => ({ id, ...account })));
+    if (all.length === 0) {
+      info('No empty token accounts.');
+      printLine('');
+      return;
+    }
+    table(
+      ['Agent', 'Account', 'Mint', 'Rent'],
+      all.map(({ id, address, mint, lamports }) => [
+        id, address.toBase58(), getTokenSymbol(mint.toBase58()) ?? mint.toBase58(), formatBalance(lamports),
+      ]),
+      { maxWidth: PAYOUT_TABLE_WIDTH },
+    );
+    printLine('');
+    kv([
+      ['Accounts', String(all.length)],
+      ['Reclaimable', formatBalance(all.reduce((sum, a) => sum + a.lamports, 0n))],
+      ['Network', env.SOLANA_NETWORK],
+    ]);
+    printLine('');
+
+    if (opts.dryRun) {
+      info('Dry run: nothing was closed.');
+      printLine('');
+      return;
+    }
+    if (!opts.yes) {
+      if (!process.stdin.isTTY) errorAndExit('Pass --yes to close without a confirmation prompt.');
+      if (!await promptConfirm(`Close ${all.length} accounts?`)) {
+        info('Cancelled.');
+        return;
+      }
+    }
+
+    // One agent failing does not stop the others
+    const rows: string[][] = [];
+    let reclaimed = 0n;
+    let incomplete = false;
+    for (const { id, kpPath } of found) {
+      const closing = spinner(`Closing accounts of ${id}…`);
+      try {
+        const wallet = await openWallet(id, opts.password, kpPath);
+        for (const closed of await wallet.closeEmptyTokenAccounts()) {
+          if (closed.status === 'confirmed') reclaimed += closed.lamports;
+          else incomplete = true;
+          rows.push([id, closed.account, closed.status, closed.signature ?? closed.error ?? '']);
+        }
+        closing.stop();
+      } catch (err) {
+        closing.stop();
+        incomplete = true;
+        const reason = err instanceof WalletError && err.code === 'INVALID_KEYSTORE'
+          ? 'Wrong password or corrupted keystore.'
+          : err instanceof Error ? err.message : String(err);
+        rows.push([id, '—', 'failed', reason]);
+      }
+    }
+
+    table(['Agent', 'Account', 'Status', 'Signature'], rows, { maxWidth: PAYOUT_TABLE_WIDTH * 2 });
+    printLine('');
+    if (incomplete) {
+      warn(`Reclaimed ${formatBalance(reclaimed)}; some accounts were not closed.`);
+      process.exitCode = 1;
+    } else {
+      success(`Reclaimed ${formatBalance(reclaimed)}.`);
+    }
     printLine('');
   });
 
@@ -348,4 +1574,15 @@ export const walletCommand = new Command('wallet')
   .addCommand(balanceCmd)
   .addCommand(airdropCmd)
   .addCommand(transferCmd)
-  .addCommand(listCmd);
+  .addCommand(listCmd)
+  .addCommand(rekeyCmd)
+  .addCommand(masterCmd)
+  .addCommand(deriveCmd)
+  .addCommand(exportCmd)
+  .addCommand(importCmd)
+  .addCommand(splitCmd)
+  .addCommand(recoverCmd)
+  .addCommand(nonceCmd)
+  .addCommand(altCmd)
+  .addCommand(payoutCmd)
+  .addCommand(sweepRentCmd);
@@ -15,6 +15,20 @@
  *   agentw agent start  --name alice --strategy dca
  *   agentw agent status [--name alice]
  *   agentw agent log    --name alice [--last 50]
+ *   agentw agent resume --name alice
+ *
+ *   agentw halt --all
+ *   agentw halt --name alice
+ *
+ *   agentw approvals list [--name alice]
+ *   agentw approvals approve <id>
+ *   agentw approvals reject  <id>
+ *
+ *   agentw guardian start --name alice
+ *   agentw signer serve   --name alice
+ *
+ *   agentw unlock --name alice [--ttl 15]
+ *   agentw lock
  *
  * Run with:
  *   npx tsx src/cli/index.ts <command>
@@ -26,6 +40,11 @@ import { Command } from 'commander';
 import { walletCommand } from './commands/wallet.js';
 import { agentCommand } from './commands/agent.js';
 import { dashboardCommand } from './commands/dashboard.js';
+import { approvalsCommand } from './commands/approvals.js';
+import { guardianCommand } from './commands/guardian.js';
+import { signerCommand } from './commands/signer.js';
+import { unlockCommand, lockCommand } from './commands/session.js';
+import { haltCommand } from './commands/halt.js';
 
 const program = new Command()
   .name('agentw')
@@ -42,6 +61,12 @@ const program = new Command()
 program.addCommand(walletCommand);
 program.addCommand(agentCommand);
 program.addCommand(dashboardCommand);
+program.addCommand(approvalsCommand);
+program.addCommand(guardianCommand);
+program.addCommand(signerCommand);
+program.addCommand(unlockCommand);
+program.addCommand(lockCommand);
+program.addCommand(haltCommand);
 
 // Catch unhandled top-level errors (e.g. missing subcommand)
 program.parseAsync(process.argv).catch((err: unknown) => {
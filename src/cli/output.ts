@@ -193,6 +193,20 @@ export function promptPassword(prompt = 'Wallet password: '): Promise<string> {
   });
 }
 
+/** Asks a yes/no question; anything but y or yes is no. */
+export function promptConfirm(prompt: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input:  process.stdin,
+      output: process.stdout,
+    });
+    rl.question(`${prompt} [y/N] `, (answer) => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
 // ── Audit row formatter ───────────────────────────────────────────────────────
 
 import type { AuditRow } from '../logger/audit.js';
@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { config as loadDotenv } from 'dotenv';
+import type { SpendingLimits } from '../wallet/types.js';
 
 loadDotenv();
 
@@ -33,6 +34,9 @@ const envSchema = z.object({
   // Only available in non-production environments
   WALLET_SECRET_KEY: z.string().optional(),
 
+  // Unix socket of the `agentw unlock` session
+  SESSION_SOCKET_PATH: z.string().default('./keystores/agentw-session.sock'),
+
   // ── Spending Limits ─────────────────────────────────────────────────────────
   MAX_PER_TX_SOL: z.coerce
     .number()
@@ -44,6 +48,19 @@ const envSchema = z.object({
     .positive('MAX_SESSION_SOL must be positive')
     .default(1.0),
 
+  // Durable windows — persisted in the audit DB, so they survive restarts
+  MAX_ROLLING_24H_SOL: z.coerce.number().positive('MAX_ROLLING_24H_SOL must be positive').optional(),
+  MAX_DAILY_SOL: z.coerce.number().positive('MAX_DAILY_SOL must be positive').optional(),
+  MAX_LIFETIME_SOL: z.coerce.number().positive('MAX_LIFETIME_SOL must be positive').optional(),
+
+  // Network fees per session, counted separately from (and also within) the caps above
+  MAX_SESSION_FEES_SOL: z.coerce.number().positive('MAX_SESSION_FEES_SOL must be positive').optional(),
+
+  // USD caps — priced at signing time via the price oracle
+  MAX_PER_TX_USD: z.coerce.number().positive('MAX_PER_TX_USD must be positive').optional(),
+  MAX_SESSION_USD: z.coerce.number().positive('MAX_SESSION_USD must be positive').optional(),
+  MAX_PRICE_AGE_SEC: z.coerce.number().positive('MAX_PRICE_AGE_SEC must be positive').optional(),
+
   // ── Logging ─────────────────────────────────────────────────────────────────
   LOG_LEVEL: z
     .enum(['trace', 'debug', 'info', 'warn', 'error'])
@@ -54,6 +71,8 @@ const envSchema = z.object({
   // ── Agent ───────────────────────────────────────────────────────────────────
   AGENTS_CONFIG_PATH: z.string().default('./agents.json'),
   AGENT_INTERVAL_MS: z.coerce.number().positive().default(30_000),
+  // Comma-separated mints every agent reports even at zero balance, unless agents.json sets trackedMints
+  TRACKED_MINTS: z.string().optional(),
 
   // ── LLM Reasoning ───────────────────────────────────────────────────────────
   OPENROUTER_API_KEY: z
@@ -108,10 +127,21 @@ export const env = parseEnv();
 
 // ── Derived values ────────────────────────────────────────────────────────────
 
+function solToLamports(sol: number): bigint {
+  return BigInt(Math.round(sol * Number(SOL_TO_LAMPORTS)));
+}
+
 /** Spending limits in lamports, derived from SOL values in env. */
-export const spendingLimits = {
-  maxPerTxLamports: BigInt(Math.round(env.MAX_PER_TX_SOL * Number(SOL_TO_LAMPORTS))),
-  maxSessionLamports: BigInt(Math.round(env.MAX_SESSION_SOL * Number(SOL_TO_LAMPORTS))),
-} as const;
+export const spendingLimits: SpendingLimits = {
+  maxPerTxLamports: solToLamports(env.MAX_PER_TX_SOL),
+  maxSessionLamports: solToLamports(env.MAX_SESSION_SOL),
+  ...(env.MAX_ROLLING_24H_SOL !== undefined && { maxRolling24hLamports: solToLamports(env.MAX_ROLLING_24H_SOL) }),
+  ...(env.MAX_DAILY_SOL !== undefined && { maxDailyLamports: solToLamports(env.MAX_DAILY_SOL) }),
+  ...(env.MAX_LIFETIME_SOL !== undefined && { maxLifetimeLamports: solToLamports(env.MAX_LIFETIME_SOL) }),
+  ...(env.MAX_SESSION_FEES_SOL !== undefined && { maxSessionFeesLamports: solToLamports(env.MAX_SESSION_FEES_SOL) }),
+  ...(env.MAX_PER_TX_USD !== undefined && { maxPerTxUsd: env.MAX_PER_TX_USD }),
+  ...(env.MAX_SESSION_USD !== undefined && { maxSessionUsd: env.MAX_SESSION_USD }),
+  ...(env.MAX_PRICE_AGE_SEC !== undefined && { maxPriceAgeSec: env.MAX_PRICE_AGE_SEC }),
+};
 
 export type Env = z.infer<typeof envSchema>;
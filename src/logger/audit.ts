@@ -15,6 +15,7 @@
 import Database from 'better-sqlite3';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { OutgoingTx, SpendLedger, SpendRecord, TxJournal } from '../wallet/types.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -23,12 +24,19 @@ export type AuditEventType =
   | 'tx_confirmed'
   | 'tx_failed'
   | 'tx_timeout'
+  | 'tx_expired'
   | 'agent_action'
   | 'agent_noop'
   | 'agent_start'
   | 'agent_stop'
   | 'agent_error'
   | 'limit_breach'
+  | 'unexpected_balance_change'
+  | 'approval_requested'
+  | 'approval_granted'
+  | 'approval_rejected'
+  | 'agent_halted'
+  | 'agent_resumed'
   | 'system_stop_request';
 
 export interface AuditEvent {
@@ -63,6 +71,83 @@ export interface QueryOptions {
   event?: AuditEventType;
   limit?: number;
   before?: string; // ISO timestamp
+  since?: string;  // ISO timestamp, inclusive
+}
+
+/**
+ * Lifecycle of a queued action:
+ * pending → approved → executed, or pending → rejected, or → expired once
+ * `expires_at` passes before execution.
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed';
+
+export interface ApprovalRow {
+  id: number;
+  /** ISO 8601 timestamp the action was queued. */
+  created_at: string;
+  /** ISO 8601 timestamp after which the action can no longer be approved or executed. */
+  expires_at: string;
+  agent_id: string;
+  wallet_pk: string;
+  action_type: string;
+  /** SOL value of the action in lamports, as a decimal string. */
+  lamports: string;
+  /** The Action with bigint params stringified, as JSON. */
+  action_json: string;
+  rationale: string;
+  status: ApprovalStatus;
+  decided_at: string | null;
+  decided_by: string | null;
+}
+
+export interface ApprovalRequest {
+  agentId: string;
+  walletPk: string;
+  action: { type: string; params: Record<string, unknown>; rationale: string };
+  lamports: bigint;
+  /** How long the request stays valid, in ms. */
+  ttlMs: number;
+}
+
+/** `agent_id` of a halt that applies to every agent. */
+export const HALT_ALL = '*';
+
+export interface HaltRow {
+  id: number;
+  /** ISO 8601 timestamp the halt was raised. */
+  created_at: string;
+  /** The halted agent, or HALT_ALL. */
+  agent_id: string;
+  reason: string;
+  /** `manual` for `agentw halt`, `circuit_breaker` when an agent tripped itself. */
+  source: 'manual' | 'circuit_breaker';
+  created_by: string;
+  cleared_at: string | null;
+  cleared_by: string | null;
+}
+
+/** One asset in a portfolio snapshot. */
+export interface PortfolioHolding {
+  /** Base58 mint; SOL is recorded under the WSOL mint. */
+  mint: string;
+  symbol?: string;
+  /** Raw base units. */
+  amount: bigint;
+  decimals: number;
+  /** USD per whole token, or null if no price was available. */
+  priceUsd: number | null;
+}
+
+/** An agent's wallet valued at one moment, recorded once per tick. */
+export interface PortfolioSnapshot {
+  /** ISO 8601 timestamp. */
+  ts: string;
+  agentId: string;
+  walletPk: string;
+  /** SOL first, then each token. */
+  holdings: PortfolioHolding[];
+  /** Sum of every priced holding in USD. Unpriced holdings are left out. */
+  valueUsd: number;
 }
 
 // ── Forbidden field names (key-adjacent) ─────────────────────────────────────
@@ -123,6 +208,63 @@ export class AuditDb {
       CREATE INDEX IF NOT EXISTS idx_agent ON events (agent_id, ts);
       CREATE INDEX IF NOT EXISTS idx_event ON events (event, ts);
       CREATE INDEX IF NOT EXISTS idx_wallet ON events (wallet_pk, ts);
+
+      CREATE TABLE IF NOT EXISTS pending_approvals (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at  TEXT    NOT NULL,
+        expires_at  TEXT    NOT NULL,
+        agent_id    TEXT    NOT NULL,
+        wallet_pk   TEXT    NOT NULL,
+        action_type TEXT    NOT NULL,
+        lamports    TEXT    NOT NULL,
+        action_json TEXT    NOT NULL,
+        rationale   TEXT    NOT NULL,
+        status      TEXT    NOT NULL DEFAULT 'pending',
+        decided_at  TEXT,
+        decided_by  TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_approvals_agent ON pending_approvals (agent_id, status);
+
+      CREATE TABLE IF NOT EXISTS halts (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at  TEXT    NOT NULL,
+        agent_id    TEXT    NOT NULL,
+        reason      TEXT    NOT NULL,
+        source      TEXT    NOT NULL,
+        created_by  TEXT    NOT NULL,
+        cleared_at  TEXT,
+        cleared_by  TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_halts_agent ON halts (agent_id, cleared_at);
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id            INTEGER PRIMARY KEY AUTOINCREMENT,
+        ts            TEXT    NOT NULL,
+        agent_id      TEXT    NOT NULL,
+        wallet_pk     TEXT    NOT NULL,
+        value_usd     REAL    NOT NULL,
+        holdings_json TEXT    NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_portfolio_agent ON portfolio_snapshots (agent_id, ts);
+
+      CREATE TABLE IF NOT EXISTS outgoing_txs (
+        signature               TEXT    PRIMARY KEY,
+        ts                      TEXT    NOT NULL,
+        agent_id                TEXT    NOT NULL,
+        wallet_pk               TEXT    NOT NULL,
+        intent_key              TEXT    NOT NULL,
+        lamports                TEXT    NOT NULL,
+        last_valid_block_height INTEGER,
+        nonce_account           TEXT,
+        nonce                   TEXT,
+        status                  TEXT    NOT NULL DEFAULT 'pending',
+        resolved_at             TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outgoing_wallet ON outgoing_txs (agent_id, wallet_pk, status);
     `);
   }
 
@@ -173,7 +315,7 @@ export class AuditDb {
 
   /** Returns the most recent N events, optionally filtered. */
   query(opts: QueryOptions = {}): AuditRow[] {
-    const { agentId, walletPk, event, limit = 50, before } = opts;
+    const { agentId, walletPk, event, limit = 50, before, since } = opts;
 
     const conditions: string[] = [];
     const params: Record<string, unknown> = {};
@@ -182,6 +324,7 @@ export class AuditDb {
     if (walletPk) { conditions.push('wallet_pk = @walletPk'); params['walletPk'] = walletPk; }
     if (event) { conditions.push('event = @event'); params['event'] = event; }
     if (before) { conditions.push('ts < @before'); params['before'] = before; }
+    if (since) { conditions.push('ts >= @since'); params['since'] = since; }
 
     const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
     const sql = `SELECT * FROM events ${where} ORDER BY ts DESC LIMIT @limit`;
@@ -213,6 +356,325 @@ export class AuditDb {
     return row.n;
   }
 
+  // ── Spend ledger ────────────────────────────────────────────────────────────
+
+  /**
+   * Returns a SpendLedger backed by this agent's `tx_confirmed` rows, used to
+   * rehydrate SpendingLimitGuard on start. Each row's `spentLamports` detail
+   * (written by AgentLoop) is the spend the guard recorded. Rows written before
+   * that field existed fall back to `lastTxAmount`, which can over-count but
+   * never under-counts.
+   */
+  getSpendLedger(agentId: string, walletPk: string): SpendLedger {
+    return {
+      load: (): SpendRecord[] => {
+        const rows = this.db
+          .prepare(
+            `SELECT ts, details_json FROM events
+             WHERE agent_id = ? AND wallet_pk = ? AND event = 'tx_confirmed'
+             ORDER BY ts ASC`,
+          )
+          .all(agentId, walletPk) as Array<{ ts: string; details_json: string }>;
+
+        const records: SpendRecord[] = [];
+        for (const row of rows) {
+          try {
+            const details = JSON.parse(row.details_json) as Record<string, unknown>;
+            const raw = details['spentLamports'] ?? details['lastTxAmount'];
+            if (raw === undefined || raw === null) continue;
+            records.push({ ts: new Date(row.ts).getTime(), lamports: BigInt(String(raw)) });
+          } catch {
+            // malformed row — skip rather than block the agent from starting
+          }
+        }
+        return records;
+      },
+    };
+  }
+
+  // ── Outgoing transaction journal ────────────────────────────────────────────
+
+  /**
+   * Durable TxJournal for one agent/wallet, so transactions still in flight
+   * when the process stopped are reconciled after a restart. Outcomes found
+   * by reconciliation are also written as events: a late confirmation as
+   * `tx_confirmed` with its `spentLamports`, so the spend ledger counts it.
+   */
+  getTxJournal(agentId: string, walletPk: string): TxJournal {
+    return {
+      record: (tx: OutgoingTx): void => {
+        if (this.closed) throw new Error('AuditDb: attempted write after close()');
+        this.db
+          .prepare(
+            `INSERT OR IGNORE INTO outgoing_txs
+               (signature, ts, agent_id, wallet_pk, intent_key, lamports, last_valid_block_height, nonce_account, nonce)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            tx.signature, new Date().toISOString(), agentId, walletPk, tx.intentKey, tx.lamports.toString(),
+            tx.lastValidBlockHeight ?? null, tx.nonceAccount ?? null, tx.nonce ?? null,
+          );
+      },
+
+      resolve: (tx, status, reconciled): void => {
+        if (this.closed) throw new Error('AuditDb: attempted write after close()');
+        const changed = this.db
+          .prepare(
+            `UPDATE outgoing_txs SET status = ?, resolved_at = ?
+             WHERE signature = ? AND status = 'pending'`,
+          )
+          .run(status, new Date().toISOString(), tx.signature).changes;
+        if (!reconciled || changed === 0) return;
+
+        const event = status === 'confirmed' ? 'tx_confirmed' : status === 'failed' ? 'tx_failed' : 'tx_expired';
+        this.log(
+          agentId,
+          walletPk,
+          event,
+          { reconciled: true, ...(status === 'confirmed' && { spentLamports: tx.lamports.toString() }) },
+          { signature: tx.signature, status },
+        );
+      },
+
+      pending: (): OutgoingTx[] => {
+        const rows = this.db
+          .prepare(
+            `SELECT signature, intent_key, lamports, last_valid_block_height, nonce_account, nonce
+             FROM outgoing_txs
+             WHERE agent_id = ? AND wallet_pk = ? AND status = 'pending'
+             ORDER BY ts ASC`,
+          )
+          .all(agentId, walletPk) as Array<{
+            signature: string; intent_key: string; lamports: string;
+            last_valid_block_height: number | null; nonce_account: string | null; nonce: string | null;
+          }>;
+
+        return rows.map((row) => {
+          const tx: OutgoingTx = { signature: row.signature, intentKey: row.intent_key, lamports: BigInt(row.lamports) };
+          if (row.last_valid_block_height !== null) tx.lastValidBlockHeight = row.last_valid_block_height;
+          if (row.nonce_account !== null) tx.nonceAccount = row.nonce_account;
+          if (row.nonce !== null) tx.nonce = row.nonce;
+          return tx;
+        });
+      },
+    };
+  }
+
+  // ── Portfolio snapshots ─────────────────────────────────────────────────────
+
+  recordPortfolioSnapshot(snapshot: PortfolioSnapshot): void {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    const holdings = snapshot.holdings.map((h) => ({ ...h, amount: h.amount.toString() }));
+    this.db
+      .prepare(
+        `INSERT INTO portfolio_snapshots (ts, agent_id, wallet_pk, value_usd, holdings_json)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(snapshot.ts, snapshot.agentId, snapshot.walletPk, snapshot.valueUsd, JSON.stringify(holdings));
+  }
+
+  /** Returns an agent's snapshots oldest first, optionally from `since` (ISO, inclusive) on. */
+  listPortfolioSnapshots(agentId: string, since?: string): PortfolioSnapshot[] {
+    const rows = this.db
+      .prepare(
+        `SELECT ts, agent_id, wallet_pk, value_usd, holdings_json FROM portfolio_snapshots
+         WHERE agent_id = ? AND ts >= ?
+         ORDER BY ts ASC, id ASC`,
+      )
+      .all(agentId, since ?? '') as Array<{
+        ts: string; agent_id: string; wallet_pk: string; value_usd: number; holdings_json: string;
+      }>;
+
+    return rows.map((row) => ({
+      ts: row.ts,
+      agentId: row.agent_id,
+      walletPk: row.wallet_pk,
+      valueUsd: row.value_usd,
+      holdings: (JSON.parse(row.holdings_json) as Array<Omit<PortfolioHolding, 'amount'> & { amount: string }>)
+        .map((h) => ({ ...h, amount: BigInt(h.amount) })),
+    }));
+  }
+
+  // ── Approvals ───────────────────────────────────────────────────────────────
+
+  /**
+   * Queues an action for human approval and writes an `approval_requested`
+   * event. Returns the new approval id.
+   */
+  requestApproval(req: ApprovalRequest): number {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    const now = Date.now();
+    const action = sanitiseDetails(req.action as unknown as Record<string, unknown>);
+    const info = this.db
+      .prepare(
+        `INSERT INTO pending_approvals
+           (created_at, expires_at, agent_id, wallet_pk, action_type, lamports, action_json, rationale)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        new Date(now).toISOString(),
+        new Date(now + req.ttlMs).toISOString(),
+        req.agentId,
+        req.walletPk,
+        req.action.type,
+        req.lamports.toString(),
+        JSON.stringify(action, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value)),
+        req.action.rationale,
+      );
+    const id = Number(info.lastInsertRowid);
+
+    this.log(req.agentId, req.walletPk, 'approval_requested', {
+      approvalId: id,
+      action: req.action.type,
+      lamports: req.lamports.toString(),
+      expiresAt: new Date(now + req.ttlMs).toISOString(),
+      rationale: req.action.rationale,
+    });
+    return id;
+  }
+
+  /** Returns approvals newest first, after marking any that have lapsed as expired. */
+  listApprovals(opts: { agentId?: string; status?: ApprovalStatus; limit?: number } = {}): ApprovalRow[] {
+    this.expireApprovals();
+
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: opts.limit ?? 50 };
+    if (opts.agentId) { conditions.push('agent_id = @agentId'); params['agentId'] = opts.agentId; }
+    if (opts.status) { conditions.push('status = @status'); params['status'] = opts.status; }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.db
+      .prepare(`SELECT * FROM pending_approvals ${where} ORDER BY id DESC LIMIT @limit`)
+      .all(params) as ApprovalRow[];
+  }
+
+  getApproval(id: number): ApprovalRow | undefined {
+    this.expireApprovals();
+    return this.db.prepare('SELECT * FROM pending_approvals WHERE id = ?').get(id) as ApprovalRow | undefined;
+  }
+
+  /**
+   * Approves or rejects a pending action and writes an `approval_granted` /
+   * `approval_rejected` event. Throws if the approval does not exist or is no
+   * longer pending — including when it has expired.
+   */
+  decideApproval(id: number, decision: 'approved' | 'rejected', decidedBy: string): ApprovalRow {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    const row = this.getApproval(id);
+    if (!row) throw new Error(`Approval #${id} not found.`);
+    if (row.status !== 'pending') throw new Error(`Approval #${id} is ${row.status}, not pending.`);
+
+    const decidedAt = new Date().toISOString();
+    this.db
+      .prepare(`UPDATE pending_approvals SET status = ?, decided_at = ?, decided_by = ? WHERE id = ? AND status = 'pending'`)
+      .run(decision, decidedAt, decidedBy, id);
+
+    this.log(row.agent_id, row.wallet_pk, decision === 'approved' ? 'approval_granted' : 'approval_rejected', {
+      approvalId: id,
+      action: row.action_type,
+      lamports: row.lamports,
+      decidedBy,
+    });
+    return { ...row, status: decision, decided_at: decidedAt, decided_by: decidedBy };
+  }
+
+  /**
+   * Atomically takes the oldest approved, unexpired action for this agent and
+   * marks it executed, so an approval can run at most once.
+   */
+  claimApprovedAction(agentId: string, walletPk: string): ApprovalRow | undefined {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    return this.db.transaction((): ApprovalRow | undefined => {
+      this.expireApprovals();
+      const row = this.db
+        .prepare(
+          `SELECT * FROM pending_approvals
+           WHERE agent_id = ? AND wallet_pk = ? AND status = 'approved'
+           ORDER BY id ASC LIMIT 1`,
+        )
+        .get(agentId, walletPk) as ApprovalRow | undefined;
+      if (!row) return undefined;
+
+      this.db.prepare(`UPDATE pending_approvals SET status = 'executed' WHERE id = ?`).run(row.id);
+      return { ...row, status: 'executed' };
+    })();
+  }
+
+  /** Marks pending and approved-but-unexecuted actions past their expiry as expired. */
+  private expireApprovals(): void {
+    if (this.closed) return;
+    this.db
+      .prepare(
+        `UPDATE pending_approvals SET status = 'expired'
+         WHERE status IN ('pending', 'approved') AND expires_at <= ?`,
+      )
+      .run(new Date().toISOString());
+  }
+
+  // ── Halts ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Halts one agent, or every agent when `agentId` is HALT_ALL, and writes an
+   * `agent_halted` event. A halt stays active until resume() clears it.
+   */
+  halt(agentId: string, reason: string, source: HaltRow['source'], createdBy: string, walletPk = 'SIGNAL'): number {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    const info = this.db
+      .prepare('INSERT INTO halts (created_at, agent_id, reason, source, created_by) VALUES (?, ?, ?, ?, ?)')
+      .run(new Date().toISOString(), agentId, reason, source, createdBy);
+    const id = Number(info.lastInsertRowid);
+
+    this.log(agentId, walletPk, 'agent_halted', { haltId: id, reason, source, createdBy });
+    return id;
+  }
+
+  /** The oldest active halt covering `agentId` — its own or a global one. */
+  getActiveHalt(agentId: string): HaltRow | undefined {
+    return this.db
+      .prepare(
+        `SELECT * FROM halts
+         WHERE cleared_at IS NULL AND (agent_id = ? OR agent_id = ?)
+         ORDER BY id ASC LIMIT 1`,
+      )
+      .get(agentId, HALT_ALL) as HaltRow | undefined;
+  }
+
+  /** Active halts, oldest first. */
+  listActiveHalts(): HaltRow[] {
+    return this.db
+      .prepare('SELECT * FROM halts WHERE cleared_at IS NULL ORDER BY id ASC')
+      .all() as HaltRow[];
+  }
+
+  /**
+   * Clears every active halt raised against `agentId` (HALT_ALL clears only
+   * the global halt) and writes an `agent_resumed` event. Returns the halts
+   * cleared; empty if there were none.
+   */
+  resume(agentId: string, clearedBy: string): HaltRow[] {
+    if (this.closed) throw new Error('AuditDb: attempted write after close()');
+
+    return this.db.transaction((): HaltRow[] => {
+      const rows = this.db
+        .prepare('SELECT * FROM halts WHERE cleared_at IS NULL AND agent_id = ? ORDER BY id ASC')
+        .all(agentId) as HaltRow[];
+      if (rows.length === 0) return [];
+
+      const clearedAt = new Date().toISOString();
+      this.db
+        .prepare('UPDATE halts SET cleared_at = ?, cleared_by = ? WHERE cleared_at IS NULL AND agent_id = ?')
+        .run(clearedAt, clearedBy, agentId);
+
+      this.log(agentId, 'SIGNAL', 'agent_resumed', { haltIds: rows.map((r) => r.id), clearedBy });
+      return rows.map((r) => ({ ...r, cleared_at: clearedAt, cleared_by: clearedBy }));
+    })();
+  }
+
   // ── Lifecycle ───────────────────────────────────────────────────────────────
 
   /** Flush WAL and close the connection. Call on graceful shutdown. */
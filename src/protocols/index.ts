@@ -102,3 +102,4 @@ export { ProtocolError as ProtocolErr } from './types.js';
 export { JupiterAdapter } from './jupiter.js';
 export { OrcaAdapter } from './orca.js';
 export { accountExists, getTokenPrice, getTokenPrices, getPoolReserves } from './rpc.js';
+export { createJupiterPriceOracle, createFixedPriceOracle } from './oracle.js';
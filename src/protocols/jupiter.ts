@@ -6,15 +6,17 @@
  * Flow per swap:
  *   1. GET /v6/quote  → serialised Quote
  *   2. POST /v6/swap  → serialised VersionedTransaction (base64)
- *   3. wallet.signAndSendTransaction(tx, inAmount) → TxResult
+ *   3. wallet.signAndSendTransaction(tx, inAmount, wallet, inputMint) → TxResult
  *   4. Fetch post-tx state → verify outAmount within slippage → SwapResult
  *
+ * Token-2022 outputs may charge a transfer fee; outAmount is what the wallet
+ * received and the withheld fee is not counted as slippage.
+ *
  * SECURITY: This adapter receives a WalletClient, never a Keypair.
  * It must not store, log, or pass the wallet object to any other module.
  */
 
 import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
-import { getAccount } from '@solana/spl-token';
 import {
   ProtocolError,
   type Quote,
@@ -22,6 +24,7 @@ import {
   type SwapResult,
 } from './types.js';
 import { safePublicKey } from '../utils.js';
+import { getTokenMintInfo, estimateTransferFeeOnReceived } from '../wallet/tokens.js';
 import type { WalletClient } from '../wallet/types.js';
 import type { Logger } from '../logger/logger.js';
 
@@ -136,8 +139,8 @@ export class JupiterAdapter implements SwapAdapter {
         quoteResponse: liveQuote.raw,
         userPublicKey: wallet.publicKey.toBase58(),
         wrapAndUnwrapSol: true,
+        // The wallet re-prices the transaction from recent fees (WalletConfig.priorityFee)
         dynamicComputeUnitLimit: true,
-        prioritizationFeeLamports: 1000,
       });
 
       const resp = await fetchWithTimeout(JUPITER_SWAP_API, FETCH_TIMEOUT_MS, {
@@ -167,13 +170,18 @@ export class JupiterAdapter implements SwapAdapter {
 
     // 4. Capture pre-swap output token balance for diff
     const outputMintPk = safePublicKey(liveQuote.outputMint);
-    const preOutBalance = await this.getTokenBalance(wallet.publicKey, outputMintPk);
-
-    // 5. Sign and send via wallet (SpendingLimitGuard fires here)
-    // Only record spend if the input is SOL or WSOL
-    const isSolInput = liveQuote.inputMint === 'So11111111111111111111111111111111111111112' ||
-      liveQuote.inputMint === '11111111111111111111111111111111';
-    const txResult = await wallet.signAndSendTransaction(tx, isSolInput ? liveQuote.inAmount : 0n);
+    const preOutBalance = await wallet.getTokenBalance(outputMintPk);
+
+    // 5. Sign and send via wallet (SpendingLimitGuard fires here).
+    // The guard checks SOL/WSOL inputs against lamport limits and any other
+    // input mint against its per-mint caps. The output lands in the wallet's
+    // own token account, so the wallet is the destination.
+    const txResult = await wallet.signAndSendTransaction(
+      tx,
+      liveQuote.inAmount,
+      wallet.publicKey.toBase58(),
+      liveQuote.inputMint,
+    );
 
     if (txResult.status !== 'confirmed') {
       return {
@@ -187,13 +195,15 @@ export class JupiterAdapter implements SwapAdapter {
     }
 
     // 6. Capture post-swap balance and compute actual outAmount
-    const postOutBalance = await this.getTokenBalance(wallet.publicKey, outputMintPk);
+    const postOutBalance = await wallet.getTokenBalance(outputMintPk);
     const actualOut = postOutBalance > preOutBalance ? postOutBalance - preOutBalance : 0n;
+    const transferFee = await this.getOutputTransferFee(outputMintPk, actualOut);
 
-    // 7. Verify slippage — actual must be >= otherAmountThreshold
-    if (actualOut < liveQuote.otherAmountThreshold && actualOut > 0n) {
+    // 7. Verify slippage — the route's output (before any transfer fee) must be >= otherAmountThreshold
+    if (actualOut + transferFee < liveQuote.otherAmountThreshold && actualOut > 0n) {
       this.logger.warn({
         actualOut: actualOut.toString(),
+        transferFee: transferFee.toString(),
         threshold: liveQuote.otherAmountThreshold.toString(),
         signature: txResult.signature,
       }, 'Jupiter: actual outAmount below slippage threshold (swap still confirmed)');
@@ -205,6 +215,7 @@ export class JupiterAdapter implements SwapAdapter {
       outputMint: liveQuote.outputMint,
       inAmount: liveQuote.inAmount.toString(),
       actualOut: actualOut.toString(),
+      transferFee: transferFee.toString(),
     }, 'Jupiter: swap confirmed');
 
     return {
@@ -213,6 +224,7 @@ export class JupiterAdapter implements SwapAdapter {
       outputMint: liveQuote.outputMint,
       inAmount: liveQuote.inAmount,
       outAmount: actualOut,
+      ...(transferFee > 0n ? { transferFee } : {}),
       quote: liveQuote,
     };
   }
@@ -249,13 +261,13 @@ export class JupiterAdapter implements SwapAdapter {
     }
   }
 
-  private async getTokenBalance(owner: PublicKey, mint: PublicKey): Promise<bigint> {
+  /** Transfer fee withheld from `received` of `mint`; 0n if there is none or it cannot be read. */
+  private async getOutputTransferFee(mint: PublicKey, received: bigint): Promise<bigint> {
+    if (received === 0n) return 0n;
     try {
-      const { getAssociatedTokenAddress } = await import('@solana/spl-token');
-      const ata = await getAssociatedTokenAddress(mint, owner);
-      const account = await getAccount(this.connection, ata, 'confirmed');
-      return account.amount;
+      return estimateTransferFeeOnReceived(await getTokenMintInfo(this.connection, mint), received);
     } catch {
+      this.logger.debug({ mint: mint.toBase58() }, 'Jupiter: could not read output mint transfer fee');
       return 0n;
     }
   }
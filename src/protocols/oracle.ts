@@ -0,0 +1,56 @@
+/**
+ * @file src/protocols/oracle.ts
+ * PriceOracle implementations for USD-denominated spending caps.
+ *
+ * The wallet layer only knows the PriceOracle interface; these factories
+ * adapt the read-only price helpers in rpc.ts (or a fixed table, for tests)
+ * to it.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { getTokenPrice, getTokenPrices } from './rpc.js';
+import { safePublicKey } from '../utils.js';
+import type { PriceOracle, PriceQuote } from '../wallet/types.js';
+
+/** Live prices from the Jupiter Price API, via getTokenPrice/getTokenPrices. */
+export function createJupiterPriceOracle(connection: Connection): PriceOracle {
+  return {
+    async getPrice(mint: string): Promise<PriceQuote> {
+      return getTokenPrice(safePublicKey(mint), connection);
+    },
+
+    async getPrices(mints: string[]): Promise<Map<string, PriceQuote>> {
+      return getTokenPrices(mints.map((m) => safePublicKey(m)), connection);
+    },
+  };
+}
+
+/**
+ * Serves prices from a fixed table. Intended for tests and local simulation.
+ * Mints missing from the table resolve to `priceUsd: null`.
+ *
+ * @param prices     USD price per whole token, keyed by base58 mint.
+ * @param fetchedAt  Timestamp to report; defaults to "now" on every call so
+ *                   prices never go stale. Pass a fixed value to test staleness.
+ */
+export function createFixedPriceOracle(
+  prices: Record<string, number | null>,
+  fetchedAt?: number,
+): PriceOracle {
+  const quote = (mint: string): PriceQuote => ({
+    mint,
+    priceUsd: prices[mint] ?? null,
+    source: 'fixed',
+    fetchedAt: fetchedAt ?? Date.now(),
+  });
+
+  return {
+    async getPrice(mint: string): Promise<PriceQuote> {
+      return quote(mint);
+    },
+
+    async getPrices(mints: string[]): Promise<Map<string, PriceQuote>> {
+      return new Map(mints.map((m) => [m, quote(m)]));
+    },
+  };
+}
@@ -12,12 +12,16 @@
  * (e.g. not installed), the adapter will throw ADAPTER_UNAVAILABLE on init.
  * The adapter registry falls back to Jupiter in that case.
  *
+ * Token-2022 outputs may charge a transfer fee; outAmount is what the wallet
+ * received and SwapResult.transferFee reports what was withheld.
+ *
  * SECURITY: This adapter receives a WalletClient, never a Keypair.
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { ProtocolError } from './types.js';
 import { safePublicKey } from '../utils.js';
+import { getTokenMintInfo, estimateTransferFeeOnReceived } from '../wallet/tokens.js';
 import type { Quote, SwapAdapter, SwapResult } from './types.js';
 import type { WalletClient } from '../wallet/types.js';
 import type { Logger } from '../logger/logger.js';
@@ -213,9 +217,14 @@ export class OrcaAdapter implements SwapAdapter {
     (transaction as any).recentBlockhash = (await this.connection.getLatestBlockhash('confirmed')).blockhash;
 
     const preOutBalance = await wallet.getTokenBalance(output);
-    const isSolInput = quote.inputMint === 'So11111111111111111111111111111111111111112' ||
-      quote.inputMint === '11111111111111111111111111111111';
-    const txResult = await wallet.signAndSendTransaction(transaction as any, isSolInput ? quote.inAmount : 0n);
+    // SpendingLimitGuard checks the input amount against lamport or per-mint caps;
+    // the output lands in the wallet's own token account
+    const txResult = await wallet.signAndSendTransaction(
+      transaction as any,
+      quote.inAmount,
+      wallet.publicKey.toBase58(),
+      quote.inputMint,
+    );
 
     if (txResult.status !== 'confirmed') {
       return {
@@ -230,10 +239,12 @@ export class OrcaAdapter implements SwapAdapter {
 
     const postOutBalance = await wallet.getTokenBalance(output);
     const actualOut = postOutBalance > preOutBalance ? postOutBalance - preOutBalance : 0n;
+    const transferFee = await this.getOutputTransferFee(output, actualOut);
 
     this.logger.info({
       signature: txResult.signature,
       actualOut: actualOut.toString(),
+      transferFee: transferFee.toString(),
     }, 'Orca: swap confirmed');
 
     return {
@@ -242,7 +253,19 @@ export class OrcaAdapter implements SwapAdapter {
       outputMint: quote.outputMint,
       inAmount: quote.inAmount,
       outAmount: actualOut,
+      ...(transferFee > 0n ? { transferFee } : {}),
       quote,
     };
   }
+
+  /** Transfer fee withheld from `received` of `mint`; 0n if there is none or it cannot be read. */
+  private async getOutputTransferFee(mint: PublicKey, received: bigint): Promise<bigint> {
+    if (received === 0n) return 0n;
+    try {
+      return estimateTransferFeeOnReceived(await getTokenMintInfo(this.connection, mint), received);
+    } catch {
+      this.logger.debug({ mint: mint.toBase58() }, 'Orca: could not read output mint transfer fee');
+      return 0n;
+    }
+  }
 }
@@ -21,7 +21,10 @@ export interface SwapResult extends TxResult {
   inputMint: string;
   outputMint: string;
   inAmount: bigint;
+  /** What the wallet actually received, net of any Token-2022 transfer fee. */
   outAmount: bigint;
+  /** Transfer fee withheld from the output, for Token-2022 mints that charge one. */
+  transferFee?: bigint;
   quote: Quote;
 }
 
@@ -0,0 +1,303 @@
+/**
+ * @file src/wallet/alt.ts
+ * Address lookup tables owned by a wallet.
+ *
+ * A v0 transaction names each account with a 32-byte key unless it is in a
+ * lookup table, when a one-byte index does. Tables let one transaction reach
+ * the dozens of accounts a batch of transfers or a swap-plus-LP needs.
+ *
+ * A table is created at an address derived from its authority and a recent
+ * slot, so unlike the nonce account there is no fixed address per wallet:
+ * the tables a wallet controls are found on chain by authority, and an agent
+ * lists the ones to compile against in agents.json.
+ *
+ * Lifecycle: create → extend (any number of times) → deactivate → close
+ * once the deactivation has cooled down, which returns the rent.
+ */
+
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { WalletError } from './types.js';
+import type { TxInspection } from './inspector.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Size of a table with no addresses. */
+export const LOOKUP_TABLE_META_SIZE = 56;
+
+/** Addresses one table can hold. */
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+
+/** Addresses added per extend transaction, keeping it under the packet size. */
+export const MAX_EXTEND_ADDRESSES = 20;
+
+/**
+ * Slots after deactivation before a table can be closed: the deactivation
+ * slot must have left the SlotHashes sysvar, which holds 512.
+ */
+export const DEACTIVATION_COOLDOWN_SLOTS = 513;
+
+/** Byte offset of the authority in a table account. */
+const AUTHORITY_OFFSET = 22;
+
+// ── Reading ───────────────────────────────────────────────────────────────────
+
+/** Reads the table at `address`. Returns null if it does not exist. */
+export async function getLookupTable(
+  connection: Connection,
+  address: PublicKey,
+): Promise<AddressLookupTableAccount | null> {
+  try {
+    return (await connection.getAddressLookupTable(address, { commitment: 'confirmed' })).value;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', `Failed to fetch address lookup table ${address.toBase58()}.`, err);
+  }
+}
+
+/** Every lookup table `authority` controls, active or not. */
+export async function findLookupTables(
+  connection: Connection,
+  authority: PublicKey,
+): Promise<AddressLookupTableAccount[]> {
+  let accounts: Awaited<ReturnType<Connection['getProgramAccounts']>>;
+  try {
+    accounts = await connection.getProgramAccounts(AddressLookupTableProgram.programId, {
+      commitment: 'confirmed',
+      filters: [{ memcmp: { offset: AUTHORITY_OFFSET, bytes: authority.toBase58() } }],
+    });
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to list address lookup tables.', err);
+  }
+  return accounts.map(({ pubkey, account }) => new AddressLookupTableAccount({
+    key: pubkey,
+    state: AddressLookupTableAccount.deserialize(account.data),
+  }));
+}
+
+/**
+ * Fetches the tables to compile a transaction against. Throws INVALID_CONFIG
+ * if one is missing or deactivated, since messages using it would fail.
+ */
+export async function loadLookupTables(
+  connection: Connection,
+  addresses: PublicKey[],
+): Promise<AddressLookupTableAccount[]> {
+  const tables: AddressLookupTableAccount[] = [];
+  for (const address of addresses) {
+    const table = await getLookupTable(connection, address);
+    if (!table) {
+      throw new WalletError('INVALID_CONFIG', `Address lookup table ${address.toBase58()} does not exist.`);
+    }
+    if (!table.isActive()) {
+      throw new WalletError('INVALID_CONFIG', `Address lookup table ${address.toBase58()} is deactivated.`);
+    }
+    tables.push(table);
+  }
+  return tables;
+}
+
+/**
+ * Rent the owner pays for the lookup-table space `inspection` allocates: the
+ * rent-exempt minimum of each table it creates, plus the cost of the
+ * addresses it funds. Rent is linear in size, so an extension costs the same
+ * whatever the table already holds.
+ */
+export async function estimateLookupTableRent(connection: Connection, inspection: TxInspection): Promise<bigint> {
+  const created = inspection.createdLookupTables.length;
+  const funded = inspection.lookupTableAddressesFunded;
+  if (created === 0 && funded === 0) return 0n;
+
+  try {
+    let rent = 0n;
+    if (created > 0) {
+      rent += BigInt(created) * BigInt(await connection.getMinimumBalanceForRentExemption(LOOKUP_TABLE_META_SIZE));
+    }
+    if (funded > 0) {
+      const [extended, empty] = await Promise.all([
+        connection.getMinimumBalanceForRentExemption(funded * 32),
+        connection.getMinimumBalanceForRentExemption(0),
+      ]);
+      rent += BigInt(extended - empty);
+    }
+    return rent;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch the rent-exempt minimum for lookup tables.', err);
+  }
+}
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+
+/**
+ * Builds the transaction creating a table controlled and paid for by
+ * `authority`, holding the first MAX_EXTEND_ADDRESSES of `addresses`.
+ * Extend with the rest once it has landed.
+ */
+export async function createLookupTableTransaction(
+  connection: Connection,
+  authority: PublicKey,
+  addresses: PublicKey[] = [],
+): Promise<{ transaction: Transaction; address: PublicKey }> {
+  let slot: number;
+  try {
+    slot = await connection.getSlot('finalized');
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch a recent slot for the lookup table.', err);
+  }
+
+  const [createIx, address] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer: authority,
+    recentSlot: slot,
+  });
+  const instructions = [createIx];
+  const initial = dedupe(addresses).slice(0, MAX_EXTEND_ADDRESSES);
+  if (initial.length > 0) {
+    instructions.push(AddressLookupTableProgram.extendLookupTable({
+      lookupTable: address,
+      authority,
+      payer: authority,
+      addresses: initial,
+    }));
+  }
+  return { transaction: await build(connection, authority, instructions), address };
+}
+
+/**
+ * Builds the transactions adding `addresses` to `table`, MAX_EXTEND_ADDRESSES
+ * at a time. Addresses already in the table are skipped; `added` lists the
+ * rest in order. Throws INVALID_CONFIG if the table is not the authority's,
+ * is deactivated, or would overflow.
+ */
+export async function extendLookupTableTransactions(
+  connection: Connection,
+  authority: PublicKey,
+  table: PublicKey,
+  addresses: PublicKey[],
+): Promise<{ transactions: Transaction[]; added: PublicKey[] }> {
+  const account = await requireOwnTable(connection, table, authority);
+  if (!account.isActive()) {
+    throw new WalletError('INVALID_CONFIG', `Address lookup table ${table.toBase58()} is deactivated.`);
+  }
+
+  const held = new Set(account.state.addresses.map((a) => a.toBase58()));
+  const added = dedupe(addresses).filter((a) => !held.has(a.toBase58()));
+  if (held.size + added.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Address lookup table ${table.toBase58()} holds ${held.size} addresses; ` +
+        `${added.length} more would exceed ${MAX_LOOKUP_TABLE_ADDRESSES}.`,
+    );
+  }
+
+  const transactions: Transaction[] = [];
+  for (let i = 0; i < added.length; i += MAX_EXTEND_ADDRESSES) {
+    transactions.push(await build(connection, authority, [
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable: table,
+        authority,
+        payer: authority,
+        addresses: added.slice(i, i + MAX_EXTEND_ADDRESSES),
+      }),
+    ]));
+  }
+  return { transactions, added };
+}
+
+/**
+ * Builds the transaction deactivating `table`. Transactions compiled against
+ * it stop working at once; it can be closed after the cooldown.
+ */
+export async function deactivateLookupTableTransaction(
+  connection: Connection,
+  authority: PublicKey,
+  table: PublicKey,
+): Promise<Transaction> {
+  const account = await requireOwnTable(connection, table, authority);
+  if (!account.isActive()) {
+    throw new WalletError('INVALID_CONFIG', `Address lookup table ${table.toBase58()} is already deactivated.`);
+  }
+  return build(connection, authority, [AddressLookupTableProgram.deactivateLookupTable({ lookupTable: table, authority })]);
+}
+
+/**
+ * Builds the transaction closing deactivated `table` and returning its rent
+ * to `authority`. Throws INVALID_CONFIG if it is still active or cooling down.
+ */
+export async function closeLookupTableTransaction(
+  connection: Connection,
+  authority: PublicKey,
+  table: PublicKey,
+): Promise<Transaction> {
+  const account = await requireOwnTable(connection, table, authority);
+  if (account.isActive()) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Address lookup table ${table.toBase58()} is active. Deactivate it first with \`agentw wallet alt deactivate\`.`,
+    );
+  }
+
+  let slot: number;
+  try {
+    slot = await connection.getSlot('confirmed');
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch the current slot.', err);
+  }
+  const closable = account.state.deactivationSlot + BigInt(DEACTIVATION_COOLDOWN_SLOTS);
+  if (BigInt(slot) < closable) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Address lookup table ${table.toBase58()} is cooling down; it can be closed in ${closable - BigInt(slot)} slots.`,
+    );
+  }
+  return build(connection, authority, [
+    AddressLookupTableProgram.closeLookupTable({ lookupTable: table, authority, recipient: authority }),
+  ]);
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Reads `table`, checking that it exists and that `authority` controls it. */
+async function requireOwnTable(
+  connection: Connection,
+  table: PublicKey,
+  authority: PublicKey,
+): Promise<AddressLookupTableAccount> {
+  const account = await getLookupTable(connection, table);
+  if (!account) {
+    throw new WalletError('INVALID_CONFIG', `Address lookup table ${table.toBase58()} does not exist.`);
+  }
+  if (!account.state.authority?.equals(authority)) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Address lookup table ${table.toBase58()} is controlled by ` +
+        `${account.state.authority?.toBase58() ?? 'no one (frozen)'}, not this wallet.`,
+    );
+  }
+  return account;
+}
+
+async function build(
+  connection: Connection,
+  feePayer: PublicKey,
+  instructions: TransactionInstruction[],
+): Promise<Transaction> {
+  let blockhash: string;
+  try {
+    blockhash = (await connection.getLatestBlockhash('confirmed')).blockhash;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch a recent blockhash.', err);
+  }
+  return new Transaction({ feePayer, recentBlockhash: blockhash }).add(...instructions);
+}
+
+function dedupe(addresses: PublicKey[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  for (const address of addresses) seen.set(address.toBase58(), address);
+  return [...seen.values()];
+}
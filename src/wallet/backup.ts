@@ -0,0 +1,376 @@
+/**
+ * @file src/wallet/backup.ts
+ *
+ * Portable backup bundles: several wallets plus their agents.json entries,
+ * re-encrypted under one export passphrase so they can move between machines.
+ *
+ * Security properties:
+ *  - Same AES-256-GCM / Argon2id scheme as v2 keystores
+ *  - The plaintext manifest is GCM associated data, so editing it breaks the tag
+ *  - Import re-derives every public key and refuses any mismatch before
+ *    writing a single file
+ *  - Import refuses to overwrite existing keystores unless `force` is set
+ *  - Import writes every keystore to a private staging directory first and
+ *    only then renames them into place, rolling back if a rename fails
+ *  - HD wallets travel as their master's mnemonic plus an index, so restored
+ *    fleets keep their one-mnemonic backup
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { deriveKeypair } from './hd.js';
+import {
+  createKeystore,
+  createMasterKeystore,
+  createDerivedKeystore,
+  loadKeystore,
+  loadMnemonic,
+  readKeystoreFile,
+  writeKeystoreFile,
+  encryptSecret,
+  decryptSecret,
+  type KeystoreOptions,
+} from './keystore.js';
+import { WalletError, type KeystoreCipher, type KeystoreKdf } from './types.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const BACKUP_FORMAT = 'molthold-backup';
+
+/** One wallet inside the encrypted payload. */
+export type BackupEntry =
+  | { kind: 'keypair'; name: string; publicKey: string; secretKey: string }
+  | { kind: 'hd-master'; name: string; fingerprint: string; mnemonic: string }
+  | { kind: 'hd'; name: string; publicKey: string; master: string; index: number };
+
+/** Plaintext summary of a bundle — readable without the passphrase, but authenticated. */
+export interface BackupManifest {
+  /** `address` is the public key, or the fingerprint for HD masters. */
+  wallets: Array<{ name: string; kind: BackupEntry['kind']; address: string }>;
+  /** IDs of the agents.json entries in the bundle. */
+  agents: string[];
+}
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  createdAt: string;
+  manifest: BackupManifest;
+  encrypted: KeystoreCipher & KeystoreKdf;
+}
+
+/** An agents.json entry carried in a bundle, tied to the wallet it signs with. */
+export interface BackupAgent {
+  /** Name of the bundled wallet the entry's keystorePath pointed at. */
+  wallet: string;
+  /** The agents.json entry as exported. Its keystorePath is rewritten on import. */
+  config: Record<string, unknown> & { id: string };
+}
+
+export interface ExportWallet {
+  /** Name the wallet is restored under (`<name>.keystore.json`). */
+  name: string;
+  keystorePath: string;
+}
+
+export interface ExportOptions extends KeystoreOptions {
+  /** agents.json entries to carry along. Each must name a bundled wallet. */
+  agents?: BackupAgent[];
+}
+
+export interface ImportOptions {
+  /** Directory the keystores are restored into. */
+  keystoresDir: string;
+  /** Password for the restored keystores (and masters). */
+  password: string;
+  /** Overwrite keystores that already exist. */
+  force?: boolean;
+  /** KDF for the restored keystores. Defaults to Argon2id. */
+  keystore?: KeystoreOptions;
+}
+
+export interface ImportResult {
+  /** Files written, masters first. */
+  written: string[];
+  /** Bundled agents.json entries, keystorePath pointing at the restored keystore (absolute). */
+  agents: BackupAgent['config'][];
+}
+
+interface BackupPayload {
+  wallets: BackupEntry[];
+  agents: BackupAgent[];
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** The header fields GCM authenticates alongside the ciphertext. */
+function associatedData(bundle: Omit<BackupBundle, 'encrypted'>): Buffer {
+  return Buffer.from(JSON.stringify([bundle.format, bundle.version, bundle.createdAt, bundle.manifest]), 'utf8');
+}
+
+function manifestOf(payload: BackupPayload): BackupManifest {
+  return {
+    wallets: payload.wallets.map((w) => ({
+      name: w.name,
+      kind: w.kind,
+      address: w.kind === 'hd-master' ? w.fingerprint : w.publicKey,
+    })),
+    agents: payload.agents.map((a) => a.config.id),
+  };
+}
+
+function masterName(masterPath: string): string {
+  return path.basename(masterPath).replace(/\.master\.json$/, '');
+}
+
+function targetPath(entry: BackupEntry, keystoresDir: string): string {
+  const suffix = entry.kind === 'hd-master' ? 'master.json' : 'keystore.json';
+  return path.join(keystoresDir, `${entry.name}.${suffix}`);
+}
+
+/**
+ * Renames each staged keystore over its target. Replaced files are parked in
+ * `staging` until every rename succeeds; if one fails, the targets already
+ * moved are put back as they were and the error is rethrown.
+ */
+function moveIntoPlace(entries: BackupEntry[], staging: string, keystoresDir: string): string[] {
+  const moved: Array<{ target: string; parked?: string }> = [];
+  try {
+    for (const entry of entries) {
+      const target = targetPath(entry, keystoresDir);
+      const step: { target: string; parked?: string } = { target };
+      if (fs.existsSync(target)) {
+        step.parked = path.join(staging, `${path.basename(target)}.replaced`);
+        fs.renameSync(target, step.parked);
+      }
+      moved.push(step);
+      fs.renameSync(targetPath(entry, staging), target);
+    }
+  } catch (err) {
+    for (const { target, parked } of moved.reverse()) {
+      try {
+        if (parked) fs.renameSync(parked, target);
+        else fs.rmSync(target, { force: true });
+      } catch {
+        // Best effort — the original error is the one to report
+      }
+    }
+    throw new WalletError('INVALID_KEYSTORE', `Cannot restore keystores into ${keystoresDir}.`, err);
+  }
+  return moved.map(({ target }) => target);
+}
+
+/** Re-derives every public key in the payload and checks it against the stored one. */
+function verifyPayload(payload: BackupPayload): void {
+  const mismatch = (name: string): WalletError =>
+    new WalletError('INVALID_KEYSTORE', `Backup entry "${name}" does not match its stored public key.`);
+
+  const masters = new Map<string, string>();
+  for (const entry of payload.wallets) {
+    if (entry.kind !== 'hd-master') continue;
+    if (deriveKeypair(entry.mnemonic, 0).publicKey.toBase58() !== entry.fingerprint) throw mismatch(entry.name);
+    masters.set(entry.name, entry.mnemonic);
+  }
+
+  for (const entry of payload.wallets) {
+    if (entry.kind === 'keypair') {
+      const secret = Buffer.from(entry.secretKey, 'hex');
+      const publicKey = secret.length === 64 ? Keypair.fromSecretKey(secret).publicKey.toBase58() : undefined;
+      secret.fill(0);
+      if (publicKey !== entry.publicKey) throw mismatch(entry.name);
+    } else if (entry.kind === 'hd') {
+      const mnemonic = masters.get(entry.master);
+      if (mnemonic === undefined) {
+        throw new WalletError('INVALID_KEYSTORE', `Backup entry "${entry.name}" needs master "${entry.master}", which is missing.`);
+      }
+      if (deriveKeypair(mnemonic, entry.index).publicKey.toBase58() !== entry.publicKey) throw mismatch(entry.name);
+    }
+  }
+
+  const wallets = new Set(payload.wallets.filter((w) => w.kind !== 'hd-master').map((w) => w.name));
+  for (const agent of payload.agents) {
+    if (!wallets.has(agent.wallet)) {
+      throw new WalletError('INVALID_KEYSTORE', `Backup agent "${agent.config.id}" uses missing wallet "${agent.wallet}".`);
+    }
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Decrypts `wallets` with `password` and writes them, re-encrypted under
+ * `passphrase`, to a single bundle at `outputPath`. Derived HD wallets bring
+ * their master's mnemonic along.
+ *
+ * @param wallets    Keystores to export and the names to restore them under.
+ * @param password   Current password of every listed keystore.
+ * @param passphrase Export passphrase (min 8 chars) protecting the bundle.
+ * @param outputPath Path for the bundle file.
+ * @param options    agents.json entries to include, and the bundle's KDF.
+ */
+export function exportBackup(
+  wallets: ExportWallet[],
+  password: string,
+  passphrase: string,
+  outputPath: string,
+  options: ExportOptions = {},
+): BackupBundle {
+  const { agents = [], ...kdfOptions } = options;
+  const masters: BackupEntry[] = [];
+  const entries: BackupEntry[] = [];
+
+  const addMaster = (masterPath: string): string => {
+    const name = masterName(masterPath);
+    if (!masters.some((m) => m.name === name)) {
+      const mnemonic = loadMnemonic(masterPath, password);
+      masters.push({ kind: 'hd-master', name, fingerprint: deriveKeypair(mnemonic, 0).publicKey.toBase58(), mnemonic });
+    }
+    return name;
+  };
+
+  for (const wallet of wallets) {
+    const ks = readKeystoreFile(wallet.keystorePath);
+    if ('kind' in ks && ks.kind === 'hd-master') {
+      addMaster(wallet.keystorePath);
+    } else if ('kind' in ks) {
+      const master = addMaster(path.resolve(path.dirname(wallet.keystorePath), ks.master));
+      // Unlocking checks the pointer against its master before it is trusted
+      const keypair = loadKeystore(wallet.keystorePath, password);
+      entries.push({ kind: 'hd', name: wallet.name, publicKey: keypair.publicKey.toBase58(), master, index: ks.index });
+    } else {
+      const keypair = loadKeystore(wallet.keystorePath, password);
+      entries.push({
+        kind: 'keypair',
+        name: wallet.name,
+        publicKey: keypair.publicKey.toBase58(),
+        secretKey: Buffer.from(keypair.secretKey).toString('hex'),
+      });
+    }
+  }
+
+  const payload: BackupPayload = { wallets: [...masters, ...entries], agents };
+  const names = payload.wallets.map((w) => `${w.kind === 'hd-master' ? 'master:' : ''}${w.name}`);
+  if (new Set(names).size !== names.length) {
+    throw new WalletError('INVALID_CONFIG', 'Backup would contain two wallets with the same name.');
+  }
+  verifyPayload(payload);
+
+  const header = {
+    format: BACKUP_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    manifest: manifestOf(payload),
+  } as const;
+
+  const plaintext = Buffer.from(JSON.stringify(payload), 'utf8');
+  let bundle: BackupBundle;
+  try {
+    bundle = { ...header, encrypted: encryptSecret(plaintext, passphrase, kdfOptions, associatedData(header)) };
+  } finally {
+    plaintext.fill(0);
+  }
+
+  writeKeystoreFile(bundle, outputPath);
+  return bundle;
+}
+
+/**
+ * Reads a bundle's header without decrypting it, e.g. to show its manifest.
+ * Throws WalletError('INVALID_KEYSTORE') for anything that is not a v1 bundle.
+ */
+export function readBackup(bundlePath: string): BackupBundle {
+  let bundle: BackupBundle;
+  try {
+    bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf8')) as BackupBundle;
+  } catch (err) {
+    throw new WalletError('INVALID_KEYSTORE', `Cannot read backup bundle: ${bundlePath}`, err);
+  }
+
+  if (bundle.format !== BACKUP_FORMAT) {
+    throw new WalletError('INVALID_KEYSTORE', `${bundlePath} is not a ${BACKUP_FORMAT} bundle.`);
+  }
+  if (bundle.version !== 1) {
+    throw new WalletError('INVALID_KEYSTORE', `Unsupported backup version: ${bundle.version as number}. Expected 1.`);
+  }
+  return bundle;
+}
+
+/**
+ * Decrypts a bundle, verifies every wallet against its stored public key and
+ * restores the keystores into `options.keystoresDir` under `options.password`.
+ * Nothing is written if any entry fails verification or — without `force` —
+ * any target file already exists. A failure part-way leaves the directory as
+ * it was.
+ *
+ * @param bundlePath Path to the bundle written by exportBackup().
+ * @param passphrase The export passphrase.
+ * @param options    Where to restore, the new keystore password and overwrite policy.
+ * @returns Files written and the bundled agents.json entries, rewired to them.
+ */
+export function importBackup(bundlePath: string, passphrase: string, options: ImportOptions): ImportResult {
+  const bundle = readBackup(bundlePath);
+
+  let plaintext: Buffer;
+  try {
+    plaintext = decryptSecret(2, bundle.encrypted, passphrase, associatedData(bundle));
+  } catch (err) {
+    if (err instanceof WalletError && err.message.startsWith('Keystore decryption failed')) {
+      throw new WalletError('INVALID_KEYSTORE', 'Backup decryption failed. Wrong passphrase or bundle has been tampered with.');
+    }
+    throw err;
+  }
+
+  let payload: BackupPayload;
+  try {
+    payload = JSON.parse(plaintext.toString('utf8')) as BackupPayload;
+  } finally {
+    plaintext.fill(0);
+  }
+
+  if (JSON.stringify(manifestOf(payload)) !== JSON.stringify(bundle.manifest)) {
+    throw new WalletError('INVALID_KEYSTORE', 'Backup manifest does not match its encrypted contents.');
+  }
+  verifyPayload(payload);
+
+  const conflicts = payload.wallets.map((w) => targetPath(w, options.keystoresDir)).filter((p) => fs.existsSync(p));
+  if (conflicts.length > 0 && !options.force) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Refusing to overwrite existing keystores: ${conflicts.map((p) => path.basename(p)).join(', ')}. Use --force to replace them.`,
+    );
+  }
+
+  // Staged beside the targets so each rename stays on one filesystem. Derived
+  // keystores point at their master by relative path, which survives the move.
+  fs.mkdirSync(options.keystoresDir, { recursive: true });
+  const staging = fs.mkdtempSync(path.join(options.keystoresDir, '.import-'));
+  const written: string[] = [];
+  try {
+    const masterPaths = new Map<string, string>();
+    for (const entry of payload.wallets) {
+      const stagedPath = targetPath(entry, staging);
+
+      if (entry.kind === 'hd-master') {
+        createMasterKeystore(entry.mnemonic, options.password, stagedPath, options.keystore);
+        masterPaths.set(entry.name, stagedPath);
+      } else if (entry.kind === 'hd') {
+        createDerivedKeystore(masterPaths.get(entry.master)!, options.password, entry.index, stagedPath);
+      } else {
+        const secret = Buffer.from(entry.secretKey, 'hex');
+        // Keypair keeps a reference to `secret`, so it is not zeroed here
+        createKeystore(Keypair.fromSecretKey(secret), options.password, stagedPath, options.keystore);
+      }
+    }
+    written.push(...moveIntoPlace(payload.wallets, staging, options.keystoresDir));
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+
+  const agents = payload.agents.map((agent) => {
+    const wallet = payload.wallets.find((w) => w.name === agent.wallet && w.kind !== 'hd-master')!;
+    return { ...agent.config, keystorePath: targetPath(wallet, options.keystoresDir) };
+  });
+
+  return { written, agents };
+}
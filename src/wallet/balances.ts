@@ -0,0 +1,265 @@
+/**
+ * @file src/wallet/balances.ts
+ * Balance snapshots for post-confirmation verification.
+ *
+ * The inspector reads what a transaction says it will do; these helpers
+ * measure what it actually did. signAndSendTransaction snapshots SOL and
+ * every token account before sending, snapshots again after confirmation,
+ * and compares the outflow against the SpendIntent it checked.
+ *
+ * WSOL token balances are folded into lamports so that wrapping and
+ * unwrapping inside a swap nets out, matching how toSpendIntent() counts them.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAccountLenForMint,
+  unpackAccount,
+  unpackMint,
+} from '@solana/spl-token';
+import { MAX_COMPUTE_UNITS } from './fees.js';
+import { WalletError, type BalanceDiscrepancy, type SpendIntent } from './types.js';
+import type { TxInspection } from './inspector.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+/** Compute units the runtime grants each instruction when no limit is requested. */
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Everything the wallet holds at one moment. */
+export interface BalanceSnapshot {
+  /** SOL plus the token amount of every WSOL account, in lamports. */
+  lamports: bigint;
+  /** Summed balance per base58 SPL mint across all token accounts, in raw base units. */
+  tokens: Record<string, bigint>;
+}
+
+/** Assets that left the wallet between two snapshots. Inflows are ignored. */
+export type ObservedSpend = Pick<SpendIntent, 'lamports' | 'tokens'>;
+
+// ── Snapshots ─────────────────────────────────────────────────────────────────
+
+/** Reads SOL and every SPL Token / Token-2022 account owned by `owner`. */
+export async function takeBalanceSnapshot(
+  connection: Connection,
+  owner: PublicKey,
+): Promise<BalanceSnapshot> {
+  try {
+    const [lamports, ...accountLists] = await Promise.all([
+      connection.getBalance(owner, 'confirmed'),
+      ...[TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        connection.getTokenAccountsByOwner(owner, { programId }, 'confirmed'),
+      ),
+    ]);
+
+    const snapshot: BalanceSnapshot = { lamports: BigInt(lamports), tokens: {} };
+    for (const { value } of accountLists) {
+      for (const { pubkey, account } of value) {
+        const acct = unpackAccount(pubkey, account, account.owner);
+        if (acct.isNative) {
+          snapshot.lamports += acct.amount;
+          continue;
+        }
+        const mint = acct.mint.toBase58();
+        snapshot.tokens[mint] = (snapshot.tokens[mint] ?? 0n) + acct.amount;
+      }
+    }
+    return snapshot;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to snapshot wallet balances.', err);
+  }
+}
+
+/** Returns the subset of `addresses` that do not exist on chain yet. */
+export async function findMissingAccounts(
+  connection: Connection,
+  addresses: string[],
+): Promise<string[]> {
+  if (addresses.length === 0) return [];
+  try {
+    const infos = await connection.getMultipleAccountsInfo(
+      addresses.map((a) => new PublicKey(a)),
+      'confirmed',
+    );
+    return addresses.filter((_, i) => !infos[i]);
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to check accounts before sending.', err);
+  }
+}
+
+/**
+ * Rent now held by `addresses`, which the wallet funded in the transaction
+ * being verified. Wrapped SOL in a native account is excluded — it is still
+ * counted as the wallet's lamports by takeBalanceSnapshot().
+ */
+export async function getRentPaid(connection: Connection, addresses: string[]): Promise<bigint> {
+  if (addresses.length === 0) return 0n;
+  let infos;
+  try {
+    infos = await connection.getMultipleAccountsInfo(
+      addresses.map((a) => new PublicKey(a)),
+      'confirmed',
+    );
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to read new account rent.', err);
+  }
+
+  let rent = 0n;
+  addresses.forEach((address, i) => {
+    const info = infos[i];
+    // Closed again within the same transaction — the rent came back
+    if (!info) return;
+    rent += BigInt(info.lamports);
+    try {
+      const acct = unpackAccount(new PublicKey(address), info, info.owner);
+      if (acct.isNative) rent -= acct.amount;
+    } catch {
+      // Not a token account — all of its lamports are rent
+    }
+  });
+  return rent;
+}
+
+/**
+ * Rent the wallet will deposit creating the token accounts `addresses`: the
+ * rent-exempt minimum for each, sized for its mint's program and extensions
+ * (`mints` maps account to mint). Accounts of an unknown mint are priced at
+ * the plain SPL Token size.
+ */
+export async function estimateTokenAccountRent(
+  connection: Connection,
+  addresses: string[],
+  mints: Record<string, string>,
+): Promise<bigint> {
+  if (addresses.length === 0) return 0n;
+  const mintKeys = [...new Set(addresses.flatMap((a) => mints[a] ?? []))].map((m) => new PublicKey(m));
+
+  const sizes = new Map<string, number>();
+  try {
+    const infos = mintKeys.length > 0 ? await connection.getMultipleAccountsInfo(mintKeys, 'confirmed') : [];
+    mintKeys.forEach((mint, i) => {
+      const info = infos[i];
+      if (!info) return;
+      try {
+        sizes.set(mint.toBase58(), getAccountLenForMint(unpackMint(mint, info, info.owner)));
+      } catch {
+        // Not a readable mint — fall back to the base size
+      }
+    });
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to read token mints for rent.', err);
+  }
+
+  const rentBySize = new Map<number, bigint>();
+  let rent = 0n;
+  for (const address of addresses) {
+    const mint = mints[address];
+    const size = (mint !== undefined ? sizes.get(mint) : undefined) ?? ACCOUNT_SIZE;
+    let lamports = rentBySize.get(size);
+    if (lamports === undefined) {
+      try {
+        lamports = BigInt(await connection.getMinimumBalanceForRentExemption(size, 'confirmed'));
+      } catch (err) {
+        throw new WalletError('RPC_ERROR', 'Failed to fetch the rent-exempt minimum.', err);
+      }
+      rentBySize.set(size, lamports);
+    }
+    rent += lamports;
+  }
+  return rent;
+}
+
+// ── Fees ──────────────────────────────────────────────────────────────────────
+
+/**
+ * The network fee the payer is charged for `tx`: the base fee per signature
+ * plus the priority fee on the requested (or default) compute-unit limit.
+ */
+export function estimateNetworkFee(
+  tx: Transaction | VersionedTransaction,
+  inspection: TxInspection,
+): bigint {
+  const signatures = tx instanceof VersionedTransaction
+    ? tx.message.header.numRequiredSignatures
+    : Math.max(tx.signatures.length, 1);
+  const instructionCount = tx instanceof VersionedTransaction
+    ? tx.message.compiledInstructions.length
+    : tx.instructions.length;
+
+  const units = BigInt(
+    inspection.computeUnitLimit ??
+      Math.min(instructionCount * DEFAULT_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS),
+  );
+  const price = inspection.computeUnitPriceMicroLamports ?? 0n;
+  const priorityFee = (units * price + 999_999n) / 1_000_000n;
+
+  return BigInt(signatures) * LAMPORTS_PER_SIGNATURE + priorityFee;
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────────
+
+/**
+ * Outflow per asset between two snapshots. `overheadLamports` (fees and rent)
+ * is subtracted from the SOL outflow; neither counts as spend.
+ */
+export function measureSpend(
+  before: BalanceSnapshot,
+  after: BalanceSnapshot,
+  overheadLamports: bigint,
+): ObservedSpend {
+  const lamportsOut = before.lamports - after.lamports - overheadLamports;
+  const spend: ObservedSpend = { lamports: lamportsOut > 0n ? lamportsOut : 0n, tokens: {} };
+
+  for (const [mint, amount] of Object.entries(before.tokens)) {
+    const out = amount - (after.tokens[mint] ?? 0n);
+    if (out > 0n) spend.tokens[mint] = out;
+  }
+  return spend;
+}
+
+/**
+ * The spend to record for a confirmed transaction: per asset, the larger of
+ * `intent` and `observed`. An inflow landing between the two snapshots
+ * hides part of the outflow, so the observation alone can undercount.
+ */
+export function recordedSpend(intent: SpendIntent, observed: ObservedSpend): ObservedSpend {
+  const spend: ObservedSpend = {
+    lamports: observed.lamports > intent.lamports ? observed.lamports : intent.lamports,
+    tokens: { ...intent.tokens },
+  };
+  for (const [mint, amount] of Object.entries(observed.tokens)) {
+    if (amount > (spend.tokens[mint] ?? 0n)) spend.tokens[mint] = amount;
+  }
+  return spend;
+}
+
+/**
+ * Assets whose observed outflow exceeds the intent. SOL may exceed the
+ * intent by up to `toleranceLamports`; SPL mints have no tolerance.
+ */
+export function findDiscrepancies(
+  intent: SpendIntent,
+  observed: ObservedSpend,
+  toleranceLamports = 0n,
+): BalanceDiscrepancy[] {
+  const discrepancies: BalanceDiscrepancy[] = [];
+  if (observed.lamports > intent.lamports + toleranceLamports) {
+    discrepancies.push({ asset: 'SOL', expected: intent.lamports, actual: observed.lamports });
+  }
+  for (const [mint, actual] of Object.entries(observed.tokens)) {
+    const expected = intent.tokens[mint] ?? 0n;
+    if (actual > expected) discrepancies.push({ asset: mint, expected, actual });
+  }
+  return discrepancies;
+}
@@ -0,0 +1,98 @@
+/**
+ * @file src/wallet/batch.ts
+ * Packing many transfers into few transactions.
+ *
+ * A batch is planned leg by leg — the instructions, the SpendIntent and a
+ * compute-unit estimate for each transfer — and then cut, in order, into
+ * consecutive groups that each fit one transaction: under the packet size,
+ * under the compute limit, and within the per-tx spending caps. Legs are
+ * never reordered, so a payout file is paid top to bottom.
+ */
+
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { WalletError, type SpendIntent } from './types.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Compute budget per leg. Upper bounds: simulation sets the real limit. */
+export const SOL_TRANSFER_COMPUTE_UNITS = 300;
+export const TOKEN_TRANSFER_COMPUTE_UNITS = 20_000;
+export const CREATE_TOKEN_ACCOUNT_COMPUTE_UNITS = 40_000;
+export const CLOSE_TOKEN_ACCOUNT_COMPUTE_UNITS = 3_000;
+
+/** Room left for the AdvanceNonceAccount instruction of a durable-nonce send. */
+export const NONCE_RESERVE_BYTES = 110;
+/** Room left for a guardian's signature, key and memo. */
+export const GUARDIAN_RESERVE_BYTES = 160;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** One planned transfer. */
+export interface BatchLeg {
+  /** Position in the caller's list. */
+  index: number;
+  instructions: TransactionInstruction[];
+  intent: SpendIntent;
+  computeUnits: number;
+  /** WSOL this leg moves out of the wallet's token account, not its native balance. */
+  wrappedLamports?: bigint;
+}
+
+// ── Packing ───────────────────────────────────────────────────────────────────
+
+/**
+ * Cuts `legs`, in order, into consecutive groups each accepted by `fits`.
+ * Throws LIMIT_BREACH naming the first leg that does not fit even alone.
+ */
+export function packLegs(legs: BatchLeg[], fits: (group: BatchLeg[]) => boolean): BatchLeg[][] {
+  const groups: BatchLeg[][] = [];
+  let current: BatchLeg[] = [];
+  for (const leg of legs) {
+    if (fits([...current, leg])) {
+      current.push(leg);
+      continue;
+    }
+    if (current.length > 0) groups.push(current);
+    if (!fits([leg])) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transfer ${leg.index + 1} does not fit in one transaction within the size, compute and per-tx limits.`,
+      );
+    }
+    current = [leg];
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * True when `instructions`, paid for by `payer` and compiled against
+ * `lookupTables`, serialise within the packet size with `reserveBytes` to
+ * spare.
+ */
+export function fitsInPacket(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[],
+  reserveBytes = 0,
+): boolean {
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      // Only the size matters here
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions,
+    }).compileToV0Message(lookupTables);
+    return new VersionedTransaction(message).serialize().length + reserveBytes <= PACKET_DATA_SIZE;
+  } catch {
+    // Too many accounts or bytes to compile at all
+    return false;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * @file src/wallet/fees.ts
+ * Priority-fee estimation and compute-unit budgeting.
+ *
+ * A transaction pays `computeUnitLimit × price` in priority fees, so both
+ * halves are set here instead of hard-coded:
+ *
+ *   - the limit is what a simulation consumed, plus a margin;
+ *   - the price is a percentile of the fees recently paid by transactions
+ *     that wrote the same accounts (`getRecentPrioritizationFees`), so a swap
+ *     through a busy pool pays what that pool needs and a plain transfer
+ *     pays next to nothing.
+ *
+ * Both are capped by the wallet's PriorityFeeConfig.
+ */
+
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type Connection,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { fetchLookupTables } from './inspector.js';
+import { WalletError, type PriorityFeeConfig } from './types.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** The most compute units one transaction may request. */
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+const DEFAULT_PERCENTILE = 75;
+/** 1 lamport per compute unit. */
+const DEFAULT_MAX_MICRO_LAMPORTS = 1_000_000;
+const DEFAULT_COMPUTE_UNIT_MARGIN = 0.1;
+/** Covers AdvanceNonceAccount, which durable-nonce sends add after budgeting. */
+const COMPUTE_UNIT_HEADROOM = 1_000;
+/** getRecentPrioritizationFees accepts at most this many accounts. */
+const MAX_FEE_ACCOUNTS = 128;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ComputeBudget {
+  computeUnitLimit: number;
+  /** Price per compute unit, in micro-lamports. */
+  microLamports: number;
+}
+
+// ── Estimation ────────────────────────────────────────────────────────────────
+
+/**
+ * The priority fee, in micro-lamports per compute unit, at `percentile` of
+ * the fees paid in recent slots by transactions writing any of `accounts`,
+ * clamped to `[minMicroLamports, maxMicroLamports]`.
+ */
+export async function estimatePriorityFee(
+  connection: Connection,
+  accounts: PublicKey[],
+  config: PriorityFeeConfig = {},
+): Promise<number> {
+  let fees: Awaited<ReturnType<Connection['getRecentPrioritizationFees']>>;
+  try {
+    fees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: accounts.slice(0, MAX_FEE_ACCOUNTS),
+    });
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch recent priority fees.', err);
+  }
+
+  const sorted = fees.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  const percentile = config.percentile ?? DEFAULT_PERCENTILE;
+  // Nearest rank: the smallest fee at least `percentile`% of slots paid no more than
+  const rank = Math.max(Math.ceil((percentile / 100) * sorted.length) - 1, 0);
+  const fee = sorted[Math.min(rank, sorted.length - 1)] ?? 0;
+
+  const max = config.maxMicroLamports ?? DEFAULT_MAX_MICRO_LAMPORTS;
+  return Math.min(Math.max(fee, config.minMicroLamports ?? 0), max);
+}
+
+/**
+ * Gives `tx` a compute-unit limit from simulation and a priority fee from
+ * recent fees on the accounts it writes, replacing any SetComputeUnitLimit
+ * or SetComputeUnitPrice it already had. Legacy transactions are updated in
+ * place; v0 messages are recompiled against the same lookup tables. Call
+ * before signing.
+ *
+ * Throws SIMULATION_FAILED if the transaction fails in simulation, and
+ * RPC_ERROR if either lookup fails.
+ */
+export async function budgetTransaction<T extends Transaction | VersionedTransaction>(
+  connection: Connection,
+  tx: T,
+  config: PriorityFeeConfig = {},
+): Promise<{ transaction: T } & ComputeBudget> {
+  const lookupTables = tx instanceof VersionedTransaction ? await fetchLookupTables(tx, connection) : [];
+  const { payerKey, recentBlockhash, instructions } = decompile(tx, lookupTables);
+  const body = instructions.filter((ix) => !isPriced(ix));
+
+  // Simulate at the maximum limit to learn what the transaction really uses
+  const probe = new VersionedTransaction(new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...body],
+  }).compileToV0Message(lookupTables));
+
+  let simulated: Awaited<ReturnType<Connection['simulateTransaction']>>;
+  try {
+    simulated = await connection.simulateTransaction(probe, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to simulate transaction for its compute budget.', err);
+  }
+  if (simulated.value.err || simulated.value.unitsConsumed === undefined) {
+    throw new WalletError(
+      'SIMULATION_FAILED',
+      `Could not measure compute units: ${JSON.stringify(simulated.value.err ?? 'no unitsConsumed')}`,
+    );
+  }
+
+  const computeUnitLimit = computeUnitLimitFor(simulated.value.unitsConsumed, config);
+
+  let microLamports = await estimatePriorityFee(connection, writableAccounts(body, payerKey), config);
+  if (config.maxFeeLamports !== undefined) {
+    const ceiling = (config.maxFeeLamports * 1_000_000n) / BigInt(computeUnitLimit);
+    microLamports = Math.min(microLamports, Number(ceiling));
+  }
+
+  const budgeted = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ...body,
+  ];
+
+  if (tx instanceof Transaction) {
+    tx.instructions = budgeted;
+    return { transaction: tx, computeUnitLimit, microLamports };
+  }
+  const message = new TransactionMessage({ payerKey, recentBlockhash, instructions: budgeted });
+  const transaction = new VersionedTransaction(
+    tx.version === 'legacy' ? message.compileToLegacyMessage() : message.compileToV0Message(lookupTables),
+  ) as T;
+  return { transaction, computeUnitLimit, microLamports };
+}
+
+/** The compute-unit limit budgetTransaction() sets for a transaction consuming `units`. */
+export function computeUnitLimitFor(units: number, config: PriorityFeeConfig = {}): number {
+  const margin = config.computeUnitMargin ?? DEFAULT_COMPUTE_UNIT_MARGIN;
+  return Math.min(Math.ceil(units * (1 + margin)) + COMPUTE_UNIT_HEADROOM, MAX_COMPUTE_UNITS);
+}
+
+/**
+ * The most budgetTransaction() can charge in priority fees, in lamports, for
+ * a transaction consuming `units`: the limit at the price ceiling, or
+ * `maxFeeLamports` if lower.
+ */
+export function maxPriorityFeeLamports(units: number, config: PriorityFeeConfig = {}): bigint {
+  const price = BigInt(config.maxMicroLamports ?? DEFAULT_MAX_MICRO_LAMPORTS);
+  const fee = (BigInt(computeUnitLimitFor(units, config)) * price + 999_999n) / 1_000_000n;
+  return config.maxFeeLamports !== undefined && config.maxFeeLamports < fee ? config.maxFeeLamports : fee;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function decompile(
+  tx: Transaction | VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[],
+): TransactionMessage {
+  if (tx instanceof VersionedTransaction) {
+    try {
+      return TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables });
+    } catch (err) {
+      throw new WalletError('INVALID_CONFIG', 'Could not decompile the transaction to set its compute budget.', err);
+    }
+  }
+  if (!tx.feePayer) {
+    throw new WalletError('INVALID_CONFIG', 'Transaction has no fee payer.');
+  }
+  return new TransactionMessage({
+    payerKey: tx.feePayer,
+    // Simulation replaces the blockhash, so any placeholder will do
+    recentBlockhash: tx.recentBlockhash ?? PublicKey.default.toBase58(),
+    instructions: tx.instructions,
+  });
+}
+
+/** Whether `ix` sets the compute-unit limit or price, which budgeting replaces. */
+function isPriced(ix: TransactionInstruction): boolean {
+  if (!ix.programId.equals(ComputeBudgetProgram.programId)) return false;
+  try {
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    return type === 'SetComputeUnitLimit' || type === 'SetComputeUnitPrice';
+  } catch {
+    return false;
+  }
+}
+
+/** Every account `instructions` write, fee payer first. */
+function writableAccounts(instructions: TransactionInstruction[], payer: PublicKey): PublicKey[] {
+  const accounts = new Map<string, PublicKey>([[payer.toBase58(), payer]]);
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable) accounts.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return [...accounts.values()];
+}
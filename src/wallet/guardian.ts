@@ -0,0 +1,341 @@
+/**
+ * @file src/wallet/guardian.ts
+ *
+ * Guardian co-signer — a second keystore that must sign high-value
+ * transactions before they are valid on chain.
+ *
+ * The wallet marks the guardian as a required signer by appending an SPL Memo
+ * instruction that lists it, then asks the guardian for a signature. The
+ * guardian trusts nothing the agent process tells it: it decodes the
+ * transaction itself and runs its own SpendingLimitGuard and instruction
+ * policy before signing.
+ *
+ * The guardian can run in-process (createGuardian) or as a separate daemon
+ * listening on a Unix socket (serveGuardian / connectGuardian). The daemon
+ * keeps the guardian key out of the agent process entirely.
+ *
+ * SECURITY INVARIANT: as in wallet.ts, the guardian Keypair lives only in the
+ * createGuardian closure and is never logged or returned.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SpendingLimitGuard } from './limits.js';
+import {
+  inspectTransaction,
+  resolveTokenAccounts,
+  toSpendIntent,
+  fetchLookupTables,
+  allowOwnDestinations,
+} from './inspector.js';
+import {
+  WalletError,
+  type CoSigner,
+  type CoSignRequest,
+  type SpendingLimits,
+  type SpendLedger,
+  type WalletErrorCode,
+} from './types.js';
+import type { Logger } from '../logger/logger.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** SPL Memo v2 — rejects the instruction unless every listed key signed. */
+export const GUARDIAN_MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+/** Signed messages remembered for re-send de-duplication. */
+const MAX_TRACKED_MESSAGES = 256;
+const SOCKET_TIMEOUT_MS = 30_000;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface GuardianConfig {
+  rpcUrl: string;
+  /** The agent wallet this guardian co-signs for. Requests for any other fee payer are refused. */
+  wallet: PublicKey;
+  /**
+   * The guardian's own limits, independent of the agent's. USD caps are not
+   * supported — the guardian has no price oracle.
+   */
+  limits: SpendingLimits;
+  /** Durable spend history for the guardian's windows. */
+  ledger?: SpendLedger;
+}
+
+type DaemonRequest =
+  | { method: 'publicKey' }
+  | {
+      method: 'cosign';
+      requestId: string;
+      /** Base64 wire-format transaction. */
+      transaction: string;
+      estimate: { amount: string; mint?: string; destination?: string };
+    };
+
+type DaemonResponse =
+  | { ok: true; publicKey?: string; signature?: string }
+  | { ok: false; code: WalletErrorCode; message: string };
+
+// ── Memo ──────────────────────────────────────────────────────────────────────
+
+/** The instruction that makes `guardian` a required signer of a transaction. */
+export function createGuardianMemo(guardian: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: GUARDIAN_MEMO_PROGRAM_ID,
+    keys: [{ pubkey: guardian, isSigner: true, isWritable: false }],
+    data: Buffer.from('guardian co-signed', 'utf8'),
+  });
+}
+
+// ── In-process guardian ───────────────────────────────────────────────────────
+
+/**
+ * Creates a guardian from its own keystore. The `keypair` is captured in
+ * closure and never exposed through the returned CoSigner.
+ *
+ * The guardian records spend when it signs, not on confirmation — it never
+ * sees the outcome — so a transaction that later fails still counts against
+ * its limits. Only the exact message already signed can be signed again
+ * without recording: it can land at most once. Any other message, including
+ * a retry of the same request under a fresh blockhash, could land alongside
+ * the first, so it is checked and recorded as a new spend.
+ */
+export function createGuardian(keypair: Keypair, config: GuardianConfig, logger: Logger): CoSigner {
+  const connection = new Connection(config.rpcUrl, 'confirmed');
+  const guard = new SpendingLimitGuard(allowOwnDestinations(config.limits, config.wallet), config.ledger);
+  const publicKey = keypair.publicKey;
+  const signed = new Set<string>();
+
+  function refuse(reason: string): never {
+    logger.warn({ guardian: publicKey.toBase58() }, `Guardian refused: ${reason}`);
+    throw new WalletError('LIMIT_BREACH', `Guardian refused: ${reason}`);
+  }
+
+  async function review(request: CoSignRequest): Promise<VersionedTransaction> {
+    let tx: VersionedTransaction;
+    try {
+      // Legacy wire transactions deserialise too, with a legacy message
+      tx = VersionedTransaction.deserialize(request.transaction);
+    } catch (err) {
+      throw new WalletError('LIMIT_BREACH', 'Guardian refused: transaction could not be decoded.', err);
+    }
+
+    const lookupTables = await fetchLookupTables(tx, connection);
+    const [feePayer] = tx.message.staticAccountKeys;
+    if (!feePayer?.equals(config.wallet)) refuse('fee payer is not the guarded wallet.');
+
+    // The guardian's signature may authorise the memo and nothing else
+    const instructions = TransactionMessage.decompile(tx.message, {
+      addressLookupTableAccounts: lookupTables,
+    }).instructions;
+    for (const ix of instructions) {
+      if (!ix.programId.equals(GUARDIAN_MEMO_PROGRAM_ID) && ix.keys.some((k) => k.pubkey.equals(publicKey))) {
+        refuse(`guardian key passed to program ${ix.programId.toBase58()}.`);
+      }
+    }
+
+    const inspection = inspectTransaction(tx, config.wallet, lookupTables);
+    await resolveTokenAccounts(inspection, connection);
+
+    const violations = guard.getPolicyViolations(inspection);
+    if (violations.length > 0) refuse(violations.map((v) => v.reason).join(' '));
+
+    const digest = crypto.createHash('sha256').update(tx.message.serialize()).digest('hex');
+    if (signed.has(digest)) return tx;
+
+    const intent = toSpendIntent(inspection, config.wallet, request.estimate);
+    try {
+      guard.checkIntent(intent);
+    } catch (err) {
+      refuse(err instanceof Error ? err.message : String(err));
+    }
+    guard.recordIntent(intent);
+    signed.add(digest);
+    if (signed.size > MAX_TRACKED_MESSAGES) {
+      const oldest = signed.values().next().value;
+      if (oldest !== undefined) signed.delete(oldest);
+    }
+    return tx;
+  }
+
+  const guardian: CoSigner = {
+    get publicKey(): PublicKey {
+      return publicKey;
+    },
+
+    async cosign(request: CoSignRequest): Promise<Uint8Array> {
+      const tx = await review(request);
+
+      const index = tx.message.staticAccountKeys.findIndex((k) => k.equals(publicKey));
+      if (index < 0 || index >= tx.message.header.numRequiredSignatures) {
+        refuse('transaction does not require the guardian signature.');
+      }
+
+      try {
+        tx.sign([keypair]);
+      } catch (err) {
+        throw new WalletError('SIGNING_FAILED', 'Guardian failed to sign transaction.', err);
+      }
+      const signature = tx.signatures[index];
+      if (!signature) throw new WalletError('SIGNING_FAILED', 'Guardian signature missing after signing.');
+
+      logger.info({ requestId: request.requestId, guardian: publicKey.toBase58() }, 'Guardian co-signed transaction');
+      return signature;
+    },
+  };
+
+  // Key-safe serialisation, as for WalletClient
+  (guardian as any)['toJSON'] = (): string => publicKey.toBase58();
+  (guardian as any)['toString'] = (): string => publicKey.toBase58();
+
+  return guardian;
+}
+
+// ── Unix socket daemon ────────────────────────────────────────────────────────
+
+/**
+ * Serves `guardian` on a Unix socket, one newline-delimited JSON request per
+ * connection. The socket is created with mode 0600 so only the owning user
+ * can request signatures. A stale socket file at `socketPath` is replaced.
+ */
+export async function serveGuardian(guardian: CoSigner, socketPath: string, logger: Logger): Promise<net.Server> {
+  if (fs.existsSync(socketPath)) {
+    if (!fs.lstatSync(socketPath).isSocket()) {
+      throw new WalletError('INVALID_CONFIG', `${socketPath} exists and is not a socket.`);
+    }
+    fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer((socket) => {
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy());
+    readLine(socket)
+      .then((line) => handle(guardian, line))
+      .catch((err: unknown): DaemonResponse => toErrorResponse(err))
+      .then((response) => socket.end(JSON.stringify(response) + '\n'))
+      .catch((err: unknown) => logger.error({ err }, 'Guardian daemon failed to respond'));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  fs.chmodSync(socketPath, 0o600);
+
+  logger.info({ socketPath, guardian: guardian.publicKey.toBase58() }, 'Guardian daemon listening');
+  return server;
+}
+
+async function handle(guardian: CoSigner, line: string): Promise<DaemonResponse> {
+  let request: DaemonRequest;
+  try {
+    request = JSON.parse(line) as DaemonRequest;
+  } catch {
+    return { ok: false, code: 'INVALID_CONFIG', message: 'Malformed guardian request.' };
+  }
+
+  if (request.method === 'publicKey') {
+    return { ok: true, publicKey: guardian.publicKey.toBase58() };
+  }
+  if (request.method !== 'cosign') {
+    return { ok: false, code: 'INVALID_CONFIG', message: 'Unknown guardian method.' };
+  }
+
+  const estimate: CoSignRequest['estimate'] = { amount: BigInt(request.estimate.amount) };
+  if (request.estimate.mint) estimate.mint = request.estimate.mint;
+  if (request.estimate.destination) estimate.destination = request.estimate.destination;
+
+  const signature = await guardian.cosign({
+    requestId: request.requestId,
+    transaction: Buffer.from(request.transaction, 'base64'),
+    estimate,
+  });
+  return { ok: true, signature: Buffer.from(signature).toString('base64') };
+}
+
+function toErrorResponse(err: unknown): DaemonResponse {
+  if (err instanceof WalletError) return { ok: false, code: err.code, message: err.message };
+  return { ok: false, code: 'INVALID_CONFIG', message: err instanceof Error ? err.message : String(err) };
+}
+
+/**
+ * Connects to a guardian daemon and returns a CoSigner that forwards every
+ * request over the socket. Fails fast if the daemon is not running.
+ */
+export async function connectGuardian(socketPath: string): Promise<CoSigner> {
+  const hello = await call(socketPath, { method: 'publicKey' });
+  if (!hello.publicKey) {
+    throw new WalletError('INVALID_CONFIG', 'Guardian daemon did not report a public key.');
+  }
+  const publicKey = new PublicKey(hello.publicKey);
+
+  return {
+    publicKey,
+
+    async cosign(request: CoSignRequest): Promise<Uint8Array> {
+      const estimate: { amount: string; mint?: string; destination?: string } = {
+        amount: request.estimate.amount.toString(),
+      };
+      if (request.estimate.mint) estimate.mint = request.estimate.mint;
+      if (request.estimate.destination) estimate.destination = request.estimate.destination;
+
+      const response = await call(socketPath, {
+        method: 'cosign',
+        requestId: request.requestId,
+        transaction: Buffer.from(request.transaction).toString('base64'),
+        estimate,
+      });
+      if (!response.signature) {
+        throw new WalletError('SIGNING_FAILED', 'Guardian daemon returned no signature.');
+      }
+      return Buffer.from(response.signature, 'base64');
+    },
+  };
+}
+
+async function call(socketPath: string, request: DaemonRequest): Promise<Extract<DaemonResponse, { ok: true }>> {
+  let line: string;
+  try {
+    const socket = net.createConnection(socketPath);
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error('Guardian daemon timed out.')));
+    socket.write(JSON.stringify(request) + '\n');
+    line = await readLine(socket);
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', `Guardian daemon at ${socketPath} is unreachable.`, err);
+  }
+
+  let response: DaemonResponse;
+  try {
+    response = JSON.parse(line) as DaemonResponse;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Malformed response from guardian daemon.', err);
+  }
+  if (!response.ok) throw new WalletError(response.code, response.message);
+  return response;
+}
+
+/** Resolves with the first newline-terminated line read from `socket`. */
+function readLine(socket: net.Socket): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const end = buffer.indexOf('\n');
+      if (end >= 0) resolve(buffer.slice(0, end));
+    });
+    socket.once('error', reject);
+    socket.once('close', () => reject(new Error('Socket closed before a full line was read.')));
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * @file src/wallet/hd.ts
+ *
+ * BIP39 mnemonics and SLIP-10 Ed25519 derivation along Solana's standard
+ * path m/44'/501'/n'/0' — the addresses Phantom, Solflare and
+ * `solana-keygen --derivation-path` produce for the same mnemonic.
+ *
+ * SLIP-10 allows only hardened derivation for Ed25519, so there is no
+ * extended public key: deriving any address requires the mnemonic. The
+ * mnemonic itself only touches disk encrypted, via createMasterKeystore().
+ */
+
+import * as crypto from 'node:crypto';
+import { Keypair } from '@solana/web3.js';
+import * as bip39 from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { WalletError } from './types.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** SLIP-10 master key HMAC key for Ed25519. */
+const ED25519_CURVE_SEED = 'ed25519 seed';
+
+/** Offset that marks a path segment as hardened (the `'` suffix). */
+const HARDENED_OFFSET = 0x8000_0000;
+
+/** Largest account index that still fits a hardened segment. */
+export const MAX_HD_INDEX = HARDENED_OFFSET - 1;
+
+// ── Mnemonics ─────────────────────────────────────────────────────────────────
+
+/**
+ * Generates a new English BIP39 mnemonic.
+ *
+ * @param words 12 or 24. Defaults to 24 (256 bits of entropy).
+ */
+export function generateMnemonic(words: 12 | 24 = 24): string {
+  return bip39.generateMnemonic(wordlist, words === 12 ? 128 : 256);
+}
+
+/** True if `mnemonic` is a well-formed English BIP39 phrase with a valid checksum. */
+export function validateMnemonic(mnemonic: string): boolean {
+  return bip39.validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+}
+
+/** Lower-cases and collapses whitespace so pasted phrases compare equal. */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+// ── Derivation ────────────────────────────────────────────────────────────────
+
+/** Solana's standard derivation path for account `index`. */
+export function solanaDerivationPath(index: number): string {
+  assertIndex(index);
+  return `m/44'/501'/${index}'/0'`;
+}
+
+/**
+ * SLIP-10 Ed25519 derivation. Returns the 32-byte private seed at `path`,
+ * which must be hardened at every level (e.g. m/44'/501'/0'/0').
+ */
+export function deriveEd25519Seed(seed: Uint8Array, path: string): Buffer {
+  const segments = parsePath(path);
+
+  let node = crypto.createHmac('sha512', ED25519_CURVE_SEED).update(seed).digest();
+  for (const segment of segments) {
+    const data = Buffer.alloc(37);
+    node.copy(data, 1, 0, 32); // 0x00 || key
+    data.writeUInt32BE(segment + HARDENED_OFFSET, 33);
+    const next = crypto.createHmac('sha512', node.subarray(32)).update(data).digest();
+    data.fill(0);
+    node.fill(0);
+    node = next;
+  }
+
+  const key = Buffer.from(node.subarray(0, 32));
+  node.fill(0);
+  return key;
+}
+
+/**
+ * Derives the keypair for account `index` from a mnemonic.
+ * Throws WalletError('INVALID_CONFIG') if the mnemonic fails its checksum.
+ *
+ * @param mnemonic BIP39 phrase (English wordlist).
+ * @param index    Account index n in m/44'/501'/n'/0'.
+ */
+export function deriveKeypair(mnemonic: string, index: number): Keypair {
+  const phrase = normalizeMnemonic(mnemonic);
+  if (!bip39.validateMnemonic(phrase, wordlist)) {
+    throw new WalletError('INVALID_CONFIG', 'Mnemonic is not a valid BIP39 phrase.');
+  }
+
+  const seed = bip39.mnemonicToSeedSync(phrase);
+  const privateSeed = deriveEd25519Seed(seed, solanaDerivationPath(index));
+  seed.fill(0);
+
+  // fromSeed copies into its own secret key buffer, so ours can be zeroed
+  const keypair = Keypair.fromSeed(privateSeed);
+  privateSeed.fill(0);
+  return keypair;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function assertIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index > MAX_HD_INDEX) {
+    throw new WalletError('INVALID_CONFIG', `HD index must be an integer from 0 to ${MAX_HD_INDEX}.`);
+  }
+}
+
+function parsePath(path: string): number[] {
+  const parts = path.split('/');
+  if (parts[0] !== 'm') {
+    throw new WalletError('INVALID_CONFIG', `Derivation path must start with "m": ${path}`);
+  }
+
+  return parts.slice(1).map((part) => {
+    const match = /^(\d+)'$/.exec(part);
+    if (!match) {
+      throw new WalletError('INVALID_CONFIG', `Ed25519 derivation is hardened-only; bad segment "${part}" in ${path}`);
+    }
+    const index = Number(match[1]);
+    assertIndex(index);
+    return index;
+  });
+}
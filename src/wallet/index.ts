@@ -4,15 +4,136 @@
  */
 
 export { createWalletClient } from './wallet.js';
-export { createKeystore, loadKeystore, loadFromEnv, getPublicKeyFromKeystore } from './keystore.js';
-export { SpendingLimitGuard } from './limits.js';
+export {
+  createKeystore,
+  loadKeystore,
+  rekeyKeystore,
+  loadFromEnv,
+  getPublicKeyFromKeystore,
+  createMasterKeystore,
+  createDerivedKeystore,
+  loadMnemonic,
+} from './keystore.js';
+export type { KeystoreOptions, LoadKeystoreOptions } from './keystore.js';
+export { exportBackup, importBackup, readBackup, BACKUP_FORMAT } from './backup.js';
+export type {
+  BackupBundle,
+  BackupManifest,
+  BackupEntry,
+  BackupAgent,
+  ExportWallet,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+} from './backup.js';
+export { splitSecret, combineShares, splitKeystore, recoverKeystore, readShare } from './shamir.js';
+export type { Share, ShareTarget } from './shamir.js';
+export {
+  generateMnemonic,
+  validateMnemonic,
+  deriveKeypair,
+  deriveEd25519Seed,
+  solanaDerivationPath,
+  MAX_HD_INDEX,
+} from './hd.js';
+export {
+  keypairSigner,
+  keystoreSigner,
+  envSigner,
+  verifySignature,
+  connectRemoteSigner,
+  serveSigner,
+} from './signers.js';
+export type { RemoteSignerOptions, ServeSignerOptions } from './signers.js';
+export { serveSession, connectSession, getSessionStatus, lockSession, DEFAULT_SESSION_TTL_MS } from './session.js';
+export type { SessionStatus, UnlockSession } from './session.js';
+export {
+  getTokenProgramId,
+  getTokenMintInfo,
+  getTokenAddress,
+  calculateTokenTransferFee,
+  estimateTransferFeeOnReceived,
+  createTokenTransferInstruction,
+  findEmptyTokenAccounts,
+  getTokenSymbol,
+  KNOWN_TOKEN_SYMBOLS,
+} from './tokens.js';
+export type { TokenMintInfo, EmptyTokenAccount } from './tokens.js';
+export {
+  getNonceAddress,
+  getNonceAccount,
+  getNonceValue,
+  createNonceAccountTransaction,
+  withDurableNonce,
+  NONCE_SEED,
+} from './nonce.js';
+export {
+  estimatePriorityFee,
+  budgetTransaction,
+  computeUnitLimitFor,
+  maxPriorityFeeLamports,
+  MAX_COMPUTE_UNITS,
+} from './fees.js';
+export type { ComputeBudget } from './fees.js';
+export {
+  getLookupTable,
+  findLookupTables,
+  loadLookupTables,
+  estimateLookupTableRent,
+  createLookupTableTransaction,
+  extendLookupTableTransactions,
+  deactivateLookupTableTransaction,
+  closeLookupTableTransaction,
+  MAX_LOOKUP_TABLE_ADDRESSES,
+  MAX_EXTEND_ADDRESSES,
+} from './alt.js';
+export { packLegs, fitsInPacket } from './batch.js';
+export type { BatchLeg } from './batch.js';
+export { createMemoryTxJournal, intentKey, reconcileTxJournal } from './journal.js';
+export type { ReconciledTx } from './journal.js';
+export { SpendingLimitGuard, DEFAULT_ALLOWED_PROGRAMS, combineIntents } from './limits.js';
+export { inspectTransaction, resolveTokenAccounts, toSpendIntent, DECODED_PROGRAMS } from './inspector.js';
+export type { TxInspection, LamportOutflow, TokenOutflow } from './inspector.js';
+export { takeBalanceSnapshot, measureSpend, findDiscrepancies, estimateTokenAccountRent } from './balances.js';
+export type { BalanceSnapshot, ObservedSpend } from './balances.js';
+export { createGuardian, serveGuardian, connectGuardian, createGuardianMemo } from './guardian.js';
+export type { GuardianConfig } from './guardian.js';
 export type {
   WalletClient,
   WalletConfig,
   WalletError,
   WalletErrorCode,
   TxResult,
+  BatchTransfer,
+  BatchTransferResult,
+  ClosedTokenAccount,
   SpendingLimits,
+  SpendIntent,
+  DangerousInstruction,
+  PolicyViolation,
+  BalanceAnomaly,
+  BalanceDiscrepancy,
+  TokenHolding,
+  Signer,
+  CoSigner,
+  CoSignRequest,
+  SpendLedger,
+  SpendRecord,
+  SpendWindow,
+  SpendWindowStatus,
+  OutgoingTx,
+  OutgoingTxStatus,
+  TxJournal,
+  PriorityFeeConfig,
+  PriceOracle,
+  PriceQuote,
   KeystoreFile,
+  KeystoreFileV1,
+  KeystoreFileV2,
+  MasterKeystoreFile,
+  DerivedKeystoreFile,
+  KeyShareFile,
+  Argon2idParams,
+  ScryptParams,
 } from './types.js';
 export { WalletError as WalletErr } from './types.js';
@@ -0,0 +1,580 @@
+/**
+ * @file src/wallet/inspector.ts
+ * Transaction inspector — decodes every instruction before the wallet signs.
+ *
+ * Callers pass an estimated spend to signAndSendTransaction(), and swap APIs
+ * hand back opaque transactions. The inspector replaces that trust with what
+ * the bytes actually say: lamports and tokens leaving the wallet, where they
+ * go, which authorities are granted, which programs are invoked, and what
+ * new accounts and lookup-table space the wallet pays rent for.
+ *
+ * inspectTransaction() is pure and synchronous. resolveTokenAccounts() fills
+ * in the mint and owner of token accounts that the instructions alone do not
+ * reveal, using one batched RPC call.
+ */
+
+import {
+  AddressLookupTableInstruction,
+  AddressLookupTableProgram,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AuthorityType,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  TransferFeeInstruction,
+  decodeApproveCheckedInstruction,
+  decodeApproveInstruction,
+  decodeCloseAccountInstruction,
+  decodeSetAuthorityInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferCheckedWithFeeInstruction,
+  decodeTransferInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+} from '@solana/spl-token';
+import { isSplMint } from './limits.js';
+import { WalletError, type SpendIntent, type SpendingLimits } from './types.js';
+
+// ── Program registry ──────────────────────────────────────────────────────────
+
+/** Programs whose instructions the inspector fully decodes. Never subject to the program allowlist. */
+export const DECODED_PROGRAMS: ReadonlySet<string> = new Set([
+  SystemProgram.programId.toBase58(),
+  TOKEN_PROGRAM_ID.toBase58(),
+  TOKEN_2022_PROGRAM_ID.toBase58(),
+  ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+  ComputeBudgetProgram.programId.toBase58(),
+  AddressLookupTableProgram.programId.toBase58(),
+]);
+
+// ── Result types ──────────────────────────────────────────────────────────────
+
+/** A native SOL movement out of an owner-controlled account. */
+export interface LamportOutflow {
+  destination: string;
+  lamports: bigint;
+  /** True when the destination is a fresh account the wallet is creating (rent, wrapped SOL). */
+  newAccount: boolean;
+}
+
+/** An SPL token transfer signed by the owner. */
+export interface TokenOutflow {
+  source: string;
+  /** Destination token account. */
+  destination: string;
+  /** Wallet that owns `destination`, or null until resolveTokenAccounts() runs. */
+  destinationOwner: string | null;
+  /** Known for transferChecked; null for plain transfer until resolved. */
+  mint: string | null;
+  amount: bigint;
+  programId: string;
+}
+
+export interface TokenApproval {
+  instruction: 'approve' | 'approveChecked';
+  programId: string;
+  account: string;
+  delegate: string;
+  amount: bigint;
+}
+
+export interface AuthorityChange {
+  programId: string;
+  account: string;
+  authorityType: keyof typeof AuthorityType;
+  newAuthority: string | null;
+}
+
+export interface AccountClose {
+  programId: string;
+  account: string;
+  destination: string;
+  /** True when the reclaimed lamports go somewhere other than the wallet itself. */
+  toForeign: boolean;
+}
+
+export interface TxInspection {
+  /** Every program invoked at the top level, deduplicated. */
+  programIds: string[];
+  /** Programs the inspector cannot decode. Their effects are opaque. */
+  opaquePrograms: string[];
+  lamportOutflows: LamportOutflow[];
+  tokenOutflows: TokenOutflow[];
+  approvals: TokenApproval[];
+  authorityChanges: AuthorityChange[];
+  closedAccounts: AccountClose[];
+  /** Accounts whose owner program the owner is reassigning via System `assign`. */
+  assignedAccounts: string[];
+  /** Associated token accounts created with the owner as payer. Each costs rent if new. */
+  createdTokenAccounts: string[];
+  /** Mint of each account in `createdTokenAccounts`, keyed by account address. */
+  createdTokenAccountMints: Record<string, string>;
+  /** Address lookup tables created with the owner as payer. */
+  createdLookupTables: string[];
+  /** Addresses added to lookup tables with the owner paying for the space. */
+  lookupTableAddressesFunded: number;
+  computeUnitLimit: number | null;
+  computeUnitPriceMicroLamports: bigint | null;
+}
+
+// ── Inspection ────────────────────────────────────────────────────────────────
+
+/**
+ * Decodes every top-level instruction in `tx` from the perspective of `owner`.
+ * Throws WalletError('LIMIT_BREACH') if an instruction for a decoded program
+ * is malformed — an instruction we cannot read is never signed.
+ *
+ * @param lookupTables  Address lookup tables referenced by a v0 message.
+ *                      Required if the message uses any.
+ */
+export function inspectTransaction(
+  tx: Transaction | VersionedTransaction,
+  owner: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = [],
+): TxInspection {
+  const instructions = getInstructions(tx, lookupTables);
+  const ownerStr = owner.toBase58();
+
+  const result: TxInspection = {
+    programIds: [],
+    opaquePrograms: [],
+    lamportOutflows: [],
+    tokenOutflows: [],
+    approvals: [],
+    authorityChanges: [],
+    closedAccounts: [],
+    assignedAccounts: [],
+    createdTokenAccounts: [],
+    createdTokenAccountMints: {},
+    createdLookupTables: [],
+    lookupTableAddressesFunded: 0,
+    computeUnitLimit: null,
+    computeUnitPriceMicroLamports: null,
+  };
+
+  // ATAs created in this transaction: address → owning wallet
+  const createdAtas = new Map<string, string>();
+
+  for (const ix of instructions) {
+    const programId = ix.programId.toBase58();
+    if (!result.programIds.includes(programId)) result.programIds.push(programId);
+
+    try {
+      if (ix.programId.equals(SystemProgram.programId)) {
+        decodeSystem(ix, ownerStr, result);
+      } else if (ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        decodeToken(ix, owner, result);
+      } else if (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        const [payer, ata, ataOwner, mint] = ix.keys;
+        if (ata && ataOwner) createdAtas.set(ata.pubkey.toBase58(), ataOwner.pubkey.toBase58());
+        if (ata && payer?.pubkey.toBase58() === ownerStr) {
+          result.createdTokenAccounts.push(ata.pubkey.toBase58());
+          if (mint) result.createdTokenAccountMints[ata.pubkey.toBase58()] = mint.pubkey.toBase58();
+        }
+      } else if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+        decodeComputeBudget(ix, result);
+      } else if (ix.programId.equals(AddressLookupTableProgram.programId)) {
+        decodeLookupTable(ix, owner, result);
+      } else if (!result.opaquePrograms.includes(programId)) {
+        result.opaquePrograms.push(programId);
+      }
+    } catch (err) {
+      if (err instanceof WalletError) throw err;
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Could not decode instruction for program ${programId}; refusing to sign.`,
+        err,
+      );
+    }
+  }
+
+  for (const out of result.tokenOutflows) {
+    out.destinationOwner = createdAtas.get(out.destination) ?? null;
+  }
+
+  return result;
+}
+
+/** Fetches every address lookup table a v0 message references. Legacy transactions need none. */
+export async function fetchLookupTables(
+  tx: Transaction | VersionedTransaction,
+  connection: Connection,
+): Promise<AddressLookupTableAccount[]> {
+  if (!(tx instanceof VersionedTransaction)) return [];
+
+  const tables: AddressLookupTableAccount[] = [];
+  for (const lookup of tx.message.addressTableLookups) {
+    let table;
+    try {
+      table = (await connection.getAddressLookupTable(lookup.accountKey)).value;
+    } catch (err) {
+      throw new WalletError('RPC_ERROR', 'Failed to fetch address lookup table.', err);
+    }
+    if (!table) {
+      throw new WalletError('RPC_ERROR', `Address lookup table ${lookup.accountKey.toBase58()} not found.`);
+    }
+    tables.push(table);
+  }
+  return tables;
+}
+
+/**
+ * Fills in `mint` and `destinationOwner` on token outflows by reading the
+ * token accounts involved. Accounts created in the same transaction were
+ * already resolved by inspectTransaction().
+ */
+export async function resolveTokenAccounts(
+  inspection: TxInspection,
+  connection: Connection,
+): Promise<void> {
+  const pending = new Set<string>();
+  for (const out of inspection.tokenOutflows) {
+    if (out.mint === null) pending.add(out.source);
+    if (out.destinationOwner === null) pending.add(out.destination);
+  }
+  if (pending.size === 0) return;
+
+  const addresses = [...pending];
+  let infos;
+  try {
+    infos = await connection.getMultipleAccountsInfo(addresses.map((a) => new PublicKey(a)), 'confirmed');
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to read token accounts for inspection.', err);
+  }
+
+  const accounts = new Map<string, { mint: string; owner: string }>();
+  addresses.forEach((address, i) => {
+    const info = infos[i];
+    if (!info) return;
+    try {
+      const acct = unpackAccount(new PublicKey(address), info, info.owner);
+      accounts.set(address, { mint: acct.mint.toBase58(), owner: acct.owner.toBase58() });
+    } catch {
+      // Not a token account — left unresolved
+    }
+  });
+
+  for (const out of inspection.tokenOutflows) {
+    out.mint ??= accounts.get(out.source)?.mint ?? null;
+    out.destinationOwner ??= accounts.get(out.destination)?.owner ?? null;
+  }
+}
+
+/**
+ * Reconciles the caller's estimate with the decoded instructions. Each asset
+ * is charged the larger of the two, so an understated estimate cannot hide
+ * a transfer and an opaque program call cannot hide the caller's stated spend.
+ *
+ * WSOL outflows are charged as lamports. Transfers between the wallet's own
+ * accounts are not spend.
+ */
+export function toSpendIntent(
+  inspection: TxInspection,
+  owner: PublicKey,
+  estimate: { amount: bigint; mint?: string | undefined; destination?: string | undefined },
+): SpendIntent {
+  const ownerStr = owner.toBase58();
+  let lamports = 0n;
+  const tokens: Record<string, bigint> = {};
+  const destinations = new Set<string>();
+  if (estimate.destination) destinations.add(estimate.destination);
+
+  for (const out of inspection.lamportOutflows) {
+    lamports += out.lamports;
+    if (!out.newAccount && !isOwnAccount(out.destination, owner)) destinations.add(out.destination);
+  }
+
+  for (const out of inspection.tokenOutflows) {
+    if (out.destinationOwner === ownerStr) continue;
+    if (out.mint === null) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Could not determine the mint of token account ${out.source}; refusing to sign.`,
+      );
+    }
+    if (isSplMint(out.mint)) {
+      tokens[out.mint] = (tokens[out.mint] ?? 0n) + out.amount;
+    } else {
+      lamports += out.amount;
+    }
+    destinations.add(out.destinationOwner ?? out.destination);
+  }
+
+  if (isSplMint(estimate.mint)) {
+    const decoded = tokens[estimate.mint] ?? 0n;
+    tokens[estimate.mint] = estimate.amount > decoded ? estimate.amount : decoded;
+  } else if (estimate.amount > lamports) {
+    lamports = estimate.amount;
+  }
+
+  return { lamports, tokens, destinations: [...destinations] };
+}
+
+/** Returns true if `address` is `wallet` itself or one of its wrapped-SOL ATAs. */
+export function isOwnAccount(address: string, wallet: PublicKey): boolean {
+  if (address === wallet.toBase58()) return true;
+  return [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].some(
+    (programId) =>
+      getAssociatedTokenAddressSync(NATIVE_MINT, wallet, false, programId).toBase58() === address,
+  );
+}
+
+/**
+ * `limits` with `wallet`'s own accounts added to a configured destination
+ * allowlist, so spends that pay back into the wallet — a swap's output — are
+ * never refused as unlisted.
+ */
+export function allowOwnDestinations(limits: SpendingLimits, wallet: PublicKey): SpendingLimits {
+  if (limits.allowedDestinations === undefined) return limits;
+  const own = [wallet, ...[TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(
+    (programId) => getAssociatedTokenAddressSync(NATIVE_MINT, wallet, false, programId),
+  )].map((account) => account.toBase58());
+  return { ...limits, allowedDestinations: [...new Set([...limits.allowedDestinations, ...own])] };
+}
+
+// ── Decoders ──────────────────────────────────────────────────────────────────
+
+function getInstructions(
+  tx: Transaction | VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[],
+): TransactionInstruction[] {
+  if (!(tx instanceof VersionedTransaction)) return tx.instructions;
+  try {
+    return TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables })
+      .instructions;
+  } catch (err) {
+    throw new WalletError(
+      'LIMIT_BREACH',
+      'Could not decompile transaction message (missing address lookup table?); refusing to sign.',
+      err,
+    );
+  }
+}
+
+function decodeSystem(ix: TransactionInstruction, owner: string, result: TxInspection): void {
+  switch (SystemInstruction.decodeInstructionType(ix)) {
+    case 'Transfer': {
+      const d = SystemInstruction.decodeTransfer(ix);
+      if (d.fromPubkey.toBase58() === owner && d.toPubkey.toBase58() !== owner) {
+        result.lamportOutflows.push({ destination: d.toPubkey.toBase58(), lamports: d.lamports, newAccount: false });
+      }
+      break;
+    }
+    case 'TransferWithSeed': {
+      const d = SystemInstruction.decodeTransferWithSeed(ix);
+      if (d.basePubkey.toBase58() === owner && d.toPubkey.toBase58() !== owner) {
+        result.lamportOutflows.push({ destination: d.toPubkey.toBase58(), lamports: d.lamports, newAccount: false });
+      }
+      break;
+    }
+    case 'Create': {
+      const d = SystemInstruction.decodeCreateAccount(ix);
+      if (d.fromPubkey.toBase58() === owner) {
+        result.lamportOutflows.push({ destination: d.newAccountPubkey.toBase58(), lamports: BigInt(d.lamports), newAccount: true });
+      }
+      break;
+    }
+    case 'CreateWithSeed': {
+      const d = SystemInstruction.decodeCreateWithSeed(ix);
+      if (d.fromPubkey.toBase58() === owner) {
+        result.lamportOutflows.push({ destination: d.newAccountPubkey.toBase58(), lamports: BigInt(d.lamports), newAccount: true });
+      }
+      break;
+    }
+    case 'WithdrawNonceAccount': {
+      const d = SystemInstruction.decodeNonceWithdraw(ix);
+      if (d.authorizedPubkey.toBase58() === owner && d.toPubkey.toBase58() !== owner) {
+        result.lamportOutflows.push({ destination: d.toPubkey.toBase58(), lamports: BigInt(d.lamports), newAccount: false });
+      }
+      break;
+    }
+    case 'Assign': {
+      const d = SystemInstruction.decodeAssign(ix);
+      if (d.accountPubkey.toBase58() === owner) result.assignedAccounts.push(owner);
+      break;
+    }
+    case 'AssignWithSeed': {
+      const d = SystemInstruction.decodeAssignWithSeed(ix);
+      if (d.basePubkey.toBase58() === owner) result.assignedAccounts.push(d.accountPubkey.toBase58());
+      break;
+    }
+    default:
+      // Allocate, nonce management — no value leaves the wallet
+      break;
+  }
+}
+
+function decodeToken(ix: TransactionInstruction, ownerPk: PublicKey, result: TxInspection): void {
+  const programId = ix.programId;
+  const owner = ownerPk.toBase58();
+
+  switch (ix.data[0]) {
+    case TokenInstruction.Transfer: {
+      const d = decodeTransferInstruction(ix, programId);
+      if (d.keys.owner.pubkey.toBase58() !== owner) break;
+      result.tokenOutflows.push({
+        source: d.keys.source.pubkey.toBase58(),
+        destination: d.keys.destination.pubkey.toBase58(),
+        destinationOwner: null,
+        mint: null,
+        amount: d.data.amount,
+        programId: programId.toBase58(),
+      });
+      break;
+    }
+    case TokenInstruction.TransferChecked: {
+      const d = decodeTransferCheckedInstruction(ix, programId);
+      if (d.keys.owner.pubkey.toBase58() !== owner) break;
+      result.tokenOutflows.push({
+        source: d.keys.source.pubkey.toBase58(),
+        destination: d.keys.destination.pubkey.toBase58(),
+        destinationOwner: null,
+        mint: d.keys.mint.pubkey.toBase58(),
+        amount: d.data.amount,
+        programId: programId.toBase58(),
+      });
+      break;
+    }
+    case TokenInstruction.Approve: {
+      const d = decodeApproveInstruction(ix, programId);
+      if (d.keys.owner.pubkey.toBase58() !== owner) break;
+      result.approvals.push({
+        instruction: 'approve',
+        programId: programId.toBase58(),
+        account: d.keys.account.pubkey.toBase58(),
+        delegate: d.keys.delegate.pubkey.toBase58(),
+        amount: d.data.amount,
+      });
+      break;
+    }
+    case TokenInstruction.ApproveChecked: {
+      const d = decodeApproveCheckedInstruction(ix, programId);
+      if (d.keys.owner.pubkey.toBase58() !== owner) break;
+      result.approvals.push({
+        instruction: 'approveChecked',
+        programId: programId.toBase58(),
+        account: d.keys.account.pubkey.toBase58(),
+        delegate: d.keys.delegate.pubkey.toBase58(),
+        amount: d.data.amount,
+      });
+      break;
+    }
+    case TokenInstruction.SetAuthority: {
+      const d = decodeSetAuthorityInstruction(ix, programId);
+      if (d.keys.currentAuthority.pubkey.toBase58() !== owner) break;
+      result.authorityChanges.push({
+        programId: programId.toBase58(),
+        account: d.keys.account.pubkey.toBase58(),
+        authorityType: AuthorityType[d.data.authorityType] as keyof typeof AuthorityType,
+        newAuthority: d.data.newAuthority?.toBase58() ?? null,
+      });
+      break;
+    }
+    case TokenInstruction.CloseAccount: {
+      const d = decodeCloseAccountInstruction(ix, programId);
+      if (d.keys.authority.pubkey.toBase58() !== owner) break;
+      const destination = d.keys.destination.pubkey.toBase58();
+      result.closedAccounts.push({
+        programId: programId.toBase58(),
+        account: d.keys.account.pubkey.toBase58(),
+        destination,
+        toForeign: !isOwnAccount(destination, ownerPk),
+      });
+      break;
+    }
+    case TokenInstruction.TransferFeeExtension: {
+      if (ix.data[1] !== TransferFeeInstruction.TransferCheckedWithFee) break;
+      const d = decodeTransferCheckedWithFeeInstruction(ix, programId);
+      if (d.keys.authority.pubkey.toBase58() !== owner) break;
+      result.tokenOutflows.push({
+        source: d.keys.source.pubkey.toBase58(),
+        destination: d.keys.destination.pubkey.toBase58(),
+        destinationOwner: null,
+        mint: d.keys.mint.pubkey.toBase58(),
+        amount: d.data.amount,
+        programId: programId.toBase58(),
+      });
+      break;
+    }
+    case TokenInstruction.ConfidentialTransferExtension:
+      // Amounts are encrypted — there is nothing to check them against
+      throw new WalletError('LIMIT_BREACH', 'Confidential transfers cannot be inspected; refusing to sign.');
+    default:
+      // Account initialisation, syncNative, burns, and the remaining Token-2022
+      // extension instructions — none move value to another party.
+      break;
+  }
+}
+
+function decodeComputeBudget(ix: TransactionInstruction, result: TxInspection): void {
+  switch (ComputeBudgetInstruction.decodeInstructionType(ix)) {
+    case 'SetComputeUnitLimit':
+      result.computeUnitLimit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+      break;
+    case 'SetComputeUnitPrice':
+      result.computeUnitPriceMicroLamports = BigInt(
+        ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports,
+      );
+      break;
+    default:
+      break;
+  }
+}
+
+function decodeLookupTable(ix: TransactionInstruction, ownerPk: PublicKey, result: TxInspection): void {
+  const owner = ownerPk.toBase58();
+  const programId = AddressLookupTableProgram.programId.toBase58();
+
+  switch (AddressLookupTableInstruction.decodeInstructionType(ix)) {
+    case 'CreateLookupTable': {
+      // The rent is moved by CPI, so it is priced from the table size later
+      const d = AddressLookupTableInstruction.decodeCreateLookupTable(ix);
+      const table = ix.keys[0]?.pubkey.toBase58();
+      if (table && d.payer.toBase58() === owner) result.createdLookupTables.push(table);
+      break;
+    }
+    case 'ExtendLookupTable': {
+      const d = AddressLookupTableInstruction.decodeExtendLookupTable(ix);
+      if (d.payer?.toBase58() === owner) result.lookupTableAddressesFunded += d.addresses.length;
+      break;
+    }
+    case 'CloseLookupTable': {
+      const d = AddressLookupTableInstruction.decodeCloseLookupTable(ix);
+      if (d.authority.toBase58() !== owner) break;
+      const destination = d.recipient.toBase58();
+      result.closedAccounts.push({
+        programId,
+        account: d.lookupTable.toBase58(),
+        destination,
+        toForeign: destination !== owner,
+      });
+      break;
+    }
+    case 'FreezeLookupTable': {
+      const d = AddressLookupTableInstruction.decodeFreezeLookupTable(ix);
+      if (d.authority.toBase58() !== owner) break;
+      // A frozen table can never be closed, so its rent is lost for good
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Denied instruction freezeLookupTable: would lock ${d.lookupTable.toBase58()} and its rent permanently.`,
+      );
+    }
+    default:
+      // Deactivation moves no value
+      break;
+  }
+}
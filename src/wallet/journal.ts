@@ -0,0 +1,129 @@
+/**
+ * @file src/wallet/journal.ts
+ * Outgoing transaction journal and reconciler.
+ *
+ * sendAndConfirm gives up on a transaction after its confirmation timeout,
+ * but the transaction can still land until its blockhash expires (or, with a
+ * durable nonce, until the nonce advances). If the agent re-issued the same
+ * action in that window, both could land.
+ *
+ * So every signature is journaled before it is broadcast. Before each new
+ * send the wallet reconciles what is still pending:
+ *
+ *   - confirmed or failed on chain  → settled with that status
+ *   - no status, blockhash expired  → expired; it can never land
+ *   - no status, nonce advanced     → expired
+ *   - otherwise                     → still pending
+ *
+ * and refuses a spend whose intent matches one still pending.
+ */
+
+import { createHash } from 'node:crypto';
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { getNonceAccount } from './nonce.js';
+import { WalletError, type OutgoingTx, type OutgoingTxStatus, type SpendIntent, type TxJournal } from './types.js';
+import type { Logger } from '../logger/logger.js';
+
+// ── Journal ───────────────────────────────────────────────────────────────────
+
+/** A TxJournal that lives as long as the process. The default when none is configured. */
+export function createMemoryTxJournal(): TxJournal {
+  const pending = new Map<string, OutgoingTx>();
+  const settled = new Set<string>();
+  return {
+    record(tx): void {
+      if (!settled.has(tx.signature) && !pending.has(tx.signature)) pending.set(tx.signature, tx);
+    },
+    resolve(tx): void {
+      pending.delete(tx.signature);
+      settled.add(tx.signature);
+    },
+    pending: () => [...pending.values()],
+  };
+}
+
+/**
+ * Fingerprint of what `intent` spends: SOL, each mint's amount and the
+ * recipients. Two transactions with the same key move the same funds to the
+ * same place.
+ */
+export function intentKey(intent: SpendIntent): string {
+  const canonical = JSON.stringify({
+    lamports: intent.lamports.toString(),
+    tokens: Object.entries(intent.tokens).map(([mint, amount]) => [mint, amount.toString()]).sort(),
+    destinations: [...intent.destinations].sort(),
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+// ── Reconciler ────────────────────────────────────────────────────────────────
+
+export interface ReconciledTx {
+  tx: OutgoingTx;
+  status: Exclude<OutgoingTxStatus, 'pending'>;
+}
+
+/**
+ * Settles every pending journal entry whose outcome is now known. Returns the
+ * entries settled; anything else stays pending.
+ */
+export async function reconcileTxJournal(
+  connection: Connection,
+  journal: TxJournal,
+  logger: Logger,
+): Promise<ReconciledTx[]> {
+  const pending = journal.pending();
+  if (pending.length === 0) return [];
+
+  let statuses: Awaited<ReturnType<Connection['getSignatureStatuses']>>['value'];
+  try {
+    statuses = (await connection.getSignatureStatuses(
+      pending.map((tx) => tx.signature),
+      { searchTransactionHistory: true },
+    )).value;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to look up pending transactions.', err);
+  }
+
+  let blockHeight: number | undefined;
+  const settled: ReconciledTx[] = [];
+
+  for (const [i, tx] of pending.entries()) {
+    const status = statuses[i];
+    let outcome: ReconciledTx['status'] | undefined;
+
+    if (status?.err) {
+      outcome = 'failed';
+    } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      outcome = 'confirmed';
+    } else if (!status) {
+      outcome = await hasExpired(tx) ? 'expired' : undefined;
+    }
+    // A 'processed' status can still be rolled back — leave it pending
+
+    if (outcome === undefined) continue;
+    journal.resolve(tx, outcome, true);
+    settled.push({ tx, status: outcome });
+    logger.info({ signature: tx.signature, status: outcome }, 'Reconciled pending transaction');
+  }
+  return settled;
+
+  async function hasExpired(tx: OutgoingTx): Promise<boolean> {
+    try {
+      if (tx.lastValidBlockHeight !== undefined) {
+        blockHeight ??= await connection.getBlockHeight('confirmed');
+        return blockHeight > tx.lastValidBlockHeight;
+      }
+      if (tx.nonceAccount !== undefined) {
+        const account = await getNonceAccount(connection, new PublicKey(tx.nonceAccount));
+        return account?.nonce !== tx.nonce;
+      }
+    } catch (err) {
+      // Unknown is not expired: keep blocking rather than risk a double spend
+      logger.warn({ err, signature: tx.signature }, 'Could not check whether a pending transaction expired');
+      return false;
+    }
+    // Recorded with no expiry to wait for
+    return true;
+  }
+}
@@ -6,7 +6,11 @@
  * Security properties:
  *  - AES-256-GCM encryption with a fresh IV per keystore (no IV reuse)
  *  - GCM auth tag authenticates ciphertext — detects any tampering
- *  - scrypt KDF with N=32768 — brute-force resistant password hashing
+ *  - Argon2id KDF (v2, default) or scrypt (v1 and v2) — brute-force resistant
+ *  - HD masters store the BIP39 mnemonic under the same encryption; derived
+ *    keystores store only an index and a pointer to their master
+ *  - Keystores are written atomically (temp file + rename), so a crash
+ *    mid-write never leaves a truncated keystore behind
  *  - Plaintext key buffer is zeroed immediately after Keypair construction
  *  - loadFromEnv() is disabled when NODE_ENV === 'production'
  *
@@ -17,15 +21,25 @@ import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Keypair } from '@solana/web3.js';
+import { argon2id } from '@noble/hashes/argon2';
 // bs58 is bundled as part of @solana/web3.js; import directly
 // Install separately if not available: npm install bs58
 import { default as bs58 } from 'bs58';
-import { WalletError, type KeystoreFile } from './types.js';
+import { deriveKeypair, normalizeMnemonic, validateMnemonic, solanaDerivationPath } from './hd.js';
+import {
+  WalletError,
+  type Argon2idParams,
+  type DerivedKeystoreFile,
+  type KeystoreCipher,
+  type KeystoreFile,
+  type KeystoreKdf,
+  type MasterKeystoreFile,
+} from './types.js';
 
 // ── KDF Constants ─────────────────────────────────────────────────────────────
 
 /**
- * Production scrypt parameters.
+ * Production scrypt parameters, used for v1 keystores and `kdf: 'scrypt'`.
  * N=16384 by default (balanced for runtime compatibility). Increase N for more resistance.
  * Test environments can override via TEST_KDF_N env var for speed.
  */
@@ -35,23 +49,100 @@ const KDF_PARAMS = {
   p: 1,
 } as const;
 
+/**
+ * Production Argon2id parameters — the OWASP minimum (19 MiB, 2 passes).
+ * Raise them per keystore with `agentw wallet rekey --memory/--iterations`.
+ * Test environments can override memory via TEST_KDF_ARGON2_M (KiB) for speed.
+ */
+const ARGON2_PARAMS = {
+  m: process.env['TEST_KDF_ARGON2_M'] ? parseInt(process.env['TEST_KDF_ARGON2_M'], 10) : 19_456,
+  t: 2,
+  p: 1,
+} as const;
+
+/** Upper bounds on stored params, so a hostile keystore cannot exhaust memory or CPU. */
+const MAX_ARGON2_MEMORY_KIB = 4 * 1024 * 1024; // 4 GiB
+const MAX_ARGON2_ITERATIONS = 64;
+const MAX_SCRYPT_N = 2 ** 20; // 1 GiB at r=8
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 16;
+
 const KEY_LEN = 32; // AES-256 key = 32 bytes
 const IV_LEN = 16; // GCM IV = 16 bytes
-const SALT_LEN = 32; // scrypt salt = 32 bytes
+const SALT_LEN = 32; // KDF salt = 32 bytes
 const AUTH_TAG_LEN = 16; // GCM auth tag = 16 bytes
 
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Anything that may sit in a keystore file. */
+export type StoredKeystore = KeystoreFile | MasterKeystoreFile | DerivedKeystoreFile;
+
+export interface KeystoreOptions {
+  /** KDF for the new keystore. Defaults to 'argon2id'. */
+  kdf?: 'argon2id' | 'scrypt';
+  /** Overrides for the default Argon2id parameters. */
+  argon2?: Partial<Argon2idParams>;
+  /** scrypt cost N, a power of two. Defaults to 16384. */
+  scryptN?: number;
+}
+
+export interface LoadKeystoreOptions {
+  /**
+   * Re-encrypt a v1 keystore as v2 (Argon2id, same password) after it
+   * unlocks. A failed rewrite is ignored — the v1 file is still valid.
+   */
+  upgrade?: boolean;
+}
+
 // ── Key Derivation ────────────────────────────────────────────────────────────
 
 /**
- * Derives a 32-byte AES key from a password + salt using scrypt.
+ * Derives a 32-byte AES key from a password + salt.
  * The returned Buffer is the only copy of the derived key in memory.
  */
-function deriveKey(password: string, salt: Buffer, N: number = KDF_PARAMS.N): Buffer {
-  return crypto.scryptSync(password, salt, KEY_LEN, {
-    N,
-    r: KDF_PARAMS.r,
-    p: KDF_PARAMS.p,
-  }) as Buffer;
+function deriveKey(password: string, salt: Buffer, kdf: KeystoreKdf): Buffer {
+  if (kdf.kdf === 'scrypt') {
+    return crypto.scryptSync(password, salt, KEY_LEN, {
+      N: kdf.kdfParams.N,
+      r: kdf.kdfParams.r,
+      p: kdf.kdfParams.p,
+      // Node's default maxmem (32 MiB) rejects N above 16384 with r=8
+      maxmem: 256 * kdf.kdfParams.N * kdf.kdfParams.r,
+    }) as Buffer;
+  }
+
+  const raw = argon2id(password, salt, { ...kdf.kdfParams, dkLen: KEY_LEN });
+  const key = Buffer.from(raw);
+  raw.fill(0);
+  return key;
+}
+
+/** Resolves caller options to the KDF block stored in a new v2 keystore. */
+function resolveKdf(options: KeystoreOptions): KeystoreKdf {
+  if (options.kdf === 'scrypt') {
+    return { kdf: 'scrypt', kdfParams: { ...KDF_PARAMS, N: options.scryptN ?? KDF_PARAMS.N } };
+  }
+  return { kdf: 'argon2id', kdfParams: { ...ARGON2_PARAMS, ...options.argon2 } };
+}
+
+/** Rejects KDF params that are malformed or too expensive to attempt. */
+function validateKdf(kdf: KeystoreKdf): void {
+  const isInt = (v: unknown, min: number, max = Number.MAX_SAFE_INTEGER): boolean =>
+    Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+  const valid = kdf.kdf === 'scrypt'
+    ? isInt(kdf.kdfParams?.N, 2, MAX_SCRYPT_N) &&
+      (kdf.kdfParams.N & (kdf.kdfParams.N - 1)) === 0 && // a power of two
+      isInt(kdf.kdfParams.r, 1, MAX_SCRYPT_R) &&
+      isInt(kdf.kdfParams.p, 1, MAX_SCRYPT_P)
+    : kdf.kdf === 'argon2id' &&
+      isInt(kdf.kdfParams?.p, 1, 255) &&
+      isInt(kdf.kdfParams.t, 1, MAX_ARGON2_ITERATIONS) &&
+      isInt(kdf.kdfParams.m, 8 * kdf.kdfParams.p, MAX_ARGON2_MEMORY_KIB);
+
+  if (!valid) {
+    throw new WalletError('INVALID_KEYSTORE', 'Keystore KDF parameters are invalid.');
+  }
 }
 
 /**
@@ -62,65 +153,44 @@ function zeroBuffer(buf: Buffer): void {
   buf.fill(0);
 }
 
-// ── Public API ────────────────────────────────────────────────────────────────
+// ── Encryption ────────────────────────────────────────────────────────────────
 
 /**
- * Encrypts a Keypair and writes it to disk as a JSON keystore file.
- *
- * @param keypair  The Solana keypair to encrypt.
- * @param password Passphrase used to derive the encryption key.
- * @param outputPath Absolute or relative path for the output .json file.
- * @returns The parsed KeystoreFile object (for verification or testing).
+ * Encrypts `plaintext` under a key derived from `password`. Does not zero
+ * `plaintext`. `aad` is authenticated but not encrypted.
+ * Shared with backup.ts — not re-exported from the wallet module.
  */
-export function createKeystore(
-  keypair: Keypair,
+export function encryptSecret(
+  plaintext: Buffer,
   password: string,
-  outputPath: string,
-): KeystoreFile {
+  options: KeystoreOptions,
+  aad?: Buffer,
+): KeystoreCipher & KeystoreKdf {
   if (!password || password.length < 8) {
     throw new WalletError('INVALID_CONFIG', 'Keystore password must be at least 8 characters.');
   }
 
+  const kdf = resolveKdf(options);
+  validateKdf(kdf);
+
   const salt = crypto.randomBytes(SALT_LEN);
   const iv = crypto.randomBytes(IV_LEN);
-  const derivedKey = deriveKey(password, salt, KDF_PARAMS.N);
+  const derivedKey = deriveKey(password, salt, kdf);
 
   try {
     const cipher = crypto.createCipheriv('aes-256-gcm', derivedKey, iv);
-
-    // The secret key is a 64-byte Uint8Array: [32-byte private seed | 32-byte public]
-    const secretKeyBytes = Buffer.from(keypair.secretKey);
-    const ciphertext = Buffer.concat([cipher.update(secretKeyBytes), cipher.final()]);
+    if (aad) cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
     const authTag = cipher.getAuthTag();
 
-    // Zero the plaintext immediately
-    zeroBuffer(secretKeyBytes);
-
-    const keystore: KeystoreFile = {
-      version: 1,
-      publicKey: keypair.publicKey.toBase58(),
-      encrypted: {
-        ciphertext: ciphertext.toString('hex'),
-        iv: iv.toString('hex'),
-        authTag: authTag.toString('hex'),
-        salt: salt.toString('hex'),
-        algorithm: 'aes-256-gcm',
-        kdf: 'scrypt',
-        kdfParams: { ...KDF_PARAMS },
-      },
+    return {
+      ciphertext: ciphertext.toString('hex'),
+      iv: iv.toString('hex'),
+      authTag: authTag.toString('hex'),
+      salt: salt.toString('hex'),
+      algorithm: 'aes-256-gcm',
+      ...kdf,
     };
-
-    const dir = path.dirname(outputPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.writeFileSync(outputPath, JSON.stringify(keystore, null, 2), {
-      mode: 0o600, // Owner read/write only
-      encoding: 'utf8',
-    });
-
-    return keystore;
   } finally {
     zeroBuffer(derivedKey);
     zeroBuffer(salt);
@@ -129,44 +199,16 @@ export function createKeystore(
 }
 
 /**
- * Reads an encrypted keystore file from disk and decrypts it.
- * Throws WalletError('INVALID_KEYSTORE') if the password is wrong or
- * the file has been tampered with (GCM auth tag failure).
- *
- * @param keystorePath Path to the JSON keystore file.
- * @param password     Passphrase to decrypt the keystore.
- * @returns A Keypair ready for use. The plaintext buffer is zeroed internally.
+ * Decrypts the `encrypted` block of any keystore. The caller owns — and must
+ * zero — the returned plaintext. `aad` must match what was passed to encryptSecret().
  */
-export function loadKeystore(keystorePath: string, password: string): Keypair {
-  if (!fs.existsSync(keystorePath)) {
-    throw new WalletError(
-      'INVALID_KEYSTORE',
-      `Keystore file not found: ${keystorePath}`,
-    );
-  }
-
-  let raw: string;
-  try {
-    raw = fs.readFileSync(keystorePath, 'utf8');
-  } catch (err) {
-    throw new WalletError('INVALID_KEYSTORE', `Cannot read keystore file: ${keystorePath}`, err);
-  }
-
-  let ks: KeystoreFile;
-  try {
-    ks = JSON.parse(raw) as KeystoreFile;
-  } catch (err) {
-    throw new WalletError('INVALID_KEYSTORE', `Keystore file is not valid JSON: ${keystorePath}`, err);
-  }
-
-  if (ks.version !== 1) {
-    throw new WalletError(
-      'INVALID_KEYSTORE',
-      `Unsupported keystore version: ${ks.version}. Expected 1.`,
-    );
-  }
-
-  const { ciphertext, iv, authTag, salt } = ks.encrypted;
+export function decryptSecret(
+  version: 1 | 2,
+  encrypted: KeystoreCipher & KeystoreKdf,
+  password: string,
+  aad?: Buffer,
+): Buffer {
+  const { ciphertext, iv, authTag, salt } = encrypted;
 
   const saltBuf = Buffer.from(salt, 'hex');
   const ivBuf = Buffer.from(iv, 'hex');
@@ -184,18 +226,20 @@ export function loadKeystore(keystorePath: string, password: string): Keypair {
     throw new WalletError('INVALID_KEYSTORE', 'Keystore auth tag has unexpected length.');
   }
 
-  const kdfN = ks.encrypted.kdfParams?.N;
-  if (!Number.isInteger(kdfN) || kdfN < 2) {
+  // v1 files predate the kdf field's alternatives — they are always scrypt
+  const kdf = { kdf: encrypted.kdf, kdfParams: encrypted.kdfParams } as KeystoreKdf;
+  if (version === 1 && kdf.kdf !== 'scrypt') {
     throw new WalletError('INVALID_KEYSTORE', 'Keystore KDF parameters are invalid.');
   }
+  validateKdf(kdf);
 
-  const derivedKey = deriveKey(password, saltBuf, kdfN);
+  const derivedKey = deriveKey(password, saltBuf, kdf);
 
-  let plaintext: Buffer;
   try {
     const decipher = crypto.createDecipheriv('aes-256-gcm', derivedKey, ivBuf);
     decipher.setAuthTag(authTagBuf);
-    plaintext = Buffer.concat([decipher.update(ciphertextBuf), decipher.final()]);
+    if (aad) decipher.setAAD(aad);
+    return Buffer.concat([decipher.update(ciphertextBuf), decipher.final()]);
   } catch {
     // GCM auth failure means wrong password OR tampered ciphertext — same error for both
     throw new WalletError(
@@ -205,6 +249,32 @@ export function loadKeystore(keystorePath: string, password: string): Keypair {
   } finally {
     zeroBuffer(derivedKey);
   }
+}
+
+function encryptKeypair(keypair: Keypair, password: string, options: KeystoreOptions): KeystoreFile {
+  // The secret key is a 64-byte Uint8Array: [32-byte private seed | 32-byte public]
+  const secretKeyBytes = Buffer.from(keypair.secretKey);
+  try {
+    return {
+      version: 2,
+      publicKey: keypair.publicKey.toBase58(),
+      encrypted: encryptSecret(secretKeyBytes, password, options),
+    };
+  } finally {
+    // Zero the plaintext copy immediately
+    zeroBuffer(secretKeyBytes);
+  }
+}
+
+function decryptKeystore(ks: KeystoreFile, password: string): Keypair {
+  if (ks.version !== 1 && ks.version !== 2) {
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      `Unsupported keystore version: ${(ks as { version: unknown }).version}. Expected 1 or 2.`,
+    );
+  }
+
+  const plaintext = decryptSecret(ks.version, ks.encrypted, password);
 
   // Solana secret key = 64 bytes (32-byte seed + 32-byte public key)
   if (plaintext.length !== 64) {
@@ -227,6 +297,285 @@ export function loadKeystore(keystorePath: string, password: string): Keypair {
   return keypair;
 }
 
+function encryptMnemonic(mnemonic: string, password: string, options: KeystoreOptions): MasterKeystoreFile {
+  const phrase = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(phrase)) {
+    throw new WalletError('INVALID_CONFIG', 'Mnemonic is not a valid BIP39 phrase.');
+  }
+
+  const plaintext = Buffer.from(phrase, 'utf8');
+  try {
+    return {
+      version: 2,
+      kind: 'hd-master',
+      fingerprint: deriveKeypair(phrase, 0).publicKey.toBase58(),
+      encrypted: encryptSecret(plaintext, password, options),
+    };
+  } finally {
+    zeroBuffer(plaintext);
+  }
+}
+
+function decryptMnemonic(master: MasterKeystoreFile, password: string): string {
+  if (master.version !== 2) {
+    throw new WalletError('INVALID_KEYSTORE', `Unsupported master keystore version: ${master.version as number}. Expected 2.`);
+  }
+
+  const plaintext = decryptSecret(2, master.encrypted, password);
+  const mnemonic = plaintext.toString('utf8');
+  zeroBuffer(plaintext);
+
+  if (!validateMnemonic(mnemonic) || deriveKeypair(mnemonic, 0).publicKey.toBase58() !== master.fingerprint) {
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      'Decrypted mnemonic does not match stored fingerprint. Master keystore may be corrupted.',
+    );
+  }
+  return mnemonic;
+}
+
+function readMasterFile(masterPath: string): MasterKeystoreFile {
+  const master = readKeystoreFile(masterPath);
+  if (!('kind' in master) || master.kind !== 'hd-master') {
+    throw new WalletError('INVALID_KEYSTORE', `Not an HD master keystore: ${masterPath}`);
+  }
+  return master;
+}
+
+/** Unlocks a derived keystore by decrypting its master and re-deriving the key. */
+function loadDerivedKeystore(ks: DerivedKeystoreFile, keystorePath: string, password: string): Keypair {
+  if (ks.derivationPath !== solanaDerivationPath(ks.index)) {
+    throw new WalletError('INVALID_KEYSTORE', `Unsupported derivation path: ${ks.derivationPath}`);
+  }
+
+  const masterPath = path.resolve(path.dirname(keystorePath), ks.master);
+  const master = readMasterFile(masterPath);
+  if (master.fingerprint !== ks.masterFingerprint) {
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      `Master keystore at ${masterPath} is not the one this wallet was derived from.`,
+    );
+  }
+
+  const keypair = deriveKeypair(decryptMnemonic(master, password), ks.index);
+  if (keypair.publicKey.toBase58() !== ks.publicKey) {
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      'Derived public key does not match stored public key. Keystore may be corrupted.',
+    );
+  }
+  return keypair;
+}
+
+// ── File I/O ──────────────────────────────────────────────────────────────────
+
+/** Reads and parses any keystore file without decrypting it. Shared with backup.ts. */
+export function readKeystoreFile(keystorePath: string): StoredKeystore {
+  if (!fs.existsSync(keystorePath)) {
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      `Keystore file not found: ${keystorePath}`,
+    );
+  }
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(keystorePath, 'utf8');
+  } catch (err) {
+    throw new WalletError('INVALID_KEYSTORE', `Cannot read keystore file: ${keystorePath}`, err);
+  }
+
+  try {
+    return JSON.parse(raw) as StoredKeystore;
+  } catch (err) {
+    throw new WalletError('INVALID_KEYSTORE', `Keystore file is not valid JSON: ${keystorePath}`, err);
+  }
+}
+
+/**
+ * Writes `keystore` to `outputPath` via a temp file in the same directory and
+ * a rename, so readers see either the old file or the complete new one.
+ * Also used for backup bundles, which need the same 0600 atomic write.
+ */
+export function writeKeystoreFile(keystore: object, outputPath: string): void {
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpPath = path.join(dir, `.${path.basename(outputPath)}.${crypto.randomBytes(6).toString('hex')}.tmp`);
+  // 'wx' refuses to follow a pre-planted file or symlink at the temp path
+  const fd = fs.openSync(tmpPath, 'wx', 0o600); // Owner read/write only
+  try {
+    try {
+      fs.writeFileSync(fd, JSON.stringify(keystore, null, 2), 'utf8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, outputPath);
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw new WalletError('INVALID_KEYSTORE', `Cannot write keystore file: ${outputPath}`, err);
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Encrypts a Keypair and writes it to disk as a v2 JSON keystore file.
+ *
+ * @param keypair  The Solana keypair to encrypt.
+ * @param password Passphrase used to derive the encryption key.
+ * @param outputPath Absolute or relative path for the output .json file.
+ * @param options  KDF choice and parameters. Defaults to Argon2id.
+ * @returns The parsed KeystoreFile object (for verification or testing).
+ */
+export function createKeystore(
+  keypair: Keypair,
+  password: string,
+  outputPath: string,
+  options: KeystoreOptions = {},
+): KeystoreFile {
+  const keystore = encryptKeypair(keypair, password, options);
+  writeKeystoreFile(keystore, outputPath);
+  return keystore;
+}
+
+/**
+ * Reads an encrypted keystore file from disk and decrypts it. Both v1
+ * (scrypt) and v2 (Argon2id or scrypt) files are accepted, as are derived
+ * HD keystores, which unlock with their master's password.
+ * Throws WalletError('INVALID_KEYSTORE') if the password is wrong or
+ * the file has been tampered with (GCM auth tag failure).
+ *
+ * @param keystorePath Path to the JSON keystore file.
+ * @param password     Passphrase to decrypt the keystore.
+ * @param options      Set `upgrade` to rewrite a v1 file as v2 once unlocked.
+ * @returns A Keypair ready for use. The plaintext buffer is zeroed internally.
+ */
+export function loadKeystore(
+  keystorePath: string,
+  password: string,
+  options: LoadKeystoreOptions = {},
+): Keypair {
+  const ks = readKeystoreFile(keystorePath);
+  if ('kind' in ks) {
+    if (ks.kind === 'hd') return loadDerivedKeystore(ks, keystorePath, password);
+    throw new WalletError(
+      'INVALID_KEYSTORE',
+      `${keystorePath} is an HD master. Derive a wallet from it with: agentw wallet derive`,
+    );
+  }
+
+  const keypair = decryptKeystore(ks, password);
+
+  if (options.upgrade && ks.version === 1) {
+    try {
+      writeKeystoreFile(encryptKeypair(keypair, password, {}), keystorePath);
+    } catch {
+      // Still unlocked; the v1 file remains valid and the next load retries
+    }
+  }
+
+  return keypair;
+}
+
+/**
+ * Re-encrypts a keystore under `newPassword` and/or new KDF parameters,
+ * replacing the file atomically. The result is always v2. The keypair — and
+ * so the wallet address — is unchanged. HD masters are re-encrypted the same
+ * way; derived keystores hold no key and are refused.
+ *
+ * @param keystorePath Path to the JSON keystore file.
+ * @param password     Current passphrase.
+ * @param newPassword  New passphrase; pass `password` again to change only the KDF.
+ * @param options      KDF for the rewritten file. Defaults to Argon2id.
+ */
+export function rekeyKeystore(
+  keystorePath: string,
+  password: string,
+  newPassword: string,
+  options: KeystoreOptions = {},
+): KeystoreFile | MasterKeystoreFile {
+  const ks = readKeystoreFile(keystorePath);
+
+  let keystore: KeystoreFile | MasterKeystoreFile;
+  if (!('kind' in ks)) {
+    keystore = encryptKeypair(decryptKeystore(ks, password), newPassword, options);
+  } else if (ks.kind === 'hd-master') {
+    keystore = encryptMnemonic(decryptMnemonic(ks, password), newPassword, options);
+  } else {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `${keystorePath} is derived from ${ks.master} and holds no key. Rekey the master instead.`,
+    );
+  }
+
+  writeKeystoreFile(keystore, keystorePath);
+  return keystore;
+}
+
+/**
+ * Encrypts a BIP39 mnemonic and writes it as an HD master keystore.
+ * Throws WalletError('INVALID_CONFIG') if the phrase fails its checksum.
+ *
+ * @param mnemonic   BIP39 phrase (English wordlist).
+ * @param password   Passphrase used to derive the encryption key.
+ * @param outputPath Path for the output .json file.
+ * @param options    KDF choice and parameters. Defaults to Argon2id.
+ */
+export function createMasterKeystore(
+  mnemonic: string,
+  password: string,
+  outputPath: string,
+  options: KeystoreOptions = {},
+): MasterKeystoreFile {
+  const master = encryptMnemonic(mnemonic, password, options);
+  writeKeystoreFile(master, outputPath);
+  return master;
+}
+
+/**
+ * Decrypts an HD master keystore and returns its mnemonic.
+ * Only for backup and recovery flows — signing paths use loadKeystore().
+ */
+export function loadMnemonic(masterPath: string, password: string): string {
+  return decryptMnemonic(readMasterFile(masterPath), password);
+}
+
+/**
+ * Derives account `index` from an HD master and writes a keystore that
+ * records only the index and a pointer to the master. The master path is
+ * stored relative to `outputPath`, so the two can move together.
+ *
+ * @param masterPath Path to the HD master keystore.
+ * @param password   The master's password.
+ * @param index      Account index n in m/44'/501'/n'/0'.
+ * @param outputPath Path for the derived .json file.
+ */
+export function createDerivedKeystore(
+  masterPath: string,
+  password: string,
+  index: number,
+  outputPath: string,
+): DerivedKeystoreFile {
+  const master = readMasterFile(masterPath);
+  const keypair = deriveKeypair(decryptMnemonic(master, password), index);
+
+  const keystore: DerivedKeystoreFile = {
+    version: 2,
+    kind: 'hd',
+    publicKey: keypair.publicKey.toBase58(),
+    master: path.relative(path.dirname(path.resolve(outputPath)), path.resolve(masterPath)),
+    masterFingerprint: master.fingerprint,
+    index,
+    derivationPath: solanaDerivationPath(index),
+  };
+  writeKeystoreFile(keystore, outputPath);
+  return keystore;
+}
+
 /**
  * Loads a Keypair from a base58-encoded secret key string.
  *
@@ -280,6 +629,9 @@ export function getPublicKeyFromKeystore(keystorePath: string): string {
   }
 
   const raw = fs.readFileSync(keystorePath, 'utf8');
-  const ks = JSON.parse(raw) as KeystoreFile;
+  const ks = JSON.parse(raw) as StoredKeystore;
+  if ('kind' in ks && ks.kind === 'hd-master') {
+    throw new WalletError('INVALID_KEYSTORE', `${keystorePath} is an HD master and has no address.`);
+  }
   return ks.publicKey;
 }
@@ -3,16 +3,107 @@
  * SpendingLimitGuard — enforced before every transaction signing operation.
  *
  * This is the last software line of defence before lamports leave the wallet.
- * It runs synchronously (no async) so it cannot be bypassed by timing.
+ * It runs synchronously (no async) so it cannot be bypassed by timing. The one
+ * async step, pricing a transaction for USD caps, happens in valueInUsd()
+ * before check() and only produces the number that check() then enforces.
+ *
+ * Session spend lives in memory and resets on restart. The rolling-24h,
+ * calendar-day and lifetime windows are rehydrated from a SpendLedger at
+ * construction, so a crash loop cannot reset them.
+ */
+
+import {
+  WalletError,
+  type PolicyViolation,
+  type PriceOracle,
+  type SpendIntent,
+  type SpendingLimits,
+  type SpendLedger,
+  type SpendRecord,
+  type SpendWindow,
+  type SpendWindowStatus,
+} from './types.js';
+import type { TxInspection } from './inspector.js';
+
+const DAY_MS = 24 * 60 * 60 * 1_000;
+const DEFAULT_MAX_PRICE_AGE_SEC = 60;
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+/** Mints whose amounts are lamports and therefore governed by the lamport limits. */
+const NATIVE_MINTS = new Set([
+  WSOL_MINT,
+  SYSTEM_PROGRAM_ID, // used by some quotes for native SOL
+]);
+
+/**
+ * Opaque programs a wallet may invoke when its limits set no `allowedPrograms`:
+ * the swap programs our adapters route through, plus SPL Memo.
  */
+export const DEFAULT_ALLOWED_PROGRAMS: readonly string[] = [
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', // Jupiter Aggregator v6
+  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', // Orca Whirlpool
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr', // SPL Memo v2
+  'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo', // SPL Memo v1
+];
 
-import { WalletError, type SpendingLimits } from './types.js';
+/**
+ * Sums `intents` into one: lamports, fees, rent and USD added, tokens added
+ * per mint, destinations deduplicated. USD is set only if every intent has it.
+ */
+export function combineIntents(intents: SpendIntent[]): SpendIntent {
+  const combined: SpendIntent = { lamports: 0n, tokens: {}, destinations: [] };
+  const destinations = new Set<string>();
+  let fees = 0n;
+  let rent = 0n;
+  let usd: number | undefined = 0;
+  for (const intent of intents) {
+    combined.lamports += intent.lamports;
+    for (const [mint, amount] of Object.entries(intent.tokens)) {
+      combined.tokens[mint] = (combined.tokens[mint] ?? 0n) + amount;
+    }
+    for (const destination of intent.destinations) destinations.add(destination);
+    fees += intent.feeLamports ?? 0n;
+    rent += intent.rentLamports ?? 0n;
+    usd = usd !== undefined && intent.usdValue !== undefined ? usd + intent.usdValue : undefined;
+  }
+  combined.destinations = [...destinations];
+  if (fees > 0n) combined.feeLamports = fees;
+  if (rent > 0n) combined.rentLamports = rent;
+  if (usd !== undefined && intents.length > 0) combined.usdValue = usd;
+  return combined;
+}
+
+/** True when `mint` is set and is an SPL mint other than WSOL. */
+export function isSplMint(mint?: string): mint is string {
+  return mint !== undefined && !NATIVE_MINTS.has(mint);
+}
 
 export class SpendingLimitGuard {
   private sessionSpendLamports = 0n;
+  /** Confirmed spend from the last 24h (ledger + this session). Older entries are folded into lifetime. */
+  private recentRecords: SpendRecord[] = [];
+  /** Lifetime spend excluding `recentRecords`. */
+  private archivedSpendLamports = 0n;
+  /** Session spend per SPL mint, in raw base units. */
+  private readonly sessionSpendByMint = new Map<string, bigint>();
+  /** Session spend valued in USD at the time of each transaction. */
+  private sessionSpendUsd = 0;
+  /** Network fees within `sessionSpendLamports`. */
+  private sessionFeesLamports = 0n;
+  /** Token-account rent within `sessionSpendLamports`. */
+  private sessionRentLamports = 0n;
 
-  constructor(private readonly limits: SpendingLimits) {
+  constructor(
+    private readonly limits: SpendingLimits,
+    ledger?: SpendLedger,
+    private readonly oracle?: PriceOracle,
+  ) {
     this.validateConfig();
+    if (ledger) {
+      this.recentRecords = ledger.load().filter((r) => r.lamports > 0n);
+      this.prune(Date.now());
+    }
   }
 
   // ── Public API ──────────────────────────────────────────────────────────────
@@ -26,56 +117,227 @@ export class SpendingLimitGuard {
    *                           For SOL transfers, use the exact amount.
    * @param destination        Optional base58 destination address. Checked
    *                           against allowedDestinations if that list is set.
+   * @param mint               Optional base58 mint of the asset being spent.
+   *                           For SPL mints the amount is in raw base units and
+   *                           is checked against the per-mint caps instead.
+   * @param usdValue           USD value from valueInUsd(). Required when USD
+   *                           caps are configured.
    */
-  check(estimatedLamports: bigint, destination?: string): void {
-    // 1. Per-transaction limit
-    if (estimatedLamports > this.limits.maxPerTxLamports) {
-      throw new WalletError(
-        'LIMIT_BREACH',
-        `Transaction of ${estimatedLamports} lamports exceeds per-tx limit of ` +
-          `${this.limits.maxPerTxLamports} lamports ` +
-          `(${lamportsToSol(this.limits.maxPerTxLamports)} SOL).`,
-      );
+  check(estimatedLamports: bigint, destination?: string, mint?: string, usdValue?: number): void {
+    this.checkIntent(toIntent(estimatedLamports, destination, mint, usdValue));
+  }
+
+  /**
+   * Checks a full SpendIntent — every asset a transaction moves, as produced
+   * by the transaction inspector. Throws WalletError('LIMIT_BREACH') if any
+   * limit is violated.
+   */
+  checkIntent(intent: SpendIntent): void {
+    // 1–3. Lamport caps (per-tx, session, durable windows), fees and rent included
+    this.checkLamports(intent.lamports + (intent.feeLamports ?? 0n) + (intent.rentLamports ?? 0n));
+    this.checkFees(intent.feeLamports ?? 0n);
+
+    // Fees and rent alone go to no recipient and have no USD value to cap
+    if (intent.lamports === 0n && Object.keys(intent.tokens).length === 0) return;
+
+    // Per-mint caps for every SPL asset moved
+    for (const [mint, amount] of Object.entries(intent.tokens)) {
+      if (isSplMint(mint)) this.checkMint(mint, amount);
     }
 
-    // 2. Session cumulative limit
-    const projectedSessionSpend = this.sessionSpendLamports + estimatedLamports;
-    if (projectedSessionSpend > this.limits.maxSessionLamports) {
-      throw new WalletError(
-        'LIMIT_BREACH',
-        `Transaction would bring session spend to ${projectedSessionSpend} lamports, ` +
-          `exceeding session cap of ${this.limits.maxSessionLamports} lamports ` +
-          `(${lamportsToSol(this.limits.maxSessionLamports)} SOL). ` +
-          `Current session spend: ${lamportsToSol(this.sessionSpendLamports)} SOL.`,
-      );
+    // 4. USD caps (if configured)
+    this.checkUsd(intent.usdValue);
+
+    // 5. Destination allowlist (if configured)
+    for (const destination of intent.destinations) this.checkDestination(destination);
+    if (intent.destinations.length === 0) this.checkDestination(undefined);
+  }
+
+  /**
+   * Checks transfers that will be sent together, possibly over several
+   * transactions. Each leg is checked like a transaction of its own, per-tx
+   * caps and the destination allowlist included; their sum is checked
+   * against the session and durable windows, the per-mint session caps and
+   * the USD session cap. Throws WalletError('LIMIT_BREACH') if any is violated.
+   */
+  checkBatch(legs: SpendIntent[]): void {
+    for (const leg of legs) this.checkIntent(leg);
+
+    const total = combineIntents(legs);
+    this.checkCumulativeLamports(total.lamports + (total.feeLamports ?? 0n) + (total.rentLamports ?? 0n));
+    this.checkFees(total.feeLamports ?? 0n);
+    for (const [mint, amount] of Object.entries(total.tokens)) {
+      if (isSplMint(mint)) this.checkSessionMint(mint, amount);
     }
+    if (this.requiresUsdValuation()) this.checkSessionUsd(total.usdValue ?? 0);
+  }
 
-    // 3. Destination allowlist (if configured)
-    if (this.limits.allowedDestinations !== undefined) {
-      if (!destination) {
-        throw new WalletError(
-          'LIMIT_BREACH',
-          'Destination allowlist is configured but no destination address was provided.',
-        );
+  /**
+   * True when `intent` is within every per-transaction cap — lamports (fees
+   * and rent included), per-mint and USD. Cumulative windows are not
+   * considered. Used to pack a batch into as few transactions as allowed.
+   */
+  fitsPerTx(intent: SpendIntent): boolean {
+    const lamports = intent.lamports + (intent.feeLamports ?? 0n) + (intent.rentLamports ?? 0n);
+    if (lamports > this.limits.maxPerTxLamports) return false;
+    for (const [mint, amount] of Object.entries(intent.tokens)) {
+      const cap = isSplMint(mint) ? this.limits.maxPerTxByMint?.[mint] : undefined;
+      if (cap !== undefined && amount > cap) return false;
+    }
+    const { maxPerTxUsd } = this.limits;
+    return maxPerTxUsd === undefined || intent.usdValue === undefined || intent.usdValue <= maxPerTxUsd;
+  }
+
+  /**
+   * Applies program and instruction policy to a decoded transaction. Returns
+   * every violation found; an empty array means the transaction may be signed.
+   *
+   *  - Programs the inspector cannot decode must be on `allowedPrograms`
+   *    (or DEFAULT_ALLOWED_PROGRAMS when that is unset).
+   *  - Dangerous instructions signed by the wallet are refused unless their
+   *    kind is listed in `allowedInstructions`.
+   */
+  getPolicyViolations(inspection: TxInspection): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const allowedPrograms = this.limits.allowedPrograms ?? DEFAULT_ALLOWED_PROGRAMS;
+    const allowedInstructions = this.limits.allowedInstructions ?? [];
+
+    for (const programId of inspection.opaquePrograms) {
+      if (!allowedPrograms.includes(programId)) {
+        violations.push({
+          instruction: 'program',
+          programId,
+          reason: `Transaction invokes program ${programId}, which is not in the allowed programs list.`,
+        });
       }
-      if (!this.limits.allowedDestinations.includes(destination)) {
-        throw new WalletError(
-          'LIMIT_BREACH',
-          `Destination ${destination} is not in the allowed destinations list.`,
-        );
+    }
+
+    if (!allowedInstructions.includes('approve')) {
+      for (const a of inspection.approvals) {
+        violations.push({
+          instruction: a.instruction,
+          programId: a.programId,
+          account: a.account,
+          reason: `Denied instruction ${a.instruction}: delegates ${a.amount} units of ${a.account} to ${a.delegate}.`,
+        });
       }
     }
+
+    if (!allowedInstructions.includes('setAuthority')) {
+      for (const c of inspection.authorityChanges) {
+        violations.push({
+          instruction: 'setAuthority',
+          programId: c.programId,
+          account: c.account,
+          reason:
+            `Denied instruction setAuthority: changes ${c.authorityType} of ${c.account} ` +
+            `to ${c.newAuthority ?? 'none'}.`,
+        });
+      }
+    }
+
+    if (!allowedInstructions.includes('closeAccount')) {
+      for (const c of inspection.closedAccounts.filter((close) => close.toForeign)) {
+        violations.push({
+          instruction: 'closeAccount',
+          programId: c.programId,
+          account: c.account,
+          reason: `Denied instruction closeAccount: sends the balance of ${c.account} to ${c.destination}.`,
+        });
+      }
+    }
+
+    if (!allowedInstructions.includes('assign')) {
+      for (const account of inspection.assignedAccounts) {
+        violations.push({
+          instruction: 'assign',
+          programId: SYSTEM_PROGRAM_ID,
+          account,
+          reason: `Denied instruction assign: reassigns ${account} to another program.`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /** True when USD caps are configured, so check() needs a `usdValue`. */
+  requiresUsdValuation(): boolean {
+    return this.limits.maxPerTxUsd !== undefined || this.limits.maxSessionUsd !== undefined;
+  }
+
+  /**
+   * Prices `amount` of `mint` in USD using the configured oracle.
+   * Throws WalletError('LIMIT_BREACH') if the price is missing or older than
+   * `maxPriceAgeSec` — the wallet refuses to sign rather than guess.
+   *
+   * @param mint      Base58 mint, or undefined for native SOL (priced as WSOL).
+   * @param decimals  Decimals of `mint` (9 for SOL).
+   */
+  async valueInUsd(amount: bigint, mint: string | undefined, decimals: number): Promise<number> {
+    if (!this.oracle) {
+      throw new WalletError('INVALID_CONFIG', 'USD spending caps require a price oracle.');
+    }
+    const priceMint = isSplMint(mint) ? mint : WSOL_MINT;
+
+    let price;
+    try {
+      price = await this.oracle.getPrice(priceMint);
+    } catch (err) {
+      throw new WalletError('LIMIT_BREACH', `Price lookup failed for mint ${priceMint}; refusing to sign.`, err);
+    }
+
+    if (price.priceUsd === null || !Number.isFinite(price.priceUsd)) {
+      throw new WalletError('LIMIT_BREACH', `No USD price available for mint ${priceMint}; refusing to sign.`);
+    }
+    const maxAgeSec = this.limits.maxPriceAgeSec ?? DEFAULT_MAX_PRICE_AGE_SEC;
+    const ageSec = (Date.now() - price.fetchedAt) / 1_000;
+    if (ageSec > maxAgeSec) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `USD price for mint ${priceMint} is ${Math.round(ageSec)}s old ` +
+          `(max ${maxAgeSec}s); refusing to sign.`,
+      );
+    }
+
+    return (Number(amount) / 10 ** decimals) * price.priceUsd;
   }
 
   /**
-   * Records the actual lamport spend after a transaction confirms.
+   * Records the actual spend after a transaction confirms.
    * Call this only after `status === 'confirmed'`.
+   *
+   * @param mint      Optional base58 mint. SPL amounts are tracked per mint and
+   *                  do not count toward the lamport windows.
+   * @param usdValue  USD value passed to check(), counted toward maxSessionUsd.
    */
-  record(actualLamports: bigint): void {
-    if (actualLamports < 0n) {
+  record(actualLamports: bigint, mint?: string, usdValue?: number): void {
+    this.recordIntent(toIntent(actualLamports, undefined, mint, usdValue));
+  }
+
+  /** Records a confirmed SpendIntent. Call this only after `status === 'confirmed'`. */
+  recordIntent(intent: SpendIntent): void {
+    const fees = intent.feeLamports ?? 0n;
+    const rent = intent.rentLamports ?? 0n;
+    const lamports = intent.lamports + fees + rent;
+    const amounts = [intent.lamports, fees, rent, ...Object.values(intent.tokens)];
+    if (amounts.some((a) => a < 0n)) {
       throw new WalletError('INVALID_CONFIG', 'Cannot record negative lamport spend.');
     }
-    this.sessionSpendLamports += actualLamports;
+    if (intent.usdValue !== undefined) {
+      this.sessionSpendUsd += intent.usdValue;
+    }
+    for (const [mint, amount] of Object.entries(intent.tokens)) {
+      if (isSplMint(mint)) this.sessionSpendByMint.set(mint, this.getMintSessionSpend(mint) + amount);
+    }
+    this.sessionSpendLamports += lamports;
+    this.sessionFeesLamports += fees;
+    this.sessionRentLamports += rent;
+    if (lamports > 0n) {
+      const now = Date.now();
+      this.recentRecords.push({ ts: now, lamports });
+      this.prune(now);
+    }
   }
 
   /** Returns current session spend in lamports. */
@@ -83,9 +345,19 @@ export class SpendingLimitGuard {
     return this.sessionSpendLamports;
   }
 
-  /** Returns remaining session budget in lamports. */
+  /** Returns current session spend for an SPL mint, in raw base units. */
+  getMintSessionSpend(mint: string): bigint {
+    return this.sessionSpendByMint.get(mint) ?? 0n;
+  }
+
+  /** Returns current session spend in USD. */
+  getSessionSpendUsd(): number {
+    return this.sessionSpendUsd;
+  }
+
+  /** Returns the remaining budget in lamports of the most restrictive window. */
   getRemainingBudget(): bigint {
-    return this.limits.maxSessionLamports - this.sessionSpendLamports;
+    return this.getBindingWindow().remaining;
   }
 
   /**
@@ -94,24 +366,214 @@ export class SpendingLimitGuard {
    */
   reset(): void {
     this.sessionSpendLamports = 0n;
+    this.sessionSpendByMint.clear();
+    this.sessionSpendUsd = 0;
+    this.sessionFeesLamports = 0n;
+    this.sessionRentLamports = 0n;
+  }
+
+  /** Returns spend against the session cap plus every configured durable window. */
+  getWindows(now: number = Date.now()): SpendWindowStatus[] {
+    return [
+      windowStatus('session', this.sessionSpendLamports, this.limits.maxSessionLamports),
+      ...this.durableWindows(now),
+    ];
+  }
+
+  /** Returns the window with the least remaining budget. */
+  getBindingWindow(now: number = Date.now()): SpendWindowStatus {
+    return this.getWindows(now).reduce((a, b) => (b.remaining < a.remaining ? b : a));
   }
 
   getStatus(): {
     sessionSpend: bigint;
+    sessionFees: bigint;
+    sessionRent: bigint;
+    sessionFeeCap?: bigint;
     sessionCap: bigint;
     perTxCap: bigint;
     remainingBudget: bigint;
+    bindingWindow: SpendWindow;
+    windows: SpendWindowStatus[];
   } {
+    const windows = this.getWindows();
+    const binding = windows.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    const feeCap = this.limits.maxSessionFeesLamports;
     return {
       sessionSpend: this.sessionSpendLamports,
+      sessionFees: this.sessionFeesLamports,
+      sessionRent: this.sessionRentLamports,
+      ...(feeCap !== undefined && { sessionFeeCap: feeCap }),
       sessionCap: this.limits.maxSessionLamports,
       perTxCap: this.limits.maxPerTxLamports,
-      remainingBudget: this.getRemainingBudget(),
+      remainingBudget: binding.remaining,
+      bindingWindow: binding.window,
+      windows,
     };
   }
 
   // ── Private helpers ─────────────────────────────────────────────────────────
 
+  private checkLamports(estimatedLamports: bigint): void {
+    // 1. Per-transaction limit
+    if (estimatedLamports > this.limits.maxPerTxLamports) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction of ${estimatedLamports} lamports exceeds per-tx limit of ` +
+          `${this.limits.maxPerTxLamports} lamports ` +
+          `(${lamportsToSol(this.limits.maxPerTxLamports)} SOL).`,
+      );
+    }
+
+    this.checkCumulativeLamports(estimatedLamports);
+  }
+
+  private checkCumulativeLamports(estimatedLamports: bigint): void {
+    // 2. Session cumulative limit
+    const projectedSessionSpend = this.sessionSpendLamports + estimatedLamports;
+    if (projectedSessionSpend > this.limits.maxSessionLamports) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction would bring session spend to ${projectedSessionSpend} lamports, ` +
+          `exceeding session cap of ${this.limits.maxSessionLamports} lamports ` +
+          `(${lamportsToSol(this.limits.maxSessionLamports)} SOL). ` +
+          `Current session spend: ${lamportsToSol(this.sessionSpendLamports)} SOL.`,
+      );
+    }
+
+    // 3. Durable windows (rolling 24h, calendar day, lifetime)
+    for (const w of this.durableWindows(Date.now())) {
+      const projected = w.spent + estimatedLamports;
+      if (projected > w.cap) {
+        throw new WalletError(
+          'LIMIT_BREACH',
+          `Transaction would bring ${WINDOW_LABELS[w.window]} spend to ${projected} lamports, ` +
+            `exceeding cap of ${w.cap} lamports (${lamportsToSol(w.cap)} SOL).`,
+        );
+      }
+    }
+  }
+
+  private checkUsd(usdValue?: number): void {
+    if (!this.requiresUsdValuation()) return;
+    if (usdValue === undefined) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        'USD spending caps are configured but the transaction was not priced.',
+      );
+    }
+
+    const { maxPerTxUsd } = this.limits;
+    if (maxPerTxUsd !== undefined && usdValue > maxPerTxUsd) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction worth $${usdValue.toFixed(2)} exceeds per-tx limit of $${maxPerTxUsd.toFixed(2)}.`,
+      );
+    }
+    this.checkSessionUsd(usdValue);
+  }
+
+  private checkSessionUsd(usdValue: number): void {
+    const { maxSessionUsd } = this.limits;
+    if (maxSessionUsd !== undefined && this.sessionSpendUsd + usdValue > maxSessionUsd) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction would bring session spend to $${(this.sessionSpendUsd + usdValue).toFixed(2)}, ` +
+          `exceeding session cap of $${maxSessionUsd.toFixed(2)}.`,
+      );
+    }
+  }
+
+  private checkFees(feeLamports: bigint): void {
+    const cap = this.limits.maxSessionFeesLamports;
+    if (cap === undefined) return;
+    const projected = this.sessionFeesLamports + feeLamports;
+    if (projected > cap) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction fee of ${feeLamports} lamports would bring session fees to ${projected}, ` +
+          `exceeding the session fee cap of ${cap} lamports (${lamportsToSol(cap)} SOL).`,
+      );
+    }
+  }
+
+  private checkMint(mint: string, amount: bigint): void {
+    const perTxCap = this.limits.maxPerTxByMint?.[mint];
+    if (perTxCap !== undefined && amount > perTxCap) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Transaction of ${amount} units of mint ${mint} exceeds per-tx limit of ${perTxCap} units.`,
+      );
+    }
+    this.checkSessionMint(mint, amount);
+  }
+
+  private checkSessionMint(mint: string, amount: bigint): void {
+    const sessionCap = this.limits.maxSessionByMint?.[mint];
+    if (sessionCap !== undefined) {
+      const projected = this.getMintSessionSpend(mint) + amount;
+      if (projected > sessionCap) {
+        throw new WalletError(
+          'LIMIT_BREACH',
+          `Transaction would bring session spend of mint ${mint} to ${projected} units, ` +
+            `exceeding session cap of ${sessionCap} units.`,
+        );
+      }
+    }
+  }
+
+  private checkDestination(destination?: string): void {
+    if (this.limits.allowedDestinations === undefined) return;
+    if (!destination) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        'Destination allowlist is configured but no destination address was provided.',
+      );
+    }
+    if (!this.limits.allowedDestinations.includes(destination)) {
+      throw new WalletError(
+        'LIMIT_BREACH',
+        `Destination ${destination} is not in the allowed destinations list.`,
+      );
+    }
+  }
+
+  private durableWindows(now: number): SpendWindowStatus[] {
+    const windows: SpendWindowStatus[] = [];
+
+    if (this.limits.maxRolling24hLamports !== undefined) {
+      windows.push(windowStatus('rolling24h', this.sumSince(now - DAY_MS), this.limits.maxRolling24hLamports));
+    }
+    if (this.limits.maxDailyLamports !== undefined) {
+      const midnightUtc = new Date(now).setUTCHours(0, 0, 0, 0);
+      windows.push(windowStatus('calendarDay', this.sumSince(midnightUtc), this.limits.maxDailyLamports));
+    }
+    if (this.limits.maxLifetimeLamports !== undefined) {
+      windows.push(windowStatus('lifetime', this.archivedSpendLamports + this.sumSince(0), this.limits.maxLifetimeLamports));
+    }
+
+    return windows;
+  }
+
+  private sumSince(fromMs: number): bigint {
+    let total = 0n;
+    for (const r of this.recentRecords) {
+      if (r.ts >= fromMs) total += r.lamports;
+    }
+    return total;
+  }
+
+  /** Folds records older than 24h into the lifetime total so the list stays small. */
+  private prune(now: number): void {
+    const cutoff = now - DAY_MS;
+    const kept: SpendRecord[] = [];
+    for (const r of this.recentRecords) {
+      if (r.ts < cutoff) this.archivedSpendLamports += r.lamports;
+      else kept.push(r);
+    }
+    this.recentRecords = kept;
+  }
+
   private validateConfig(): void {
     if (this.limits.maxPerTxLamports <= 0n) {
       throw new WalletError('INVALID_CONFIG', 'maxPerTxLamports must be greater than 0.');
@@ -125,6 +587,55 @@ export class SpendingLimitGuard {
         'maxPerTxLamports cannot exceed maxSessionLamports.',
       );
     }
+    const durableCaps: Array<[string, bigint | undefined]> = [
+      ['maxRolling24hLamports', this.limits.maxRolling24hLamports],
+      ['maxDailyLamports', this.limits.maxDailyLamports],
+      ['maxLifetimeLamports', this.limits.maxLifetimeLamports],
+    ];
+    for (const [name, cap] of durableCaps) {
+      if (cap === undefined) continue;
+      if (cap <= 0n) {
+        throw new WalletError('INVALID_CONFIG', `${name} must be greater than 0.`);
+      }
+      if (this.limits.maxPerTxLamports > cap) {
+        throw new WalletError('INVALID_CONFIG', `maxPerTxLamports cannot exceed ${name}.`);
+      }
+    }
+    if (this.limits.maxSessionFeesLamports !== undefined && this.limits.maxSessionFeesLamports <= 0n) {
+      throw new WalletError('INVALID_CONFIG', 'maxSessionFeesLamports must be greater than 0.');
+    }
+    for (const [mint, cap] of Object.entries(this.limits.maxPerTxByMint ?? {})) {
+      if (cap <= 0n) {
+        throw new WalletError('INVALID_CONFIG', `maxPerTxByMint[${mint}] must be greater than 0.`);
+      }
+      const sessionCap = this.limits.maxSessionByMint?.[mint];
+      if (sessionCap !== undefined && cap > sessionCap) {
+        throw new WalletError(
+          'INVALID_CONFIG',
+          `maxPerTxByMint[${mint}] cannot exceed maxSessionByMint[${mint}].`,
+        );
+      }
+    }
+    for (const [mint, cap] of Object.entries(this.limits.maxSessionByMint ?? {})) {
+      if (cap <= 0n) {
+        throw new WalletError('INVALID_CONFIG', `maxSessionByMint[${mint}] must be greater than 0.`);
+      }
+    }
+    const { maxPerTxUsd, maxSessionUsd, maxPriceAgeSec } = this.limits;
+    for (const [name, cap] of [['maxPerTxUsd', maxPerTxUsd], ['maxSessionUsd', maxSessionUsd]] as const) {
+      if (cap !== undefined && !(cap > 0)) {
+        throw new WalletError('INVALID_CONFIG', `${name} must be greater than 0.`);
+      }
+    }
+    if (maxPerTxUsd !== undefined && maxSessionUsd !== undefined && maxPerTxUsd > maxSessionUsd) {
+      throw new WalletError('INVALID_CONFIG', 'maxPerTxUsd cannot exceed maxSessionUsd.');
+    }
+    if (maxPriceAgeSec !== undefined && !(maxPriceAgeSec > 0)) {
+      throw new WalletError('INVALID_CONFIG', 'maxPriceAgeSec must be greater than 0.');
+    }
+    if (this.requiresUsdValuation() && !this.oracle) {
+      throw new WalletError('INVALID_CONFIG', 'USD spending caps require a price oracle.');
+    }
     if (this.limits.allowedDestinations?.length === 0) {
       throw new WalletError(
         'INVALID_CONFIG',
@@ -137,6 +648,28 @@ export class SpendingLimitGuard {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
+/** Builds the single-asset SpendIntent behind check() and record(). */
+function toIntent(amount: bigint, destination?: string, mint?: string, usdValue?: number): SpendIntent {
+  return {
+    lamports: isSplMint(mint) ? 0n : amount,
+    tokens: isSplMint(mint) ? { [mint]: amount } : {},
+    destinations: destination ? [destination] : [],
+    ...(usdValue !== undefined && { usdValue }),
+  };
+}
+
+const WINDOW_LABELS: Record<SpendWindow, string> = {
+  session: 'session',
+  rolling24h: 'rolling 24h',
+  calendarDay: 'calendar-day (UTC)',
+  lifetime: 'lifetime',
+};
+
+function windowStatus(window: SpendWindow, spent: bigint, cap: bigint): SpendWindowStatus {
+  const remaining = cap - spent;
+  return { window, spent, cap, remaining: remaining > 0n ? remaining : 0n };
+}
+
 function lamportsToSol(lamports: bigint): string {
   const sol = Number(lamports) / 1_000_000_000;
   return sol.toFixed(6);
@@ -0,0 +1,178 @@
+/**
+ * @file src/wallet/nonce.ts
+ * Durable nonce accounts.
+ *
+ * A transaction that names a durable nonce instead of a recent blockhash
+ * never expires: it stays valid until the nonce is advanced, and landing it
+ * advances the nonce. So one signed transaction can be resent for as long as
+ * it takes, and no two transactions built on the same nonce can both land.
+ *
+ * Each wallet has one nonce account at an address derived from its public
+ * key (`createWithSeed(wallet, NONCE_SEED, SystemProgram)`), so no extra
+ * keypair has to be stored. The wallet is also the nonce authority.
+ */
+
+import {
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { fetchLookupTables } from './inspector.js';
+import { WalletError } from './types.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Seed of every wallet's nonce account address. */
+export const NONCE_SEED = 'molthold-nonce';
+
+/** SystemInstruction index of AdvanceNonceAccount. */
+const ADVANCE_NONCE_INDEX = 4;
+
+// ── Accounts ──────────────────────────────────────────────────────────────────
+
+/** The nonce account address derived for `wallet`. */
+export async function getNonceAddress(wallet: PublicKey): Promise<PublicKey> {
+  return PublicKey.createWithSeed(wallet, NONCE_SEED, SystemProgram.programId);
+}
+
+/**
+ * Reads the nonce account at `address`. Returns null if it does not exist;
+ * throws INVALID_CONFIG if the account is not a nonce account.
+ */
+export async function getNonceAccount(connection: Connection, address: PublicKey): Promise<NonceAccount | null> {
+  let account: Awaited<ReturnType<Connection['getAccountInfo']>>;
+  try {
+    account = await connection.getAccountInfo(address, 'confirmed');
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch nonce account.', err);
+  }
+  if (!account) return null;
+  if (!account.owner.equals(SystemProgram.programId) || account.data.length !== NONCE_ACCOUNT_LENGTH) {
+    throw new WalletError('INVALID_CONFIG', `${address.toBase58()} is not a nonce account.`);
+  }
+  try {
+    return NonceAccount.fromAccountData(account.data);
+  } catch (err) {
+    throw new WalletError('INVALID_CONFIG', `${address.toBase58()} is not an initialised nonce account.`, err);
+  }
+}
+
+/**
+ * The current nonce value at `address`, checked to be advanceable by
+ * `authority`. Throws INVALID_CONFIG if the account is missing or owned by
+ * someone else.
+ */
+export async function getNonceValue(connection: Connection, address: PublicKey, authority: PublicKey): Promise<string> {
+  const account = await getNonceAccount(connection, address);
+  if (!account) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Nonce account ${address.toBase58()} does not exist. Create it with \`agentw wallet nonce create\`.`,
+    );
+  }
+  if (!account.authorizedPubkey.equals(authority)) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Nonce account ${address.toBase58()} is controlled by ${account.authorizedPubkey.toBase58()}, not this wallet.`,
+    );
+  }
+  return account.nonce;
+}
+
+/**
+ * Builds the transaction creating `wallet`'s nonce account, funded with its
+ * rent-exempt minimum and with the wallet as authority.
+ */
+export async function createNonceAccountTransaction(
+  connection: Connection,
+  wallet: PublicKey,
+): Promise<{ transaction: Transaction; address: PublicKey; lamports: number }> {
+  const address = await getNonceAddress(wallet);
+  let lamports: number;
+  let blockhash: string;
+  try {
+    lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+    blockhash = (await connection.getLatestBlockhash('confirmed')).blockhash;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to prepare the nonce account.', err);
+  }
+
+  const transaction = new Transaction({ feePayer: wallet, recentBlockhash: blockhash }).add(
+    SystemProgram.createNonceAccount({
+      fromPubkey: wallet,
+      noncePubkey: address,
+      basePubkey: wallet,
+      seed: NONCE_SEED,
+      authorizedPubkey: wallet,
+      lamports,
+    }),
+  );
+  return { transaction, address, lamports };
+}
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+
+/**
+ * Makes `tx` a durable-nonce transaction on `nonce`: AdvanceNonceAccount
+ * first, the nonce value as its blockhash. Transactions already built on
+ * `address` just take the new value. Signatures are invalidated, so call
+ * this before signing.
+ */
+export async function withDurableNonce<T extends Transaction | VersionedTransaction>(
+  connection: Connection,
+  tx: T,
+  address: PublicKey,
+  authority: PublicKey,
+  nonce: string,
+): Promise<T> {
+  const nonceInstruction = SystemProgram.nonceAdvance({ noncePubkey: address, authorizedPubkey: authority });
+
+  if (tx instanceof Transaction) {
+    // compileMessage() puts nonceInstruction first and uses the nonce as blockhash
+    tx.nonceInfo = { nonce, nonceInstruction };
+    tx.recentBlockhash = nonce;
+    return tx;
+  }
+
+  const versioned = tx as VersionedTransaction;
+  if (advancesNonce(versioned, address)) {
+    versioned.message.recentBlockhash = nonce;
+    return tx;
+  }
+
+  const lookupTables = await fetchLookupTables(versioned, connection);
+  let decompiled: TransactionMessage;
+  try {
+    decompiled = TransactionMessage.decompile(versioned.message, { addressLookupTableAccounts: lookupTables });
+  } catch (err) {
+    throw new WalletError('INVALID_CONFIG', 'Could not decompile the transaction to add a durable nonce.', err);
+  }
+  const message = new TransactionMessage({
+    payerKey: decompiled.payerKey,
+    recentBlockhash: nonce,
+    instructions: [nonceInstruction, ...decompiled.instructions],
+  });
+  return new VersionedTransaction(
+    versioned.version === 'legacy' ? message.compileToLegacyMessage() : message.compileToV0Message(lookupTables),
+  ) as T;
+}
+
+/** Whether the first instruction of `tx` advances the nonce at `address`. */
+function advancesNonce(tx: VersionedTransaction, address: PublicKey): boolean {
+  const keys = tx.message.staticAccountKeys;
+  const first = tx.message.compiledInstructions[0];
+  if (!first) return false;
+  const nonceIndex = first.accountKeyIndexes[0];
+  return (
+    keys[first.programIdIndex]?.equals(SystemProgram.programId) === true &&
+    first.data.length >= 4 &&
+    Buffer.from(first.data).readUInt32LE(0) === ADVANCE_NONCE_INDEX &&
+    nonceIndex !== undefined &&
+    keys[nonceIndex]?.equals(address) === true
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * @file src/wallet/session.ts
+ *
+ * Unlock session — an ssh-agent style daemon that holds decrypted signers in
+ * memory so the CLI and agents need neither a password prompt nor a KDF run
+ * per command.
+ *
+ * `agentw unlock` decrypts the chosen keystores once and serves them on a
+ * Unix socket (mode 0600) with the remote signer protocol from signers.ts;
+ * each request names the wallet by public key. Clients receive signatures
+ * only, never key material. The session drops every key and closes the
+ * socket when its TTL runs out or `agentw lock` asks it to.
+ */
+
+import * as fs from 'node:fs';
+import type * as http from 'node:http';
+import type { PublicKey } from '@solana/web3.js';
+import { serveRpc, signerMethods, callRpc, connectRemoteSigner } from './signers.js';
+import { WalletError, type Signer } from './types.js';
+import type { Logger } from '../logger/logger.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const DEFAULT_SESSION_TTL_MS = 15 * 60_000;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SessionStatus {
+  /** Wallets the session can sign for. */
+  publicKeys: string[];
+  /** Unix ms at which the session locks itself. */
+  expiresAt: number;
+}
+
+export interface UnlockSession extends SessionStatus {
+  /** Drops every key and closes the socket. Safe to call more than once. */
+  lock(): Promise<void>;
+  /** Resolves once the session has locked, for whatever reason. */
+  readonly locked: Promise<void>;
+}
+
+// ── Daemon ────────────────────────────────────────────────────────────────────
+
+/**
+ * Serves `signers` on `socketPath` until `ttlMs` passes or a client calls
+ * `lock`. Refuses to start over a socket another live session is using.
+ */
+export async function serveSession(
+  signers: Signer[],
+  socketPath: string,
+  ttlMs: number,
+  logger: Logger,
+): Promise<UnlockSession> {
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    throw new WalletError('INVALID_CONFIG', 'Session TTL must be a positive number of milliseconds.');
+  }
+  if (await getSessionStatus(socketPath)) {
+    throw new WalletError('INVALID_CONFIG', `A session is already listening on ${socketPath}. Run \`agentw lock\` first.`);
+  }
+
+  const keys = new Map(signers.map((s) => [s.publicKey.toBase58(), s]));
+  const publicKeys = [...keys.keys()];
+  const expiresAt = Date.now() + ttlMs;
+  let server: http.Server | undefined;
+  let closing: Promise<void> | undefined;
+  let markLocked: () => void = () => undefined;
+  const locked = new Promise<void>((resolve) => {
+    markLocked = resolve;
+  });
+
+  function select(publicKey: string | undefined): Signer {
+    if (keys.size === 0) throw new WalletError('SIGNING_FAILED', 'Session is locked.');
+    const address = publicKey ?? (keys.size === 1 ? publicKeys[0] : undefined);
+    if (address === undefined) {
+      throw new WalletError('INVALID_CONFIG', 'Session holds several wallets; name one by public key.');
+    }
+    const signer = keys.get(address);
+    if (!signer) throw new WalletError('INVALID_CONFIG', `${address} is not unlocked in this session.`);
+    return signer;
+  }
+
+  function lock(reason: string): Promise<void> {
+    closing ??= new Promise<void>((resolve) => {
+      clearTimeout(timer);
+      keys.clear();
+      logger.info({ socketPath, reason }, 'Unlock session locked');
+      if (!server) {
+        resolve();
+        return;
+      }
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }).then(markLocked);
+    return closing;
+  }
+
+  const timer = setTimeout(() => void lock('expired'), ttlMs);
+
+  try {
+    server = await serveRpc(`unix:${socketPath}`, {}, {
+      ...signerMethods(select),
+      async status() {
+        return { publicKeys: [...keys.keys()], expiresAt };
+      },
+      async lock() {
+        // Answer first, then close the socket under the client
+        setImmediate(() => void lock('requested'));
+        return {};
+      },
+    }, logger);
+  } catch (err) {
+    void lock('failed to start');
+    throw err;
+  }
+
+  logger.info({ socketPath, wallets: publicKeys, expiresAt: new Date(expiresAt).toISOString() }, 'Unlock session listening');
+
+  return {
+    publicKeys,
+    expiresAt,
+    locked,
+    lock: () => lock('requested'),
+  };
+}
+
+// ── Clients ───────────────────────────────────────────────────────────────────
+
+/**
+ * Returns what the session on `socketPath` holds, or undefined if no session
+ * is running there.
+ */
+export async function getSessionStatus(socketPath: string): Promise<SessionStatus | undefined> {
+  if (!fs.existsSync(socketPath)) return undefined;
+  try {
+    const result = await callRpc(`unix:${socketPath}`, 'status');
+    return { publicKeys: result.publicKeys ?? [], expiresAt: result.expiresAt ?? 0 };
+  } catch (err) {
+    if (err instanceof WalletError && err.code === 'RPC_ERROR') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Returns a Signer for `publicKey` backed by the session, or undefined if no
+ * session is running or it does not hold that wallet.
+ */
+export async function connectSession(socketPath: string, publicKey: PublicKey): Promise<Signer | undefined> {
+  const status = await getSessionStatus(socketPath);
+  if (!status?.publicKeys.includes(publicKey.toBase58())) return undefined;
+  return connectRemoteSigner(`unix:${socketPath}`, { publicKey });
+}
+
+/** Asks the session on `socketPath` to lock. Returns false if none was running. */
+export async function lockSession(socketPath: string): Promise<boolean> {
+  if (!(await getSessionStatus(socketPath))) return false;
+  await callRpc(`unix:${socketPath}`, 'lock');
+  return true;
+}
@@ -0,0 +1,286 @@
+/**
+ * @file src/wallet/shamir.ts
+ *
+ * Shamir secret sharing of a wallet's secret key, for wallets no single
+ * operator should be able to unlock.
+ *
+ * The 32-byte Ed25519 seed is split byte-wise over GF(2^8) (AES polynomial
+ * 0x11b): any `threshold` shares rebuild it, fewer reveal nothing. Each share
+ * is written as its own small file, encrypted under its holder's password
+ * with the keystore scheme. Share headers carry the wallet public key, a
+ * split ID and a checksum; GCM authenticates the header, so a share cannot
+ * be relabelled, and the rebuilt key must match the public key.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import { Keypair } from '@solana/web3.js';
+import {
+  createKeystore,
+  loadKeystore,
+  writeKeystoreFile,
+  encryptSecret,
+  decryptSecret,
+  type KeystoreOptions,
+} from './keystore.js';
+import { WalletError, type KeyShareFile, type KeystoreFile } from './types.js';
+
+// ── GF(2^8) arithmetic ────────────────────────────────────────────────────────
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Powers of the generator 3 modulo x^8 + x^4 + x^3 + x + 1
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255]!;
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a]! + LOG[b]!]!;
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a]! + 255 - LOG[b]!]!;
+}
+
+// ── Secret sharing ────────────────────────────────────────────────────────────
+
+export interface Share {
+  /** x-coordinate, 1..255. */
+  x: number;
+  /** The polynomials' values at x, one byte per secret byte. */
+  y: Buffer;
+}
+
+/**
+ * Splits `secret` into `shares` shares, any `threshold` of which rebuild it.
+ * Throws WalletError('INVALID_CONFIG') unless 2 ≤ threshold ≤ shares ≤ 255.
+ */
+export function splitSecret(secret: Uint8Array, shares: number, threshold: number): Share[] {
+  if (!Number.isInteger(shares) || !Number.isInteger(threshold) || threshold < 2 || shares < threshold || shares > 255) {
+    throw new WalletError('INVALID_CONFIG', 'Shamir split needs 2 ≤ threshold ≤ shares ≤ 255.');
+  }
+
+  const out: Share[] = Array.from({ length: shares }, (_, i) => ({ x: i + 1, y: Buffer.alloc(secret.length) }));
+  const coefficients = Buffer.alloc(threshold);
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte]!;
+    crypto.randomFillSync(coefficients, 1);
+    for (const share of out) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) y = mul(y, share.x) ^ coefficients[c]!;
+      share.y[byte] = y;
+    }
+  }
+
+  coefficients.fill(0);
+  return out;
+}
+
+/**
+ * Rebuilds a secret from shares by Lagrange interpolation at x = 0.
+ * Too few shares yield a wrong secret rather than an error — callers must
+ * check the result (recoverKeystore() compares public keys).
+ */
+export function combineShares(shares: Share[]): Buffer {
+  const xs = new Set(shares.map((s) => s.x));
+  if (shares.length === 0 || xs.size !== shares.length || xs.has(0)) {
+    throw new WalletError('INVALID_KEYSTORE', 'Shares must have distinct, non-zero indexes.');
+  }
+  const length = shares[0]!.y.length;
+  if (shares.some((s) => s.y.length !== length)) {
+    throw new WalletError('INVALID_KEYSTORE', 'Shares have different lengths.');
+  }
+
+  const secret = Buffer.alloc(length);
+  for (const share of shares) {
+    let basis = 1;
+    for (const other of shares) {
+      if (other.x !== share.x) basis = mul(basis, div(other.x, other.x ^ share.x));
+    }
+    for (let byte = 0; byte < length; byte++) {
+      secret[byte]! ^= mul(share.y[byte]!, basis);
+    }
+  }
+  return secret;
+}
+
+// ── Share files ───────────────────────────────────────────────────────────────
+
+/** Where one share goes and the password its holder chose. */
+export interface ShareTarget {
+  path: string;
+  password: string;
+}
+
+type ShareHeader = Omit<KeyShareFile, 'checksum' | 'encrypted'>;
+
+function shareChecksum(header: ShareHeader, y: Buffer): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([header.publicKey, header.splitId, header.threshold, header.shares, header.index]))
+    .update(y)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** The header fields GCM authenticates alongside the share bytes. */
+function associatedData(share: Omit<KeyShareFile, 'encrypted'>): Buffer {
+  return Buffer.from(
+    JSON.stringify([
+      share.version, share.kind, share.publicKey, share.splitId,
+      share.threshold, share.shares, share.index, share.checksum,
+    ]),
+    'utf8',
+  );
+}
+
+/**
+ * Reads a share file's header without decrypting it.
+ * Throws WalletError('INVALID_KEYSTORE') for anything that is not a v1 share.
+ */
+export function readShare(sharePath: string): KeyShareFile {
+  let share: KeyShareFile;
+  try {
+    share = JSON.parse(fs.readFileSync(sharePath, 'utf8')) as KeyShareFile;
+  } catch (err) {
+    throw new WalletError('INVALID_KEYSTORE', `Cannot read key share: ${sharePath}`, err);
+  }
+  if (share.kind !== 'shamir-share' || share.version !== 1) {
+    throw new WalletError('INVALID_KEYSTORE', `${sharePath} is not a v1 key share.`);
+  }
+  return share;
+}
+
+/**
+ * Unlocks a keystore and writes its secret key as `targets.length` encrypted
+ * shares, any `threshold` of which rebuild it. The split is checked by
+ * rebuilding from the first `threshold` shares before anything is written.
+ * The original keystore is left in place.
+ *
+ * @param keystorePath Keystore to split.
+ * @param password     Its password.
+ * @param threshold    Shares needed to recover.
+ * @param targets      One path and holder password per share.
+ * @param options      KDF for the share files. Defaults to Argon2id.
+ */
+export function splitKeystore(
+  keystorePath: string,
+  password: string,
+  threshold: number,
+  targets: ShareTarget[],
+  options: KeystoreOptions = {},
+): KeyShareFile[] {
+  const keypair = loadKeystore(keystorePath, password);
+  const seed = Buffer.from(keypair.secretKey.subarray(0, 32));
+  const splitId = crypto.randomBytes(8).toString('hex');
+
+  try {
+    const shares = splitSecret(seed, targets.length, threshold);
+
+    const check = combineShares(shares.slice(0, threshold));
+    const intact = check.equals(seed);
+    check.fill(0);
+    if (!intact) {
+      throw new WalletError('INVALID_KEYSTORE', 'Shamir split failed its self-check.');
+    }
+
+    const files = shares.map((share, i): KeyShareFile => {
+      const header: ShareHeader = {
+        version: 1,
+        kind: 'shamir-share',
+        publicKey: keypair.publicKey.toBase58(),
+        splitId,
+        threshold,
+        shares: shares.length,
+        index: share.x,
+      };
+      const described = { ...header, checksum: shareChecksum(header, share.y) };
+      const encrypted = encryptSecret(share.y, targets[i]!.password, options, associatedData(described));
+      share.y.fill(0);
+      return { ...described, encrypted };
+    });
+
+    files.forEach((file, i) => writeKeystoreFile(file, targets[i]!.path));
+    return files;
+  } finally {
+    seed.fill(0);
+  }
+}
+
+/**
+ * Rebuilds a wallet from `threshold` or more share files and writes it as a
+ * standard v2 keystore under `newPassword`.
+ * Throws WalletError('INVALID_KEYSTORE') if the shares come from different
+ * wallets or splits, fail their checksum, are too few, or rebuild a key that
+ * does not match the stored public key.
+ *
+ * @param shares      Share files and their holders' passwords.
+ * @param newPassword Password for the rebuilt keystore.
+ * @param outputPath  Path for the rebuilt keystore.
+ * @param options     KDF for the rebuilt keystore. Defaults to Argon2id.
+ */
+export function recoverKeystore(
+  shares: ShareTarget[],
+  newPassword: string,
+  outputPath: string,
+  options: KeystoreOptions = {},
+): KeystoreFile {
+  const files = shares.map((s) => readShare(s.path));
+  const first = files[0];
+  if (!first) {
+    throw new WalletError('INVALID_KEYSTORE', 'No key shares given.');
+  }
+
+  for (const file of files) {
+    if (
+      file.publicKey !== first.publicKey ||
+      file.splitId !== first.splitId ||
+      file.threshold !== first.threshold ||
+      file.shares !== first.shares
+    ) {
+      throw new WalletError('INVALID_KEYSTORE', 'Key shares belong to different wallets or splits.');
+    }
+  }
+  if (new Set(files.map((f) => f.index)).size !== files.length) {
+    throw new WalletError('INVALID_KEYSTORE', 'The same key share was given twice.');
+  }
+  if (files.length < first.threshold) {
+    throw new WalletError('INVALID_KEYSTORE', `Need ${first.threshold} key shares, got ${files.length}.`);
+  }
+
+  const decoded: Share[] = [];
+  try {
+    files.forEach((file, i) => {
+      let y: Buffer;
+      try {
+        y = decryptSecret(2, file.encrypted, shares[i]!.password, associatedData(file));
+      } catch (err) {
+        if (err instanceof WalletError && err.message.startsWith('Keystore decryption failed')) {
+          throw new WalletError('INVALID_KEYSTORE', `Key share ${file.index}: wrong password or share has been tampered with.`);
+        }
+        throw err;
+      }
+      decoded.push({ x: file.index, y });
+      if (shareChecksum(file, y) !== file.checksum) {
+        throw new WalletError('INVALID_KEYSTORE', `Key share ${file.index} fails its checksum.`);
+      }
+    });
+
+    const seed = combineShares(decoded);
+    const keypair = Keypair.fromSeed(seed);
+    seed.fill(0);
+
+    if (keypair.publicKey.toBase58() !== first.publicKey) {
+      throw new WalletError('INVALID_KEYSTORE', 'Rebuilt key does not match the shares\' public key.');
+    }
+    return createKeystore(keypair, newPassword, outputPath, options);
+  } finally {
+    for (const share of decoded) share.y.fill(0);
+  }
+}
@@ -7,6 +7,11 @@
  *  - Network errors: exponential backoff, up to maxRetries
  *  - Confirmation timeout: return 'timeout' cleanly, do not throw
  *  - Transaction failures (program errors): return 'failed', do not retry
+ *
+ * With a durable nonce (`useDurableNonce`) the blockhash never expires, so a
+ * retry resends the transaction already signed instead of signing a new one.
+ * Only when the nonce has advanced is a fresh transaction built, and only
+ * after checking that the earlier one did not land.
  */
 
 import {
@@ -15,8 +20,10 @@ import {
   VersionedTransaction,
   SendTransactionError,
   type Commitment,
-  type BlockhashWithExpiryBlockHeight,
+  type PublicKey,
 } from '@solana/web3.js';
+import { default as bs58 } from 'bs58';
+import { getNonceValue, withDurableNonce } from './nonce.js';
 import { WalletError, type TxResult, type WalletConfig } from './types.js';
 import type { Logger } from '../logger/logger.js';
 
@@ -30,6 +37,20 @@ interface SendAndConfirmOptions {
   signerFn: (tx: AnyTransaction) => Promise<AnyTransaction>;
   config: WalletConfig;
   logger: Logger;
+  /** Durable nonce account to send through, advanced by `authority`. */
+  nonce?: { address: PublicKey; authority: PublicKey };
+  /** Called with each signed transaction just before it is broadcast. */
+  onBroadcast?: (sent: BroadcastInfo) => void;
+}
+
+/** How long a broadcast transaction stays able to land. */
+export interface BroadcastInfo {
+  signature: string;
+  /** Blockhash transactions: the last block height it can land at. */
+  lastValidBlockHeight?: number;
+  /** Durable-nonce transactions: the nonce account and the value used. */
+  nonceAccount?: PublicKey;
+  nonce?: string;
 }
 
 // ── Public API ────────────────────────────────────────────────────────────────
@@ -40,9 +61,12 @@ interface SendAndConfirmOptions {
  * wallet module closure — this function never sees the Keypair.
  */
 export async function sendAndConfirm(opts: SendAndConfirmOptions): Promise<TxResult> {
-  const { connection, config, logger } = opts;
+  const { connection, config, logger, nonce } = opts;
   let transaction = opts.transaction;
   let lastError: unknown;
+  /** Durable-nonce mode: the last transaction signed and the nonce it was built on. */
+  let pending: { signed: AnyTransaction; signature: string; nonce: string } | undefined;
+  let lastValidBlockHeight: number | undefined;
 
   for (let attempt = 0; attempt < config.maxRetries; attempt++) {
     if (attempt > 0) {
@@ -52,37 +76,69 @@ export async function sendAndConfirm(opts: SendAndConfirmOptions): Promise<TxRes
     }
 
     try {
-      // Fetch fresh blockhash on each attempt (handles BlockhashNotFound)
-      let blockhashInfo: BlockhashWithExpiryBlockHeight;
-      try {
-        blockhashInfo = await connection.getLatestBlockhash(
-          config.confirmationStrategy as Commitment,
-        );
-      } catch (err) {
-        lastError = err;
-        logger.warn({ err, attempt }, 'Failed to fetch blockhash');
-        continue; // retry
-      }
+      let signed: AnyTransaction | undefined;
+
+      if (nonce) {
+        let value: string;
+        try {
+          value = await getNonceValue(connection, nonce.address, nonce.authority);
+        } catch (err) {
+          if (err instanceof WalletError && err.code === 'INVALID_CONFIG') throw err;
+          lastError = err;
+          logger.warn({ err, attempt }, 'Failed to fetch nonce');
+          continue; // retry
+        }
 
-      // Set blockhash on transaction
-      transaction = setBlockhash(transaction, blockhashInfo.blockhash);
+        if (pending?.nonce === value) {
+          // The nonce has not advanced, so the earlier transaction has not landed:
+          // resend it unchanged rather than signing a second one
+          signed = pending.signed;
+          logger.debug({ signature: pending.signature, attempt }, 'Resending durable-nonce transaction');
+        } else {
+          if (pending) {
+            // The nonce advanced — most likely because the earlier attempt landed
+            const landed = await findLanded(connection, pending.signature, config, logger);
+            if (landed) return landed;
+          }
+          transaction = await withDurableNonce(connection, transaction, nonce.address, nonce.authority, value);
+        }
+      } else {
+        // Fetch fresh blockhash on each attempt (handles BlockhashNotFound)
+        let blockhash: string;
+        try {
+          ({ blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(
+            config.confirmationStrategy as Commitment,
+          ));
+        } catch (err) {
+          lastError = err;
+          logger.warn({ err, attempt }, 'Failed to fetch blockhash');
+          continue; // retry
+        }
 
-      // Sign
-      let signed: AnyTransaction;
-      try {
-        signed = await opts.signerFn(transaction);
-      } catch (err) {
-        throw new WalletError('SIGNING_FAILED', 'Transaction signing failed.', err);
+        // Set blockhash on transaction
+        transaction = setBlockhash(transaction, blockhash);
       }
 
-      // Simulate if configured
-      if (config.simulateBeforeSend) {
-        const simResult = await simulate(connection, signed, logger);
-        if (simResult !== null) {
-          return simResult;
+      if (!signed) {
+        const outcome = await signAndSimulate(opts, transaction);
+        if ('status' in outcome) return outcome; // simulation failed
+        signed = outcome;
+        if (nonce) {
+          // Recorded before sending: a send that errors may still have landed
+          pending = {
+            signed,
+            signature: signatureOf(signed),
+            nonce: signed instanceof VersionedTransaction ? signed.message.recentBlockhash : signed.recentBlockhash!,
+          };
         }
       }
 
+      // Journal before broadcast: a send that errors or times out may still land
+      const sent: BroadcastInfo = nonce && pending
+        ? { signature: pending.signature, nonceAccount: nonce.address, nonce: pending.nonce }
+        : { signature: signatureOf(signed), ...(lastValidBlockHeight !== undefined && { lastValidBlockHeight }) };
+      opts.onBroadcast?.(sent);
+
       // Send
       const rawTx = serialise(signed);
       let signature: string;
@@ -117,7 +173,6 @@ export async function sendAndConfirm(opts: SendAndConfirmOptions): Promise<TxRes
       const confirmed = await confirmWithTimeout(
         connection,
         signature,
-        blockhashInfo,
         config.confirmationStrategy as Commitment,
         60_000,
         logger,
@@ -139,6 +194,25 @@ export async function sendAndConfirm(opts: SendAndConfirmOptions): Promise<TxRes
   };
 }
 
+// ── Signing ───────────────────────────────────────────────────────────────────
+
+/** Signs `transaction`, then simulates it if configured. Returns the failed result if simulation fails. */
+async function signAndSimulate(opts: SendAndConfirmOptions, transaction: AnyTransaction): Promise<AnyTransaction | TxResult> {
+  let signed: AnyTransaction;
+  try {
+    signed = await opts.signerFn(transaction);
+  } catch (err) {
+    if (err instanceof WalletError) throw err; // e.g. a guardian refusing to co-sign
+    throw new WalletError('SIGNING_FAILED', 'Transaction signing failed.', err);
+  }
+
+  if (opts.config.simulateBeforeSend) {
+    const simResult = await simulate(opts.connection, signed, opts.logger);
+    if (simResult !== null) return simResult;
+  }
+  return signed;
+}
+
 // ── Simulation ────────────────────────────────────────────────────────────────
 
 /**
@@ -191,7 +265,6 @@ async function simulate(
 async function confirmWithTimeout(
   connection: Connection,
   signature: string,
-  blockhashInfo: BlockhashWithExpiryBlockHeight,
   commitment: Commitment,
   timeoutMs: number,
   logger: Logger,
@@ -221,16 +294,18 @@ async function confirmWithTimeout(
         confirmations === 'finalized' ||
         (commitment === 'confirmed' && ((confirmations as any) === 'confirmed' || (confirmations as any) === 'finalized'))
       ) {
-        // Fetch compute units consumed if available
+        // Fetch compute units consumed and the fee paid if available
         let cu: number | undefined;
+        let fee: number | undefined;
         try {
           const txDetail = await connection.getTransaction(signature, {
             commitment: 'confirmed',
             maxSupportedTransactionVersion: 0,
           });
           cu = txDetail?.meta?.computeUnitsConsumed ?? undefined;
+          fee = txDetail?.meta?.fee ?? undefined;
         } catch {
-          // Non-fatal — CU data is informational
+          // Non-fatal — CU and fee data are informational
         }
 
         logger.info({ signature, slot: status.slot, computeUnits: cu }, 'Transaction confirmed');
@@ -241,6 +316,7 @@ async function confirmWithTimeout(
           slot: status.slot,
         };
         if (typeof cu === 'number') result.computeUnitsConsumed = cu;
+        if (typeof fee === 'number') result.feeLamports = fee;
         return result;
       }
     } catch (err) {
@@ -255,6 +331,28 @@ async function confirmWithTimeout(
   };
 }
 
+/**
+ * The outcome of an earlier durable-nonce attempt, or null if it never
+ * landed. Once the nonce has advanced the transaction can no longer land, so
+ * a missing status is final.
+ */
+async function findLanded(
+  connection: Connection,
+  signature: string,
+  config: WalletConfig,
+  logger: Logger,
+): Promise<TxResult | null> {
+  try {
+    const status = (await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })).value[0];
+    if (!status) return null;
+  } catch (err) {
+    // Unknown: assume it may have landed and wait on it rather than risk a second send
+    logger.warn({ err, signature }, 'Could not look up earlier attempt');
+  }
+  logger.info({ signature }, 'Earlier durable-nonce attempt landed');
+  return confirmWithTimeout(connection, signature, config.confirmationStrategy as Commitment, 60_000, logger);
+}
+
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
 function setBlockhash(tx: AnyTransaction, blockhash: string): AnyTransaction {
@@ -266,6 +364,11 @@ function setBlockhash(tx: AnyTransaction, blockhash: string): AnyTransaction {
   return tx;
 }
 
+function signatureOf(tx: AnyTransaction): string {
+  const signature = tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+  return signature ? bs58.encode(signature) : '';
+}
+
 function serialise(tx: AnyTransaction): Buffer {
   if (tx instanceof VersionedTransaction) {
     return Buffer.from(tx.serialize());
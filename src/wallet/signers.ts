@@ -0,0 +1,429 @@
+/**
+ * @file src/wallet/signers.ts
+ *
+ * Signer backends for createWalletClient().
+ *
+ *  - keypairSigner()  — an in-process Keypair (tests, scripts)
+ *  - keystoreSigner() — an encrypted keystore file, unlocked once
+ *  - envSigner()      — WALLET_SECRET_KEY; development only, like loadFromEnv()
+ *  - connectRemoteSigner() — a signer in another process or machine, reached
+ *    over JSON-RPC 2.0 on HTTP(S) or a Unix socket
+ *
+ * The remote protocol has two methods: `getPublicKey` and `signMessage`,
+ * which takes the base64 serialised transaction message and returns a base64
+ * signature. No key material ever crosses it, so an agent backed by a remote
+ * signer holds no key bytes at all. serveSigner() is a reference server that
+ * exposes any local Signer over the same protocol.
+ *
+ * The remote side is not trusted either: every signature it returns is
+ * verified against the expected public key before it is attached.
+ *
+ * SECURITY INVARIANT: in-process signers keep their private key in closure.
+ * It is never assigned to a property, logged or returned.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { loadKeystore, loadFromEnv, type LoadKeystoreOptions } from './keystore.js';
+import { WalletError, type Signer, type WalletErrorCode } from './types.js';
+import type { Logger } from '../logger/logger.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** DER prefixes that wrap a raw 32-byte Ed25519 key for node:crypto. */
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const REQUEST_TIMEOUT_MS = 30_000;
+/** A transaction message is at most 1232 bytes; anything near this is not one. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface RemoteSignerOptions {
+  /** Sent as `Authorization: Bearer <token>`. */
+  authToken?: string | undefined;
+  /** Refuse a signer that reports any other public key. */
+  publicKey?: PublicKey | undefined;
+}
+
+export interface ServeSignerOptions {
+  /** Required on every request when set. Mandatory for TCP endpoints. */
+  authToken?: string | undefined;
+}
+
+export interface RpcParams {
+  /** Base64 message for `signMessage`. */
+  message?: string;
+  /** Selects the key on servers that hold several; single-key servers check it. */
+  publicKey?: string;
+}
+
+export interface RpcResult {
+  publicKey?: string;
+  signature?: string;
+  publicKeys?: string[];
+  /** Unix ms. */
+  expiresAt?: number;
+}
+
+/** JSON-RPC method implementations, keyed by method name. */
+export type RpcMethods = Record<string, (params: RpcParams) => Promise<RpcResult>>;
+
+type RpcRequest = {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: RpcParams;
+};
+
+type RpcResponse =
+  | { jsonrpc: '2.0'; id: number | string | null; result: RpcResult }
+  | { jsonrpc: '2.0'; id: number | string | null; error: { code: number; message: string; data?: { code: WalletErrorCode } } };
+
+type Endpoint =
+  | { kind: 'unix'; socketPath: string }
+  | { kind: 'tcp'; url: URL };
+
+// ── In-process signers ────────────────────────────────────────────────────────
+
+/**
+ * Wraps a Keypair as a Signer. The private key is copied into a node:crypto
+ * KeyObject held in closure; the caller may drop the Keypair afterwards.
+ */
+export function keypairSigner(keypair: Keypair): Signer {
+  const publicKey = keypair.publicKey;
+  const der = Buffer.concat([PKCS8_ED25519_PREFIX, keypair.secretKey.subarray(0, 32)]);
+  const privateKey = crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+  der.fill(0);
+
+  return {
+    publicKey,
+
+    async signMessage(message: Uint8Array): Promise<Uint8Array> {
+      try {
+        return crypto.sign(null, message, privateKey);
+      } catch (err) {
+        throw new WalletError('SIGNING_FAILED', 'Failed to sign message.', err);
+      }
+    },
+
+    // Key-safe serialisation, as for WalletClient
+    toJSON: (): string => publicKey.toBase58(),
+    toString: (): string => publicKey.toBase58(),
+  } as Signer;
+}
+
+/**
+ * Unlocks a keystore (plain or HD-derived) and returns a Signer for it.
+ * Throws as loadKeystore() does.
+ */
+export function keystoreSigner(
+  keystorePath: string,
+  password: string,
+  options: LoadKeystoreOptions = {},
+): Signer {
+  return keypairSigner(loadKeystore(keystorePath, password, options));
+}
+
+/**
+ * Returns a Signer for a base58 or JSON byte-array secret key.
+ *
+ * ⚠️  FOR DEVELOPMENT AND CI USE ONLY — disabled when NODE_ENV === 'production'.
+ */
+export function envSigner(secretKey: string): Signer {
+  return keypairSigner(loadFromEnv(secretKey));
+}
+
+/** True if `signature` is `publicKey`'s Ed25519 signature of `message`. */
+export function verifySignature(publicKey: PublicKey, message: Uint8Array, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([SPKI_ED25519_PREFIX, publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+// ── Remote signer client ──────────────────────────────────────────────────────
+
+/**
+ * Connects to a remote signer and returns a Signer that forwards every
+ * message to it. Fails fast if the signer is unreachable, refuses the token,
+ * or reports a public key other than `options.publicKey`.
+ *
+ * @param endpoint `http://host:port`, `https://host:port` or `unix:/path/to.sock`.
+ */
+export async function connectRemoteSigner(endpoint: string, options: RemoteSignerOptions = {}): Promise<Signer> {
+  const selector: RpcParams = options.publicKey ? { publicKey: options.publicKey.toBase58() } : {};
+  const rpc = (method: string, params: RpcParams): Promise<RpcResult> =>
+    callRpc(endpoint, method, { ...selector, ...params }, options.authToken);
+
+  const hello = await rpc('getPublicKey', {});
+  let publicKey: PublicKey;
+  try {
+    publicKey = new PublicKey(hello.publicKey ?? '');
+  } catch (err) {
+    throw new WalletError('INVALID_CONFIG', `Remote signer at ${endpoint} did not report a valid public key.`, err);
+  }
+  if (options.publicKey && !options.publicKey.equals(publicKey)) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `Remote signer at ${endpoint} signs for ${publicKey.toBase58()}, expected ${options.publicKey.toBase58()}.`,
+    );
+  }
+
+  return {
+    publicKey,
+
+    async signMessage(message: Uint8Array): Promise<Uint8Array> {
+      const result = await rpc('signMessage', { message: Buffer.from(message).toString('base64') });
+      const signature = Buffer.from(result.signature ?? '', 'base64');
+      if (!verifySignature(publicKey, message, signature)) {
+        throw new WalletError('SIGNING_FAILED', `Remote signer at ${endpoint} returned an invalid signature.`);
+      }
+      return signature;
+    },
+
+    toJSON: (): string => publicKey.toBase58(),
+    toString: (): string => publicKey.toBase58(),
+  } as Signer;
+}
+
+function parseEndpoint(endpoint: string): Endpoint {
+  if (endpoint.startsWith('unix:')) {
+    const socketPath = endpoint.slice('unix:'.length);
+    if (socketPath.length > 0) return { kind: 'unix', socketPath };
+  } else {
+    try {
+      const url = new URL(endpoint);
+      if (url.protocol === 'http:' || url.protocol === 'https:') return { kind: 'tcp', url };
+    } catch {
+      // Fall through to the error below
+    }
+  }
+  throw new WalletError('INVALID_CONFIG', `Signer endpoint must be http://, https:// or unix:/path, got "${endpoint}".`);
+}
+
+let nextRequestId = 1;
+
+/**
+ * Makes one JSON-RPC call to a signer endpoint.
+ * Throws WalletError('RPC_ERROR') if it is unreachable, or the error it reports.
+ */
+export async function callRpc(
+  endpoint: string,
+  method: string,
+  params: RpcParams = {},
+  authToken?: string,
+): Promise<RpcResult> {
+  const target = parseEndpoint(endpoint);
+  const request: RpcRequest = { jsonrpc: '2.0', id: nextRequestId++, method, params };
+  const body = JSON.stringify(request);
+  const headers: http.OutgoingHttpHeaders = {
+    'content-type': 'application/json',
+    'content-length': Buffer.byteLength(body),
+  };
+  if (authToken) headers['authorization'] = `Bearer ${authToken}`;
+
+  let text: string;
+  try {
+    text = await new Promise<string>((resolve, reject) => {
+      const onResponse = (res: http.IncomingMessage): void => {
+        readBody(res).then(resolve, reject);
+      };
+      const req = target.kind === 'unix'
+        ? http.request({ socketPath: target.socketPath, path: '/', method: 'POST', headers }, onResponse)
+        : (target.url.protocol === 'https:' ? https : http).request(target.url, { method: 'POST', headers }, onResponse);
+      req.setTimeout(REQUEST_TIMEOUT_MS, () => req.destroy(new Error('Remote signer timed out.')));
+      req.once('error', reject);
+      req.end(body);
+    });
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', `Remote signer at ${endpoint} is unreachable.`, err);
+  }
+
+  let response: RpcResponse;
+  try {
+    response = JSON.parse(text) as RpcResponse;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', `Malformed response from remote signer at ${endpoint}.`, err);
+  }
+  if ('error' in response) {
+    throw new WalletError(response.error.data?.code ?? 'SIGNING_FAILED', `Remote signer: ${response.error.message}`);
+  }
+  if (typeof response.result !== 'object' || response.result === null) {
+    throw new WalletError('RPC_ERROR', `Malformed response from remote signer at ${endpoint}.`);
+  }
+  return response.result;
+}
+
+/** Reads a whole request or response body, refusing anything over MAX_BODY_BYTES. */
+function readBody(stream: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        stream.destroy(new Error('Body too large.'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.once('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.once('error', reject);
+  });
+}
+
+// ── Reference server ──────────────────────────────────────────────────────────
+
+/**
+ * Serves `signer` over the remote signer protocol. A Unix socket is created
+ * with mode 0600, replacing a stale socket file; a TCP endpoint must have an
+ * `authToken`. Pass port 0 to listen on any free port.
+ *
+ * The server signs whatever message it is sent — policy stays with the
+ * WalletClient that calls it. Put it behind a guardian for a second opinion.
+ */
+export async function serveSigner(
+  signer: Signer,
+  endpoint: string,
+  options: ServeSignerOptions,
+  logger: Logger,
+): Promise<http.Server> {
+  const address = signer.publicKey.toBase58();
+  const server = await serveRpc(endpoint, options, signerMethods((publicKey) => {
+    if (publicKey !== undefined && publicKey !== address) {
+      throw new WalletError('INVALID_CONFIG', `This signer does not hold ${publicKey}.`);
+    }
+    return signer;
+  }), logger);
+
+  logger.info({ endpoint, signer: address }, 'Remote signer listening');
+  return server;
+}
+
+/**
+ * The `getPublicKey` and `signMessage` methods over a set of signers.
+ * `select` resolves the optional `publicKey` parameter to a signer or throws.
+ */
+export function signerMethods(select: (publicKey: string | undefined) => Signer): RpcMethods {
+  return {
+    async getPublicKey(params): Promise<RpcResult> {
+      return { publicKey: select(params.publicKey).publicKey.toBase58() };
+    },
+
+    async signMessage(params): Promise<RpcResult> {
+      const signer = select(params.publicKey);
+      if (typeof params.message !== 'string') {
+        throw new WalletError('INVALID_CONFIG', 'signMessage needs a base64 message.');
+      }
+      const signature = await signer.signMessage(Buffer.from(params.message, 'base64'));
+      return { signature: Buffer.from(signature).toString('base64') };
+    },
+  };
+}
+
+/**
+ * Serves JSON-RPC `methods` on `endpoint`, with the socket permissions and
+ * token checks described at serveSigner(). Shared with the unlock session.
+ */
+export async function serveRpc(
+  endpoint: string,
+  options: ServeSignerOptions,
+  methods: RpcMethods,
+  logger: Logger,
+): Promise<http.Server> {
+  const target = parseEndpoint(endpoint);
+  if (target.kind === 'tcp') {
+    if (target.url.protocol !== 'http:') {
+      throw new WalletError('INVALID_CONFIG', 'The reference signer serves plain http only; terminate TLS in front of it.');
+    }
+    if (!options.authToken) {
+      throw new WalletError('INVALID_CONFIG', 'A TCP signer endpoint needs an auth token.');
+    }
+  } else if (fs.existsSync(target.socketPath)) {
+    if (!fs.lstatSync(target.socketPath).isSocket()) {
+      throw new WalletError('INVALID_CONFIG', `${target.socketPath} exists and is not a socket.`);
+    }
+    fs.unlinkSync(target.socketPath);
+  }
+
+  const expected = options.authToken ? Buffer.from(`Bearer ${options.authToken}`) : undefined;
+
+  const server = http.createServer((req, res) => {
+    const reply = (response: RpcResponse): void => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(response));
+    };
+
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    const given = Buffer.from(req.headers.authorization ?? '');
+    if (expected && (given.length !== expected.length || !crypto.timingSafeEqual(given, expected))) {
+      logger.warn({ endpoint }, 'Remote signer refused a request with a bad auth token');
+      reply(rpcError(null, -32001, 'Unauthorized.', 'INVALID_CONFIG'));
+      return;
+    }
+
+    readBody(req)
+      .then((body) => handle(methods, body))
+      .then(reply)
+      .catch((err: unknown) => {
+        logger.error({ err }, 'Remote signer failed to respond');
+        res.destroy();
+      });
+  });
+  server.setTimeout(REQUEST_TIMEOUT_MS);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    const done = (): void => {
+      server.off('error', reject);
+      resolve();
+    };
+    if (target.kind === 'unix') server.listen(target.socketPath, done);
+    else server.listen(Number(target.url.port || 80), target.url.hostname, done);
+  });
+  if (target.kind === 'unix') fs.chmodSync(target.socketPath, 0o600);
+
+  return server;
+}
+
+async function handle(methods: RpcMethods, body: string): Promise<RpcResponse> {
+  let request: RpcRequest;
+  try {
+    request = JSON.parse(body) as RpcRequest;
+  } catch {
+    return rpcError(null, -32700, 'Parse error.');
+  }
+  const id = request.id ?? null;
+  if (request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return rpcError(id, -32600, 'Invalid request.');
+  }
+
+  const method = Object.hasOwn(methods, request.method) ? methods[request.method] : undefined;
+  if (!method) return rpcError(id, -32601, `Unknown method ${request.method}.`);
+
+  try {
+    return { jsonrpc: '2.0', id, result: await method(request.params ?? {}) };
+  } catch (err) {
+    if (err instanceof WalletError) return rpcError(id, -32000, err.message, err.code);
+    return rpcError(id, -32000, err instanceof Error ? err.message : String(err));
+  }
+}
+
+function rpcError(id: number | string | null, code: number, message: string, walletCode?: WalletErrorCode): RpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: walletCode ? { code, message, data: { code: walletCode } } : { code, message },
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * @file src/wallet/tokens.ts
+ * SPL Token / Token-2022 helpers.
+ *
+ * A mint belongs to exactly one token program, and everything derived from
+ * it — associated token addresses, account reads, transfer instructions —
+ * must use that program's ID. Token-2022 mints may also carry extensions
+ * that change how a transfer is built:
+ *
+ *   - transfer fee:  the fee is withheld from what the recipient receives, so
+ *                    the instruction must name it (TransferCheckedWithFee).
+ *   - transfer hook: the hook program's extra accounts must be appended or
+ *                    the transfer fails on chain.
+ *
+ * The sender is always debited the full `amount`; the fee is carved out of
+ * the recipient's side.
+ *
+ * An emptied token account still holds its rent deposit until it is closed;
+ * findEmptyTokenAccounts() lists the ones that can be.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  createTransferCheckedWithFeeAndTransferHookInstruction,
+  unpackMint,
+  getTransferFeeConfig,
+  getEpochFee,
+  calculateFee,
+  getTransferHook,
+  getTransferFeeAmount,
+  unpackAccount,
+  type TransferFee,
+} from '@solana/spl-token';
+import { WalletError } from './types.js';
+
+// ── Known tokens ──────────────────────────────────────────────────────────────
+
+/** Tickers for well-known mints, so agents and the CLI can show more than an address. */
+export const KNOWN_TOKEN_SYMBOLS: Readonly<Record<string, string>> = {
+  So11111111111111111111111111111111111111112: 'WSOL',
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': 'USDC', // devnet
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 'USDT',
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: 'JUP',
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: 'BONK',
+};
+
+/** The ticker for `mint`, or undefined if it is not a known token. */
+export function getTokenSymbol(mint: string): string | undefined {
+  return KNOWN_TOKEN_SYMBOLS[mint];
+}
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** What a transfer of this mint needs to know about it. */
+export interface TokenMintInfo {
+  mint: PublicKey;
+  /** TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID. */
+  programId: PublicKey;
+  decimals: number;
+  /** The transfer fee in force this epoch, if the mint has the extension. */
+  transferFee?: TransferFee;
+  /** Program invoked on every transfer, if the mint has a transfer hook. */
+  transferHookProgramId?: PublicKey;
+}
+
+/** A token account holding nothing but its rent deposit. */
+export interface EmptyTokenAccount {
+  address: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  /** Rent returned to the owner when it is closed. */
+  lamports: bigint;
+}
+
+// ── Mint lookup ───────────────────────────────────────────────────────────────
+
+/** Returns the token program that owns `mint`. */
+export async function getTokenProgramId(connection: Connection, mint: PublicKey): Promise<PublicKey> {
+  let owner: PublicKey | undefined;
+  try {
+    owner = (await connection.getAccountInfo(mint, 'confirmed'))?.owner;
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch mint account.', err);
+  }
+  return assertTokenProgram(mint, owner);
+}
+
+/**
+ * Reads `mint` with its owning program and resolves any transfer-fee and
+ * transfer-hook extensions. Fees can be rescheduled by epoch, so call this
+ * fresh for each transfer rather than caching it.
+ */
+export async function getTokenMintInfo(connection: Connection, mint: PublicKey): Promise<TokenMintInfo> {
+  let account: Awaited<ReturnType<Connection['getAccountInfo']>>;
+  try {
+    account = await connection.getAccountInfo(mint, 'confirmed');
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch mint account.', err);
+  }
+  const programId = assertTokenProgram(mint, account?.owner);
+
+  let decoded: ReturnType<typeof unpackMint>;
+  try {
+    decoded = unpackMint(mint, account, programId);
+  } catch (err) {
+    throw new WalletError('INVALID_CONFIG', `${mint.toBase58()} is not a valid token mint.`, err);
+  }
+
+  const info: TokenMintInfo = { mint, programId, decimals: decoded.decimals };
+
+  const feeConfig = getTransferFeeConfig(decoded);
+  if (feeConfig) {
+    let epoch: number;
+    try {
+      epoch = (await connection.getEpochInfo('confirmed')).epoch;
+    } catch (err) {
+      throw new WalletError('RPC_ERROR', 'Failed to fetch the current epoch.', err);
+    }
+    const fee = getEpochFee(feeConfig, BigInt(epoch));
+    if (fee.transferFeeBasisPoints > 0) info.transferFee = fee;
+  }
+
+  const hook = getTransferHook(decoded);
+  if (hook && !hook.programId.equals(PublicKey.default)) {
+    info.transferHookProgramId = hook.programId;
+  }
+
+  return info;
+}
+
+function assertTokenProgram(mint: PublicKey, owner: PublicKey | undefined): PublicKey {
+  if (!owner) {
+    throw new WalletError('INVALID_CONFIG', `Mint ${mint.toBase58()} does not exist.`);
+  }
+  if (!owner.equals(TOKEN_PROGRAM_ID) && !owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new WalletError(
+      'INVALID_CONFIG',
+      `${mint.toBase58()} is not a token mint (owned by ${owner.toBase58()}).`,
+    );
+  }
+  return owner;
+}
+
+// ── Addresses and fees ────────────────────────────────────────────────────────
+
+/** The associated token account of `owner` for `mint` under `programId`. */
+export function getTokenAddress(mint: PublicKey, owner: PublicKey, programId: PublicKey): PublicKey {
+  // Off-curve owners (PDAs) are legitimate recipients
+  return getAssociatedTokenAddressSync(mint, owner, true, programId);
+}
+
+/** Fee withheld from a transfer of `amount`; 0n for mints without a transfer fee. */
+export function calculateTokenTransferFee(info: TokenMintInfo, amount: bigint): bigint {
+  return info.transferFee ? calculateFee(info.transferFee, amount) : 0n;
+}
+
+/**
+ * Estimates the fee that was withheld from a transfer which delivered
+ * `received`. The inverse of calculateTokenTransferFee(); rounding can make
+ * it off by one base unit.
+ */
+export function estimateTransferFeeOnReceived(info: TokenMintInfo, received: bigint): bigint {
+  const fee = info.transferFee;
+  if (!fee || received <= 0n) return 0n;
+  const bps = BigInt(fee.transferFeeBasisPoints);
+  if (bps >= 10_000n) return fee.maximumFee;
+  // received = floor(gross * (10000 - bps) / 10000) when the fee is below its cap
+  const gross = (received * 10_000n + (10_000n - bps) - 1n) / (10_000n - bps);
+  const uncapped = gross - received;
+  return uncapped < fee.maximumFee ? uncapped : fee.maximumFee;
+}
+
+// ── Instructions ──────────────────────────────────────────────────────────────
+
+/**
+ * Builds the transfer instruction `info` requires: TransferChecked, with the
+ * fee named when the mint charges one and the hook's extra accounts resolved
+ * when it has a transfer hook.
+ */
+export async function createTokenTransferInstruction(
+  connection: Connection,
+  info: TokenMintInfo,
+  source: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+): Promise<TransactionInstruction> {
+  const { mint, programId, decimals } = info;
+  const fee = calculateTokenTransferFee(info, amount);
+
+  if (!info.transferHookProgramId) {
+    return info.transferFee
+      ? createTransferCheckedWithFeeInstruction(source, mint, destination, owner, amount, decimals, fee, [], programId)
+      : createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], programId);
+  }
+
+  try {
+    return info.transferFee
+      ? await createTransferCheckedWithFeeAndTransferHookInstruction(
+        connection, source, mint, destination, owner, amount, decimals, fee, [], 'confirmed', programId,
+      )
+      : await createTransferCheckedWithTransferHookInstruction(
+        connection, source, mint, destination, owner, amount, decimals, [], 'confirmed', programId,
+      );
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to resolve transfer hook accounts.', err);
+  }
+}
+
+// ── Empty accounts ────────────────────────────────────────────────────────────
+
+/**
+ * Token accounts of `owner`, under either program, that it can close to
+ * reclaim their rent: a zero balance, not frozen, no close authority other
+ * than `owner`, and no withheld Token-2022 transfer fees. Limited to `mints`
+ * when given.
+ */
+export async function findEmptyTokenAccounts(
+  connection: Connection,
+  owner: PublicKey,
+  mints?: PublicKey[],
+): Promise<EmptyTokenAccount[]> {
+  const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+  let accountLists: Awaited<ReturnType<Connection['getTokenAccountsByOwner']>>[];
+  try {
+    accountLists = await Promise.all(
+      programIds.map((programId) => connection.getTokenAccountsByOwner(owner, { programId }, 'confirmed')),
+    );
+  } catch (err) {
+    throw new WalletError('RPC_ERROR', 'Failed to fetch token accounts.', err);
+  }
+
+  const only = mints && new Set(mints.map((m) => m.toBase58()));
+  const empty: EmptyTokenAccount[] = [];
+  accountLists.forEach(({ value }, i) => {
+    const programId = programIds[i]!;
+    for (const { pubkey, account } of value) {
+      const acct = unpackAccount(pubkey, account, programId);
+      if (acct.amount > 0n || acct.isFrozen) continue;
+      if (acct.closeAuthority && !acct.closeAuthority.equals(owner)) continue;
+      if ((getTransferFeeAmount(acct)?.withheldAmount ?? 0n) > 0n) continue;
+      if (only && !only.has(acct.mint.toBase58())) continue;
+      empty.push({ address: pubkey, mint: acct.mint, programId, lamports: BigInt(account.lamports) });
+    }
+  });
+  return empty;
+}
@@ -4,7 +4,7 @@
  * All other modules import from here — never the reverse.
  */
 
-import type { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import type { PublicKey, Transaction, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
 
 // ── Result Types ──────────────────────────────────────────────────────────────
 
@@ -22,6 +22,59 @@ export interface TxResult {
   error?: string;
   /** Compute units consumed, available after confirmation. */
   computeUnitsConsumed?: number;
+  /** Network fee paid in lamports, available after confirmation. */
+  feeLamports?: number;
+}
+
+/** One transfer in WalletClient.sendBatch(). */
+export interface BatchTransfer {
+  to: PublicKey;
+  /** Lamports for SOL; raw base units of `mint` otherwise. */
+  amount: bigint;
+  /** SPL mint. Omit for SOL. */
+  mint?: PublicKey;
+}
+
+/** The outcome of one BatchTransfer, in the order given. */
+export interface BatchTransferResult {
+  /** Base58 recipient. */
+  to: string;
+  amount: bigint;
+  /** Base58 mint, for SPL transfers. */
+  mint?: string;
+  /** The transaction that carried this transfer, or null if none was sent. */
+  signature: string | null;
+  /** 'skipped' when an earlier transaction in the batch was refused and sending stopped. */
+  status: TxResult['status'] | 'skipped';
+  error?: string;
+}
+
+/** One empty token account closeEmptyTokenAccounts() closed, or tried to. */
+export interface ClosedTokenAccount {
+  /** Base58 token account. */
+  account: string;
+  /** Base58 mint. */
+  mint: string;
+  /** Rent returned to the wallet once closed. */
+  lamports: bigint;
+  /** The transaction that closed it, or null if none was sent. */
+  signature: string | null;
+  /** 'skipped' when an earlier transaction was refused and closing stopped. */
+  status: TxResult['status'] | 'skipped';
+  error?: string;
+}
+
+/** One mint the wallet holds, summed across its token accounts. */
+export interface TokenHolding {
+  /** Base58 mint address. */
+  mint: string;
+  /** Base58 ID of the token program that owns the mint. */
+  programId: string;
+  /** Balance in raw base units. */
+  amount: bigint;
+  decimals: number;
+  /** Ticker from the known-token registry, if the mint is in it. */
+  symbol?: string;
 }
 
 // ── Configuration Types ───────────────────────────────────────────────────────
@@ -36,13 +89,258 @@ export interface SpendingLimits {
   /** Maximum cumulative lamports spent this session. Resets on process restart. */
   maxSessionLamports: bigint;
   /**
-   * If set, the wallet will only sign transactions destined for these addresses.
-   * An empty array means no destinations are allowed (effectively freezes the wallet).
+   * Maximum lamports spent in any rolling 24-hour window.
+   * Survives restarts when the guard is backed by a SpendLedger.
+   */
+  maxRolling24hLamports?: bigint;
+  /** Maximum lamports spent per UTC calendar day. Survives restarts like the rolling window. */
+  maxDailyLamports?: bigint;
+  /** Maximum lamports this wallet may ever spend. Survives restarts like the rolling window. */
+  maxLifetimeLamports?: bigint;
+  /**
+   * Maximum network fees (base plus priority) paid this session, in lamports.
+   * Fees also count toward every lamport cap above.
+   */
+  maxSessionFeesLamports?: bigint;
+  /**
+   * Per-mint single-transaction caps, keyed by base58 mint address and
+   * denominated in the mint's raw base units (not UI amounts).
+   * SOL and WSOL are governed by the lamport limits above, never by these maps.
+   * Mints without an entry are uncapped.
+   */
+  maxPerTxByMint?: Record<string, bigint>;
+  /** Per-mint cumulative session caps, in raw base units. Resets on process restart. */
+  maxSessionByMint?: Record<string, bigint>;
+  /**
+   * Maximum USD value of a single transaction, priced via the wallet's
+   * PriceOracle at signing time. Requires `WalletConfig.priceOracle`.
+   */
+  maxPerTxUsd?: number;
+  /** Maximum cumulative USD value spent this session. Resets on process restart. */
+  maxSessionUsd?: number;
+  /**
+   * Oldest acceptable price, in seconds, when evaluating USD caps. The wallet
+   * refuses to sign if the oracle's price is older than this or missing.
+   * Defaults to 60.
+   */
+  maxPriceAgeSec?: number;
+  /**
+   * Programs the wallet may invoke beyond those the transaction inspector
+   * decodes (System, SPL Token, Token-2022, ATA, ComputeBudget). Replaces
+   * DEFAULT_ALLOWED_PROGRAMS when set; an empty array allows decoded programs only.
+   */
+  allowedPrograms?: string[];
+  /**
+   * Dangerous instruction kinds this wallet may sign despite the built-in
+   * denylist. By default every kind is refused.
+   */
+  allowedInstructions?: DangerousInstruction[];
+  /**
+   * If set, the wallet will only sign transactions destined for these addresses
+   * or its own accounts (a swap pays out to the wallet itself).
+   * An empty array means no other destinations are allowed (effectively freezes the wallet).
    * Undefined means all destinations are allowed.
    */
   allowedDestinations?: string[];
 }
 
+/**
+ * Instruction kinds that hand control of the wallet's accounts to someone else.
+ *  - approve:      SPL Approve / ApproveChecked (delegate may move tokens)
+ *  - setAuthority: SPL SetAuthority (owner or close authority changes hands)
+ *  - closeAccount: SPL CloseAccount sending the reclaimed lamports elsewhere
+ *  - assign:       System Assign of the wallet account to another program
+ */
+export type DangerousInstruction = 'approve' | 'setAuthority' | 'closeAccount' | 'assign';
+
+/** A transaction rejected by program or instruction policy, for auditing. */
+export interface PolicyViolation {
+  /** The offending instruction, e.g. 'approveChecked' or 'program'. */
+  instruction: string;
+  programId: string;
+  /** The account the instruction acts on, when there is one. */
+  account?: string;
+  reason: string;
+}
+
+/** One confirmed spend, as persisted by a SpendLedger. */
+export interface SpendRecord {
+  /** Unix ms timestamp of the confirmation. */
+  ts: number;
+  lamports: bigint;
+}
+
+/**
+ * Durable source of previously confirmed spend. The guard loads it once at
+ * construction so rolling, daily and lifetime caps survive process restarts.
+ */
+export interface SpendLedger {
+  /** Returns every confirmed spend recorded for this wallet, oldest first. */
+  load(): SpendRecord[];
+}
+
+/** Where a journaled transaction stands. */
+export type OutgoingTxStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
+
+/**
+ * A transaction as recorded just before broadcast, so its outcome can be
+ * settled even when confirmation was never seen.
+ */
+export interface OutgoingTx {
+  signature: string;
+  /** Fingerprint of what the transaction spends; equal spends share a key. */
+  intentKey: string;
+  /** SOL it spends, recorded against the limits if it turns out to have landed. */
+  lamports: bigint;
+  /** Last block height its blockhash is valid at. Absent for durable-nonce transactions. */
+  lastValidBlockHeight?: number;
+  /** Durable-nonce transactions: the nonce account and the value they were built on. */
+  nonceAccount?: string;
+  nonce?: string;
+}
+
+/**
+ * Record of every transaction the wallet broadcast. Anything still pending
+ * is reconciled before the next send, and a new spend with the same intent
+ * is refused until its predecessor has confirmed, failed or expired.
+ */
+export interface TxJournal {
+  /** Records `tx` as pending. Called before every broadcast; repeats are ignored. */
+  record(tx: OutgoingTx): void;
+  /**
+   * Settles a pending transaction. `reconciled` marks an outcome found after
+   * sendAndConfirm had stopped waiting for it.
+   */
+  resolve(tx: OutgoingTx, status: Exclude<OutgoingTxStatus, 'pending'>, reconciled: boolean): void;
+  /** Unresolved transactions, oldest first. */
+  pending(): OutgoingTx[];
+}
+
+/**
+ * Everything one transaction spends, after reconciling the caller's estimate
+ * with the decoded instructions. Checked and recorded by SpendingLimitGuard.
+ */
+export interface SpendIntent {
+  /** SOL and WSOL leaving the wallet, in lamports. */
+  lamports: bigint;
+  /** SPL spend per base58 mint, in raw base units. */
+  tokens: Record<string, bigint>;
+  /** Recipient addresses, checked against allowedDestinations. */
+  destinations: string[];
+  /** Combined USD value of the spend. Required when USD caps are configured. */
+  usdValue?: number;
+  /**
+   * Network fee the wallet pays, in lamports. Counted against the lamport
+   * caps with `lamports`, but not valued in USD or matched against balances.
+   */
+  feeLamports?: bigint;
+  /** Rent deposited into token accounts the transaction creates. Counted like `feeLamports`. */
+  rentLamports?: bigint;
+}
+
+/** One asset that left the wallet in excess of what the transaction declared. */
+export interface BalanceDiscrepancy {
+  /** 'SOL' (including WSOL) or a base58 SPL mint. */
+  asset: string;
+  /** Outflow declared by the SpendIntent, in lamports or raw base units. */
+  expected: bigint;
+  /** Outflow observed in the before/after balance delta, net of fees and rent. */
+  actual: bigint;
+}
+
+/** A confirmed transaction whose balance delta did not match its SpendIntent. */
+export interface BalanceAnomaly {
+  signature: string | null;
+  discrepancies: BalanceDiscrepancy[];
+  /** Network fees and new-account rent excluded from the SOL outflow. */
+  overheadLamports: bigint;
+  /** True when the wallet has stopped signing in response. */
+  paused: boolean;
+}
+
+/** A USD price for one mint. Shape-compatible with the protocol layer's TokenPriceResult. */
+export interface PriceQuote {
+  mint: string;
+  /** null when the source has no price for this mint. */
+  priceUsd: number | null;
+  source: string;
+  /** Unix ms timestamp the price was observed. */
+  fetchedAt: number;
+}
+
+/**
+ * Source of USD prices for USD-denominated spending caps.
+ * Keyed by base58 mint; native SOL is priced as WSOL.
+ */
+export interface PriceOracle {
+  getPrice(mint: string): Promise<PriceQuote>;
+  getPrices(mints: string[]): Promise<Map<string, PriceQuote>>;
+}
+
+/** What the wallet sends a guardian when it needs a second signature. */
+export interface CoSignRequest {
+  /** Identifies one signAndSendTransaction call, for logs. Stable across its retries. */
+  requestId: string;
+  /** Wire-format transaction, already signed by the agent key. */
+  transaction: Uint8Array;
+  /** The caller's spend estimate, reconciled by the guardian exactly as the wallet does. */
+  estimate: { amount: bigint; mint?: string; destination?: string };
+}
+
+/**
+ * Produces the wallet's signatures. createWalletClient() hands a signer the
+ * serialised transaction message and nothing else, so a backend may keep its
+ * key in another process or machine; see src/wallet/signers.ts.
+ */
+export interface Signer {
+  readonly publicKey: PublicKey;
+  /**
+   * Returns the 64-byte Ed25519 signature of `message` by `publicKey`.
+   * Throws WalletError('SIGNING_FAILED') or ('RPC_ERROR') when it cannot sign.
+   */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * A second key that must sign high-value transactions. Implementations run
+ * their own policy and spending limits before signing; see src/wallet/guardian.ts.
+ */
+export interface CoSigner {
+  readonly publicKey: PublicKey;
+  /**
+   * Returns the co-signer's 64-byte signature over the transaction message.
+   * Throws WalletError('LIMIT_BREACH') when its policy refuses.
+   */
+  cosign(request: CoSignRequest): Promise<Uint8Array>;
+}
+
+export type SpendWindow = 'session' | 'rolling24h' | 'calendarDay' | 'lifetime';
+
+/** Spend against one configured cap. */
+export interface SpendWindowStatus {
+  window: SpendWindow;
+  spent: bigint;
+  cap: bigint;
+  remaining: bigint;
+}
+
+/**
+ * How the wallet prices compute. Every field is optional; see fees.ts for
+ * the defaults.
+ */
+export interface PriorityFeeConfig {
+  /** Percentile (0–100) of recent fees on the written accounts to pay. Defaults to 75. */
+  percentile?: number;
+  /** Lowest price per compute unit, in micro-lamports. Defaults to 0. */
+  minMicroLamports?: number;
+  /** Highest price per compute unit, in micro-lamports. Defaults to 1,000,000 (1 lamport). */
+  maxMicroLamports?: number;
+  /** Ceiling on one transaction's whole priority fee, in lamports. The price is lowered to fit. */
+  maxFeeLamports?: bigint;
+  /** Fraction added to simulated compute units for the limit. Defaults to 0.1. */
+  computeUnitMargin?: number;
+}
+
 /**
  * Full configuration for a WalletClient instance.
  */
@@ -57,6 +355,71 @@ export interface WalletConfig {
   maxRetries: number;
   /** Base delay in ms between retry attempts (doubles each retry). */
   retryDelayMs: number;
+  /** Durable spend history used to rehydrate SpendingLimitGuard on start. */
+  ledger?: SpendLedger;
+  /** Price source for `maxPerTxUsd` / `maxSessionUsd`. Required when either is set. */
+  priceOracle?: PriceOracle;
+  /**
+   * Called for each policy violation before the wallet refuses to sign.
+   * The agent manager uses it to write `limit_breach` audit rows.
+   */
+  onPolicyViolation?: (violation: PolicyViolation) => void;
+  /**
+   * Lamports a confirmed transaction may move beyond its SpendIntent, fees and
+   * rent before the balance check reports an anomaly. Defaults to 0.
+   */
+  balanceToleranceLamports?: bigint;
+  /** Refuse every further signature once a balance anomaly is seen. */
+  pauseOnBalanceAnomaly?: boolean;
+  /**
+   * Called when a confirmed transaction moved more than it declared.
+   * The agent manager uses it to write `unexpected_balance_change` audit rows.
+   */
+  onBalanceAnomaly?: (anomaly: BalanceAnomaly) => void;
+  /**
+   * Guardian whose signature is required on high-value transactions. The
+   * wallet adds a Memo instruction naming the guardian as signer, so the
+   * transaction is invalid on chain without it.
+   */
+  coSigner?: CoSigner;
+  /**
+   * Transactions spending more than this many lamports, or any SPL tokens,
+   * need the co-signer. Defaults to 0 — every spending transaction.
+   */
+  coSignThresholdLamports?: bigint;
+  /**
+   * Consulted before every signature. Returns the reason signing is halted,
+   * or undefined to proceed. The agent manager backs it with the audit DB so
+   * `agentw halt` reaches wallets mid-tick.
+   */
+  haltCheck?: () => string | undefined;
+  /**
+   * Send through a durable nonce account instead of a recent blockhash. The
+   * signed transaction never expires and is resent unchanged on retry, so a
+   * slow attempt cannot land twice. Create the account with
+   * `agentw wallet nonce create`.
+   */
+  useDurableNonce?: boolean;
+  /** Nonce account to use. Defaults to the wallet's derived one (see getNonceAddress). */
+  nonceAccount?: PublicKey;
+  /**
+   * Durable record of outgoing transactions. Defaults to an in-memory one,
+   * which protects only for the life of the process.
+   */
+  txJournal?: TxJournal;
+  /**
+   * Set each transaction's compute-unit limit from simulation and its
+   * priority fee from recent fees on the accounts it writes, replacing any
+   * compute budget it came with. Without it, transactions keep their own
+   * budget and the wallet's transfers pay a fixed price.
+   */
+  priorityFee?: PriorityFeeConfig;
+  /**
+   * Address lookup tables the wallet compiles its own v0 transactions
+   * against, and buildTransaction() by default. Manage them with
+   * `agentw wallet alt`.
+   */
+  lookupTables?: PublicKey[];
 }
 
 // ── WalletClient Interface ────────────────────────────────────────────────────
@@ -65,9 +428,9 @@ export interface WalletConfig {
  * The public API surface of a wallet. This is an interface, not a class.
  * The only way to obtain a WalletClient is via the createWalletClient() factory.
  *
- * SECURITY: The Keypair is held inside the factory closure and is inaccessible
+ * SECURITY: The Signer is held inside the factory closure and is inaccessible
  * through this interface. Protocol adapters receive only a signTransaction
- * callback — they never see the Keypair object.
+ * callback — they never see the Signer, let alone key material.
  */
 export interface WalletClient {
   /** The wallet's public key. Safe to log and share. */
@@ -76,34 +439,90 @@ export interface WalletClient {
   // ── Balance queries ────────────────────────────────────────────────────────
   getSolBalance(): Promise<bigint>;
   getTokenBalance(mint: PublicKey): Promise<bigint>;
+  /**
+   * Every SPL Token and Token-2022 mint the wallet has an account for, plus a
+   * zero-balance entry for each of `include` it has none for.
+   */
+  getTokenAccounts(include?: PublicKey[]): Promise<TokenHolding[]>;
   /** Gets the associated token account for the given mint, creating it if needed. */
   getOrCreateTokenAccount(mint: PublicKey): Promise<PublicKey>;
 
   // ── Transfers ──────────────────────────────────────────────────────────────
   sendSol(to: PublicKey, lamports: bigint): Promise<TxResult>;
   sendToken(mint: PublicKey, to: PublicKey, amount: bigint): Promise<TxResult>;
+  /**
+   * Sends many SOL and SPL transfers in as few transactions as fit. The
+   * whole batch and each transfer are checked against the spending limits
+   * and funds before anything is sent. Transactions go out in order; if one
+   * is refused, the rest are skipped. Returns one result per transfer.
+   */
+  sendBatch(transfers: BatchTransfer[]): Promise<BatchTransferResult[]>;
+
+  // ── Wrapped SOL and rent ───────────────────────────────────────────────────
+  /**
+   * Moves `lamports` into the wallet's WSOL account, creating it if needed.
+   * Checked against the lamport caps like any other SOL outflow.
+   */
+  wrapSol(lamports: bigint): Promise<TxResult>;
+  /** Closes the wallet's WSOL account, returning its balance and rent as SOL. */
+  unwrapSol(): Promise<TxResult>;
+  /**
+   * Closes every empty token account the wallet can (only those of `mints`,
+   * when given), returning their rent, in as few transactions as fit.
+   * Returns one entry per account; an empty array when there is none.
+   */
+  closeEmptyTokenAccounts(mints?: PublicKey[]): Promise<ClosedTokenAccount[]>;
+
+  // ── Building ───────────────────────────────────────────────────────────────
+  /**
+   * Compiles `instructions` into an unsigned v0 transaction paid for by this
+   * wallet, against `lookupTables` (default: the configured ones) so that
+   * batches and multi-protocol transactions fit. Send it with
+   * signAndSendTransaction.
+   */
+  buildTransaction(instructions: TransactionInstruction[], lookupTables?: PublicKey[]): Promise<VersionedTransaction>;
 
   // ── Signing (for protocol adapters) ───────────────────────────────────────
   /**
    * Signs a pre-built transaction. Used by protocol adapters.
-   * SpendingLimitGuard is NOT checked here — use signAndSendTransaction for guarded sends.
+   * Program and instruction policy is enforced, but spend limits are NOT —
+   * use signAndSendTransaction for guarded sends.
    */
   signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
 
   /**
    * Signs, submits, and confirms a transaction.
    * SpendingLimitGuard is checked before signing. Throws WalletError on limit breach.
+   * After confirmation the wallet's balances are re-read and the observed
+   * outflow, not the estimate, is recorded against the limits.
+   *
+   * `estimatedAmount` is in lamports when `mint` is omitted or is SOL/WSOL,
+   * otherwise in the raw base units of `mint`.
    */
   signAndSendTransaction(
     tx: Transaction | VersionedTransaction,
-    estimatedLamports?: bigint,
+    estimatedAmount?: bigint,
+    destination?: string,
+    mint?: string,
   ): Promise<TxResult>;
 
   // ── Introspection (no key material) ───────────────────────────────────────
   getSpendingLimitStatus(): {
+    /** Everything that left the wallet this session, fees and rent included. */
     sessionSpend: bigint;
+    /** Network fees within `sessionSpend`. */
+    sessionFees: bigint;
+    /** Token-account rent within `sessionSpend`. */
+    sessionRent: bigint;
+    /** `maxSessionFeesLamports`, when set. */
+    sessionFeeCap?: bigint;
     sessionCap: bigint;
     perTxCap: bigint;
+    /** Smallest remaining budget across all configured windows. */
+    remainingBudget: bigint;
+    /** The window with the least remaining budget — the one that will reject first. */
+    bindingWindow: SpendWindow;
+    windows: SpendWindowStatus[];
   };
 }
 
@@ -117,7 +536,10 @@ export type WalletErrorCode =
   | 'INVALID_KEYSTORE'
   | 'SIGNING_FAILED'
   | 'MAINNET_BLOCKED'
-  | 'INVALID_CONFIG';
+  | 'INVALID_CONFIG'
+  | 'WALLET_PAUSED'
+  | 'WALLET_HALTED'
+  | 'TX_PENDING';
 
 /**
  * Typed error thrown by all wallet module operations.
@@ -141,30 +563,107 @@ export class WalletError extends Error {
 
 // ── Keystore Types ────────────────────────────────────────────────────────────
 
+export interface ScryptParams {
+  /** CPU/memory cost. Default 16384. */
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface Argon2idParams {
+  /** Memory cost in KiB. Default 19456 (19 MiB). */
+  m: number;
+  /** Iterations. Default 2. */
+  t: number;
+  /** Parallelism. Default 1. */
+  p: number;
+}
+
+/** The KDF and its parameters, as stored alongside the ciphertext. */
+export type KeystoreKdf =
+  | { kdf: 'scrypt'; kdfParams: ScryptParams }
+  | { kdf: 'argon2id'; kdfParams: Argon2idParams };
+
+/** Ciphertext fields shared by every keystore version. */
+export interface KeystoreCipher {
+  /** AES-256-GCM ciphertext, hex-encoded. */
+  ciphertext: string;
+  /** 16-byte initialisation vector, hex-encoded. Fresh per keystore. */
+  iv: string;
+  /** 16-byte GCM authentication tag, hex-encoded. Detects tampering. */
+  authTag: string;
+  /** 32-byte KDF salt, hex-encoded. Fresh per keystore. */
+  salt: string;
+  algorithm: 'aes-256-gcm';
+}
+
+/** Version 1: scrypt only. Still readable; upgraded to v2 on request. */
+export interface KeystoreFileV1 {
+  version: 1;
+  /** Base58-encoded public key. Stored plaintext for quick identification. */
+  publicKey: string;
+  encrypted: KeystoreCipher & { kdf: 'scrypt'; kdfParams: ScryptParams };
+}
+
+/** Version 2: Argon2id by default, scrypt still allowed. */
+export interface KeystoreFileV2 {
+  version: 2;
+  /** Base58-encoded public key. Stored plaintext for quick identification. */
+  publicKey: string;
+  encrypted: KeystoreCipher & KeystoreKdf;
+}
+
 /**
  * On-disk format for an encrypted wallet keystore.
  * Version field allows future format migrations without breaking existing keystores.
  */
-export interface KeystoreFile {
+export type KeystoreFile = KeystoreFileV1 | KeystoreFileV2;
+
+/**
+ * HD master: the encrypted BIP39 mnemonic every derived wallet comes from.
+ * It has no address of its own and never signs directly.
+ */
+export interface MasterKeystoreFile {
+  version: 2;
+  kind: 'hd-master';
+  /** Address at m/44'/501'/0'/0', stored plaintext so derived keystores can be matched to their master. */
+  fingerprint: string;
+  encrypted: KeystoreCipher & KeystoreKdf;
+}
+
+/**
+ * A wallet derived from a master at m/44'/501'/index'/0'. Holds no key
+ * material — it unlocks with the master's password.
+ */
+export interface DerivedKeystoreFile {
+  version: 2;
+  kind: 'hd';
+  /** Base58-encoded public key. Checked against the derived key on load. */
+  publicKey: string;
+  /** Path to the master keystore, relative to this file's directory. */
+  master: string;
+  /** The master's fingerprint, so a swapped master file is caught on load. */
+  masterFingerprint: string;
+  index: number;
+  derivationPath: string;
+}
+
+/**
+ * One Shamir share of a wallet's secret key, encrypted under its holder's
+ * password. Any `threshold` shares from the same split rebuild the key.
+ */
+export interface KeyShareFile {
   version: 1;
-  /** Base58-encoded public key. Stored plaintext for quick identification. */
+  kind: 'shamir-share';
+  /** Base58 public key of the split wallet. Checked after reassembly. */
   publicKey: string;
-  encrypted: {
-    /** AES-256-GCM ciphertext, hex-encoded. */
-    ciphertext: string;
-    /** 16-byte initialisation vector, hex-encoded. Fresh per keystore. */
-    iv: string;
-    /** 16-byte GCM authentication tag, hex-encoded. Detects tampering. */
-    authTag: string;
-    /** 32-byte scrypt salt, hex-encoded. Fresh per keystore. */
-    salt: string;
-    algorithm: 'aes-256-gcm';
-    kdf: 'scrypt';
-    kdfParams: {
-      /** CPU/memory cost. Default 32768 (~200ms on modern hardware). */
-      N: number;
-      r: number;
-      p: number;
-    };
-  };
+  /** Random ID common to every share of one split, so shares of two splits never mix. */
+  splitId: string;
+  threshold: number;
+  shares: number;
+  /** This share's x-coordinate, 1..shares. */
+  index: number;
+  /** First 16 hex chars of SHA-256 over the header fields and share bytes. */
+  checksum: string;
+  encrypted: KeystoreCipher & KeystoreKdf;
 }
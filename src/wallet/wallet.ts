@@ -3,16 +3,18 @@
  *
  * The WalletClient factory. This is the heart of the key-isolation architecture.
  *
- * SECURITY INVARIANT: The `keypair` parameter is captured in the factory
+ * SECURITY INVARIANT: The `signer` parameter is captured in the factory
  * function's closure. It is NEVER assigned to a property of the returned object,
- * NEVER logged, and NEVER passed to any external function. Protocol adapters
- * interact only through the `signTransaction` method, which calls the signing
- * primitive inside this closure.
+ * NEVER logged, and is handed only serialised transaction messages. Protocol
+ * adapters interact only through the `signTransaction` method, which calls the
+ * signing primitive inside this closure. Signers may keep their key in another
+ * process entirely; see signers.ts.
  *
  * The returned object's toJSON() and toString() return the public key only,
  * so accidental serialisation (e.g. JSON.stringify(wallet)) is safe.
  */
 
+import { randomUUID } from 'node:crypto';
 import {
   Connection,
   Keypair,
@@ -22,22 +24,79 @@ import {
   VersionedTransaction,
   ComputeBudgetProgram,
   TransactionMessage,
+  type TransactionInstruction,
 } from '@solana/web3.js';
 import {
-  getAssociatedTokenAddress,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
-  createTransferCheckedInstruction,
-  getMint,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
   getAccount,
+  NATIVE_MINT,
   TokenAccountNotFoundError,
 } from '@solana/spl-token';
-import { SpendingLimitGuard } from './limits.js';
+import { SpendingLimitGuard, combineIntents, isSplMint } from './limits.js';
+import {
+  inspectTransaction,
+  resolveTokenAccounts,
+  toSpendIntent,
+  fetchLookupTables,
+  allowOwnDestinations,
+  type TxInspection,
+} from './inspector.js';
+import {
+  takeBalanceSnapshot,
+  findMissingAccounts,
+  recordedSpend,
+  getRentPaid,
+  estimateNetworkFee,
+  estimateTokenAccountRent,
+  measureSpend,
+  findDiscrepancies,
+  type BalanceSnapshot,
+} from './balances.js';
+import { createGuardianMemo } from './guardian.js';
+import {
+  getTokenMintInfo,
+  getTokenAddress,
+  findEmptyTokenAccounts,
+  createTokenTransferInstruction,
+  calculateTokenTransferFee,
+  getTokenSymbol,
+} from './tokens.js';
 import { sendAndConfirm } from './signer.js';
+import { budgetTransaction, computeUnitLimitFor, maxPriorityFeeLamports, MAX_COMPUTE_UNITS } from './fees.js';
+import { getNonceAddress } from './nonce.js';
+import { estimateLookupTableRent, loadLookupTables } from './alt.js';
+import {
+  packLegs,
+  fitsInPacket,
+  SOL_TRANSFER_COMPUTE_UNITS,
+  TOKEN_TRANSFER_COMPUTE_UNITS,
+  CREATE_TOKEN_ACCOUNT_COMPUTE_UNITS,
+  CLOSE_TOKEN_ACCOUNT_COMPUTE_UNITS,
+  NONCE_RESERVE_BYTES,
+  GUARDIAN_RESERVE_BYTES,
+  type BatchLeg,
+} from './batch.js';
+import { createMemoryTxJournal, intentKey, reconcileTxJournal } from './journal.js';
+import { keypairSigner, verifySignature } from './signers.js';
 import {
   WalletError,
   type WalletClient,
   type WalletConfig,
+  type OutgoingTx,
   type TxResult,
+  type TokenHolding,
+  type SpendIntent,
+  type CoSigner,
+  type CoSignRequest,
+  type Signer,
+  type BatchTransfer,
+  type BatchTransferResult,
+  type ClosedTokenAccount,
 } from './types.js';
 import type { Logger } from '../logger/logger.js';
 
@@ -51,21 +110,34 @@ const DEFAULT_CONFIG: Omit<WalletConfig, 'rpcUrl' | 'limits'> = {
 };
 
 // ── Priority fee ──────────────────────────────────────────────────────────────
-// Micro-lamports per compute unit. Increase for faster inclusion during congestion.
+// Micro-lamports per compute unit on the wallet's own transactions. With
+// `priorityFee` configured it is replaced by an estimate (see fees.ts).
 const DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS = 1_000;
 
+/** Base fee per signature, in lamports. */
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+
+/** How a packed transaction went, for each leg it carried. */
+type LegOutcome = Pick<BatchTransferResult, 'signature' | 'status' | 'error'>;
+
+/** The fields we read from a jsonParsed token account. */
+interface ParsedTokenAccount {
+  info: { mint: string; tokenAmount: { amount: string; decimals: number } };
+}
+
 // ── Factory function ──────────────────────────────────────────────────────────
 
 /**
- * Creates a WalletClient. The `keypair` is captured in closure and never
+ * Creates a WalletClient. The `signer` is captured in closure and never
  * exposed through the returned interface.
  *
- * @param keypair Solana Keypair. The caller should not retain a reference.
- * @param config  Wallet configuration.
- * @param logger  Bound logger (should already include agentId if applicable).
+ * @param signer Signer backend. A bare Keypair is wrapped with keypairSigner();
+ *               the caller should not retain a reference to it.
+ * @param config Wallet configuration.
+ * @param logger Bound logger (should already include agentId if applicable).
  */
 export function createWalletClient(
-  keypair: Keypair,
+  signer: Signer | Keypair,
   config: WalletConfig,
   logger: Logger,
 ): WalletClient {
@@ -79,12 +151,26 @@ export function createWalletClient(
     throw new WalletError('INVALID_CONFIG', 'SOLANA_RPC_URL appears to be a mainnet endpoint. Mainnet is blocked in v1.');
   }
 
-  const connection = new Connection(mergedConfig.rpcUrl, mergedConfig.confirmationStrategy);
-  const guard = new SpendingLimitGuard(mergedConfig.limits);
-
-
+  const backend = signer instanceof Keypair ? keypairSigner(signer) : signer;
   // The public key is safe to surface
-  const publicKey = keypair.publicKey;
+  const publicKey = backend.publicKey;
+
+  const connection = new Connection(mergedConfig.rpcUrl, mergedConfig.confirmationStrategy);
+  // Spends that pay back into the wallet itself are never refused as unlisted
+  const guard = new SpendingLimitGuard(
+    allowOwnDestinations(mergedConfig.limits, publicKey),
+    mergedConfig.ledger,
+    mergedConfig.priceOracle,
+  );
+  /** A mint's program and decimals never change, so each mint is fetched at most once. */
+  const mints = new Map<string, { programId: PublicKey; decimals: number }>();
+  /** Set once a balance anomaly is seen with `pauseOnBalanceAnomaly`. */
+  let paused = false;
+  /** Resolved on the first durable-nonce send. */
+  let nonceAddress: PublicKey | undefined = mergedConfig.nonceAccount;
+  const journal = mergedConfig.txJournal ?? createMemoryTxJournal();
+  /** Full intents of this process's unresolved sends, recorded if they land late. */
+  const unresolvedIntents = new Map<string, SpendIntent>();
 
   logger.info({ pubkey: publicKey.toBase58() }, 'WalletClient initialised');
 
@@ -92,32 +178,431 @@ export function createWalletClient(
 
   async function signTx<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
     try {
-      if (tx instanceof VersionedTransaction) {
-        tx.sign([keypair]);
-        return tx;
-      }
-      tx.partialSign(keypair);
+      // The signer sees the serialised message only, never the transaction object
+      const message = tx instanceof VersionedTransaction ? tx.message.serialize() : tx.serializeMessage();
+      const signature = await backend.signMessage(message);
+      tx.addSignature(publicKey, Buffer.from(signature));
       return tx;
     } catch (err) {
+      if (err instanceof WalletError) throw err;
       throw new WalletError('SIGNING_FAILED', 'Failed to sign transaction.', err);
     }
   }
 
+  /**
+   * Signs with the agent key, then obtains the guardian's signature over the
+   * same message. Called by sendAndConfirm once per attempt.
+   */
+  async function coSignTx<T extends Transaction | VersionedTransaction>(
+    tx: T,
+    coSigner: CoSigner,
+    requestId: string,
+    estimate: CoSignRequest['estimate'],
+  ): Promise<T> {
+    const signed = await signTx(tx);
+    const transaction = signed instanceof VersionedTransaction
+      ? signed.serialize()
+      : signed.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+    const signature = await coSigner.cosign({ requestId, transaction, estimate });
+    // The guardian is another process, so its signature is checked like a remote signer's
+    const message = signed instanceof VersionedTransaction ? signed.message.serialize() : signed.serializeMessage();
+    if (!verifySignature(coSigner.publicKey, message, signature)) {
+      throw new WalletError('SIGNING_FAILED', 'Guardian returned an invalid signature.');
+    }
+    try {
+      signed.addSignature(coSigner.publicKey, Buffer.from(signature));
+    } catch (err) {
+      throw new WalletError('SIGNING_FAILED', 'Guardian signature does not fit the transaction.', err);
+    }
+    return signed;
+  }
+
+  // ── Outgoing transaction journal ───────────────────────────────────────────
+
+  /**
+   * Settles journaled transactions whose outcome is now known, counting late
+   * confirmations against the limits, then refuses `key` if a transaction
+   * with the same intent may still land.
+   */
+  async function settlePending(key: string | undefined): Promise<void> {
+    for (const { tx, status } of await reconcileTxJournal(connection, journal, logger)) {
+      const intent = unresolvedIntents.get(tx.signature);
+      unresolvedIntents.delete(tx.signature);
+      if (status !== 'confirmed') continue;
+      logger.warn({ signature: tx.signature }, 'Transaction reported as not confirmed has landed');
+      guard.recordIntent(intent ?? { lamports: tx.lamports, tokens: {}, destinations: [] });
+    }
+
+    if (key === undefined) return;
+    const blocking = journal.pending().find((tx) => tx.intentKey === key);
+    if (blocking) {
+      throw new WalletError(
+        'TX_PENDING',
+        `An earlier transaction with the same intent (${blocking.signature}) may still land. ` +
+        'Refusing to send it again until it confirms or expires.',
+      );
+    }
+  }
+
   // ── Internal helpers ───────────────────────────────────────────────────────
 
+  /** Compiles a v0 transaction, reading the lookup tables fresh so extensions are used. */
   async function buildVersionedTx(
-    instructions: ReturnType<typeof SystemProgram.transfer>[],
+    instructions: TransactionInstruction[],
     feePayer: PublicKey,
+    lookupTables: PublicKey[] = mergedConfig.lookupTables ?? [],
   ): Promise<VersionedTransaction> {
+    const tables = await loadLookupTables(connection, lookupTables);
     const blockhash = (await connection.getLatestBlockhash('confirmed')).blockhash;
     const message = new TransactionMessage({
       payerKey: feePayer,
       recentBlockhash: blockhash,
       instructions,
-    }).compileToV0Message();
+    }).compileToV0Message(tables);
     return new VersionedTransaction(message);
   }
 
+  async function getMint(mint: PublicKey): Promise<{ programId: PublicKey; decimals: number }> {
+    const key = mint.toBase58();
+    const cached = mints.get(key);
+    if (cached) return cached;
+    const { programId, decimals } = await getTokenMintInfo(connection, mint);
+    mints.set(key, { programId, decimals });
+    return { programId, decimals };
+  }
+
+  async function getMintDecimals(mint: PublicKey): Promise<number> {
+    return (await getMint(mint)).decimals;
+  }
+
+  /** Decodes `tx`, fetching any lookup tables and token accounts it references. */
+  async function inspect(tx: Transaction | VersionedTransaction): Promise<TxInspection> {
+    const lookupTables = await fetchLookupTables(tx, connection);
+    const inspection = inspectTransaction(tx, publicKey, lookupTables);
+    await resolveTokenAccounts(inspection, connection);
+    return inspection;
+  }
+
+  /**
+   * Decodes `tx` and applies program and instruction policy. Runs before every
+   * signature this wallet produces; violations are reported through
+   * `onPolicyViolation` and the transaction is refused.
+   */
+  async function vet(tx: Transaction | VersionedTransaction): Promise<TxInspection> {
+    const haltReason = mergedConfig.haltCheck?.();
+    if (haltReason !== undefined) {
+      throw new WalletError('WALLET_HALTED', `Signing is halted: ${haltReason}`);
+    }
+    if (paused) {
+      throw new WalletError(
+        'WALLET_PAUSED',
+        'Wallet is paused after an unexpected balance change. Review the audit log and restart the agent.',
+      );
+    }
+    const inspection = await inspect(tx);
+    const violations = guard.getPolicyViolations(inspection);
+    if (violations.length === 0) return inspection;
+
+    for (const violation of violations) {
+      logger.warn({ instruction: violation.instruction, programId: violation.programId }, violation.reason);
+      try {
+        mergedConfig.onPolicyViolation?.(violation);
+      } catch (err) {
+        logger.error({ err }, 'onPolicyViolation hook failed');
+      }
+    }
+    throw new WalletError('LIMIT_BREACH', violations.map((v) => v.reason).join(' '));
+  }
+
+  /**
+   * Compares the balance delta of a confirmed transaction with its intent,
+   * net of `feeLamports`, the rent now held by `newAccounts` and the
+   * `tableRentLamports` paid into lookup tables. Returns what to record:
+   * the larger of intended and observed spend per asset, with the observed
+   * fee and rent replacing the estimates.
+   * Any excess outflow is reported through `onBalanceAnomaly` and, with
+   * `pauseOnBalanceAnomaly`, stops the wallet from signing again.
+   */
+  async function verifyBalances(
+    intent: SpendIntent,
+    before: BalanceSnapshot,
+    newAccounts: string[],
+    feeLamports: bigint,
+    signature: string | null,
+    tableRentLamports = 0n,
+  ): Promise<SpendIntent> {
+    const after = await takeBalanceSnapshot(connection, publicKey);
+    const rentLamports = tableRentLamports + await getRentPaid(connection, newAccounts);
+    const overheadLamports = feeLamports + rentLamports;
+    const observed = measureSpend(before, after, overheadLamports);
+    const actual: SpendIntent = {
+      ...recordedSpend(intent, observed),
+      destinations: intent.destinations,
+      feeLamports,
+      rentLamports,
+    };
+    if (intent.usdValue !== undefined) actual.usdValue = intent.usdValue;
+
+    const discrepancies = findDiscrepancies(intent, observed, mergedConfig.balanceToleranceLamports ?? 0n);
+    if (discrepancies.length > 0) {
+      paused ||= mergedConfig.pauseOnBalanceAnomaly === true;
+      logger.error(
+        {
+          signature,
+          discrepancies: discrepancies.map((d) => ({
+            asset: d.asset,
+            expected: d.expected.toString(),
+            actual: d.actual.toString(),
+          })),
+          paused,
+        },
+        'Unexpected balance change after confirmed transaction',
+      );
+      try {
+        mergedConfig.onBalanceAnomaly?.({ signature, discrepancies, overheadLamports, paused });
+      } catch (err) {
+        logger.error({ err }, 'onBalanceAnomaly hook failed');
+      }
+    }
+
+    if (guard.requiresUsdValuation() && (actual.lamports > 0n || Object.keys(actual.tokens).length > 0)) {
+      try {
+        actual.usdValue = await valueInUsd(actual);
+      } catch (err) {
+        // Keep the pre-signing valuation rather than under-record USD spend
+        logger.warn({ err }, 'Could not value observed spend; recording the pre-signing USD value');
+      }
+    }
+    return actual;
+  }
+
+  /**
+   * Returns `tx` with a Memo instruction that makes `guardian` a required
+   * signer. Legacy transactions are extended in place; v0 messages are
+   * recompiled against the same lookup tables.
+   */
+  async function requireCoSigner(
+    tx: Transaction | VersionedTransaction,
+    guardian: PublicKey,
+  ): Promise<Transaction | VersionedTransaction> {
+    if (!(tx instanceof VersionedTransaction)) {
+      return tx.add(createGuardianMemo(guardian));
+    }
+    if (tx.signatures.some((sig) => sig.some((byte) => byte !== 0))) {
+      throw new WalletError('SIGNING_FAILED', 'Cannot add a guardian to a transaction that is already signed.');
+    }
+
+    const lookupTables = await fetchLookupTables(tx, connection);
+    const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables });
+    message.instructions.push(createGuardianMemo(guardian));
+    return new VersionedTransaction(
+      tx.version === 'legacy' ? message.compileToLegacyMessage() : message.compileToV0Message(lookupTables),
+    );
+  }
+
+  /**
+   * Re-prices `tx` with budgetTransaction() and updates `inspection` to
+   * match. If that fails, or `tx` is already signed, the transaction keeps
+   * the compute budget it came with.
+   */
+  async function budget(
+    tx: Transaction | VersionedTransaction,
+    inspection: TxInspection,
+  ): Promise<Transaction | VersionedTransaction> {
+    const signed = tx instanceof VersionedTransaction
+      ? tx.signatures.some((sig) => sig.some((byte) => byte !== 0))
+      : tx.signatures.some((sig) => sig.signature !== null);
+    if (signed) return tx;
+
+    try {
+      const { transaction, computeUnitLimit, microLamports } =
+        await budgetTransaction(connection, tx, mergedConfig.priorityFee);
+      inspection.computeUnitLimit = computeUnitLimit;
+      inspection.computeUnitPriceMicroLamports = BigInt(microLamports);
+      logger.debug({ computeUnitLimit, microLamports }, 'Compute budget set');
+      return transaction;
+    } catch (err) {
+      logger.warn({ err }, 'Could not estimate compute budget; keeping the transaction\'s own');
+      return tx;
+    }
+  }
+
+  // ── Batches ────────────────────────────────────────────────────────────────
+
+  /**
+   * Plans one leg per transfer: its instructions, intent and compute. The
+   * first transfer to a missing token account creates it, and carries its rent.
+   */
+  async function planBatch(transfers: BatchTransfer[]): Promise<BatchLeg[]> {
+    const mintInfos = new Map<string, Awaited<ReturnType<typeof getTokenMintInfo>>>();
+    for (const { mint } of transfers) {
+      if (mint && !mintInfos.has(mint.toBase58())) {
+        mintInfos.set(mint.toBase58(), await getTokenMintInfo(connection, mint));
+      }
+    }
+
+    const destinationAtas = transfers.map(({ mint, to }) => {
+      const info = mint && mintInfos.get(mint.toBase58());
+      return info ? getTokenAddress(info.mint, to, info.programId).toBase58() : undefined;
+    });
+    const missing = new Set(await findMissingAccounts(
+      connection,
+      [...new Set(destinationAtas.filter((a): a is string => a !== undefined))],
+    ));
+
+    const legs: BatchLeg[] = [];
+    for (const [index, { to, amount, mint }] of transfers.entries()) {
+      const info = mint && mintInfos.get(mint.toBase58());
+      const toAta = destinationAtas[index];
+      if (!info || !toAta) {
+        legs.push({
+          index,
+          instructions: [SystemProgram.transfer({ fromPubkey: publicKey, toPubkey: to, lamports: Number(amount) })],
+          intent: { lamports: amount, tokens: {}, destinations: [to.toBase58()] },
+          computeUnits: SOL_TRANSFER_COMPUTE_UNITS,
+        });
+        continue;
+      }
+
+      const key = info.mint.toBase58();
+      const leg: BatchLeg = {
+        index,
+        instructions: [],
+        intent: {
+          lamports: isSplMint(key) ? 0n : amount,
+          tokens: isSplMint(key) ? { [key]: amount } : {},
+          destinations: [to.toBase58()],
+        },
+        computeUnits: TOKEN_TRANSFER_COMPUTE_UNITS,
+      };
+      if (!isSplMint(key)) leg.wrappedLamports = amount;
+      if (missing.delete(toAta)) {
+        leg.instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(publicKey, new PublicKey(toAta), to, info.mint, info.programId),
+        );
+        leg.intent.rentLamports = await estimateTokenAccountRent(connection, [toAta], { [toAta]: key });
+        leg.computeUnits += CREATE_TOKEN_ACCOUNT_COMPUTE_UNITS;
+      }
+      const fromAta = getTokenAddress(info.mint, publicKey, info.programId);
+      leg.instructions.push(
+        await createTokenTransferInstruction(connection, info, fromAta, new PublicKey(toAta), publicKey, amount),
+      );
+      legs.push(leg);
+    }
+
+    if (guard.requiresUsdValuation()) {
+      for (const leg of legs) leg.intent.usdValue = await valueInUsd(leg.intent);
+    }
+    return legs;
+  }
+
+  /**
+   * Refuses a batch the wallet cannot pay for, before anything is sent: the
+   * transfers, the rent of new recipient accounts and the worst-case fee of
+   * every packed transaction. WSOL legs count against the limits as lamports
+   * but are paid from the WSOL account, so they are checked against that.
+   */
+  async function checkBatchFunds(groups: BatchLeg[][]): Promise<void> {
+    const legs = groups.flat();
+    const total = combineIntents(legs.map((leg) => leg.intent));
+    const wrapped = legs.reduce((sum, leg) => sum + (leg.wrappedLamports ?? 0n), 0n);
+    const fees = groups.reduce((sum, group) => sum + maxBatchFee(group), 0n);
+    const lamports = total.lamports - wrapped + (total.rentLamports ?? 0n) + fees;
+    const balance = await client.getSolBalance();
+    if (balance < lamports) {
+      throw new WalletError('INSUFFICIENT_FUNDS', `Insufficient SOL: have ${balance} lamports, need ${lamports}.`);
+    }
+    if (wrapped > 0n) {
+      const held = await client.getTokenBalance(NATIVE_MINT);
+      if (held < wrapped) {
+        throw new WalletError('INSUFFICIENT_FUNDS', `Insufficient WSOL: have ${held} lamports, need ${wrapped}.`);
+      }
+    }
+    for (const [mint, amount] of Object.entries(total.tokens)) {
+      const held = await client.getTokenBalance(new PublicKey(mint));
+      if (held < amount) {
+        throw new WalletError('INSUFFICIENT_FUNDS', `Insufficient ${mint}: have ${held}, need ${amount}.`);
+      }
+    }
+  }
+
+  /** The most sending `group` as one transaction can cost in fees, priority fee included. */
+  function maxBatchFee(group: BatchLeg[]): bigint {
+    const units = group.reduce((sum, leg) => sum + leg.computeUnits, 0);
+    const signatures = mergedConfig.coSigner ? 2n : 1n;
+    return LAMPORTS_PER_SIGNATURE * signatures + maxPriorityFeeLamports(units, mergedConfig.priorityFee);
+  }
+
+  /**
+   * Whether `group` can go out as one transaction: compute within the
+   * limit, spend plus the worst-case fee within the per-tx caps, and bytes
+   * within the packet with room for a nonce or guardian added later.
+   */
+  function fitsInOneTransaction(group: BatchLeg[], lookupTables: Parameters<typeof fitsInPacket>[2]): boolean {
+    const units = group.reduce((sum, leg) => sum + leg.computeUnits, 0);
+    if (computeUnitLimitFor(units, mergedConfig.priorityFee) >= MAX_COMPUTE_UNITS) return false;
+
+    const intent = combineIntents(group.map((leg) => leg.intent));
+    intent.feeLamports = maxBatchFee(group);
+    if (!guard.fitsPerTx(intent)) return false;
+
+    const reserve = (mergedConfig.useDurableNonce ? NONCE_RESERVE_BYTES : 0) +
+      (mergedConfig.coSigner ? GUARDIAN_RESERVE_BYTES : 0);
+    return fitsInPacket(publicKey, [...budgetInstructions(units), ...group.flatMap((leg) => leg.instructions)], lookupTables, reserve);
+  }
+
+  /**
+   * Sends each group as one transaction, in order, and returns the outcome
+   * per leg index. Stops at the first transaction that is refused; legs
+   * after it have no outcome.
+   */
+  async function sendGroups(groups: BatchLeg[][]): Promise<Map<number, LegOutcome>> {
+    const outcomes = new Map<number, LegOutcome>();
+    for (const group of groups) {
+      let outcome: LegOutcome;
+      try {
+        const units = group.reduce((sum, leg) => sum + leg.computeUnits, 0);
+        const tx = await buildVersionedTx(
+          [...budgetInstructions(units), ...group.flatMap((leg) => leg.instructions)],
+          publicKey,
+        );
+        const result = await client.signAndSendTransaction(tx);
+        outcome = {
+          signature: result.signature,
+          status: result.status,
+          ...(result.error !== undefined && { error: result.error }),
+        };
+      } catch (err) {
+        outcome = { signature: null, status: 'failed', error: err instanceof Error ? err.message : String(err) };
+      }
+      for (const leg of group) outcomes.set(leg.index, outcome);
+      // A refused transaction means the rest would be refused too
+      if (outcome.signature === null) {
+        logger.warn({ error: outcome.error }, 'Packed transaction refused; skipping the rest');
+        break;
+      }
+    }
+    return outcomes;
+  }
+
+  /** Compute-budget instructions for `units`; budgetTransaction() replaces them with measured ones. */
+  function budgetInstructions(units: number): TransactionInstruction[] {
+    return [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimitFor(units, mergedConfig.priorityFee) }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS }),
+    ];
+  }
+
+  /** Combined USD value of every asset in `intent`. */
+  async function valueInUsd(intent: SpendIntent): Promise<number> {
+    let total = intent.lamports > 0n ? await guard.valueInUsd(intent.lamports, undefined, 9) : 0;
+    for (const [mint, amount] of Object.entries(intent.tokens)) {
+      total += await guard.valueInUsd(amount, mint, await getMintDecimals(new PublicKey(mint)));
+    }
+    return total;
+  }
+
   // ── WalletClient implementation ────────────────────────────────────────────
 
   const client: WalletClient = {
@@ -135,9 +620,10 @@ export function createWalletClient(
     },
 
     async getTokenBalance(mint: PublicKey): Promise<bigint> {
+      const { programId } = await getMint(mint);
       try {
-        const ata = await getAssociatedTokenAddress(mint, publicKey);
-        const account = await getAccount(connection, ata, 'confirmed');
+        const ata = getTokenAddress(mint, publicKey, programId);
+        const account = await getAccount(connection, ata, 'confirmed', programId);
         return account.amount;
       } catch (err) {
         if (err instanceof TokenAccountNotFoundError) {
@@ -147,11 +633,67 @@ export function createWalletClient(
       }
     },
 
+    async getTokenAccounts(include: PublicKey[] = []): Promise<TokenHolding[]> {
+      const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+      let accountLists;
+      try {
+        accountLists = await Promise.all(
+          programIds.map((programId) => connection.getParsedTokenAccountsByOwner(publicKey, { programId }, 'confirmed')),
+        );
+      } catch (err) {
+        throw new WalletError('RPC_ERROR', 'Failed to fetch token accounts.', err);
+      }
+
+      const holdings = new Map<string, TokenHolding>();
+      accountLists.forEach(({ value }, i) => {
+        const programId = programIds[i]!;
+        for (const { account } of value) {
+          const { info } = account.data.parsed as ParsedTokenAccount;
+          const held = holdings.get(info.mint);
+          if (held) {
+            held.amount += BigInt(info.tokenAmount.amount);
+            continue;
+          }
+          const { decimals } = info.tokenAmount;
+          mints.set(info.mint, { programId, decimals });
+          const symbol = getTokenSymbol(info.mint);
+          holdings.set(info.mint, {
+            mint: info.mint,
+            programId: programId.toBase58(),
+            amount: BigInt(info.tokenAmount.amount),
+            decimals,
+            ...(symbol !== undefined && { symbol }),
+          });
+        }
+      });
+
+      for (const mint of include) {
+        const key = mint.toBase58();
+        if (holdings.has(key)) continue;
+        try {
+          const { programId, decimals } = await getMint(mint);
+          const symbol = getTokenSymbol(key);
+          holdings.set(key, {
+            mint: key,
+            programId: programId.toBase58(),
+            amount: 0n,
+            decimals,
+            ...(symbol !== undefined && { symbol }),
+          });
+        } catch (err) {
+          logger.warn({ mint: key, err }, 'Skipping tracked mint that could not be read');
+        }
+      }
+
+      return [...holdings.values()];
+    },
+
     async getOrCreateTokenAccount(mint: PublicKey): Promise<PublicKey> {
-      const ata = await getAssociatedTokenAddress(mint, publicKey);
+      const { programId } = await getMint(mint);
+      const ata = getTokenAddress(mint, publicKey, programId);
 
       try {
-        await getAccount(connection, ata, 'confirmed');
+        await getAccount(connection, ata, 'confirmed', programId);
         return ata;
       } catch (err) {
         if (!(err instanceof TokenAccountNotFoundError)) {
@@ -162,13 +704,14 @@ export function createWalletClient(
       // Account doesn't exist — create it
       logger.info({ mint: mint.toBase58(), ata: ata.toBase58() }, 'Creating associated token account');
 
-      const createIx = createAssociatedTokenAccountInstruction(publicKey, ata, publicKey, mint);
+      const createIx = createAssociatedTokenAccountInstruction(publicKey, ata, publicKey, mint, programId);
       const priorityIx = ComputeBudgetProgram.setComputeUnitPrice({
         microLamports: DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS,
       });
 
+      // The rent deposit is priced from the mint and counted against the limits
       const tx = await buildVersionedTx([priorityIx, createIx], publicKey);
-      const result = await client.signAndSendTransaction(tx, 5_000n); // ~0.000005 SOL for rent
+      const result = await client.signAndSendTransaction(tx);
       if (result.status !== 'confirmed') {
         throw new WalletError(
           'RPC_ERROR',
@@ -202,7 +745,7 @@ export function createWalletClient(
       });
 
       const tx = await buildVersionedTx([priorityIx, transferIx], publicKey);
-      return (client as any).signAndSendTransaction(tx, lamports, to.toBase58());
+      return client.signAndSendTransaction(tx, lamports, to.toBase58());
     },
 
     async sendToken(mint: PublicKey, to: PublicKey, amount: bigint): Promise<TxResult> {
@@ -210,22 +753,17 @@ export function createWalletClient(
         throw new WalletError('INVALID_CONFIG', 'amount must be greater than 0.');
       }
 
-      // Fetch mint decimals for TransferChecked
-      let decimals: number;
-      try {
-        const mintInfo = await getMint(connection, mint, 'confirmed');
-        decimals = mintInfo.decimals;
-      } catch (err) {
-        throw new WalletError('RPC_ERROR', 'Failed to fetch mint info.', err);
-      }
+      // Read fresh each time: transfer fees are scheduled per epoch
+      const mintInfo = await getTokenMintInfo(connection, mint);
+      const { programId } = mintInfo;
 
       const fromAta = await client.getOrCreateTokenAccount(mint);
-      const toAta = await getAssociatedTokenAddress(mint, to);
+      const toAta = getTokenAddress(mint, to, programId);
 
       // Ensure destination ATA exists
       let toAtaExists = false;
       try {
-        await getAccount(connection, toAta, 'confirmed');
+        await getAccount(connection, toAta, 'confirmed', programId);
         toAtaExists = true;
       } catch (err) {
         if (!(err instanceof TokenAccountNotFoundError)) {
@@ -237,7 +775,7 @@ export function createWalletClient(
 
       if (!toAtaExists) {
         instructions.push(
-          createAssociatedTokenAccountInstruction(publicKey, toAta, to, mint),
+          createAssociatedTokenAccountInstruction(publicKey, toAta, to, mint, programId),
         );
       }
 
@@ -245,38 +783,210 @@ export function createWalletClient(
         ComputeBudgetProgram.setComputeUnitPrice({
           microLamports: DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS,
         }),
-        createTransferCheckedInstruction(fromAta, mint, toAta, publicKey, amount, decimals),
+        await createTokenTransferInstruction(connection, mintInfo, fromAta, toAta, publicKey, amount),
       );
 
+      const fee = calculateTokenTransferFee(mintInfo, amount);
+      if (fee > 0n) {
+        logger.info({ mint: mint.toBase58(), amount: amount.toString(), fee: fee.toString() }, 'Token transfer fee withheld from recipient');
+      }
+
       const tx = await buildVersionedTx(instructions, publicKey);
+      return client.signAndSendTransaction(tx, amount, to.toBase58(), mint.toBase58());
+    },
+
+    async buildTransaction(
+      instructions: TransactionInstruction[],
+      lookupTables?: PublicKey[],
+    ): Promise<VersionedTransaction> {
+      return buildVersionedTx(instructions, publicKey, lookupTables);
+    },
+
+    async sendBatch(transfers: BatchTransfer[]): Promise<BatchTransferResult[]> {
+      if (transfers.some((t) => t.amount <= 0n)) {
+        throw new WalletError('INVALID_CONFIG', 'Every transfer amount must be greater than 0.');
+      }
+      if (transfers.length === 0) return [];
+
+      // Everything is checked before the first transaction goes out
+      const legs = await planBatch(transfers);
+      guard.checkBatch(legs.map((leg) => leg.intent));
+      const lookupTables = await loadLookupTables(connection, mergedConfig.lookupTables ?? []);
+      const groups = packLegs(legs, (group) => fitsInOneTransaction(group, lookupTables));
+      await checkBatchFunds(groups);
+      logger.info({ transfers: transfers.length, transactions: groups.length }, 'Sending batch');
+
+      const outcomes = await sendGroups(groups);
+      return transfers.map(({ to, amount, mint }, i) => ({
+        to: to.toBase58(),
+        amount,
+        ...(mint !== undefined && { mint: mint.toBase58() }),
+        ...(outcomes.get(i) ?? { signature: null, status: 'skipped' }),
+      }));
+    },
+
+    async wrapSol(lamports: bigint): Promise<TxResult> {
+      if (lamports <= 0n) {
+        throw new WalletError('INVALID_CONFIG', 'lamports must be greater than 0.');
+      }
+
+      const balance = await client.getSolBalance();
+      if (balance < lamports) {
+        throw new WalletError(
+          'INSUFFICIENT_FUNDS',
+          `Insufficient SOL: have ${balance} lamports, need ${lamports}.`,
+        );
+      }
+
+      const ata = getTokenAddress(NATIVE_MINT, publicKey, TOKEN_PROGRAM_ID);
+      const tx = await buildVersionedTx([
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS }),
+        // The rent deposit, when the account is new, counts against the limits
+        createAssociatedTokenAccountIdempotentInstruction(publicKey, ata, publicKey, NATIVE_MINT),
+        SystemProgram.transfer({ fromPubkey: publicKey, toPubkey: ata, lamports: Number(lamports) }),
+        createSyncNativeInstruction(ata),
+      ], publicKey);
+      return client.signAndSendTransaction(tx, lamports);
+    },
+
+    async unwrapSol(): Promise<TxResult> {
+      const ata = getTokenAddress(NATIVE_MINT, publicKey, TOKEN_PROGRAM_ID);
+      try {
+        await getAccount(connection, ata, 'confirmed', TOKEN_PROGRAM_ID);
+      } catch (err) {
+        if (err instanceof TokenAccountNotFoundError) {
+          throw new WalletError('INVALID_CONFIG', 'The wallet has no wrapped SOL account.');
+        }
+        throw new WalletError('RPC_ERROR', 'Failed to check the wrapped SOL account.', err);
+      }
+
+      const tx = await buildVersionedTx([
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: DEFAULT_PRIORITY_FEE_MICRO_LAMPORTS }),
+        createCloseAccountInstruction(ata, publicKey, publicKey),
+      ], publicKey);
       return client.signAndSendTransaction(tx);
     },
 
+    async closeEmptyTokenAccounts(mints?: PublicKey[]): Promise<ClosedTokenAccount[]> {
+      const empty = await findEmptyTokenAccounts(connection, publicKey, mints);
+      if (empty.length === 0) return [];
+
+      // Closing to the wallet itself spends nothing but the fee
+      const legs: BatchLeg[] = empty.map(({ address, programId }, index) => ({
+        index,
+        instructions: [createCloseAccountInstruction(address, publicKey, publicKey, [], programId)],
+        intent: { lamports: 0n, tokens: {}, destinations: [] },
+        computeUnits: CLOSE_TOKEN_ACCOUNT_COMPUTE_UNITS,
+      }));
+      const lookupTables = await loadLookupTables(connection, mergedConfig.lookupTables ?? []);
+      const groups = packLegs(legs, (group) => fitsInOneTransaction(group, lookupTables));
+      logger.info({ accounts: empty.length, transactions: groups.length }, 'Closing empty token accounts');
+
+      const outcomes = await sendGroups(groups);
+      return empty.map(({ address, mint, lamports }, i) => ({
+        account: address.toBase58(),
+        mint: mint.toBase58(),
+        lamports,
+        ...(outcomes.get(i) ?? { signature: null, status: 'skipped' }),
+      }));
+    },
+
     async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+      await vet(tx);
       return signTx(tx);
     },
 
     async signAndSendTransaction(
       tx: Transaction | VersionedTransaction,
-      estimatedLamports: bigint = 0n,
+      estimatedAmount: bigint = 0n,
       destination?: string,
+      mint?: string,
     ): Promise<TxResult> {
-      // Enforce spending limits before touching the keypair
-      if (estimatedLamports > 0n) {
-        guard.check(estimatedLamports, destination);
+      // Decode the transaction and enforce policy and spending limits before asking the signer
+      const inspection = await vet(tx);
+
+      const intent = toSpendIntent(inspection, publicKey, { amount: estimatedAmount, mint, destination });
+      // Lookup-table rent moves by CPI, out of the inspector's sight, so it is priced here
+      const tableRentLamports = await estimateLookupTableRent(connection, inspection);
+      const spends = intent.lamports > 0n || Object.keys(intent.tokens).length > 0;
+      // Late landings count against the limits before this spend is checked
+      const key = intentKey(intent);
+      await settlePending(spends ? key : undefined);
+
+      // High-value spends also need the guardian's signature
+      const coSigner = mergedConfig.coSigner;
+      const coSign = coSigner !== undefined && spends && (
+        Object.keys(intent.tokens).length > 0 ||
+        intent.lamports > (mergedConfig.coSignThresholdLamports ?? 0n)
+      );
+      let toSend = coSign ? await requireCoSigner(tx, coSigner.publicKey) : tx;
+      if (mergedConfig.priorityFee) toSend = await budget(toSend, inspection);
+
+      // Fees and new-account rent count against the lamport caps, even with nothing else spent
+      const newAccounts = await findMissingAccounts(connection, inspection.createdTokenAccounts);
+      intent.feeLamports = estimateNetworkFee(toSend, inspection);
+      intent.rentLamports = tableRentLamports + await estimateTokenAccountRent(
+        connection,
+        newAccounts,
+        inspection.createdTokenAccountMints,
+      );
+      if (spends && guard.requiresUsdValuation()) {
+        intent.usdValue = await valueInUsd(intent);
       }
+      guard.checkIntent(intent);
+      const requestId = randomUUID();
+      const estimate: CoSignRequest['estimate'] = { amount: estimatedAmount };
+      if (mint) estimate.mint = mint;
+      if (destination) estimate.destination = destination;
+
+      // Snapshot balances so the confirmed outcome can be checked against the intent
+      const before = await takeBalanceSnapshot(connection, publicKey);
+
+      if (mergedConfig.useDurableNonce) nonceAddress ??= await getNonceAddress(publicKey);
 
       const result = await sendAndConfirm({
         connection,
-        transaction: tx,
-        signerFn: signTx,
+        transaction: toSend,
+        signerFn: coSign
+          ? (t): Promise<Transaction | VersionedTransaction> => coSignTx(t, coSigner, requestId, estimate)
+          : signTx,
         config: mergedConfig,
         logger,
+        ...(mergedConfig.useDurableNonce && nonceAddress && { nonce: { address: nonceAddress, authority: publicKey } }),
+        onBroadcast: (sent) => {
+          const tx: OutgoingTx = {
+            signature: sent.signature,
+            intentKey: key,
+            lamports: intent.lamports + (intent.feeLamports ?? 0n) + (intent.rentLamports ?? 0n),
+          };
+          if (sent.lastValidBlockHeight !== undefined) tx.lastValidBlockHeight = sent.lastValidBlockHeight;
+          if (sent.nonceAccount) {
+            tx.nonceAccount = sent.nonceAccount.toBase58();
+            if (sent.nonce !== undefined) tx.nonce = sent.nonce;
+          }
+          journal.record(tx);
+          unresolvedIntents.set(sent.signature, intent);
+        },
       });
 
+      // Settle what this call saw land; timeouts and superseded retries stay pending
+      if (result.signature && (result.status === 'confirmed' || result.status === 'failed')) {
+        const settled = journal.pending().find((tx) => tx.signature === result.signature);
+        if (settled) journal.resolve(settled, result.status, false);
+        unresolvedIntents.delete(result.signature);
+      }
+
       // Record actual spend on confirmation
-      if (result.status === 'confirmed' && estimatedLamports > 0n) {
-        guard.record(estimatedLamports);
+      if (result.status === 'confirmed') {
+        // The fee read back from the confirmed transaction replaces the estimate
+        const feeLamports = result.feeLamports !== undefined ? BigInt(result.feeLamports) : intent.feeLamports;
+        let actual: SpendIntent = { ...intent, feeLamports };
+        try {
+          actual = await verifyBalances(intent, before, newAccounts, feeLamports, result.signature, tableRentLamports);
+        } catch (err) {
+          logger.error({ err, signature: result.signature }, 'Balance verification failed; recording the estimate');
+        }
+        guard.recordIntent(actual);
       }
 
       logger.info(
@@ -296,8 +1006,14 @@ export function createWalletClient(
       const s = guard.getStatus();
       return {
         sessionSpend: s.sessionSpend,
+        sessionFees: s.sessionFees,
+        sessionRent: s.sessionRent,
+        ...(s.sessionFeeCap !== undefined && { sessionFeeCap: s.sessionFeeCap }),
         sessionCap: s.sessionCap,
         perTxCap: s.perTxCap,
+        remainingBudget: s.remainingBudget,
+        bindingWindow: s.bindingWindow,
+        windows: s.windows,
       };
     },
   };
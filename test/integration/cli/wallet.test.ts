@@ -3,6 +3,7 @@
  *
  * Test gates from implementation plan:
  *  ✅ `agentw wallet create` creates a keystore file on disk
+ *  ✅ A v1 keystore written by an older release still unlocks
  *  ✅ `agentw wallet balance` prints SOL balance
  *  ✅ `agentw wallet airdrop` increases balance
  *
@@ -15,6 +16,8 @@ import { spawnSync } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { createKeystore } from '../../../src/wallet/keystore.js';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -78,7 +81,7 @@ describe('agentw wallet create — integration', () => {
       publicKey: string;
       encrypted: Record<string, unknown>;
     };
-    expect(contents.version).toBe(1);
+    expect(contents.version).toBe(2);
     expect(typeof contents.publicKey).toBe('string');
     expect(contents.publicKey.length).toBeGreaterThan(30);
     expect(contents.encrypted).toBeDefined();
@@ -114,6 +117,28 @@ describe('agentw wallet create — integration', () => {
   });
 });
 
+describe('agentw wallet rekey — v1 keystore (no devnet)', () => {
+  it('GATE: unlocks a v1 keystore and rewrites it as v2', () => {
+    const name = 'integ-legacy-wallet';
+    const kpPath = path.join(tmpDir, 'keystores', `${name}.keystore.json`);
+    const keypair = Keypair.generate();
+    // The v1 layout is the scrypt block of v2 under version 1
+    const ks = createKeystore(keypair, TEST_PASS, kpPath, { kdf: 'scrypt' });
+    fs.writeFileSync(kpPath, JSON.stringify({ ...ks, version: 1 }, null, 2), { mode: 0o600 });
+
+    const result = cli(['wallet', 'rekey', '--name', name, '--password', TEST_PASS], tmpDir);
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain(keypair.publicKey.toBase58());
+    const contents = JSON.parse(fs.readFileSync(kpPath, 'utf8')) as {
+      version: number;
+      publicKey: string;
+    };
+    expect(contents.version).toBe(2);
+    expect(contents.publicKey).toBe(keypair.publicKey.toBase58());
+  }, 15_000);
+});
+
 describe('agentw wallet list — integration', () => {
   it('lists the created wallet', () => {
     const result = cli(['wallet', 'list'], tmpDir);
@@ -50,6 +50,7 @@ function makeIsolatedWallet(): WalletClient {
     publicKey: kp.publicKey,
     getSolBalance: vi.fn().mockResolvedValue(500_000_000n),
     getTokenBalance: vi.fn().mockResolvedValue(0n),
+    getTokenAccounts: vi.fn().mockResolvedValue([]),
     getOrCreateTokenAccount: vi.fn(),
     sendSol: vi.fn(),
     sendToken: vi.fn(),
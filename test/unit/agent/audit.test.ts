@@ -6,13 +6,17 @@
  *  ✅ sanitiseDetails strips all forbidden field names
  *  ✅ Round-trip: insert → query returns correct data
  *  ✅ count() returns correct row counts per agent
+ *  ✅ getSpendLedger() replays confirmed spend for one agent/wallet
+ *  ✅ getTxJournal() keeps pending transactions across restarts; reconciled outcomes are audited
+ *  ✅ Approvals: request → decide → claim once; expired approvals cannot be decided or claimed
+ *  ✅ Halts: global and per-agent halts apply until resumed, and both are audited
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import { AuditDb, sanitiseDetails, assertNoKeyMaterial } from '../../../src/logger/audit.js';
+import { AuditDb, HALT_ALL, sanitiseDetails, assertNoKeyMaterial } from '../../../src/logger/audit.js';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -218,3 +222,183 @@ describe('AuditDb — insert and query', () => {
     expect(db.isClosed).toBe(true);
   });
 });
+
+describe('AuditDb — getSpendLedger()', () => {
+  let db: AuditDb;
+  let cleanup: () => void;
+
+  beforeEach(() => {
+    ({ db, cleanup } = makeTmpDb());
+  });
+
+  afterEach(() => cleanup());
+
+  it('returns confirmed spend for the matching agent and wallet only', () => {
+    db.log('agent-1', 'pk1', 'tx_confirmed', { spentLamports: '1000' }, { signature: 'a', status: 'confirmed' });
+    db.log('agent-1', 'pk1', 'tx_failed',    { spentLamports: '9999' });
+    db.log('agent-1', 'pk2', 'tx_confirmed', { spentLamports: '2000' }, { signature: 'b', status: 'confirmed' });
+    db.log('agent-2', 'pk1', 'tx_confirmed', { spentLamports: '3000' }, { signature: 'c', status: 'confirmed' });
+    db.log('agent-1', 'pk1', 'tx_confirmed', { lastTxAmount: '4000' },  { signature: 'd', status: 'confirmed' });
+
+    const records = db.getSpendLedger('agent-1', 'pk1').load();
+    expect(records.map((r) => r.lamports)).toEqual([1000n, 4000n]);
+    expect(records.every((r) => Number.isFinite(r.ts))).toBe(true);
+  });
+
+  it('skips confirmed rows without a spend amount', () => {
+    db.log('agent-1', 'pk1', 'tx_confirmed', { tick: 1 }, { signature: 'a', status: 'confirmed' });
+    expect(db.getSpendLedger('agent-1', 'pk1').load()).toEqual([]);
+  });
+});
+
+describe('AuditDb — getTxJournal()', () => {
+  let db: AuditDb;
+  let cleanup: () => void;
+
+  beforeEach(() => {
+    ({ db, cleanup } = makeTmpDb());
+  });
+
+  afterEach(() => cleanup());
+
+  const tx = (signature: string) => ({ signature, intentKey: 'k', lamports: 1_000n, lastValidBlockHeight: 42 });
+
+  it('returns pending transactions for the matching agent and wallet, oldest first', () => {
+    const journal = db.getTxJournal('agent-1', 'pk1');
+    journal.record(tx('a'));
+    journal.record({ signature: 'b', intentKey: 'k', lamports: 1_000n, nonceAccount: 'n', nonce: 'v' });
+    journal.record(tx('a'));
+    db.getTxJournal('agent-2', 'pk1').record(tx('c'));
+
+    expect(db.getTxJournal('agent-1', 'pk1').pending()).toEqual([
+      tx('a'),
+      { signature: 'b', intentKey: 'k', lamports: 1_000n, nonceAccount: 'n', nonce: 'v' },
+    ]);
+  });
+
+  it('audits reconciled outcomes so the spend ledger sees late confirmations', () => {
+    const journal = db.getTxJournal('agent-1', 'pk1');
+    journal.record(tx('late'));
+    journal.record(tx('gone'));
+    journal.record(tx('seen'));
+
+    journal.resolve(tx('late'), 'confirmed', true);
+    journal.resolve(tx('gone'), 'expired', true);
+    journal.resolve(tx('seen'), 'confirmed', false);
+    journal.resolve(tx('late'), 'confirmed', true);
+
+    expect(journal.pending()).toEqual([]);
+    expect(db.count('agent-1', undefined, 'tx_confirmed')).toBe(1);
+    expect(db.count('agent-1', undefined, 'tx_expired')).toBe(1);
+    expect(db.getSpendLedger('agent-1', 'pk1').load().map((r) => r.lamports)).toEqual([1000n]);
+  });
+});
+
+describe('AuditDb — approvals', () => {
+  let db: AuditDb;
+  let cleanup: () => void;
+
+  const request = {
+    agentId: 'agent-1',
+    walletPk: 'pk1',
+    action: { type: 'transfer', params: { to: 'dest', lamports: 900_000_000n }, rationale: 'big transfer' },
+    lamports: 900_000_000n,
+    ttlMs: 60_000,
+  };
+
+  beforeEach(() => {
+    ({ db, cleanup } = makeTmpDb());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+  });
+
+  it('requestApproval() queues a pending row with stringified params and audits it', () => {
+    const id = db.requestApproval(request);
+
+    const [row] = db.listApprovals({ agentId: 'agent-1' });
+    expect(row).toMatchObject({ id, status: 'pending', action_type: 'transfer', lamports: '900000000' });
+    expect(JSON.parse(row!.action_json)).toMatchObject({ params: { lamports: '900000000' } });
+    expect(db.count('agent-1', 'pk1', 'approval_requested')).toBe(1);
+  });
+
+  it('an approved action can be claimed exactly once', () => {
+    const id = db.requestApproval(request);
+    db.decideApproval(id, 'approved', 'alice');
+
+    expect(db.claimApprovedAction('agent-1', 'pk1')?.id).toBe(id);
+    expect(db.claimApprovedAction('agent-1', 'pk1')).toBeUndefined();
+    expect(db.getApproval(id)?.status).toBe('executed');
+    expect(db.count('agent-1', 'pk1', 'approval_granted')).toBe(1);
+  });
+
+  it('rejected and pending actions are never claimed', () => {
+    const rejected = db.requestApproval(request);
+    db.decideApproval(rejected, 'rejected', 'alice');
+    db.requestApproval(request);
+
+    expect(db.claimApprovedAction('agent-1', 'pk1')).toBeUndefined();
+    expect(() => db.decideApproval(rejected, 'approved', 'alice')).toThrow(/rejected, not pending/);
+  });
+
+  it('expired approvals can be neither approved nor executed', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const unapproved = db.requestApproval(request);
+    const approved = db.requestApproval(request);
+    db.decideApproval(approved, 'approved', 'alice');
+
+    vi.setSystemTime(Date.now() + 60_001);
+
+    expect(() => db.decideApproval(unapproved, 'approved', 'alice')).toThrow(/expired/);
+    expect(db.claimApprovedAction('agent-1', 'pk1')).toBeUndefined();
+    expect(db.listApprovals({ status: 'expired' })).toHaveLength(2);
+  });
+
+  it('decideApproval() throws for an unknown id', () => {
+    expect(() => db.decideApproval(42, 'approved', 'alice')).toThrow(/not found/);
+  });
+});
+
+// ── Halts ─────────────────────────────────────────────────────────────────────
+
+describe('AuditDb — halts', () => {
+  let db: AuditDb;
+  let cleanup: () => void;
+
+  beforeEach(() => {
+    ({ db, cleanup } = makeTmpDb());
+  });
+
+  afterEach(() => cleanup());
+
+  it('a per-agent halt applies only to that agent until resumed', () => {
+    const id = db.halt('agent-1', 'investigating', 'manual', 'alice');
+
+    expect(db.getActiveHalt('agent-1')).toMatchObject({ id, reason: 'investigating', source: 'manual' });
+    expect(db.getActiveHalt('agent-2')).toBeUndefined();
+
+    expect(db.resume('agent-1', 'bob').map((h) => h.id)).toEqual([id]);
+    expect(db.getActiveHalt('agent-1')).toBeUndefined();
+    expect(db.count('agent-1', undefined, 'agent_halted')).toBe(1);
+    expect(db.count('agent-1', undefined, 'agent_resumed')).toBe(1);
+  });
+
+  it('a global halt covers every agent and survives a per-agent resume', () => {
+    const global = db.halt(HALT_ALL, 'incident', 'manual', 'alice');
+
+    expect(db.getActiveHalt('agent-1')?.id).toBe(global);
+    expect(db.resume('agent-1', 'bob')).toEqual([]);
+    expect(db.getActiveHalt('agent-1')?.id).toBe(global);
+
+    db.resume(HALT_ALL, 'bob');
+    expect(db.getActiveHalt('agent-1')).toBeUndefined();
+    expect(db.listActiveHalts()).toEqual([]);
+  });
+
+  it('resume() writes no event when nothing was halted', () => {
+    expect(db.resume('agent-1', 'bob')).toEqual([]);
+    expect(db.count('agent-1', undefined, 'agent_resumed')).toBe(0);
+  });
+});
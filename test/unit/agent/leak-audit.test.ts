@@ -49,6 +49,7 @@ describe('Secret leak audit (Phase 5.1)', () => {
             );
             wallet.getSolBalance = async () => 500_000_000n;
             wallet.getTokenBalance = async () => 0n;
+            wallet.getTokenAccounts = async () => [];
 
             // 3. Setup Universal strategy
             const { LLMDecider } = await import('../../../src/agent/strategies/llm.js');
@@ -19,7 +19,12 @@ describe('LLMDecider', () => {
         agentId: 'test-agent',
         walletPubkey: 'TestWalletPubkey1111111111111111111111111',
         solBalance: 500_000_000n,
-        tokenBalances: new Map([['TokenMint1111111111111111111111111', 1000n]]),
+        tokenBalances: new Map([['TokenMint1111111111111111111111111', {
+            mint: 'TokenMint1111111111111111111111111',
+            programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+            amount: 1000n,
+            decimals: 6,
+        }]]),
         lastActionAt: new Date(),
         tickCount: 1,
         snapshotAt: Date.now(),
@@ -9,10 +9,17 @@
  *  ✅ Throwing decide() writes agent_error to audit DB
  *  ✅ LIMIT_BREACH error writes limit_breach event to audit DB
  *  ✅ getState() reflects live loop state
+ *  ✅ State carries every held token and tracked mint with decimals
+ *  ✅ Each tick records a valued portfolio snapshot; swaps log their fee and amounts
+ *  ✅ Actions over approvalThresholdLamports are queued, not executed
+ *  ✅ SPL-input swaps are valued through the oracle; unvalued ones are queued
+ *  ✅ Approved actions execute on the next tick
+ *  ✅ Halted agents skip ticks until resumed
+ *  ✅ Circuit breaker trips on consecutive failures and on a balance drop
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Keypair } from '@solana/web3.js';
+import { Keypair, type PublicKey } from '@solana/web3.js';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
@@ -21,7 +28,7 @@ import { AuditDb } from '../../../src/logger/audit.js';
 import { WalletError } from '../../../src/wallet/types.js';
 import { createLogger } from '../../../src/logger/logger.js';
 import type { AgentConfig, AgentState, Strategy, Action } from '../../../src/agent/types.js';
-import type { WalletClient } from '../../../src/wallet/types.js';
+import type { PriceOracle, WalletClient } from '../../../src/wallet/types.js';
 import type { AdapterRegistry } from '../../../src/protocols/types.js';
 
 // ── Factories ─────────────────────────────────────────────────────────────────
@@ -49,12 +56,16 @@ function makeWallet(): WalletClient {
     publicKey: kp.publicKey,
     getSolBalance: vi.fn().mockResolvedValue(500_000_000n),
     getTokenBalance: vi.fn().mockResolvedValue(0n),
+    getTokenAccounts: vi.fn().mockResolvedValue([]),
     getOrCreateTokenAccount: vi.fn(),
     sendSol: vi.fn(),
     sendToken: vi.fn(),
     signTransaction: vi.fn(async (tx) => tx),
     signAndSendTransaction: vi.fn().mockResolvedValue({ signature: 'fakesig', status: 'confirmed', slot: 1 }),
-    getSpendingLimitStatus: vi.fn().mockReturnValue({ sessionSpend: 0n, sessionCap: 500_000_000n, perTxCap: 100_000_000n }),
+    getSpendingLimitStatus: vi.fn().mockReturnValue({
+      sessionSpend: 0n, sessionFees: 0n, sessionRent: 0n, sessionCap: 500_000_000n, perTxCap: 100_000_000n,
+      remainingBudget: 500_000_000n, bindingWindow: 'session', windows: [],
+    }),
     toJSON: () => kp.publicKey.toBase58(),
     toString: () => kp.publicKey.toBase58(),
   } as WalletClient;
@@ -275,6 +286,95 @@ describe('AgentLoop — crash isolation', () => {
   });
 });
 
+describe('AgentLoop — state gathering', () => {
+  it('reports every held token and tracked mint with its decimals', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const usdc = {
+        mint: USDC_MINT, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', amount: 2_500_000n, decimals: 6, symbol: 'USDC',
+      };
+      const wallet = makeWallet();
+      (wallet.getTokenAccounts as ReturnType<typeof vi.fn>).mockResolvedValue([usdc]);
+
+      let seen: AgentState | undefined;
+      const strategy = makeNoopStrategy();
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async (state: AgentState) => {
+        seen = state;
+        loop.stop();
+        return { type: 'noop', params: {}, rationale: 'stop' };
+      });
+
+      const loop = new AgentLoop(makeConfig({ trackedMints: [USDC_MINT] }), wallet, strategy, makeAdapters(), logger, db);
+      await loop.start();
+
+      const [include] = (wallet.getTokenAccounts as ReturnType<typeof vi.fn>).mock.calls[0] as [PublicKey[]];
+      expect(include.map((mint) => mint.toBase58())).toEqual([USDC_MINT]);
+      expect(seen?.tokenBalances.get(USDC_MINT)).toEqual(usdc);
+    } finally { cleanup(); }
+  });
+});
+
+describe('AgentLoop — portfolio snapshots', () => {
+  function makeOracle(getPrices: PriceOracle['getPrices']): PriceOracle {
+    return { getPrice: vi.fn(), getPrices: vi.fn(getPrices) };
+  }
+
+  it('records a valued snapshot each tick and logs swap fee and amounts', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy = makeSwapStrategy();
+      let calls = 0;
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        if (++calls > 1) { loop.stop(); return { type: 'noop', params: {}, rationale: 'stop' }; }
+        return {
+          type: 'swap',
+          params: { inputMint: 'So11111111111111111111111111111111111111112', outputMint: USDC_MINT, amountIn: 10_000_000n, slippageBps: 100, adapter: 'jupiter' },
+          rationale: 'tick 1',
+        };
+      });
+      (strategy.execute as ReturnType<typeof vi.fn>).mockResolvedValue({
+        signature: 'swapsig', status: 'confirmed', slot: 1, feeLamports: 5_000,
+        inputMint: 'So11111111111111111111111111111111111111112', outputMint: USDC_MINT,
+        inAmount: 10_000_000n, outAmount: 1_500_000n,
+      });
+      const oracle = makeOracle(async (mints) => new Map(mints.map((mint) =>
+        [mint, { mint, priceUsd: 150, source: 'test', fetchedAt: 0 }])));
+
+      const loop = new AgentLoop(makeConfig(), makeWallet(), strategy, makeAdapters(), logger, db, oracle);
+      await loop.start();
+
+      const snapshots = db.listPortfolioSnapshots('test-agent');
+      expect(snapshots).toHaveLength(2);
+      expect(snapshots[0]?.valueUsd).toBeCloseTo(75);
+
+      const details = JSON.parse(db.query({ agentId: 'test-agent', event: 'tx_confirmed' })[0]!.details_json);
+      expect(details.feeLamports).toBe('5000');
+      expect(details.swap).toEqual({
+        inputMint: 'So11111111111111111111111111111111111111112', outputMint: USDC_MINT,
+        inAmount: '10000000', outAmount: '1500000',
+      });
+    } finally { cleanup(); }
+  });
+
+  it('keeps ticking when pricing fails', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy = makeNoopStrategy();
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        loop.stop();
+        return { type: 'noop', params: {}, rationale: 'stop' };
+      });
+      const oracle = makeOracle(async () => { throw new Error('price API down'); });
+
+      const loop = new AgentLoop(makeConfig(), makeWallet(), strategy, makeAdapters(), logger, db, oracle);
+      await loop.start();
+
+      expect(db.listPortfolioSnapshots('test-agent')).toEqual([]);
+      expect(db.query({ agentId: 'test-agent', event: 'agent_noop' })).toHaveLength(1);
+    } finally { cleanup(); }
+  });
+});
+
 describe('AgentLoop — noop ticks', () => {
   it('noop tick writes agent_noop to audit DB', async () => {
     const { db, cleanup } = makeTmpDb();
@@ -413,3 +513,248 @@ describe('AgentLoop — audit trail', () => {
     } finally { cleanup(); }
   });
 });
+
+describe('AgentLoop — approval queue', () => {
+  const bigTransfer: Action = {
+    type: 'transfer',
+    params: { to: Keypair.generate().publicKey.toBase58(), lamports: 600_000_000n },
+    rationale: 'large transfer',
+  };
+
+  it('queues an action over the threshold instead of executing it', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy: Strategy = {
+        name: 'dca',
+        decide: vi.fn()
+          .mockResolvedValueOnce(bigTransfer)
+          .mockResolvedValueOnce(bigTransfer)
+          .mockImplementation(async () => { loop.stop(); return { type: 'noop', params: {}, rationale: 'stop' }; }),
+        execute: vi.fn().mockResolvedValue(null),
+      };
+
+      const config = makeConfig({ approvalThresholdLamports: 500_000_000n });
+      const loop = new AgentLoop(config, makeWallet(), strategy, makeAdapters(), logger, db);
+      await loop.start();
+
+      expect(strategy.execute).not.toHaveBeenCalled();
+      // The second request is dropped while the first is still pending
+      const pending = db.listApprovals({ agentId: 'test-agent', status: 'pending' });
+      expect(pending).toHaveLength(1);
+      expect(pending[0]?.lamports).toBe('600000000');
+    } finally { cleanup(); }
+  });
+
+  it('executes an approved action on the next tick without consulting the strategy', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const wallet = makeWallet();
+      const id = db.requestApproval({
+        agentId: 'test-agent',
+        walletPk: wallet.publicKey.toBase58(),
+        action: bigTransfer,
+        lamports: 600_000_000n,
+        ttlMs: 60_000,
+      });
+      db.decideApproval(id, 'approved', 'test');
+
+      const strategy: Strategy = {
+        name: 'dca',
+        decide: vi.fn().mockImplementation(async () => { loop.stop(); return { type: 'noop', params: {}, rationale: 'stop' }; }),
+        execute: vi.fn().mockResolvedValue({ signature: 'approvedsig', status: 'confirmed', slot: 1 }),
+      };
+
+      const config = makeConfig({ approvalThresholdLamports: 500_000_000n });
+      const loop = new AgentLoop(config, wallet, strategy, makeAdapters(), logger, db);
+      await loop.start();
+
+      expect(strategy.execute).toHaveBeenCalledTimes(1);
+      const executed = (strategy.execute as ReturnType<typeof vi.fn>).mock.calls[0]?.[0] as Action;
+      expect(executed).toMatchObject({ type: 'transfer', params: { lamports: '600000000' } });
+      const confirmed = db.query({ agentId: 'test-agent', event: 'tx_confirmed' });
+      expect(confirmed[0]?.details_json).toContain(`"approvalId":${id}`);
+      expect(db.getApproval(id)?.status).toBe('executed');
+    } finally { cleanup(); }
+  });
+
+  it('runs actions at or below the threshold autonomously', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy = makeSwapStrategy();
+      let calls = 0;
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        if (++calls > 1) { loop.stop(); return { type: 'noop', params: {}, rationale: 'stop' }; }
+        return { type: 'transfer', params: { to: 'x', lamports: 500_000_000n }, rationale: 'at threshold' };
+      });
+
+      const config = makeConfig({ approvalThresholdLamports: 500_000_000n });
+      const loop = new AgentLoop(config, makeWallet(), strategy, makeAdapters(), logger, db);
+      await loop.start();
+
+      expect(strategy.execute).toHaveBeenCalledTimes(1);
+      expect(db.listApprovals()).toHaveLength(0);
+    } finally { cleanup(); }
+  });
+});
+
+describe('AgentLoop — approval of SPL-input swaps', () => {
+  const usdcSwap = (amountIn: bigint): Action => ({
+    type: 'swap',
+    params: { inputMint: USDC_MINT, outputMint: 'So11111111111111111111111111111111111111112', amountIn, slippageBps: 100, adapter: 'jupiter' },
+    rationale: 'sell USDC',
+  });
+
+  async function runOnce(action: Action, oracle?: PriceOracle): Promise<{ executed: boolean; approvals: string[] }> {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const wallet = makeWallet();
+      (wallet.getTokenAccounts as ReturnType<typeof vi.fn>).mockResolvedValue([{
+        mint: USDC_MINT, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', amount: 500_000_000n, decimals: 6,
+      }]);
+      const strategy = makeSwapStrategy();
+      let calls = 0;
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        if (++calls > 1) { loop.stop(); return { type: 'noop', params: {}, rationale: 'stop' }; }
+        return action;
+      });
+
+      const config = makeConfig({ approvalThresholdLamports: 500_000_000n, trackedMints: [USDC_MINT] });
+      const loop = new AgentLoop(config, wallet, strategy, makeAdapters(), logger, db, oracle);
+      await loop.start();
+
+      return {
+        executed: (strategy.execute as ReturnType<typeof vi.fn>).mock.calls.length > 0,
+        approvals: db.listApprovals({ agentId: 'test-agent' }).map((row) => row.lamports),
+      };
+    } finally { cleanup(); }
+  }
+
+  // SOL at $100, USDC at $1
+  const oracle: PriceOracle = {
+    getPrice: vi.fn(),
+    getPrices: vi.fn(async (mints: string[]) => new Map(mints.map((mint) =>
+      [mint, { mint, priceUsd: mint === USDC_MINT ? 1 : 100, source: 'test', fetchedAt: 0 }]))),
+  };
+
+  it('GATE: queues an SPL-input swap worth more than the threshold in SOL', async () => {
+    // 100 USDC = 1 SOL
+    expect(await runOnce(usdcSwap(100_000_000n), oracle)).toEqual({ executed: false, approvals: ['1000000000'] });
+  });
+
+  it('runs an SPL-input swap worth less than the threshold', async () => {
+    // 10 USDC = 0.1 SOL
+    expect(await runOnce(usdcSwap(10_000_000n), oracle)).toEqual({ executed: true, approvals: [] });
+  });
+
+  it('GATE: queues an SPL-input swap it cannot value', async () => {
+    expect(await runOnce(usdcSwap(10_000_000n))).toEqual({ executed: false, approvals: ['0'] });
+
+    const unpriced: PriceOracle = {
+      getPrice: vi.fn(),
+      getPrices: vi.fn(async (mints: string[]) => new Map(mints.map((mint) =>
+        [mint, { mint, priceUsd: null, source: 'test', fetchedAt: 0 }]))),
+    };
+    expect(await runOnce(usdcSwap(10_000_000n), unpriced)).toEqual({ executed: false, approvals: ['0'] });
+  });
+});
+
+describe('AgentLoop — halts and circuit breaker', () => {
+  it('skips ticks while halted and picks up again once resumed', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      db.halt('test-agent', 'maintenance', 'manual', 'test');
+      const strategy = makeNoopStrategy();
+      let haltedTicks = 0;
+      const loop = new AgentLoop(makeConfig(), makeWallet(), strategy, makeAdapters(), logger, db);
+      const getActiveHalt = db.getActiveHalt.bind(db);
+      vi.spyOn(db, 'getActiveHalt').mockImplementation((agentId) => {
+        // Resume from "another process" after two halted ticks
+        if (++haltedTicks === 3) db.resume('test-agent', 'test');
+        return getActiveHalt(agentId);
+      });
+      (strategy.decide as ReturnType<typeof vi.fn>).mockImplementation(async () => {
+        loop.stop();
+        return { type: 'noop', params: {}, rationale: 'stop' };
+      });
+
+      await loop.start();
+
+      expect(strategy.decide).toHaveBeenCalledTimes(1);
+      const rationales = db.query({ agentId: 'test-agent', event: 'agent_noop' })
+        .map((r) => JSON.parse(r.details_json).rationale as string);
+      expect(rationales.filter((r) => r.startsWith('Halted'))).toHaveLength(2);
+    } finally { cleanup(); }
+  });
+
+  it('trips after N consecutive failures and stops deciding', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy = makeSwapStrategy();
+      (strategy.execute as ReturnType<typeof vi.fn>)
+        .mockRejectedValueOnce(new WalletError('LIMIT_BREACH', 'over cap'))
+        .mockResolvedValue({ signature: 'failsig', status: 'failed', slot: 1 });
+
+      const config = makeConfig({ circuitBreaker: { maxConsecutiveFailures: 3 } });
+      const loop = new AgentLoop(config, makeWallet(), strategy, makeAdapters(), logger, db);
+      const getActiveHalt = db.getActiveHalt.bind(db);
+      let checks = 0;
+      vi.spyOn(db, 'getActiveHalt').mockImplementation((agentId) => {
+        if (++checks > 5) loop.stop();
+        return getActiveHalt(agentId);
+      });
+
+      await loop.start();
+
+      expect(strategy.execute).toHaveBeenCalledTimes(3);
+      const halt = getActiveHalt('test-agent');
+      expect(halt).toMatchObject({ source: 'circuit_breaker' });
+      expect(halt?.reason).toMatch(/3 consecutive failures \(last: tx_failed\)/);
+      expect((await loop.getState()).status).toBe('stopped');
+    } finally { cleanup(); }
+  });
+
+  it('a confirmed transaction resets the failure streak', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const strategy = makeSwapStrategy();
+      const failed = { signature: 'failsig', status: 'failed', slot: 1 };
+      (strategy.execute as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(failed)
+        .mockResolvedValueOnce({ signature: 'oksig', status: 'confirmed', slot: 1 })
+        .mockResolvedValueOnce(failed)
+        .mockImplementationOnce(async () => { loop.stop(); return failed; });
+
+      const config = makeConfig({ circuitBreaker: { maxConsecutiveFailures: 3 } });
+      const loop = new AgentLoop(config, makeWallet(), strategy, makeAdapters(), logger, db);
+      await loop.start();
+
+      expect(db.getActiveHalt('test-agent')).toBeUndefined();
+    } finally { cleanup(); }
+  });
+
+  it('trips when the SOL balance falls by the configured percentage within the window', async () => {
+    const { db, cleanup } = makeTmpDb();
+    try {
+      const wallet = makeWallet();
+      (wallet.getSolBalance as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(1_000_000_000n)
+        .mockResolvedValueOnce(900_000_000n)
+        .mockResolvedValue(790_000_000n);
+      const strategy = makeNoopStrategy();
+
+      const config = makeConfig({ circuitBreaker: { maxBalanceDropPct: 20, balanceDropWindowMs: 60_000 } });
+      const loop = new AgentLoop(config, wallet, strategy, makeAdapters(), logger, db);
+      const getActiveHalt = db.getActiveHalt.bind(db);
+      vi.spyOn(db, 'getActiveHalt').mockImplementation((agentId) => {
+        const halt = getActiveHalt(agentId);
+        if (halt) loop.stop();
+        return halt;
+      });
+      await loop.start();
+
+      // Ticks 1 and 2 decide; tick 3 sees a 21% drop and halts before deciding
+      expect(strategy.decide).toHaveBeenCalledTimes(2);
+      expect(getActiveHalt('test-agent')?.reason).toMatch(/fell 21%/);
+    } finally { cleanup(); }
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for src/agent/pnl.ts
+ *
+ * Test gates:
+ *  ✅ Portfolios are valued with one price lookup, WSOL folded into SOL
+ *  ✅ Swaps realise against average cost; fees are a realised loss
+ *  ✅ Transfers out remove basis without counting as a loss
+ *  ✅ External deposits and withdrawals are netted out of PnL
+ *  ✅ Unpriced holdings are excluded and reported
+ *  ✅ getAgentPnl() reads snapshots and confirmed txs back from the audit DB
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { valuePortfolio, computePnl, getAgentPnl, parseSince, SOL_MINT } from '../../../src/agent/pnl.js';
+import { AuditDb, type AuditRow, type PortfolioSnapshot } from '../../../src/logger/audit.js';
+import type { AgentState } from '../../../src/agent/types.js';
+import type { PriceOracle, PriceQuote } from '../../../src/wallet/types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const UNKNOWN = 'Unknown1111111111111111111111111111111111111';
+const SOL = 1_000_000_000n;
+
+function snapshot(ts: string, solAmount: bigint, solPrice: number, usdcAmount = 0n): PortfolioSnapshot {
+  const holdings = [
+    { mint: SOL_MINT, symbol: 'SOL', amount: solAmount, decimals: 9, priceUsd: solPrice },
+    { mint: USDC, symbol: 'USDC', amount: usdcAmount, decimals: 6, priceUsd: 1 },
+  ];
+  return {
+    ts,
+    agentId: 'agent-1',
+    walletPk: 'pk1',
+    holdings,
+    valueUsd: Number(solAmount) / 1e9 * solPrice + Number(usdcAmount) / 1e6,
+  };
+}
+
+let rowId = 0;
+function confirmed(ts: string, details: Record<string, unknown>): AuditRow {
+  return {
+    id: ++rowId,
+    ts,
+    agent_id: 'agent-1',
+    event: 'tx_confirmed',
+    wallet_pk: 'pk1',
+    signature: `sig${rowId}`,
+    status: 'confirmed',
+    details_json: JSON.stringify(details),
+  };
+}
+
+function fakeOracle(prices: Record<string, number>): PriceOracle {
+  const quote = (mint: string): PriceQuote =>
+    ({ mint, priceUsd: prices[mint] ?? null, source: 'test', fetchedAt: 0 });
+  return {
+    getPrice: vi.fn(async (mint: string) => quote(mint)),
+    getPrices: vi.fn(async (mints: string[]) => new Map(mints.map((m) => [m, quote(m)]))),
+  };
+}
+
+// ── valuePortfolio ────────────────────────────────────────────────────────────
+
+describe('valuePortfolio()', () => {
+  it('values SOL and every token, folding WSOL into SOL', async () => {
+    const state = {
+      agentId: 'agent-1',
+      walletPubkey: 'pk1',
+      solBalance: 2n * SOL,
+      tokenBalances: new Map([
+        [SOL_MINT, { mint: SOL_MINT, programId: 'p', amount: SOL, decimals: 9, symbol: 'WSOL' }],
+        [USDC, { mint: USDC, programId: 'p', amount: 50_000_000n, decimals: 6, symbol: 'USDC' }],
+        [UNKNOWN, { mint: UNKNOWN, programId: 'p', amount: 7n, decimals: 0 }],
+      ]),
+      snapshotAt: Date.parse('2026-01-01T00:00:00Z'),
+    } as unknown as AgentState;
+    const oracle = fakeOracle({ [SOL_MINT]: 100, [USDC]: 1 });
+
+    const snap = await valuePortfolio(state, oracle);
+
+    expect(oracle.getPrices).toHaveBeenCalledTimes(1);
+    expect(snap.ts).toBe('2026-01-01T00:00:00.000Z');
+    expect(snap.holdings.map((h) => [h.mint, h.amount, h.priceUsd])).toEqual([
+      [SOL_MINT, 3n * SOL, 100],
+      [USDC, 50_000_000n, 1],
+      [UNKNOWN, 7n, null],
+    ]);
+    expect(snap.valueUsd).toBeCloseTo(350);
+  });
+});
+
+// ── computePnl ────────────────────────────────────────────────────────────────
+
+describe('computePnl()', () => {
+  it('realises swaps against average cost and charges fees', () => {
+    const snaps = [
+      snapshot('2026-01-01T00:00:00.000Z', 10n * SOL, 100),
+      // 5 SOL sold for 600 USDC (worth $500 at the time) and 5000 lamports of fee
+      snapshot('2026-01-01T02:00:00.000Z', 5n * SOL - 5_000n, 120, 600_000_000n),
+    ];
+    const rows = [
+      confirmed('2026-01-01T01:00:00.000Z', {
+        action: 'swap',
+        feeLamports: '5000',
+        swap: { inputMint: SOL_MINT, outputMint: USDC, inAmount: String(5n * SOL), outAmount: '600000000' },
+      }),
+    ];
+
+    const report = computePnl('agent-1', snaps, rows);
+
+    expect(report.trades).toBe(1);
+    expect(report.feesLamports).toBe(5_000n);
+    expect(report.feesUsd).toBeCloseTo(0.0005, 6);
+    expect(report.realisedUsd).toBeCloseTo(-0.0005, 6);
+
+    const usdc = report.positions.find((p) => p.mint === USDC)!;
+    expect(usdc.costBasisUsd).toBeCloseTo(500);
+    expect(usdc.unrealisedUsd).toBeCloseTo(100);
+    const sol = report.positions.find((p) => p.mint === SOL_MINT)!;
+    expect(sol.unrealisedUsd).toBeCloseTo(100, 3);
+
+    // Every dollar of value change is accounted for
+    expect(report.netPnlUsd).toBeCloseTo(report.endValueUsd! - report.startValueUsd!, 6);
+  });
+
+  it('does not count transfers out as a loss', () => {
+    const snaps = [
+      snapshot('2026-01-01T00:00:00.000Z', 10n * SOL, 100),
+      snapshot('2026-01-01T02:00:00.000Z', 8n * SOL, 100),
+    ];
+    const rows = [
+      confirmed('2026-01-01T01:00:00.000Z', { action: 'transfer', params: { to: 'x', lamports: String(2n * SOL) } }),
+      // Outside the snapshot window
+      confirmed('2026-01-02T00:00:00.000Z', { action: 'transfer', params: { to: 'x', lamports: String(SOL) } }),
+    ];
+
+    const report = computePnl('agent-1', snaps, rows);
+
+    expect(report.trades).toBe(1);
+    expect(report.transfersOutUsd).toBeCloseTo(200);
+    expect(report.realisedUsd).toBe(0);
+    expect(report.unrealisedUsd).toBeCloseTo(0);
+  });
+
+  it('GATE: a plain deposit is a contribution, not profit', () => {
+    const snaps = [
+      snapshot('2026-01-01T00:00:00.000Z', 10n * SOL, 100),
+      // 5 SOL and 250 USDC arrive from outside; no transaction of the agent's explains them
+      snapshot('2026-01-01T01:00:00.000Z', 15n * SOL, 100, 250_000_000n),
+    ];
+
+    const report = computePnl('agent-1', snaps, []);
+
+    expect(report.contributionsUsd).toBeCloseTo(750);
+    expect(report.withdrawalsUsd).toBe(0);
+    expect(report.realisedUsd).toBe(0);
+    expect(report.unrealisedUsd).toBeCloseTo(0);
+    expect(report.netPnlUsd).toBeCloseTo(0);
+  });
+
+  it('nets external flows out while keeping the gains earned around them', () => {
+    const snaps = [
+      snapshot('2026-01-01T00:00:00.000Z', 10n * SOL, 100),
+      // 2 SOL withdrawn by hand
+      snapshot('2026-01-01T01:00:00.000Z', 8n * SOL, 100),
+      // 4 SOL deposited, after which SOL rises to 110
+      snapshot('2026-01-01T02:00:00.000Z', 12n * SOL, 100),
+      snapshot('2026-01-01T03:00:00.000Z', 12n * SOL, 110),
+    ];
+
+    const report = computePnl('agent-1', snaps, []);
+
+    expect(report.withdrawalsUsd).toBeCloseTo(200);
+    expect(report.contributionsUsd).toBeCloseTo(400);
+    expect(report.netPnlUsd).toBeCloseTo(120);
+    expect(report.netPnlUsd).toBeCloseTo(
+      report.endValueUsd! - report.startValueUsd! - report.contributionsUsd + report.withdrawalsUsd,
+    );
+  });
+
+  it('reports unpriced holdings instead of valuing them', () => {
+    const end = snapshot('2026-01-01T01:00:00.000Z', SOL, 100);
+    end.holdings.push({ mint: UNKNOWN, amount: 7n, decimals: 0, priceUsd: null });
+
+    const report = computePnl('agent-1', [snapshot('2026-01-01T00:00:00.000Z', SOL, 100), end], []);
+
+    expect(report.unpricedMints).toEqual([UNKNOWN]);
+    expect(report.positions.map((p) => p.mint)).not.toContain(UNKNOWN);
+  });
+
+  it('returns an empty report without snapshots', () => {
+    const report = computePnl('agent-1', [], []);
+    expect(report).toMatchObject({ snapshots: 0, from: null, netPnlUsd: 0, positions: [] });
+  });
+});
+
+// ── getAgentPnl / parseSince ──────────────────────────────────────────────────
+
+describe('getAgentPnl()', () => {
+  it('replays snapshots and confirmed txs from the audit DB', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'molthold-pnl-test-'));
+    const db = new AuditDb(path.join(dir, 'audit.db'));
+    try {
+      const past = new Date(Date.now() - 60_000).toISOString();
+      const future = new Date(Date.now() + 60_000).toISOString();
+      db.recordPortfolioSnapshot(snapshot(past, 10n * SOL, 100));
+      db.log('agent-1', 'pk1', 'tx_confirmed', { action: 'swap', feeLamports: '10000' }, { signature: 'a', status: 'confirmed' });
+      db.log('agent-2', 'pk2', 'tx_confirmed', { action: 'swap', feeLamports: '99999' }, { signature: 'b', status: 'confirmed' });
+      db.recordPortfolioSnapshot(snapshot(future, 10n * SOL - 10_000n, 110));
+
+      const report = getAgentPnl(db, 'agent-1');
+      expect(report.snapshots).toBe(2);
+      expect(report.feesLamports).toBe(10_000n);
+      expect(report.positions[0]?.amount).toBe(10n * SOL - 10_000n);
+
+      expect(getAgentPnl(db, 'agent-1', future).snapshots).toBe(1);
+    } finally {
+      db.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseSince()', () => {
+  const now = Date.parse('2026-01-08T00:00:00Z');
+
+  it('accepts durations and ISO dates', () => {
+    expect(parseSince('24h', now)).toBe('2026-01-07T00:00:00.000Z');
+    expect(parseSince('7d', now)).toBe('2026-01-01T00:00:00.000Z');
+    expect(parseSince('2026-01-05', now)).toBe('2026-01-05T00:00:00.000Z');
+    expect(() => parseSince('yesterday', now)).toThrow(/Invalid --since/);
+  });
+});
@@ -5,7 +5,9 @@
 import { describe, it, expect, vi } from 'vitest';
 import { UniversalStrategy } from '../../../src/agent/strategies/universal.js';
 import { createStrategy } from '../../../src/agent/strategies/index.js';
-import type { AgentState } from '../../../src/agent/types.js';
+import type { Action, AgentState } from '../../../src/agent/types.js';
+import type { WalletClient } from '../../../src/wallet/types.js';
+import type { AdapterRegistry } from '../../../src/protocols/types.js';
 
 // ── Mock LLMDecider ──────────────────────────────────────────────────────────
 
@@ -49,6 +51,22 @@ describe('UniversalStrategy', () => {
       expect(result).toBeNull();
     });
 
+    it('close_accounts closes empty accounts, returning null when there are none', async () => {
+      const strategy = new UniversalStrategy(mockLLMDecider as unknown as ConstructorParameters<typeof UniversalStrategy>[0], RPC_URL);
+      const closeEmptyTokenAccounts = vi.fn().mockResolvedValueOnce([]).mockResolvedValueOnce([
+        { account: 'a', mint: USDC_MINT, lamports: 2_039_280n, signature: 'sig1', status: 'confirmed' },
+        { account: 'b', mint: USDC_MINT, lamports: 2_039_280n, signature: null, status: 'failed', error: 'refused' },
+      ]);
+      const wallet = { closeEmptyTokenAccounts } as unknown as WalletClient;
+      const adapters = {} as AdapterRegistry;
+      const action: Action = { type: 'close_accounts', params: { mints: [USDC_MINT] }, rationale: 'reclaim rent' };
+
+      expect(await strategy.execute(action, wallet, adapters)).toBeNull();
+      expect(await strategy.execute(action, wallet, adapters))
+        .toEqual({ signature: null, status: 'failed', error: 'refused' });
+      expect(closeEmptyTokenAccounts.mock.calls[0]?.[0]?.map((m: { toBase58(): string }) => m.toBase58())).toEqual([USDC_MINT]);
+    });
+
     it('throws for unknown action type', async () => {
       const strategy = new UniversalStrategy(mockLLMDecider as any, RPC_URL);
       const action = { type: 'unknown' as any, params: {}, rationale: 'test' };
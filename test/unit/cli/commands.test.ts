@@ -13,6 +13,8 @@
  *  ✅ `agentw wallet create` exits 1 when name contains invalid chars
  *  ✅ `agentw wallet create` exits 1 when password is too short
  *  ✅ `agentw wallet balance` exits 1 when wallet not found
+ *  ✅ `agentw wallet payout` names the bad CSV line; --dry-run sends nothing
+ *  ✅ `agentw wallet sweep-rent` exits 1 when no agent matches; reads AGENTS_CONFIG_PATH
  *  ✅ `agentw agent log`     exits 0 and prints "no agents" when DB absent
  *  ✅ `agentw agent status`  exits 0 and prints "no agents" when DB absent
  *  ✅ `agentw --help`        exits 0 and lists commands
@@ -214,6 +216,74 @@ describe('agentw wallet airdrop', () => {
   });
 });
 
+// ── agentw wallet payout — CSV ────────────────────────────────────────────────
+
+describe('agentw wallet payout', () => {
+  const ALICE = 'GsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW';
+  const BOB = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+  it('exits 1 naming the first invalid CSV line', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'molthold-cli-test-'));
+    try {
+      const csv = path.join(tmpDir, 'payouts.csv');
+      fs.writeFileSync(csv, `address,amount\n${ALICE},0.5\n${BOB},-1\n`);
+
+      const { stderr, status } = cli(['wallet', 'payout', '--name', 'treasury', '--csv', csv], {}, tmpDir);
+      expect(status).toBe(1);
+      expect(stderr).toMatch(/Line 3: amount must be a positive number/);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('--dry-run prints the payouts and totals without loading the wallet', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'molthold-cli-test-'));
+    try {
+      const csv = path.join(tmpDir, 'payouts.csv');
+      fs.writeFileSync(csv, `${ALICE},0.5\n# bonus\n${BOB},0.25\n`);
+
+      const { stdout, status } = cli(['wallet', 'payout', '--name', 'treasury', '--csv', csv, '--dry-run'], {}, tmpDir);
+      expect(status).toBe(0);
+      expect(stdout).toContain(BOB);
+      expect(stdout).toMatch(/Total SOL\s+0\.75/);
+      expect(stdout).toContain('Dry run');
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ── agentw wallet sweep-rent ──────────────────────────────────────────────────
+
+describe('agentw wallet sweep-rent', () => {
+  it('exits 1 when agents.json lists no matching agent', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'molthold-cli-test-'));
+    try {
+      fs.writeFileSync(path.join(tmpDir, 'agents.json'), JSON.stringify([{ id: 'alpha', keystorePath: 'keystores/alpha.keystore.json' }]));
+
+      const { stderr, status } = cli(['wallet', 'sweep-rent', '--agent', 'beta', '--dry-run'], {}, tmpDir);
+      expect(status).toBe(1);
+      expect(stderr).toMatch(/No matching agents/);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads the agents.json named by AGENTS_CONFIG_PATH without --config', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'molthold-cli-test-'));
+    try {
+      const configPath = path.join(tmpDir, 'fleet.json');
+      fs.writeFileSync(configPath, JSON.stringify([{ id: 'alpha', keystorePath: 'keystores/alpha.keystore.json' }]));
+
+      const { stderr, status } = cli(['wallet', 'sweep-rent', '--agent', 'beta', '--dry-run'], { AGENTS_CONFIG_PATH: configPath }, tmpDir);
+      expect(status).toBe(1);
+      expect(stderr).toContain(`No matching agents in ${configPath}`);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
 // ── agentw agent log — no DB ──────────────────────────────────────────────────
 
 describe('agentw agent log', () => {
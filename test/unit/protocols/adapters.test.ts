@@ -32,6 +32,7 @@ function makeMockWallet(): WalletClient & { signAndSendCalls: number } {
     publicKey: keypair.publicKey,
     getSolBalance: vi.fn().mockResolvedValue(1_000_000_000n),
     getTokenBalance: vi.fn().mockResolvedValue(0n),
+    getTokenAccounts: vi.fn().mockResolvedValue([]),
     getOrCreateTokenAccount: vi.fn().mockResolvedValue(keypair.publicKey),
     sendSol: vi.fn(),
     sendToken: vi.fn(),
@@ -41,7 +42,7 @@ function makeMockWallet(): WalletClient & { signAndSendCalls: number } {
       return { signature: 'fakesig123', status: 'confirmed' as const, slot: 1 };
     }),
     getSpendingLimitStatus: vi.fn().mockReturnValue({
-      sessionSpend: 0n, sessionCap: 1_000_000_000n, perTxCap: 100_000_000n,
+      sessionSpend: 0n, sessionFees: 0n, sessionRent: 0n, sessionCap: 1_000_000_000n, perTxCap: 100_000_000n,
     }),
     toJSON: () => keypair.publicKey.toBase58(),
     toString: () => keypair.publicKey.toBase58(),
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for src/wallet/alt.ts
+ *
+ * Test gates:
+ *  ✅ A wallet's tables are found on chain by authority
+ *  ✅ Creating a table adds the first batch of addresses in the same transaction
+ *  ✅ Extensions skip held addresses, are chunked, and refuse overflow or foreign tables
+ *  ✅ Tables close only once deactivated and cooled down, with rent back to the wallet
+ *  ✅ Lookup-table rent covers new tables and funded addresses
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableInstruction,
+  AddressLookupTableProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+} from '@solana/web3.js';
+import {
+  DEACTIVATION_COOLDOWN_SLOTS,
+  LOOKUP_TABLE_META_SIZE,
+  MAX_EXTEND_ADDRESSES,
+  closeLookupTableTransaction,
+  createLookupTableTransaction,
+  estimateLookupTableRent,
+  extendLookupTableTransactions,
+  findLookupTables,
+  loadLookupTables,
+} from '../../../src/wallet/alt.js';
+import { inspectTransaction } from '../../../src/wallet/inspector.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const wallet = Keypair.generate().publicKey;
+const TABLE = Keypair.generate().publicKey;
+const ACTIVE = 0xffff_ffff_ffff_ffffn;
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+function keys(n: number): PublicKey[] {
+  return Array.from({ length: n }, () => Keypair.generate().publicKey);
+}
+
+function lookupTable(
+  addresses: PublicKey[],
+  { authority = wallet, deactivationSlot = ACTIVE }: { authority?: PublicKey; deactivationSlot?: bigint } = {},
+): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: TABLE,
+    state: { deactivationSlot, lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, authority, addresses },
+  });
+}
+
+/** The on-chain encoding of a table, for getProgramAccounts. */
+function tableData(addresses: PublicKey[], authority: PublicKey): Buffer {
+  const data = Buffer.alloc(LOOKUP_TABLE_META_SIZE + addresses.length * 32);
+  data.writeUInt32LE(1, 0);
+  data.writeBigUInt64LE(ACTIVE, 4);
+  data.writeUInt8(1, 21);
+  authority.toBuffer().copy(data, 22);
+  addresses.forEach((a, i) => a.toBuffer().copy(data, LOOKUP_TABLE_META_SIZE + i * 32));
+  return data;
+}
+
+function fakeConnection(table: AddressLookupTableAccount | null, slot = 1_000) {
+  return {
+    getAddressLookupTable: vi.fn(async () => ({ context: { slot }, value: table })),
+    getSlot: vi.fn(async () => slot),
+    getLatestBlockhash: vi.fn(async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 1 })),
+    // Rent is linear in size, as on chain
+    getMinimumBalanceForRentExemption: vi.fn(async (size: number) => (128 + size) * 6_960),
+  } as unknown as Connection;
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────────
+
+describe('findLookupTables()', () => {
+  it('filters program accounts by authority and decodes them', async () => {
+    const addresses = keys(2);
+    const getProgramAccounts = vi.fn(async () => [
+      { pubkey: TABLE, account: { data: tableData(addresses, wallet), owner: AddressLookupTableProgram.programId } },
+    ]);
+    const connection = { getProgramAccounts } as unknown as Connection;
+
+    const [table, ...rest] = await findLookupTables(connection, wallet);
+    expect(rest).toEqual([]);
+    expect(table?.key.equals(TABLE)).toBe(true);
+    expect(table?.isActive()).toBe(true);
+    expect(table?.state.addresses.map((a) => a.toBase58())).toEqual(addresses.map((a) => a.toBase58()));
+    expect(getProgramAccounts).toHaveBeenCalledWith(AddressLookupTableProgram.programId, expect.objectContaining({
+      filters: [{ memcmp: { offset: 22, bytes: wallet.toBase58() } }],
+    }));
+  });
+});
+
+describe('loadLookupTables()', () => {
+  it('refuses missing and deactivated tables', async () => {
+    await expect(loadLookupTables(fakeConnection(null), [TABLE])).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    await expect(loadLookupTables(fakeConnection(lookupTable([], { deactivationSlot: 5n })), [TABLE]))
+      .rejects.toThrow(/deactivated/);
+    expect(await loadLookupTables(fakeConnection(null), [])).toEqual([]);
+  });
+});
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+
+describe('createLookupTableTransaction()', () => {
+  it('creates the table at the address for a finalized slot, with the first addresses', async () => {
+    const connection = fakeConnection(null, 4_242);
+    const addresses = keys(MAX_EXTEND_ADDRESSES + 5);
+
+    const { transaction, address } = await createLookupTableTransaction(connection, wallet, addresses);
+
+    const [, expected] = AddressLookupTableProgram.createLookupTable({ authority: wallet, payer: wallet, recentSlot: 4_242 });
+    expect(address.equals(expected)).toBe(true);
+    expect(connection.getSlot).toHaveBeenCalledWith('finalized');
+    const [create, extend] = transaction.instructions;
+    expect(AddressLookupTableInstruction.decodeInstructionType(create!)).toBe('CreateLookupTable');
+    expect(AddressLookupTableInstruction.decodeExtendLookupTable(extend!).addresses).toHaveLength(MAX_EXTEND_ADDRESSES);
+
+    // The wallet pays rent for the table and the addresses it funds
+    const inspection = inspectTransaction(transaction, wallet);
+    expect(inspection.createdLookupTables).toEqual([address.toBase58()]);
+    expect(inspection.lookupTableAddressesFunded).toBe(MAX_EXTEND_ADDRESSES);
+  });
+});
+
+describe('extendLookupTableTransactions()', () => {
+  it('skips held addresses and chunks the rest', async () => {
+    const held = keys(3);
+    const fresh = keys(MAX_EXTEND_ADDRESSES + 1);
+    const connection = fakeConnection(lookupTable(held));
+
+    const { transactions, added } = await extendLookupTableTransactions(connection, wallet, TABLE, [...held, ...fresh, fresh[0]!]);
+
+    expect(added.map((a) => a.toBase58())).toEqual(fresh.map((a) => a.toBase58()));
+    expect(transactions.map((tx) => AddressLookupTableInstruction.decodeExtendLookupTable(tx.instructions[0]!).addresses.length))
+      .toEqual([MAX_EXTEND_ADDRESSES, 1]);
+  });
+
+  it('refuses tables it does not control, deactivated tables, and overflow', async () => {
+    const foreign = fakeConnection(lookupTable([], { authority: Keypair.generate().publicKey }));
+    await expect(extendLookupTableTransactions(foreign, wallet, TABLE, keys(1))).rejects.toThrow(/not this wallet/);
+
+    const deactivated = fakeConnection(lookupTable([], { deactivationSlot: 5n }));
+    await expect(extendLookupTableTransactions(deactivated, wallet, TABLE, keys(1))).rejects.toThrow(/deactivated/);
+
+    const full = fakeConnection(lookupTable(keys(250)));
+    await expect(extendLookupTableTransactions(full, wallet, TABLE, keys(7))).rejects.toThrow(/exceed 256/);
+  });
+});
+
+describe('closeLookupTableTransaction()', () => {
+  it('closes only once deactivated and cooled down, returning rent to the wallet', async () => {
+    await expect(closeLookupTableTransaction(fakeConnection(lookupTable([])), wallet, TABLE)).rejects.toThrow(/is active/);
+
+    const cooling = fakeConnection(lookupTable([], { deactivationSlot: 1_000n }), 1_100);
+    await expect(closeLookupTableTransaction(cooling, wallet, TABLE))
+      .rejects.toThrow(`can be closed in ${DEACTIVATION_COOLDOWN_SLOTS - 100} slots`);
+
+    const cooled = fakeConnection(lookupTable([], { deactivationSlot: 1_000n }), 1_000 + DEACTIVATION_COOLDOWN_SLOTS);
+    const tx = await closeLookupTableTransaction(cooled, wallet, TABLE);
+    const close = AddressLookupTableInstruction.decodeCloseLookupTable(tx.instructions[0]!);
+    expect(close.recipient.equals(wallet)).toBe(true);
+    expect(inspectTransaction(tx, wallet).closedAccounts[0]?.toForeign).toBe(false);
+  });
+});
+
+// ── Rent ──────────────────────────────────────────────────────────────────────
+
+describe('estimateLookupTableRent()', () => {
+  it('prices each new table at its rent-exempt minimum plus 32 bytes per funded address', async () => {
+    const connection = fakeConnection(null);
+    const inspection = { createdLookupTables: [TABLE.toBase58()], lookupTableAddressesFunded: 3 };
+
+    const rent = await estimateLookupTableRent(connection, inspection as Parameters<typeof estimateLookupTableRent>[1]);
+    expect(rent).toBe(BigInt((128 + LOOKUP_TABLE_META_SIZE) * 6_960 + 3 * 32 * 6_960));
+  });
+
+  it('costs nothing, and needs no RPC, when no space is allocated', async () => {
+    const connection = fakeConnection(null);
+    const inspection = { createdLookupTables: [], lookupTableAddressesFunded: 0 };
+
+    expect(await estimateLookupTableRent(connection, inspection as Parameters<typeof estimateLookupTableRent>[1])).toBe(0n);
+    expect(connection.getMinimumBalanceForRentExemption).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for src/wallet/backup.ts
+ *
+ * Test gates:
+ *  ✅ Export → import round-trips plain and HD wallets under a new password
+ *  ✅ Bundle holds no plaintext key material
+ *  ✅ Wrong passphrase, wrong wallet password and an edited manifest are refused
+ *  ✅ Existing keystores are never overwritten without `force`
+ *  ✅ An import that fails part-way leaves the keystore directory as it was
+ *  ✅ Bundled agents.json entries are rewired to the restored keystores
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { default as bs58 } from 'bs58';
+import { exportBackup, importBackup, readBackup } from '../../../src/wallet/backup.js';
+import {
+  createKeystore,
+  createMasterKeystore,
+  createDerivedKeystore,
+  loadKeystore,
+} from '../../../src/wallet/keystore.js';
+import { generateMnemonic } from '../../../src/wallet/hd.js';
+import { WalletError } from '../../../src/wallet/types.js';
+
+vi.hoisted(() => {
+  process.env['TEST_KDF_ARGON2_M'] = '256';
+});
+
+// Pass-through, so a test can fail one rename part-way through an import
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return { ...actual, renameSync: vi.fn(actual.renameSync) };
+});
+
+const PASSWORD = 'password12345';
+const PASSPHRASE = 'export-passphrase';
+
+describe('exportBackup() / importBackup()', () => {
+  let src: string;
+  let dst: string;
+  let bundlePath: string;
+  let plain: Keypair;
+
+  beforeEach(() => {
+    src = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-backup-src-'));
+    dst = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-backup-dst-'));
+    bundlePath = path.join(src, 'fleet.backup.json');
+
+    plain = Keypair.generate();
+    createKeystore(plain, PASSWORD, path.join(src, 'plain.keystore.json'));
+    createMasterKeystore(generateMnemonic(), PASSWORD, path.join(src, 'fleet.master.json'));
+    createDerivedKeystore(path.join(src, 'fleet.master.json'), PASSWORD, 4, path.join(src, 'hd.keystore.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(src, { recursive: true, force: true });
+    fs.rmSync(dst, { recursive: true, force: true });
+  });
+
+  function exportFleet(): ReturnType<typeof exportBackup> {
+    return exportBackup(
+      [
+        { name: 'plain', keystorePath: path.join(src, 'plain.keystore.json') },
+        { name: 'hd', keystorePath: path.join(src, 'hd.keystore.json') },
+      ],
+      PASSWORD,
+      PASSPHRASE,
+      bundlePath,
+      { agents: [{ wallet: 'hd', config: { id: 'agent-hd', keystorePath: 'old/path.json', intervalMs: 5000 } }] },
+    );
+  }
+
+  it('round-trips plain and HD wallets under a new password', () => {
+    const hdAddress = loadKeystore(path.join(src, 'hd.keystore.json'), PASSWORD).publicKey.toBase58();
+    exportFleet();
+
+    const result = importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: 'new-password' });
+
+    expect(result.written.map((p) => path.basename(p))).toEqual([
+      'fleet.master.json',
+      'plain.keystore.json',
+      'hd.keystore.json',
+    ]);
+    expect(loadKeystore(path.join(dst, 'plain.keystore.json'), 'new-password').secretKey).toEqual(plain.secretKey);
+    expect(loadKeystore(path.join(dst, 'hd.keystore.json'), 'new-password').publicKey.toBase58()).toBe(hdAddress);
+    expect(JSON.parse(fs.readFileSync(path.join(dst, 'hd.keystore.json'), 'utf8'))).toMatchObject({ kind: 'hd', index: 4 });
+  });
+
+  it('writes a 0600 bundle with a readable manifest and no plaintext secrets', () => {
+    const bundle = exportFleet();
+    const raw = fs.readFileSync(bundlePath, 'utf8');
+
+    expect(fs.statSync(bundlePath).mode & 0o777).toBe(0o600);
+    expect(readBackup(bundlePath).manifest).toEqual(bundle.manifest);
+    expect(bundle.manifest.wallets.map((w) => w.kind)).toEqual(['hd-master', 'keypair', 'hd']);
+    expect(bundle.manifest.agents).toEqual(['agent-hd']);
+    expect(raw).not.toContain(Buffer.from(plain.secretKey).toString('hex'));
+    expect(raw).not.toContain(bs58.encode(plain.secretKey));
+  });
+
+  it('rewires bundled agents.json entries to the restored keystores', () => {
+    exportFleet();
+    const { agents } = importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: PASSWORD });
+
+    expect(agents).toEqual([{ id: 'agent-hd', keystorePath: path.join(dst, 'hd.keystore.json'), intervalMs: 5000 }]);
+  });
+
+  it('refuses the wrong passphrase', () => {
+    exportFleet();
+    expect(() => importBackup(bundlePath, 'wrong-passphrase', { keystoresDir: dst, password: PASSWORD }))
+      .toThrow('Wrong passphrase');
+    expect(fs.readdirSync(dst)).toEqual([]);
+  });
+
+  it('refuses a bundle whose plaintext manifest was edited', () => {
+    exportFleet();
+    const raw = JSON.parse(fs.readFileSync(bundlePath, 'utf8'));
+    raw.manifest.wallets[1].name = 'renamed';
+    fs.writeFileSync(bundlePath, JSON.stringify(raw));
+
+    expect(() => importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: PASSWORD }))
+      .toThrow(WalletError);
+    expect(fs.readdirSync(dst)).toEqual([]);
+  });
+
+  it('refuses to overwrite existing keystores unless forced', () => {
+    exportFleet();
+    const squatter = Keypair.generate();
+    createKeystore(squatter, PASSWORD, path.join(dst, 'plain.keystore.json'));
+
+    expect(() => importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: PASSWORD }))
+      .toThrow(/Refusing to overwrite existing keystores: plain\.keystore\.json/);
+    // Nothing else was written either
+    expect(fs.readdirSync(dst)).toEqual(['plain.keystore.json']);
+    expect(loadKeystore(path.join(dst, 'plain.keystore.json'), PASSWORD).publicKey.equals(squatter.publicKey)).toBe(true);
+
+    importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: PASSWORD, force: true });
+    expect(loadKeystore(path.join(dst, 'plain.keystore.json'), PASSWORD).publicKey.equals(plain.publicKey)).toBe(true);
+  });
+
+  it('GATE: rolls back a forced import that fails part-way', () => {
+    exportFleet();
+    const squatter = Keypair.generate();
+    createKeystore(squatter, PASSWORD, path.join(dst, 'plain.keystore.json'));
+
+    // Fail the move of the last keystore, after the master and plain ones are in place
+    const actual = vi.mocked(fs.renameSync).getMockImplementation()!;
+    vi.mocked(fs.renameSync).mockImplementation((from, to) => {
+      if (String(to) === path.join(dst, 'hd.keystore.json')) throw new Error('EIO');
+      actual(from, to);
+    });
+    try {
+      expect(() => importBackup(bundlePath, PASSPHRASE, { keystoresDir: dst, password: PASSWORD, force: true }))
+        .toThrow(/Cannot restore keystores/);
+    } finally {
+      vi.mocked(fs.renameSync).mockImplementation(actual);
+    }
+
+    // No staging directory, no new keystores, and the replaced one is back
+    expect(fs.readdirSync(dst)).toEqual(['plain.keystore.json']);
+    expect(loadKeystore(path.join(dst, 'plain.keystore.json'), PASSWORD).publicKey.equals(squatter.publicKey)).toBe(true);
+  });
+
+  it('refuses to export with the wrong wallet password', () => {
+    expect(() => exportBackup(
+      [{ name: 'plain', keystorePath: path.join(src, 'plain.keystore.json') }],
+      'wrongpassword',
+      PASSPHRASE,
+      bundlePath,
+    )).toThrow(WalletError);
+    expect(fs.existsSync(bundlePath)).toBe(false);
+  });
+
+  it('rejects files that are not backup bundles', () => {
+    expect(() => readBackup(path.join(src, 'plain.keystore.json'))).toThrow(/not a molthold-backup bundle/);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Unit tests for src/wallet/balances.ts
+ *
+ * Test gates:
+ *  ✅ Snapshots fold WSOL into lamports and sum token accounts per mint
+ *  ✅ Network fee covers signatures plus priority fee on the CU limit
+ *  ✅ Token-account rent is the rent-exempt minimum for each mint's account size
+ *  ✅ Observed spend excludes fees and rent; inflows are ignored
+ *  ✅ The recorded spend never falls below the intent
+ *  ✅ Outflow beyond the intent is reported as a discrepancy
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  takeBalanceSnapshot,
+  getRentPaid,
+  estimateTokenAccountRent,
+  estimateNetworkFee,
+  measureSpend,
+  recordedSpend,
+  findDiscrepancies,
+} from '../../../src/wallet/balances.js';
+import { inspectTransaction } from '../../../src/wallet/inspector.js';
+import { WalletError, type SpendIntent } from '../../../src/wallet/types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const owner = Keypair.generate().publicKey;
+const other = Keypair.generate().publicKey;
+const USDC  = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const RENT  = 2_039_280;
+
+function tokenAccount(mint: PublicKey, amount: bigint, isNative = false): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: AccountState.Initialized,
+      isNativeOption: isNative ? 1 : 0,
+      isNative: isNative ? BigInt(RENT) : 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data,
+  );
+  return {
+    data,
+    owner: TOKEN_PROGRAM_ID,
+    lamports: RENT + (isNative ? Number(amount) : 0),
+    executable: false,
+    rentEpoch: 0,
+  };
+}
+
+function fakeConnection(overrides: Partial<Record<keyof Connection, unknown>>): Connection {
+  return overrides as unknown as Connection;
+}
+
+function v0(...instructions: Parameters<typeof SystemProgram.transfer>[0][]): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions: instructions.map((p) => SystemProgram.transfer(p)),
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+function intent(lamports: bigint, tokens: Record<string, bigint> = {}): SpendIntent {
+  return { lamports, tokens, destinations: [] };
+}
+
+// ── takeBalanceSnapshot ───────────────────────────────────────────────────────
+
+describe('takeBalanceSnapshot()', () => {
+  it('folds WSOL into lamports and sums token accounts per mint', async () => {
+    const connection = fakeConnection({
+      getBalance: async () => 1_000_000_000,
+      getTokenAccountsByOwner: async (_owner: PublicKey, filter: { programId: PublicKey }) => ({
+        value: filter.programId.equals(TOKEN_PROGRAM_ID)
+          ? [
+              { pubkey: Keypair.generate().publicKey, account: tokenAccount(USDC, 5n) },
+              { pubkey: Keypair.generate().publicKey, account: tokenAccount(USDC, 7n) },
+              { pubkey: Keypair.generate().publicKey, account: tokenAccount(NATIVE_MINT, 300n, true) },
+            ]
+          : [],
+      }),
+    });
+
+    const snapshot = await takeBalanceSnapshot(connection, owner);
+    expect(snapshot).toEqual({ lamports: 1_000_000_300n, tokens: { [USDC.toBase58()]: 12n } });
+  });
+
+  it('wraps RPC failures in WalletError(RPC_ERROR)', async () => {
+    const connection = fakeConnection({
+      getBalance: async () => { throw new Error('503'); },
+      getTokenAccountsByOwner: async () => ({ value: [] }),
+    });
+    await expect(takeBalanceSnapshot(connection, owner)).rejects.toMatchObject({ code: 'RPC_ERROR' });
+    await expect(takeBalanceSnapshot(connection, owner)).rejects.toBeInstanceOf(WalletError);
+  });
+});
+
+describe('getRentPaid()', () => {
+  it('counts rent but not wrapped SOL, and skips accounts closed again', async () => {
+    const usdcAta = Keypair.generate().publicKey;
+    const wsolAta = Keypair.generate().publicKey;
+    const closed  = Keypair.generate().publicKey;
+    const connection = fakeConnection({
+      getMultipleAccountsInfo: async () => [
+        tokenAccount(USDC, 0n),
+        tokenAccount(NATIVE_MINT, 50_000n, true),
+        null,
+      ],
+    });
+
+    const rent = await getRentPaid(connection, [usdcAta, wsolAta, closed].map((k) => k.toBase58()));
+    expect(rent).toBe(BigInt(RENT * 2));
+  });
+});
+
+describe('estimateTokenAccountRent()', () => {
+  it('prices each new account by its mint\'s account size, fetching each size once', async () => {
+    const mintData = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode(
+      {
+        mintAuthorityOption: 0,
+        mintAuthority: PublicKey.default,
+        supply: 0n,
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: PublicKey.default,
+      },
+      mintData,
+    );
+    const mintInfo = { data: mintData, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 };
+    const sizes: number[] = [];
+    const connection = fakeConnection({
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((k) => (k.equals(USDC) ? mintInfo : null)),
+      getMinimumBalanceForRentExemption: async (size: number) => {
+        sizes.push(size);
+        return size * 10;
+      },
+    });
+    const [a, b, c] = [0, 1, 2].map(() => Keypair.generate().publicKey.toBase58()) as [string, string, string];
+
+    const rent = await estimateTokenAccountRent(connection, [a, b, c], { [a]: USDC.toBase58(), [b]: USDC.toBase58() });
+    expect(rent).toBe(BigInt(ACCOUNT_SIZE * 10 * 3));
+    expect(sizes).toEqual([ACCOUNT_SIZE]);
+  });
+
+  it('costs nothing when no accounts are created', async () => {
+    expect(await estimateTokenAccountRent(fakeConnection({}), [], {})).toBe(0n);
+  });
+});
+
+// ── estimateNetworkFee ────────────────────────────────────────────────────────
+
+describe('estimateNetworkFee()', () => {
+  it('charges the base fee per signature when no priority fee is set', () => {
+    const tx = v0({ fromPubkey: owner, toPubkey: other, lamports: 1 });
+    expect(estimateNetworkFee(tx, inspectTransaction(tx, owner))).toBe(5_000n);
+  });
+
+  it('adds the priority fee on the requested compute-unit limit, rounded up', () => {
+    const message = new TransactionMessage({
+      payerKey: owner,
+      recentBlockhash: '11111111111111111111111111111111',
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: 300_001 }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+        SystemProgram.transfer({ fromPubkey: owner, toPubkey: other, lamports: 1 }),
+      ],
+    }).compileToV0Message();
+    const tx = new VersionedTransaction(message);
+
+    // 300_001 CU × 1_000 µ-lamports = 300.001 lamports → 301
+    expect(estimateNetworkFee(tx, inspectTransaction(tx, owner))).toBe(5_301n);
+  });
+});
+
+// ── measureSpend / findDiscrepancies ──────────────────────────────────────────
+
+describe('measureSpend()', () => {
+  it('subtracts overhead from the SOL outflow and ignores inflows', () => {
+    const before = { lamports: 1_000_000n, tokens: { [USDC.toBase58()]: 100n, mintB: 5n } };
+    const after  = { lamports:   894_000n, tokens: { [USDC.toBase58()]: 40n, mintB: 9n } };
+
+    expect(measureSpend(before, after, 6_000n)).toEqual({
+      lamports: 100_000n,
+      tokens: { [USDC.toBase58()]: 60n },
+    });
+  });
+
+  it('treats a fully drained mint as spent and never reports negative SOL', () => {
+    const before = { lamports: 10_000n, tokens: { [USDC.toBase58()]: 100n } };
+    const after  = { lamports: 20_000n, tokens: {} };
+
+    expect(measureSpend(before, after, 5_000n)).toEqual({ lamports: 0n, tokens: { [USDC.toBase58()]: 100n } });
+  });
+});
+
+describe('recordedSpend()', () => {
+  it('GATE: records the intent when an inflow masks part of the outflow', () => {
+    // 100_000 lamports sent while 60_000 arrived, so only 40_000 is observed
+    const observed = { lamports: 40_000n, tokens: { [USDC.toBase58()]: 60n } };
+
+    expect(recordedSpend(intent(100_000n, { [USDC.toBase58()]: 50n, mintB: 5n }), observed)).toEqual({
+      lamports: 100_000n,
+      tokens: { [USDC.toBase58()]: 60n, mintB: 5n },
+    });
+  });
+});
+
+describe('findDiscrepancies()', () => {
+  it('returns nothing when the outflow is within the intent', () => {
+    const observed = { lamports: 90n, tokens: { [USDC.toBase58()]: 10n } };
+    expect(findDiscrepancies(intent(100n, { [USDC.toBase58()]: 10n }), observed)).toEqual([]);
+  });
+
+  it('reports SOL beyond the intent plus tolerance', () => {
+    const observed = { lamports: 150n, tokens: {} };
+    expect(findDiscrepancies(intent(100n), observed, 50n)).toEqual([]);
+    expect(findDiscrepancies(intent(100n), observed, 49n)).toEqual([
+      { asset: 'SOL', expected: 100n, actual: 150n },
+    ]);
+  });
+
+  it('reports a mint the intent never declared', () => {
+    const observed = { lamports: 0n, tokens: { [USDC.toBase58()]: 1n } };
+    expect(findDiscrepancies(intent(0n), observed)).toEqual([
+      { asset: USDC.toBase58(), expected: 0n, actual: 1n },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for src/wallet/batch.ts
+ *
+ * Test gates:
+ *  ✅ Legs are packed in order into as few groups as the fit check allows
+ *  ✅ A leg that does not fit alone is refused before anything is sent
+ *  ✅ The packet check counts bytes, reserved room and lookup tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+} from '@solana/web3.js';
+import { packLegs, fitsInPacket, type BatchLeg } from '../../../src/wallet/batch.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const payer = Keypair.generate().publicKey;
+
+function keys(n: number): PublicKey[] {
+  return Array.from({ length: n }, () => Keypair.generate().publicKey);
+}
+
+function transfers(recipients: PublicKey[]) {
+  return recipients.map((toPubkey) => SystemProgram.transfer({ fromPubkey: payer, toPubkey, lamports: 1 }));
+}
+
+function legs(lamports: number[]): BatchLeg[] {
+  return lamports.map((amount, index) => ({
+    index,
+    instructions: [],
+    intent: { lamports: BigInt(amount), tokens: {}, destinations: [] },
+    computeUnits: 300,
+  }));
+}
+
+const total = (group: BatchLeg[]) => group.reduce((sum, leg) => sum + leg.intent.lamports, 0n);
+
+// ── packLegs ──────────────────────────────────────────────────────────────────
+
+describe('packLegs()', () => {
+  it('fills each group before starting the next, keeping the input order', () => {
+    const groups = packLegs(legs([4, 4, 2, 5, 1, 3]), (group) => total(group) <= 10n);
+    expect(groups.map((g) => g.map((leg) => leg.index))).toEqual([[0, 1, 2], [3, 4, 5]]);
+  });
+
+  it('GATE: throws LIMIT_BREACH naming a leg that does not fit on its own', () => {
+    expect(() => packLegs(legs([4, 11, 2]), (group) => total(group) <= 10n))
+      .toThrow(expect.objectContaining({ code: 'LIMIT_BREACH', message: expect.stringContaining('Transfer 2') }));
+  });
+
+  it('returns no groups for no legs', () => {
+    expect(packLegs([], () => true)).toEqual([]);
+  });
+});
+
+// ── fitsInPacket ──────────────────────────────────────────────────────────────
+
+describe('fitsInPacket()', () => {
+  it('accepts transfers up to the packet size and refuses beyond it', () => {
+    expect(fitsInPacket(payer, transfers(keys(15)), [])).toBe(true);
+    expect(fitsInPacket(payer, transfers(keys(40)), [])).toBe(false);
+  });
+
+  it('leaves the reserved bytes free', () => {
+    let n = 1;
+    while (fitsInPacket(payer, transfers(keys(n + 1)), [])) n++;
+    const recipients = keys(n);
+    expect(fitsInPacket(payer, transfers(recipients), [])).toBe(true);
+    expect(fitsInPacket(payer, transfers(recipients), [], 200)).toBe(false);
+  });
+
+  it('fits more recipients when they are in a lookup table', () => {
+    const recipients = keys(40);
+    const table = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: {
+        deactivationSlot: 0xffff_ffff_ffff_ffffn,
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        authority: payer,
+        addresses: [SystemProgram.programId, ...recipients],
+      },
+    });
+    expect(fitsInPacket(payer, transfers(recipients), [table])).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for src/wallet/fees.ts
+ *
+ * Test gates:
+ *  ✅ The priority fee is a percentile of recent fees on the written accounts, clamped
+ *  ✅ The compute-unit limit is simulated units plus margin
+ *  ✅ Existing limit/price instructions are replaced, in legacy and v0 transactions
+ *  ✅ maxFeeLamports lowers the price so the whole priority fee fits
+ *  ✅ Transactions that fail simulation are refused
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { budgetTransaction, estimatePriorityFee, MAX_COMPUTE_UNITS } from '../../../src/wallet/fees.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const payer = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+function fakeConnection(fees: number[], unitsConsumed: number | undefined = 10_000, err: unknown = null) {
+  return {
+    getRecentPrioritizationFees: vi.fn(async () => fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }))),
+    simulateTransaction: vi.fn(async () => ({ context: { slot: 1 }, value: { err, logs: [], unitsConsumed } })),
+  } as unknown as Connection;
+}
+
+function transferIxs(): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+    SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 1_000 }),
+  ];
+}
+
+/** [limit, price] set by the compute-budget instructions in `ixs`. */
+function budgetOf(ixs: TransactionInstruction[]): [number | undefined, number | undefined] {
+  let limit: number | undefined;
+  let price: number | undefined;
+  for (const ix of ixs.filter((i) => i.programId.equals(ComputeBudgetProgram.programId))) {
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    if (type === 'SetComputeUnitLimit') limit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+    if (type === 'SetComputeUnitPrice') price = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+  }
+  return [limit, price];
+}
+
+// ── estimatePriorityFee ───────────────────────────────────────────────────────
+
+describe('estimatePriorityFee()', () => {
+  it('takes the configured percentile of recent fees on the given accounts', async () => {
+    const connection = fakeConnection([0, 500, 100, 300, 200]);
+
+    expect(await estimatePriorityFee(connection, [payer])).toBe(300);
+    expect(await estimatePriorityFee(connection, [payer], { percentile: 50 })).toBe(200);
+    expect(await estimatePriorityFee(connection, [payer], { percentile: 100 })).toBe(500);
+    expect(await estimatePriorityFee(connection, [payer], { percentile: 0 })).toBe(0);
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({ lockedWritableAccounts: [payer] });
+  });
+
+  it('clamps to the configured floor and ceiling', async () => {
+    expect(await estimatePriorityFee(fakeConnection([]), [payer], { minMicroLamports: 50 })).toBe(50);
+    expect(await estimatePriorityFee(fakeConnection([9_000_000]), [payer])).toBe(1_000_000);
+    expect(await estimatePriorityFee(fakeConnection([9_000]), [payer], { maxMicroLamports: 2_000 })).toBe(2_000);
+  });
+
+  it('reports RPC failures', async () => {
+    const connection = { getRecentPrioritizationFees: async () => { throw new Error('429'); } } as unknown as Connection;
+    await expect(estimatePriorityFee(connection, [payer])).rejects.toMatchObject({ code: 'RPC_ERROR' });
+  });
+});
+
+// ── budgetTransaction ─────────────────────────────────────────────────────────
+
+describe('budgetTransaction()', () => {
+  it('replaces a legacy transaction\'s budget with simulated units and estimated price', async () => {
+    const connection = fakeConnection([100, 200, 400], 10_000);
+    const tx = new Transaction({ feePayer: payer, recentBlockhash: BLOCKHASH }).add(...transferIxs());
+
+    const budgeted = await budgetTransaction(connection, tx, { computeUnitMargin: 0.5 });
+
+    expect(budgeted.transaction).toBe(tx);
+    expect(budgeted).toMatchObject({ computeUnitLimit: 16_000, microLamports: 400 });
+    expect(budgetOf(tx.instructions)).toEqual([16_000, 400]);
+    expect(tx.instructions).toHaveLength(3);
+
+    // Simulated at the maximum limit, without signatures, writing payer and recipient
+    const [probe, options] = (connection.simulateTransaction as ReturnType<typeof vi.fn>).mock.calls[0]!;
+    const probeIxs = TransactionMessage.decompile((probe as VersionedTransaction).message).instructions;
+    expect(budgetOf(probeIxs)).toEqual([MAX_COMPUTE_UNITS, undefined]);
+    expect(options).toMatchObject({ sigVerify: false, replaceRecentBlockhash: true });
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({ lockedWritableAccounts: [payer, recipient] });
+  });
+
+  it('recompiles v0 transactions and fits the price under maxFeeLamports', async () => {
+    const connection = fakeConnection([1_000_000], 120_000);
+    const tx = new VersionedTransaction(new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: BLOCKHASH,
+      instructions: transferIxs(),
+    }).compileToV0Message());
+
+    const budgeted = await budgetTransaction(connection, tx, { maxFeeLamports: 10_000n });
+
+    // 120,000 × 1.1 + 1,000 headroom; 10,000 lamports over 133,000 units
+    expect(budgeted.computeUnitLimit).toBe(133_000);
+    expect(budgeted.microLamports).toBe(75_187);
+    expect(budgeted.transaction.version).toBe(0);
+    expect(budgeted.transaction.message.recentBlockhash).toBe(BLOCKHASH);
+    const ixs = TransactionMessage.decompile(budgeted.transaction.message).instructions;
+    expect(budgetOf(ixs)).toEqual([133_000, 75_187]);
+    expect(ixs).toHaveLength(3);
+  });
+
+  it('refuses transactions that fail in simulation', async () => {
+    const connection = fakeConnection([], 5_000, { InstructionError: [1, 'Custom'] });
+    const tx = new Transaction({ feePayer: payer, recentBlockhash: BLOCKHASH }).add(...transferIxs());
+
+    await expect(budgetTransaction(connection, tx)).rejects.toMatchObject({ code: 'SIMULATION_FAILED' });
+    expect(budgetOf(tx.instructions)).toEqual([undefined, 1_000]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for src/wallet/guardian.ts
+ *
+ * Test gates:
+ *  ✅ Guardian signs a transaction within its own limits
+ *  ✅ Guardian refuses spend beyond its limits, whatever the agent allows
+ *  ✅ Guardian refuses a foreign fee payer or its key outside the memo
+ *  ✅ Only a re-send of the exact signed message goes unrecorded
+ *  ✅ A persistent ledger carries spend across guardian restarts
+ *  ✅ Unix socket daemon round-trips signatures and refusals
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type * as net from 'node:net';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createGuardian,
+  createGuardianMemo,
+  serveGuardian,
+  connectGuardian,
+} from '../../../src/wallet/guardian.js';
+import { WalletError, type CoSigner, type CoSignRequest, type SpendLedger } from '../../../src/wallet/types.js';
+import { getRootLogger } from '../../../src/logger/logger.js';
+
+const logger = getRootLogger();
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const wallet = Keypair.generate();
+const guardianKey = Keypair.generate();
+const other = Keypair.generate().publicKey;
+
+function makeGuardian(ledger?: SpendLedger): CoSigner {
+  return createGuardian(
+    guardianKey,
+    {
+      // No lookup tables or token accounts — the guardian never calls the RPC
+      rpcUrl: 'http://127.0.0.1:1',
+      wallet: wallet.publicKey,
+      limits: { maxPerTxLamports: 100_000_000n, maxSessionLamports: 150_000_000n, maxDailyLamports: 150_000_000n },
+      ...(ledger && { ledger }),
+    },
+    logger,
+  );
+}
+
+function tx(payer: PublicKey, ...instructions: TransactionInstruction[]): Uint8Array {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions,
+  }).compileToV0Message();
+  return new VersionedTransaction(message).serialize();
+}
+
+function transfer(lamports: number): TransactionInstruction {
+  return SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: other, lamports });
+}
+
+function request(transaction: Uint8Array, requestId = 'req-1'): CoSignRequest {
+  return { requestId, transaction, estimate: { amount: 0n } };
+}
+
+function verifies(transaction: Uint8Array, signature: Uint8Array): boolean {
+  const message = VersionedTransaction.deserialize(transaction).message.serialize();
+  const key = crypto.createPublicKey({
+    // DER SubjectPublicKeyInfo prefix for a raw Ed25519 key
+    key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), guardianKey.publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+// ── cosign ────────────────────────────────────────────────────────────────────
+
+describe('createGuardian()', () => {
+  it('signs a transfer within its limits', async () => {
+    const transaction = tx(wallet.publicKey, transfer(50_000_000), createGuardianMemo(guardianKey.publicKey));
+    const signature = await makeGuardian().cosign(request(transaction));
+
+    expect(signature).toHaveLength(64);
+    expect(verifies(transaction, signature)).toBe(true);
+  });
+
+  it('refuses a transfer over its per-tx cap', async () => {
+    const transaction = tx(wallet.publicKey, transfer(100_000_001), createGuardianMemo(guardianKey.publicKey));
+    const err = await makeGuardian().cosign(request(transaction)).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(WalletError);
+    expect(err).toMatchObject({ code: 'LIMIT_BREACH' });
+    expect((err as Error).message).toMatch(/^Guardian refused/);
+  });
+
+  it('refuses a fee payer other than the guarded wallet', async () => {
+    const transaction = tx(other, transfer(1_000), createGuardianMemo(guardianKey.publicKey));
+    await expect(makeGuardian().cosign(request(transaction))).rejects.toThrow(/fee payer/);
+  });
+
+  it('refuses to sign for its key in any instruction but the memo', async () => {
+    const drain = SystemProgram.transfer({ fromPubkey: guardianKey.publicKey, toPubkey: other, lamports: 1 });
+    const transaction = tx(wallet.publicKey, drain);
+    await expect(makeGuardian().cosign(request(transaction))).rejects.toThrow(/guardian key passed/);
+  });
+
+  it('refuses a transaction that does not list it as a signer', async () => {
+    const transaction = tx(wallet.publicKey, transfer(1_000));
+    await expect(makeGuardian().cosign(request(transaction))).rejects.toThrow(/does not require/);
+  });
+
+  it('re-signs the exact message without recording it again', async () => {
+    const guardian = makeGuardian();
+    const transaction = tx(wallet.publicKey, transfer(80_000_000), createGuardianMemo(guardianKey.publicKey));
+
+    await guardian.cosign(request(transaction, 'a'));
+    // The same message again — would breach the 0.15 SOL session cap if recorded twice
+    await guardian.cosign(request(transaction, 'a'));
+    await guardian.cosign(request(transaction, 'b'));
+  });
+
+  it('GATE: counts a fresh-blockhash copy of an approved request as a new spend', async () => {
+    const guardian = makeGuardian();
+    const memo = createGuardianMemo(guardianKey.publicKey);
+    const copy = (blockhash: string): Uint8Array => new VersionedTransaction(new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [transfer(80_000_000), memo],
+    }).compileToV0Message()).serialize();
+
+    await guardian.cosign(request(copy('11111111111111111111111111111111'), 'a'));
+    // Both copies could land, so the second breaches the 0.15 SOL session cap
+    await expect(
+      guardian.cosign(request(copy(Keypair.generate().publicKey.toBase58()), 'a')),
+    ).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+  });
+
+  it('GATE: counts spend from its ledger after a restart', async () => {
+    const ledger: SpendLedger = { load: () => [{ ts: Date.now() - 60_000, lamports: 80_000_000n }] };
+    const transaction = tx(wallet.publicKey, transfer(80_000_000), createGuardianMemo(guardianKey.publicKey));
+
+    // 0.08 SOL already spent today, so another 0.08 breaches the 0.15 SOL daily cap
+    await expect(makeGuardian(ledger).cosign(request(transaction))).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+    await expect(makeGuardian().cosign(request(transaction))).resolves.toHaveLength(64);
+  });
+});
+
+// ── Daemon ────────────────────────────────────────────────────────────────────
+
+describe('serveGuardian() / connectGuardian()', () => {
+  let server: net.Server | undefined;
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    server = undefined;
+    dir = undefined;
+  });
+
+  it('round-trips signatures and refusals over the socket', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guardian-'));
+    const socketPath = path.join(dir, 'guardian.sock');
+    server = await serveGuardian(makeGuardian(), socketPath, logger);
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+
+    const remote = await connectGuardian(socketPath);
+    expect(remote.publicKey.equals(guardianKey.publicKey)).toBe(true);
+
+    const memo = createGuardianMemo(guardianKey.publicKey);
+    const transaction = tx(wallet.publicKey, transfer(1_000), memo);
+    expect(verifies(transaction, await remote.cosign(request(transaction)))).toBe(true);
+
+    await expect(
+      remote.cosign(request(tx(wallet.publicKey, transfer(200_000_000), memo), 'big')),
+    ).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+  });
+
+  it('fails fast when no daemon is listening', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guardian-'));
+    await expect(connectGuardian(path.join(dir, 'missing.sock'))).rejects.toMatchObject({ code: 'RPC_ERROR' });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for src/wallet/hd.ts and the HD keystores in src/wallet/keystore.ts
+ *
+ * Test gates:
+ *  ✅ SLIP-10 Ed25519 derivation matches the published test vectors
+ *  ✅ m/44'/501'/0'/0' matches the address other Solana wallets derive
+ *  ✅ Derived keystores hold no key material and unlock with the master password
+ *  ✅ A whole fleet is recovered offline from the mnemonic alone
+ *  ✅ Swapped masters, derived rekeys and signing with a master are refused
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  generateMnemonic,
+  validateMnemonic,
+  deriveKeypair,
+  deriveEd25519Seed,
+  solanaDerivationPath,
+} from '../../../src/wallet/hd.js';
+import {
+  createMasterKeystore,
+  createDerivedKeystore,
+  loadKeystore,
+  loadMnemonic,
+  rekeyKeystore,
+  getPublicKeyFromKeystore,
+} from '../../../src/wallet/keystore.js';
+import { WalletError } from '../../../src/wallet/types.js';
+
+vi.hoisted(() => {
+  process.env['TEST_KDF_ARGON2_M'] = '256';
+});
+
+const ABANDON = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// ── Derivation ────────────────────────────────────────────────────────────────
+
+describe('deriveEd25519Seed()', () => {
+  // SLIP-0010 test vector 1 for ed25519
+  const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it.each([
+    ["m/0'", '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'],
+    ["m/0'/1'", 'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2'],
+    ["m/0'/1'/2'", '92a5b23c0b8a99e37d07df3fb9966917f5d06e02ddbd909c7e184371463e9fc9'],
+  ])('matches the SLIP-10 vector at %s', (p, expected) => {
+    expect(deriveEd25519Seed(seed, p).toString('hex')).toBe(expected);
+  });
+
+  it('refuses non-hardened segments', () => {
+    expect(() => deriveEd25519Seed(seed, "m/44'/501'/0")).toThrow(/hardened-only/);
+  });
+});
+
+describe('deriveKeypair()', () => {
+  it("matches the address standard Solana wallets derive at m/44'/501'/0'/0'", () => {
+    expect(deriveKeypair(ABANDON, 0).publicKey.toBase58()).toBe('HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk');
+  });
+
+  it('derives distinct, repeatable keys per index', () => {
+    const a = deriveKeypair(ABANDON, 1);
+    expect(deriveKeypair(ABANDON, 1).secretKey).toEqual(a.secretKey);
+    expect(deriveKeypair(ABANDON, 2).publicKey.equals(a.publicKey)).toBe(false);
+  });
+
+  it('ignores case and extra whitespace in the phrase', () => {
+    const messy = `  ${ABANDON.toUpperCase().replace(/ /g, '   ')}\n`;
+    expect(deriveKeypair(messy, 0).publicKey.equals(deriveKeypair(ABANDON, 0).publicKey)).toBe(true);
+  });
+
+  it('rejects a phrase with a bad checksum', () => {
+    expect(() => deriveKeypair(ABANDON.replace('about', 'abandon'), 0)).toThrow(WalletError);
+  });
+
+  it('rejects an out-of-range index', () => {
+    expect(() => solanaDerivationPath(-1)).toThrow(WalletError);
+    expect(() => solanaDerivationPath(2 ** 31)).toThrow(WalletError);
+  });
+});
+
+describe('generateMnemonic()', () => {
+  it('produces valid 24- and 12-word phrases', () => {
+    const long = generateMnemonic();
+    const short = generateMnemonic(12);
+    expect(long.split(' ')).toHaveLength(24);
+    expect(short.split(' ')).toHaveLength(12);
+    expect(validateMnemonic(long) && validateMnemonic(short)).toBe(true);
+  });
+});
+
+// ── HD keystores ──────────────────────────────────────────────────────────────
+
+describe('HD master and derived keystores', () => {
+  let tmpDir: string;
+  let masterPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-hd-'));
+    masterPath = path.join(tmpDir, 'master.master.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores the mnemonic encrypted and returns it with the right password', () => {
+    const master = createMasterKeystore(ABANDON, 'password12345', masterPath);
+
+    expect(master.kind).toBe('hd-master');
+    expect(master.fingerprint).toBe(deriveKeypair(ABANDON, 0).publicKey.toBase58());
+    expect(fs.readFileSync(masterPath, 'utf8')).not.toContain('abandon');
+    expect(fs.statSync(masterPath).mode & 0o777).toBe(0o600);
+    expect(loadMnemonic(masterPath, 'password12345')).toBe(ABANDON);
+    expect(() => loadMnemonic(masterPath, 'wrongpassword')).toThrow('Wrong password');
+  });
+
+  it('rejects an invalid mnemonic', () => {
+    expect(() => createMasterKeystore('not a real phrase', 'password12345', masterPath)).toThrow('BIP39');
+    expect(fs.existsSync(masterPath)).toBe(false);
+  });
+
+  it('writes derived keystores with no key material that unlock via the master', () => {
+    createMasterKeystore(ABANDON, 'password12345', masterPath);
+    const derivedPath = path.join(tmpDir, 'agent-3.keystore.json');
+
+    const ks = createDerivedKeystore(masterPath, 'password12345', 3, derivedPath);
+
+    expect(ks).toMatchObject({ kind: 'hd', index: 3, derivationPath: "m/44'/501'/3'/0'", master: 'master.master.json' });
+    expect(fs.readFileSync(derivedPath, 'utf8')).not.toMatch(/ciphertext|encrypted/);
+    expect(getPublicKeyFromKeystore(derivedPath)).toBe(deriveKeypair(ABANDON, 3).publicKey.toBase58());
+    expect(loadKeystore(derivedPath, 'password12345').secretKey).toEqual(deriveKeypair(ABANDON, 3).secretKey);
+    expect(() => loadKeystore(derivedPath, 'wrongpassword')).toThrow(WalletError);
+  });
+
+  it('recovers the whole fleet offline from the mnemonic alone', () => {
+    const mnemonic = generateMnemonic();
+    createMasterKeystore(mnemonic, 'password12345', masterPath);
+    const fleet = [0, 1, 7].map((i) =>
+      createDerivedKeystore(masterPath, 'password12345', i, path.join(tmpDir, `a${i}.keystore.json`)).publicKey,
+    );
+
+    // Lose every file, keep only the written-down phrase
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.mkdirSync(tmpDir);
+
+    createMasterKeystore(mnemonic, 'a-new-password', masterPath);
+    const recovered = [0, 1, 7].map((i) => {
+      const p = path.join(tmpDir, `a${i}.keystore.json`);
+      createDerivedKeystore(masterPath, 'a-new-password', i, p);
+      return loadKeystore(p, 'a-new-password').publicKey.toBase58();
+    });
+
+    expect(recovered).toEqual(fleet);
+  });
+
+  it('refuses a derived keystore whose master was swapped for another', () => {
+    createMasterKeystore(ABANDON, 'password12345', masterPath);
+    const derivedPath = path.join(tmpDir, 'agent.keystore.json');
+    createDerivedKeystore(masterPath, 'password12345', 0, derivedPath);
+
+    createMasterKeystore(generateMnemonic(), 'password12345', masterPath);
+
+    expect(() => loadKeystore(derivedPath, 'password12345')).toThrow(/not the one this wallet was derived from/);
+  });
+
+  it('keeps derived keystores working after the master is rekeyed', () => {
+    createMasterKeystore(ABANDON, 'password12345', masterPath);
+    const derivedPath = path.join(tmpDir, 'agent.keystore.json');
+    createDerivedKeystore(masterPath, 'password12345', 2, derivedPath);
+
+    const rekeyed = rekeyKeystore(masterPath, 'password12345', 'newpassword');
+
+    expect(rekeyed).toMatchObject({ kind: 'hd-master' });
+    expect(loadKeystore(derivedPath, 'newpassword').publicKey.toBase58()).toBe(
+      deriveKeypair(ABANDON, 2).publicKey.toBase58(),
+    );
+  });
+
+  it('refuses to rekey a derived keystore or sign with a master', () => {
+    createMasterKeystore(ABANDON, 'password12345', masterPath);
+    const derivedPath = path.join(tmpDir, 'agent.keystore.json');
+    createDerivedKeystore(masterPath, 'password12345', 0, derivedPath);
+
+    expect(() => rekeyKeystore(derivedPath, 'password12345', 'newpassword')).toThrow(/Rekey the master/);
+    expect(() => loadKeystore(masterPath, 'password12345')).toThrow(/HD master/);
+    expect(() => getPublicKeyFromKeystore(masterPath)).toThrow(/no address/);
+  });
+});
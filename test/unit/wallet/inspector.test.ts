@@ -0,0 +1,362 @@
+/**
+ * Unit tests for src/wallet/inspector.ts
+ *
+ * Test gates:
+ *  ✅ Decodes System transfers into lamport outflows and destinations
+ *  ✅ Decodes SPL transfer / transferChecked / approve / setAuthority / closeAccount
+ *  ✅ Reports programs it cannot decode as opaque
+ *  ✅ Decodes lookup-table creates, extends and closes; refuses freezes
+ *  ✅ toSpendIntent charges the larger of estimate and decoded outflow
+ *  ✅ A swap paying out to the wallet passes a destination allowlist
+ *  ✅ SpendingLimitGuard rejects opaque programs not on the allowlist
+ *  ✅ SpendingLimitGuard denies approve / setAuthority / foreign close / assign
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  AuthorityType,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createApproveCheckedInstruction,
+  createApproveInstruction,
+  createAssociatedTokenAccountInstruction,
+  createCloseAccountInstruction,
+  createSetAuthorityInstruction,
+  createTransferCheckedInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { allowOwnDestinations, inspectTransaction, toSpendIntent } from '../../../src/wallet/inspector.js';
+import { SpendingLimitGuard, DEFAULT_ALLOWED_PROGRAMS } from '../../../src/wallet/limits.js';
+import { WalletError } from '../../../src/wallet/types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const owner = Keypair.generate().publicKey;
+const other = Keypair.generate().publicKey;
+const USDC  = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+function v0(...instructions: TransactionInstruction[]): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions,
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+const limits = { maxPerTxLamports: 100_000_000n, maxSessionLamports: 500_000_000n };
+
+// ── inspectTransaction ────────────────────────────────────────────────────────
+
+describe('inspectTransaction() — System program', () => {
+  it('GATE: decodes a transfer from the owner as a lamport outflow', () => {
+    const tx = v0(SystemProgram.transfer({ fromPubkey: owner, toPubkey: other, lamports: 42_000 }));
+    const result = inspectTransaction(tx, owner);
+
+    expect(result.lamportOutflows).toEqual([
+      { destination: other.toBase58(), lamports: 42_000n, newAccount: false },
+    ]);
+    expect(result.opaquePrograms).toEqual([]);
+  });
+
+  it('ignores self-transfers', () => {
+    const tx = v0(SystemProgram.transfer({ fromPubkey: owner, toPubkey: owner, lamports: 1 }));
+    expect(inspectTransaction(tx, owner).lamportOutflows).toEqual([]);
+  });
+
+  it('decodes legacy transactions', () => {
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: other, lamports: 7 }),
+    );
+    expect(inspectTransaction(tx, owner).lamportOutflows[0]?.lamports).toBe(7n);
+  });
+
+  it('records System assign of the owner account', () => {
+    const tx = v0(SystemProgram.assign({ accountPubkey: owner, programId: other }));
+    expect(inspectTransaction(tx, owner).assignedAccounts).toEqual([owner.toBase58()]);
+  });
+});
+
+describe('inspectTransaction() — SPL Token', () => {
+  const source = getAssociatedTokenAddressSync(USDC, owner);
+  const dest   = getAssociatedTokenAddressSync(USDC, other);
+
+  it('GATE: decodes transferChecked with its mint', () => {
+    const tx = v0(createTransferCheckedInstruction(source, USDC, dest, owner, 5_000_000n, 6));
+    const [out] = inspectTransaction(tx, owner).tokenOutflows;
+
+    expect(out).toMatchObject({
+      source: source.toBase58(),
+      destination: dest.toBase58(),
+      mint: USDC.toBase58(),
+      amount: 5_000_000n,
+    });
+  });
+
+  it('decodes plain transfer with an unresolved mint', () => {
+    const tx = v0(createTransferInstruction(source, dest, owner, 9n));
+    expect(inspectTransaction(tx, owner).tokenOutflows[0]).toMatchObject({ mint: null, amount: 9n });
+  });
+
+  it('resolves the destination owner from an ATA created in the same transaction', () => {
+    const tx = v0(
+      createAssociatedTokenAccountInstruction(owner, dest, other, USDC),
+      createTransferCheckedInstruction(source, USDC, dest, owner, 1n, 6),
+    );
+    expect(inspectTransaction(tx, owner).tokenOutflows[0]?.destinationOwner).toBe(other.toBase58());
+  });
+
+  it('lists ATAs the owner pays to create', () => {
+    const paidByOther = getAssociatedTokenAddressSync(USDC, owner);
+    const tx = v0(
+      createAssociatedTokenAccountInstruction(owner, dest, other, USDC),
+      createAssociatedTokenAccountInstruction(other, paidByOther, owner, USDC),
+    );
+    expect(inspectTransaction(tx, owner).createdTokenAccounts).toEqual([dest.toBase58()]);
+  });
+
+  it('decodes approve, setAuthority and closeAccount', () => {
+    const tx = v0(
+      createApproveInstruction(source, other, owner, 100n),
+      createSetAuthorityInstruction(source, owner, AuthorityType.AccountOwner, other),
+      createCloseAccountInstruction(source, other, owner),
+    );
+    const result = inspectTransaction(tx, owner);
+    const programId = TOKEN_PROGRAM_ID.toBase58();
+
+    expect(result.approvals).toEqual([
+      { instruction: 'approve', programId, account: source.toBase58(), delegate: other.toBase58(), amount: 100n },
+    ]);
+    expect(result.authorityChanges).toEqual([
+      { programId, account: source.toBase58(), authorityType: 'AccountOwner', newAuthority: other.toBase58() },
+    ]);
+    expect(result.closedAccounts).toEqual([
+      { programId, account: source.toBase58(), destination: other.toBase58(), toForeign: true },
+    ]);
+  });
+
+  it('ignores token instructions signed by another authority', () => {
+    const tx = v0(createTransferCheckedInstruction(dest, USDC, source, other, 1n, 6));
+    expect(inspectTransaction(tx, owner).tokenOutflows).toEqual([]);
+  });
+});
+
+describe('inspectTransaction() — other programs', () => {
+  it('decodes ComputeBudget settings', () => {
+    const tx = v0(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+    );
+    const result = inspectTransaction(tx, owner);
+    expect(result.computeUnitLimit).toBe(200_000);
+    expect(result.computeUnitPriceMicroLamports).toBe(1_000n);
+  });
+
+  it('GATE: reports undecodable programs as opaque', () => {
+    const unknown = Keypair.generate().publicKey;
+    const tx = v0(new TransactionInstruction({ programId: unknown, keys: [], data: Buffer.from([1]) }));
+    expect(inspectTransaction(tx, owner).opaquePrograms).toEqual([unknown.toBase58()]);
+  });
+
+  it('records lookup-table space the owner pays for, and closes to a foreign recipient', () => {
+    const [create, table] = AddressLookupTableProgram.createLookupTable({ authority: owner, payer: owner, recentSlot: 1 });
+    const tx = v0(
+      create,
+      AddressLookupTableProgram.extendLookupTable({ lookupTable: table, authority: owner, payer: owner, addresses: [other, USDC] }),
+      AddressLookupTableProgram.extendLookupTable({ lookupTable: table, authority: owner, addresses: [owner] }),
+      AddressLookupTableProgram.closeLookupTable({ lookupTable: table, authority: owner, recipient: other }),
+    );
+
+    const result = inspectTransaction(tx, owner);
+    expect(result.opaquePrograms).toEqual([]);
+    expect(result.createdLookupTables).toEqual([table.toBase58()]);
+    expect(result.lookupTableAddressesFunded).toBe(2);
+    expect(result.closedAccounts).toEqual([{
+      programId: AddressLookupTableProgram.programId.toBase58(),
+      account: table.toBase58(),
+      destination: other.toBase58(),
+      toForeign: true,
+    }]);
+    expect(new SpendingLimitGuard(limits).getPolicyViolations(result)).toHaveLength(1);
+  });
+
+  it('refuses to freeze a lookup table the owner controls', () => {
+    const lookupTable = Keypair.generate().publicKey;
+    const tx = v0(AddressLookupTableProgram.freezeLookupTable({ lookupTable, authority: owner }));
+    expect(() => inspectTransaction(tx, owner)).toThrow(/freezeLookupTable/);
+  });
+
+  it('throws LIMIT_BREACH on a malformed System instruction', () => {
+    const tx = v0(new TransactionInstruction({
+      programId: SystemProgram.programId,
+      keys: [],
+      data: Buffer.from([2, 0, 0, 0]),
+    }));
+    expect(() => inspectTransaction(tx, owner)).toThrow(WalletError);
+  });
+});
+
+// ── toSpendIntent ─────────────────────────────────────────────────────────────
+
+describe('toSpendIntent()', () => {
+  it('GATE: charges the decoded outflow when the estimate understates it', () => {
+    const tx = v0(SystemProgram.transfer({ fromPubkey: owner, toPubkey: other, lamports: 90_000_000 }));
+    const intent = toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 1n });
+
+    expect(intent.lamports).toBe(90_000_000n);
+    expect(intent.destinations).toEqual([other.toBase58()]);
+  });
+
+  it('charges the estimate when the spend happens inside an opaque program', () => {
+    const tx = v0(new TransactionInstruction({ programId: new PublicKey(DEFAULT_ALLOWED_PROGRAMS[0]!), keys: [], data: Buffer.alloc(0) }));
+    const intent = toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 5_000_000n, mint: USDC.toBase58() });
+
+    expect(intent.lamports).toBe(0n);
+    expect(intent.tokens).toEqual({ [USDC.toBase58()]: 5_000_000n });
+  });
+
+  it('charges WSOL transfers as lamports and does not treat wrapping as a destination', () => {
+    const wsolAta = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+    const tx = v0(SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAta, lamports: 10_000 }));
+    const intent = toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 0n });
+
+    expect(intent.lamports).toBe(10_000n);
+    expect(intent.destinations).toEqual([]);
+  });
+
+  it('uses the recipient wallet, not the token account, as the destination', () => {
+    const dest = getAssociatedTokenAddressSync(USDC, other);
+    const tx = v0(
+      createAssociatedTokenAccountInstruction(owner, dest, other, USDC),
+      createTransferCheckedInstruction(getAssociatedTokenAddressSync(USDC, owner), USDC, dest, owner, 3n, 6),
+    );
+    const intent = toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 0n });
+
+    expect(intent.tokens).toEqual({ [USDC.toBase58()]: 3n });
+    expect(intent.destinations).toEqual([other.toBase58()]);
+  });
+
+  it('throws LIMIT_BREACH when a token outflow mint is unresolved', () => {
+    const tx = v0(createTransferInstruction(
+      getAssociatedTokenAddressSync(USDC, owner),
+      getAssociatedTokenAddressSync(USDC, other),
+      owner,
+      1n,
+    ));
+    expect(() => toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 0n })).toThrow(/mint/);
+  });
+
+  it('GATE: a decoded destination outside the allowlist is rejected by the guard', () => {
+    const allowed = Keypair.generate().publicKey.toBase58();
+    const guard = new SpendingLimitGuard({ ...limits, allowedDestinations: [allowed] });
+    const tx = v0(SystemProgram.transfer({ fromPubkey: owner, toPubkey: other, lamports: 1_000 }));
+    const intent = toSpendIntent(inspectTransaction(tx, owner), owner, { amount: 1_000n, destination: allowed });
+
+    expect(() => guard.checkIntent(intent)).toThrow(/not in the allowed destinations/);
+  });
+
+  it('GATE: a swap paying out to the wallet passes an allowlist of other addresses', () => {
+    const allowed = Keypair.generate().publicKey.toBase58();
+    const guard = new SpendingLimitGuard(allowOwnDestinations({ ...limits, allowedDestinations: [allowed] }, owner));
+    // The swap program moves tokens by CPI, so only the estimate describes the spend
+    const tx = v0(new TransactionInstruction({ programId: new PublicKey(DEFAULT_ALLOWED_PROGRAMS[0]!), keys: [], data: Buffer.alloc(0) }));
+    const swap = toSpendIntent(inspectTransaction(tx, owner), owner, {
+      amount: 5_000_000n, mint: USDC.toBase58(), destination: owner.toBase58(),
+    });
+
+    expect(() => guard.checkIntent(swap)).not.toThrow();
+    expect(() => guard.checkIntent({ ...swap, destinations: [other.toBase58()] })).toThrow(/not in the allowed destinations/);
+    expect(allowOwnDestinations(limits, owner)).toBe(limits);
+  });
+});
+
+// ── Program and instruction policy ────────────────────────────────────────────
+
+describe('SpendingLimitGuard — getPolicyViolations()', () => {
+  const unknown = Keypair.generate().publicKey;
+  const source  = getAssociatedTokenAddressSync(USDC, owner);
+  const opaque  = (programId: PublicKey): TransactionInstruction =>
+    new TransactionInstruction({ programId, keys: [], data: Buffer.alloc(0) });
+
+  it('allows the default swap and memo programs', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const tx = v0(...DEFAULT_ALLOWED_PROGRAMS.map((p) => opaque(new PublicKey(p))));
+    expect(guard.getPolicyViolations(inspectTransaction(tx, owner))).toEqual([]);
+  });
+
+  it('GATE: rejects an opaque program not on the allowlist', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const violations = guard.getPolicyViolations(inspectTransaction(v0(opaque(unknown)), owner));
+    expect(violations).toMatchObject([{ instruction: 'program', programId: unknown.toBase58() }]);
+    expect(violations[0]?.reason).toMatch(/not in the allowed programs/);
+  });
+
+  it('a per-agent allowlist replaces the defaults', () => {
+    const guard = new SpendingLimitGuard({ ...limits, allowedPrograms: [unknown.toBase58()] });
+    expect(guard.getPolicyViolations(inspectTransaction(v0(opaque(unknown)), owner))).toEqual([]);
+    const jupiter = new PublicKey(DEFAULT_ALLOWED_PROGRAMS[0]!);
+    expect(guard.getPolicyViolations(inspectTransaction(v0(opaque(jupiter)), owner))).toHaveLength(1);
+  });
+
+  it('GATE: denies delegate approvals by default, naming the instruction', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const tx = v0(
+      createApproveInstruction(source, other, owner, 1n),
+      createApproveCheckedInstruction(source, USDC, other, owner, 1n, 6),
+    );
+    const violations = guard.getPolicyViolations(inspectTransaction(tx, owner));
+    expect(violations.map((v) => v.instruction)).toEqual(['approve', 'approveChecked']);
+    expect(violations[0]).toMatchObject({ programId: TOKEN_PROGRAM_ID.toBase58(), account: source.toBase58() });
+  });
+
+  it('GATE: denies authority changes by default', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const tx = v0(createSetAuthorityInstruction(source, owner, AuthorityType.CloseAccount, other));
+    expect(guard.getPolicyViolations(inspectTransaction(tx, owner))).toMatchObject([
+      { instruction: 'setAuthority', account: source.toBase58() },
+    ]);
+  });
+
+  it('GATE: denies closing an account to a foreign address, but not to the wallet', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const foreign = v0(createCloseAccountInstruction(source, other, owner));
+    const own     = v0(createCloseAccountInstruction(source, owner, owner));
+
+    expect(guard.getPolicyViolations(inspectTransaction(foreign, owner))).toMatchObject([
+      { instruction: 'closeAccount' },
+    ]);
+    expect(guard.getPolicyViolations(inspectTransaction(own, owner))).toEqual([]);
+  });
+
+  it('denies System assign of the wallet account', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const tx = v0(SystemProgram.assign({ accountPubkey: owner, programId: other }));
+    expect(guard.getPolicyViolations(inspectTransaction(tx, owner))).toMatchObject([
+      { instruction: 'assign', programId: SystemProgram.programId.toBase58() },
+    ]);
+  });
+
+  it('allowedInstructions opts a kind out of the denylist', () => {
+    const guard = new SpendingLimitGuard({ ...limits, allowedInstructions: ['approve'] });
+    const tx = v0(createApproveInstruction(source, other, owner, 1n));
+    expect(guard.getPolicyViolations(inspectTransaction(tx, owner))).toEqual([]);
+  });
+
+  it('ignores instructions the wallet does not sign for', () => {
+    const guard = new SpendingLimitGuard(limits);
+    const tx = v0(createApproveInstruction(source, owner, other, 1n));
+    expect(guard.getPolicyViolations(inspectTransaction(tx, owner))).toEqual([]);
+  });
+});
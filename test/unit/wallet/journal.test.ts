@@ -0,0 +1,109 @@
+/**
+ * Unit tests for src/wallet/journal.ts
+ *
+ * Test gates:
+ *  ✅ Equal spends share an intent key; different amounts or recipients do not
+ *  ✅ Pending transactions settle as confirmed, failed or expired once known
+ *  ✅ Transactions that can still land stay pending
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair, NONCE_ACCOUNT_LENGTH, PublicKey, SystemProgram } from '@solana/web3.js';
+import { createMemoryTxJournal, intentKey, reconcileTxJournal } from '../../../src/wallet/journal.js';
+import { createLogger } from '../../../src/logger/logger.js';
+import type { OutgoingTx } from '../../../src/wallet/types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const logger = createLogger({ level: 'error' });
+const A = Keypair.generate().publicKey.toBase58();
+const B = Keypair.generate().publicKey.toBase58();
+const NONCE_ACCOUNT = Keypair.generate().publicKey;
+
+function tx(signature: string, fields: Partial<OutgoingTx> = {}): OutgoingTx {
+  return { signature, intentKey: 'k', lamports: 1_000n, ...fields };
+}
+
+function nonceData(nonce: string): Buffer {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH);
+  data.writeUInt32LE(1, 0);
+  data.writeUInt32LE(1, 4);
+  new PublicKey(nonce).toBuffer().copy(data, 40);
+  return data;
+}
+
+// ── intentKey ─────────────────────────────────────────────────────────────────
+
+describe('intentKey()', () => {
+  it('is stable for equal spends and differs otherwise', () => {
+    const key = intentKey({ lamports: 5n, tokens: { m1: 1n, m2: 2n }, destinations: [A, B] });
+
+    expect(intentKey({ lamports: 5n, tokens: { m2: 2n, m1: 1n }, destinations: [B, A] })).toBe(key);
+    expect(intentKey({ lamports: 6n, tokens: { m1: 1n, m2: 2n }, destinations: [A, B] })).not.toBe(key);
+    expect(intentKey({ lamports: 5n, tokens: { m1: 1n, m2: 2n }, destinations: [A] })).not.toBe(key);
+  });
+});
+
+// ── reconcileTxJournal ────────────────────────────────────────────────────────
+
+describe('reconcileTxJournal()', () => {
+  it('settles what is known and keeps what can still land', async () => {
+    const advancedNonce = Keypair.generate().publicKey.toBase58();
+    const journal = createMemoryTxJournal();
+    journal.record(tx('landed', { lastValidBlockHeight: 900 }));
+    journal.record(tx('reverted', { lastValidBlockHeight: 900 }));
+    journal.record(tx('expired', { lastValidBlockHeight: 100 }));
+    journal.record(tx('in-flight', { lastValidBlockHeight: 900 }));
+    journal.record(tx('processed', { lastValidBlockHeight: 100 }));
+    journal.record(tx('superseded', { nonceAccount: NONCE_ACCOUNT.toBase58(), nonce: A }));
+    const resolve = vi.spyOn(journal, 'resolve');
+
+    const connection = {
+      getSignatureStatuses: vi.fn(async () => ({
+        context: { slot: 1 },
+        value: [
+          { slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' },
+          { slot: 1, confirmations: null, err: { InstructionError: [0, 'Custom'] }, confirmationStatus: 'confirmed' },
+          null,
+          null,
+          { slot: 1, confirmations: 0, err: null, confirmationStatus: 'processed' },
+          null,
+        ],
+      })),
+      getBlockHeight: vi.fn(async () => 500),
+      getAccountInfo: vi.fn(async () => ({
+        data: nonceData(advancedNonce), owner: SystemProgram.programId, lamports: 1, executable: false, rentEpoch: 0,
+      })),
+    } as unknown as Connection;
+
+    const settled = await reconcileTxJournal(connection, journal, logger);
+
+    expect(settled.map((s) => [s.tx.signature, s.status])).toEqual([
+      ['landed', 'confirmed'],
+      ['reverted', 'failed'],
+      ['expired', 'expired'],
+      ['superseded', 'expired'],
+    ]);
+    expect(resolve).toHaveBeenCalledWith(expect.objectContaining({ signature: 'landed' }), 'confirmed', true);
+    expect(journal.pending().map((t) => t.signature)).toEqual(['in-flight', 'processed']);
+    expect(connection.getBlockHeight).toHaveBeenCalledTimes(1);
+  });
+
+  it('makes no RPC call with nothing pending', async () => {
+    const connection = { getSignatureStatuses: vi.fn() } as unknown as Connection;
+    expect(await reconcileTxJournal(connection, createMemoryTxJournal(), logger)).toEqual([]);
+    expect(connection.getSignatureStatuses).not.toHaveBeenCalled();
+  });
+
+  it('keeps blocking when expiry cannot be checked', async () => {
+    const journal = createMemoryTxJournal();
+    journal.record(tx('unknown', { lastValidBlockHeight: 100 }));
+    const connection = {
+      getSignatureStatuses: vi.fn(async () => ({ context: { slot: 1 }, value: [null] })),
+      getBlockHeight: vi.fn(async () => { throw new Error('503'); }),
+    } as unknown as Connection;
+
+    expect(await reconcileTxJournal(connection, journal, logger)).toEqual([]);
+    expect(journal.pending()).toHaveLength(1);
+  });
+});
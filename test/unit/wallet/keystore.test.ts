@@ -5,18 +5,35 @@
  *  ✅ Keystore round-trip (create → load → same pubkey)
  *  ✅ Keystore load with wrong password throws
  *  ✅ Keystore file contains no plaintext key bytes (string scan)
+ *  ✅ v1 (scrypt) keystores still load and can be upgraded to v2 (Argon2id)
+ *  ✅ rekeyKeystore() changes password / KDF without changing the address
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Keypair } from '@solana/web3.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { createKeystore, loadKeystore, loadFromEnv, getPublicKeyFromKeystore } from '../../../src/wallet/keystore.js';
+import {
+  createKeystore,
+  loadKeystore,
+  rekeyKeystore,
+  loadFromEnv,
+  getPublicKeyFromKeystore,
+} from '../../../src/wallet/keystore.js';
 import { WalletError } from '../../../src/wallet/types.js';
 
-// Use low-cost KDF params in tests for speed
-process.env['TEST_KDF_N'] = '1024';
+// Use low-cost KDF params in tests for speed. Hoisted so keystore.ts sees them at import.
+vi.hoisted(() => {
+  process.env['TEST_KDF_N'] = '1024';
+  process.env['TEST_KDF_ARGON2_M'] = '256';
+});
+
+/** Rewrites a fresh scrypt keystore in the v1 layout, as older releases wrote it. */
+function writeV1(keypair: Keypair, password: string, keystorePath: string): void {
+  const ks = createKeystore(keypair, password, keystorePath, { kdf: 'scrypt' });
+  fs.writeFileSync(keystorePath, JSON.stringify({ ...ks, version: 1 }, null, 2), { mode: 0o600 });
+}
 
 describe('createKeystore', () => {
   let tmpDir: string;
@@ -67,9 +84,10 @@ describe('createKeystore', () => {
   it('returns keystore with correct encryption metadata', () => {
     const keypair = Keypair.generate();
     const ks = createKeystore(keypair, 'testpassword123', keystorePath);
-    expect(ks.version).toBe(1);
+    expect(ks.version).toBe(2);
     expect(ks.encrypted.algorithm).toBe('aes-256-gcm');
-    expect(ks.encrypted.kdf).toBe('scrypt');
+    expect(ks.encrypted.kdf).toBe('argon2id');
+    expect(ks.encrypted.kdfParams).toEqual({ m: 256, t: 2, p: 1 });
     expect(ks.encrypted.iv).toHaveLength(32); // 16 bytes = 32 hex chars
     expect(ks.encrypted.authTag).toHaveLength(32);
     expect(ks.encrypted.salt).toHaveLength(64); // 32 bytes = 64 hex chars
@@ -215,7 +233,7 @@ describe('loadKeystore', () => {
 
   it('throws when keystore KDF params are invalid', () => {
     const keypair = Keypair.generate();
-    createKeystore(keypair, 'password12345', keystorePath);
+    createKeystore(keypair, 'password12345', keystorePath, { kdf: 'scrypt' });
 
     const raw = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
     raw.encrypted.kdfParams.N = 0;
@@ -223,6 +241,110 @@ describe('loadKeystore', () => {
 
     expect(() => loadKeystore(keystorePath, 'password12345')).toThrow('KDF parameters are invalid');
   });
+
+  it('refuses Argon2id params too expensive to attempt', () => {
+    const keypair = Keypair.generate();
+    createKeystore(keypair, 'password12345', keystorePath);
+
+    const raw = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+    raw.encrypted.kdfParams.m = 64 * 1024 * 1024; // 64 GiB
+    fs.writeFileSync(keystorePath, JSON.stringify(raw));
+
+    expect(() => loadKeystore(keystorePath, 'password12345')).toThrow('KDF parameters are invalid');
+  });
+
+  it('refuses scrypt params too expensive to attempt or not a power of two', () => {
+    const keypair = Keypair.generate();
+    createKeystore(keypair, 'password12345', keystorePath, { kdf: 'scrypt' });
+    const raw = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+
+    for (const params of [{ N: 2 ** 21 }, { N: 1000 }, { r: 1024 }, { p: 1024 }]) {
+      fs.writeFileSync(keystorePath, JSON.stringify({
+        ...raw,
+        encrypted: { ...raw.encrypted, kdfParams: { ...raw.encrypted.kdfParams, ...params } },
+      }));
+      expect(() => loadKeystore(keystorePath, 'password12345')).toThrow('KDF parameters are invalid');
+    }
+  });
+
+  it('loads a v1 scrypt keystore and leaves it alone by default', () => {
+    const keypair = Keypair.generate();
+    writeV1(keypair, 'password12345', keystorePath);
+
+    expect(loadKeystore(keystorePath, 'password12345').publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(keystorePath, 'utf8')).version).toBe(1);
+  });
+
+  it('upgrades a v1 keystore to v2 Argon2id after unlocking with { upgrade: true }', () => {
+    const keypair = Keypair.generate();
+    writeV1(keypair, 'password12345', keystorePath);
+
+    loadKeystore(keystorePath, 'password12345', { upgrade: true });
+
+    const upgraded = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+    expect(upgraded.version).toBe(2);
+    expect(upgraded.encrypted.kdf).toBe('argon2id');
+    expect(fs.statSync(keystorePath).mode & 0o777).toBe(0o600);
+    expect(loadKeystore(keystorePath, 'password12345').publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('does not upgrade when the password is wrong', () => {
+    writeV1(Keypair.generate(), 'password12345', keystorePath);
+    const before = fs.readFileSync(keystorePath, 'utf8');
+
+    expect(() => loadKeystore(keystorePath, 'wrongpassword', { upgrade: true })).toThrow(WalletError);
+    expect(fs.readFileSync(keystorePath, 'utf8')).toBe(before);
+  });
+});
+
+describe('rekeyKeystore', () => {
+  let tmpDir: string;
+  let keystorePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-test-'));
+    keystorePath = path.join(tmpDir, 'wallet.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('changes the password without changing the address', () => {
+    const keypair = Keypair.generate();
+    createKeystore(keypair, 'oldpassword', keystorePath);
+
+    const ks = rekeyKeystore(keystorePath, 'oldpassword', 'newpassword');
+
+    expect(ks.publicKey).toBe(keypair.publicKey.toBase58());
+    expect(() => loadKeystore(keystorePath, 'oldpassword')).toThrow('Wrong password');
+    expect(loadKeystore(keystorePath, 'newpassword').publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('applies stronger KDF params and leaves no temp files behind', () => {
+    const keypair = Keypair.generate();
+    writeV1(keypair, 'password12345', keystorePath);
+
+    const ks = rekeyKeystore(keystorePath, 'password12345', 'password12345', { argon2: { m: 512, t: 3 } });
+
+    expect(ks.version).toBe(2);
+    expect(ks.encrypted.kdfParams).toEqual({ m: 512, t: 3, p: 1 });
+    expect(fs.readdirSync(tmpDir)).toEqual(['wallet.json']);
+    expect(loadKeystore(keystorePath, 'password12345').publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('refuses the wrong current password and keeps the file intact', () => {
+    createKeystore(Keypair.generate(), 'password12345', keystorePath);
+    const before = fs.readFileSync(keystorePath, 'utf8');
+
+    expect(() => rekeyKeystore(keystorePath, 'wrongpassword', 'newpassword')).toThrow(WalletError);
+    expect(fs.readFileSync(keystorePath, 'utf8')).toBe(before);
+  });
+
+  it('refuses a new password shorter than 8 characters', () => {
+    createKeystore(Keypair.generate(), 'password12345', keystorePath);
+    expect(() => rekeyKeystore(keystorePath, 'password12345', 'short')).toThrow('at least 8 characters');
+  });
 });
 
 describe('getPublicKeyFromKeystore', () => {
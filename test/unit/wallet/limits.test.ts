@@ -5,11 +5,18 @@
  *  ✅ SpendingLimitGuard: per-tx limit throws correctly
  *  ✅ SpendingLimitGuard: session cap throws after cumulative spend
  *  ✅ SpendingLimitGuard: allowedDestinations rejects unlisted address
+ *  ✅ SpendingLimitGuard: durable windows rehydrate from the spend ledger
+ *  ✅ SpendingLimitGuard: per-mint caps apply to SPL spend
+ *  ✅ SpendingLimitGuard: USD caps refuse stale or missing prices
+ *  ✅ SpendingLimitGuard: network fees count against the lamport caps
+ *  ✅ SpendingLimitGuard: fees and rent are tracked separately; fees have their own cap
+ *  ✅ SpendingLimitGuard: batches are checked leg by leg and as a whole
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { SpendingLimitGuard } from '../../../src/wallet/limits.js';
-import { WalletError } from '../../../src/wallet/types.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SpendingLimitGuard, combineIntents } from '../../../src/wallet/limits.js';
+import { createFixedPriceOracle } from '../../../src/protocols/oracle.js';
+import { WalletError, type SpendRecord } from '../../../src/wallet/types.js';
 
 const SOL = 1_000_000_000n; // 1 SOL in lamports
 
@@ -183,6 +190,126 @@ describe('SpendingLimitGuard — allowedDestinations', () => {
   });
 });
 
+describe('SpendingLimitGuard — network fees', () => {
+  const DEST = 'GsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW';
+
+  it('adds the fee to the spend for the per-tx and session caps', () => {
+    const guard = new SpendingLimitGuard(baseConfig);
+    const intent = { lamports: 100_000_000n, tokens: {}, destinations: [DEST] };
+
+    expect(() => guard.checkIntent(intent)).not.toThrow();
+    expect(() => guard.checkIntent({ ...intent, feeLamports: 5_000n })).toThrow(/per-tx limit/);
+
+    guard.recordIntent({ ...intent, lamports: 1_000n, feeLamports: 5_000n });
+    expect(guard.getSessionSpend()).toBe(6_000n);
+  });
+
+  it('checks a fee-only transaction against lamport caps alone', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, allowedDestinations: [DEST], maxPerTxUsd: 1 },
+      undefined,
+      createFixedPriceOracle({}),
+    );
+    const feeOnly = { lamports: 0n, tokens: {}, destinations: [], feeLamports: 5_000n };
+
+    expect(() => guard.checkIntent(feeOnly)).not.toThrow();
+    expect(() => guard.checkIntent({ ...feeOnly, feeLamports: 200_000_000n })).toThrow(/per-tx limit/);
+  });
+
+  it('adds rent to the spend and keeps fees and rent in their own buckets', () => {
+    const guard = new SpendingLimitGuard(baseConfig);
+    const intent = { lamports: 98_000_000n, tokens: {}, destinations: [DEST], feeLamports: 5_000n };
+
+    expect(() => guard.checkIntent({ ...intent, rentLamports: 2_039_280n })).toThrow(/per-tx limit/);
+
+    guard.recordIntent({ ...intent, lamports: 1_000n, rentLamports: 2_039_280n });
+    guard.recordIntent({ lamports: 0n, tokens: {}, destinations: [], feeLamports: 7_000n });
+    expect(guard.getStatus()).toMatchObject({
+      sessionSpend: 2_052_280n,
+      sessionFees: 12_000n,
+      sessionRent: 2_039_280n,
+    });
+    expect(guard.getStatus().sessionFeeCap).toBeUndefined();
+
+    guard.reset();
+    expect(guard.getStatus()).toMatchObject({ sessionSpend: 0n, sessionFees: 0n, sessionRent: 0n });
+  });
+
+  it('GATE: throws LIMIT_BREACH once session fees exceed maxSessionFeesLamports', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, maxSessionFeesLamports: 10_000n });
+    const feeOnly = { lamports: 0n, tokens: {}, destinations: [], feeLamports: 6_000n };
+
+    guard.recordIntent(feeOnly);
+    expect(() => guard.checkIntent({ ...feeOnly, feeLamports: 4_000n })).not.toThrow();
+    expect(() => guard.checkIntent(feeOnly)).toThrow(/session fee cap/);
+    // Rent is not a fee
+    expect(() => guard.checkIntent({ ...feeOnly, feeLamports: 0n, rentLamports: 2_039_280n })).not.toThrow();
+    expect(guard.getStatus().sessionFeeCap).toBe(10_000n);
+  });
+
+  it('throws INVALID_CONFIG when maxSessionFeesLamports is zero', () => {
+    expect(() => new SpendingLimitGuard({ ...baseConfig, maxSessionFeesLamports: 0n })).toThrow(WalletError);
+  });
+});
+
+describe('SpendingLimitGuard — batches', () => {
+  const DEST = 'GsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW';
+  const OTHER = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+  const MINT = 'EPjFWdd5AufqSSqeM2qJxekBkBZy5QgiU3wB4r2fqjN4';
+
+  it('GATE: refuses a batch whose sum exceeds the session cap, though every leg fits', () => {
+    const guard = new SpendingLimitGuard(baseConfig);
+    const leg = { lamports: 100_000_000n, tokens: {}, destinations: [DEST] };
+
+    expect(() => guard.checkBatch([leg, leg, leg, leg, leg])).not.toThrow();
+    expect(() => guard.checkBatch([leg, leg, leg, leg, leg, leg])).toThrow(/session spend/);
+    // Checking records nothing
+    expect(guard.getSessionSpend()).toBe(0n);
+  });
+
+  it('GATE: refuses a batch with any leg over a per-tx cap or outside the allowlist', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, allowedDestinations: [DEST] });
+    const leg = { lamports: 1_000n, tokens: {}, destinations: [DEST] };
+
+    expect(() => guard.checkBatch([leg, { ...leg, lamports: 100_000_001n }])).toThrow(/per-tx limit/);
+    expect(() => guard.checkBatch([leg, { ...leg, destinations: [OTHER] }])).toThrow(WalletError);
+  });
+
+  it('checks per-mint session caps against the sum of the legs', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, maxPerTxByMint: { [MINT]: 10n }, maxSessionByMint: { [MINT]: 25n } });
+    const leg = { lamports: 0n, tokens: { [MINT]: 10n }, destinations: [DEST] };
+
+    expect(() => guard.checkBatch([leg, leg])).not.toThrow();
+    expect(() => guard.checkBatch([leg, leg, leg])).toThrow(/session/);
+  });
+
+  it('fitsPerTx() applies the per-tx caps, fees and rent included', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, maxPerTxByMint: { [MINT]: 10n } });
+
+    expect(guard.fitsPerTx({ lamports: 100_000_000n, tokens: {}, destinations: [] })).toBe(true);
+    expect(guard.fitsPerTx({ lamports: 99_000_000n, tokens: {}, destinations: [], feeLamports: 600_000n, rentLamports: 600_000n }))
+      .toBe(false);
+    expect(guard.fitsPerTx({ lamports: 0n, tokens: { [MINT]: 11n }, destinations: [] })).toBe(false);
+  });
+
+  it('combineIntents() sums amounts, dedupes destinations and keeps USD only when every leg has it', () => {
+    const combined = combineIntents([
+      { lamports: 1n, tokens: { [MINT]: 2n }, destinations: [DEST], rentLamports: 3n, usdValue: 1 },
+      { lamports: 4n, tokens: { [MINT]: 5n }, destinations: [DEST, OTHER], feeLamports: 6n, usdValue: 2 },
+    ]);
+    expect(combined).toEqual({
+      lamports: 5n,
+      tokens: { [MINT]: 7n },
+      destinations: [DEST, OTHER],
+      feeLamports: 6n,
+      rentLamports: 3n,
+      usdValue: 3,
+    });
+    expect(combineIntents([{ lamports: 1n, tokens: {}, destinations: [], usdValue: 1 }, { lamports: 1n, tokens: {}, destinations: [] }]))
+      .not.toHaveProperty('usdValue');
+  });
+});
+
 describe('SpendingLimitGuard — configuration validation', () => {
   it('throws if maxPerTxLamports is zero', () => {
     expect(
@@ -221,3 +348,235 @@ describe('SpendingLimitGuard — getStatus()', () => {
     expect(status.remainingBudget).toBe(baseConfig.maxSessionLamports - 25_000_000n);
   });
 });
+
+describe('SpendingLimitGuard — durable windows', () => {
+  const HOUR = 60 * 60 * 1000;
+  const NOW  = Date.UTC(2025, 0, 15, 12, 0, 0); // 12:00 UTC
+
+  const ledger = (records: SpendRecord[]) => ({ load: () => records });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('GATE: rolling 24h cap counts spend from a previous session', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, maxRolling24hLamports: 150_000_000n },
+      ledger([{ ts: NOW - 2 * HOUR, lamports: 100_000_000n }]),
+    );
+
+    expect(guard.getSessionSpend()).toBe(0n);
+    expect(() => guard.check(50_000_000n)).not.toThrow();
+    expect(() => guard.check(50_000_001n)).toThrow(/rolling 24h/);
+  });
+
+  it('rolling 24h window ignores spend older than 24h', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, maxRolling24hLamports: 150_000_000n },
+      ledger([{ ts: NOW - 25 * HOUR, lamports: 100_000_000n }]),
+    );
+    expect(() => guard.check(100_000_000n)).not.toThrow();
+  });
+
+  it('calendar day cap resets at UTC midnight', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, maxDailyLamports: 150_000_000n },
+      ledger([
+        { ts: NOW - 13 * HOUR, lamports: 100_000_000n }, // yesterday 23:00 UTC
+        { ts: NOW - 1 * HOUR,  lamports: 100_000_000n }, // today
+      ]),
+    );
+    expect(() => guard.check(50_000_000n)).not.toThrow();
+    expect(() => guard.check(50_000_001n)).toThrow(/calendar-day/);
+  });
+
+  it('lifetime cap counts all recorded spend', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, maxLifetimeLamports: SOL },
+      ledger([
+        { ts: NOW - 90 * 24 * HOUR, lamports: 600_000_000n },
+        { ts: NOW - 1 * HOUR,       lamports: 350_000_000n },
+      ]),
+    );
+    expect(() => guard.check(50_000_000n)).not.toThrow();
+    expect(() => guard.check(50_000_001n)).toThrow(/lifetime/);
+  });
+
+  it('record() counts toward durable windows', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, maxRolling24hLamports: 150_000_000n });
+    guard.record(100_000_000n);
+    expect(() => guard.check(50_000_001n)).toThrow(WalletError);
+  });
+
+  it('spend rolls out of the 24h window as time passes', () => {
+    const guard = new SpendingLimitGuard({ ...baseConfig, maxRolling24hLamports: 150_000_000n });
+    guard.record(100_000_000n);
+    vi.setSystemTime(NOW + 24 * HOUR + 1);
+    expect(() => guard.check(100_000_000n)).not.toThrow();
+  });
+
+  it('reports the most restrictive window as binding', () => {
+    const guard = new SpendingLimitGuard(
+      { ...baseConfig, maxRolling24hLamports: SOL, maxLifetimeLamports: 2n * SOL },
+      ledger([{ ts: NOW - 48 * HOUR, lamports: 1_900_000_000n }]),
+    );
+
+    const status = guard.getStatus();
+    expect(status.bindingWindow).toBe('lifetime');
+    expect(status.remainingBudget).toBe(100_000_000n);
+    expect(status.windows.map((w) => w.window)).toEqual(['session', 'rolling24h', 'lifetime']);
+  });
+
+  it('throws INVALID_CONFIG when a durable cap is below maxPerTxLamports', () => {
+    expect(
+      () => new SpendingLimitGuard({ ...baseConfig, maxDailyLamports: 1n }),
+    ).toThrow(WalletError);
+  });
+});
+
+describe('SpendingLimitGuard — per-mint caps', () => {
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  const WSOL = 'So11111111111111111111111111111111111111112';
+
+  let guard: SpendingLimitGuard;
+
+  beforeEach(() => {
+    guard = new SpendingLimitGuard({
+      ...baseConfig,
+      maxPerTxByMint:   { [USDC]: 50_000_000n },  // 50 USDC
+      maxSessionByMint: { [USDC]: 120_000_000n }, // 120 USDC
+    });
+  });
+
+  it('GATE: throws LIMIT_BREACH when an SPL amount exceeds its per-tx cap', () => {
+    expect(() => guard.check(50_000_000n, undefined, USDC)).not.toThrow();
+    expect(() => guard.check(50_000_001n, undefined, USDC)).toThrow(/per-tx limit/);
+  });
+
+  it('GATE: throws LIMIT_BREACH once cumulative SPL spend exceeds its session cap', () => {
+    guard.record(50_000_000n, USDC);
+    guard.record(50_000_000n, USDC);
+    expect(guard.getMintSessionSpend(USDC)).toBe(100_000_000n);
+    expect(() => guard.check(20_000_000n, undefined, USDC)).not.toThrow();
+    expect(() => guard.check(20_000_001n, undefined, USDC)).toThrow(/session cap/);
+  });
+
+  it('SPL amounts are not checked against, or recorded into, the lamport limits', () => {
+    expect(() => guard.check(40_000_000n, undefined, USDC)).not.toThrow();
+    guard.record(40_000_000n, USDC);
+    expect(guard.getSessionSpend()).toBe(0n);
+  });
+
+  it('WSOL is governed by the lamport limits', () => {
+    expect(() => guard.check(100_000_001n, undefined, WSOL)).toThrow(/per-tx limit/);
+    guard.record(10_000_000n, WSOL);
+    expect(guard.getSessionSpend()).toBe(10_000_000n);
+  });
+
+  it('mints without a configured cap are not limited', () => {
+    expect(() => guard.check(10n ** 18n, undefined, BONK)).not.toThrow();
+  });
+
+  it('applies the destination allowlist to SPL spend', () => {
+    const allowed = 'GsbwXfJraMomNxBcpR3DBRpbBfCuLDe8W9DCaTrYQSUe';
+    const g = new SpendingLimitGuard({ ...baseConfig, allowedDestinations: [allowed] });
+    expect(() => g.check(1n, allowed, USDC)).not.toThrow();
+    expect(() => g.check(1n, 'AnotherAddr1111111111111111111111111111111', USDC)).toThrow(WalletError);
+  });
+
+  it('reset() clears per-mint session spend', () => {
+    guard.record(50_000_000n, USDC);
+    guard.reset();
+    expect(guard.getMintSessionSpend(USDC)).toBe(0n);
+  });
+
+  it('throws INVALID_CONFIG when a per-mint per-tx cap exceeds its session cap', () => {
+    expect(
+      () => new SpendingLimitGuard({
+        ...baseConfig,
+        maxPerTxByMint:   { [USDC]: 2n },
+        maxSessionByMint: { [USDC]: 1n },
+      }),
+    ).toThrow(WalletError);
+  });
+
+  it('throws INVALID_CONFIG when a per-mint cap is zero', () => {
+    expect(
+      () => new SpendingLimitGuard({ ...baseConfig, maxSessionByMint: { [USDC]: 0n } }),
+    ).toThrow(WalletError);
+  });
+});
+
+describe('SpendingLimitGuard — USD caps', () => {
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  const WSOL = 'So11111111111111111111111111111111111111112';
+
+  const usdConfig = { ...baseConfig, maxPerTxUsd: 10, maxSessionUsd: 25 };
+  const oracle = createFixedPriceOracle({ [WSOL]: 150, [USDC]: 1, [BONK]: null });
+
+  it('prices native SOL as WSOL', async () => {
+    const guard = new SpendingLimitGuard(usdConfig, undefined, oracle);
+    await expect(guard.valueInUsd(50_000_000n, undefined, 9)).resolves.toBeCloseTo(7.5);
+  });
+
+  it('GATE: throws LIMIT_BREACH when the USD value exceeds the per-tx cap', async () => {
+    const guard = new SpendingLimitGuard(usdConfig, undefined, oracle);
+    const usd = await guard.valueInUsd(11_000_000n, USDC, 6);
+    expect(() => guard.check(11_000_000n, undefined, USDC, usd)).toThrow(/\$10\.00/);
+  });
+
+  it('GATE: throws LIMIT_BREACH once cumulative USD spend exceeds the session cap', async () => {
+    const guard = new SpendingLimitGuard(usdConfig, undefined, oracle);
+    guard.record(50_000_000n, undefined, 7.5);
+    guard.record(9_000_000n, USDC, 9);
+    expect(guard.getSessionSpendUsd()).toBeCloseTo(16.5);
+
+    const usd = await guard.valueInUsd(9_000_000n, USDC, 6);
+    expect(() => guard.check(9_000_000n, undefined, USDC, usd)).toThrow(/session cap/);
+  });
+
+  it('GATE: refuses to sign when the price is null', async () => {
+    const guard = new SpendingLimitGuard(usdConfig, undefined, oracle);
+    await expect(guard.valueInUsd(1n, BONK, 5)).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+  });
+
+  it('GATE: refuses to sign when the price is older than maxPriceAgeSec', async () => {
+    const stale = createFixedPriceOracle({ [USDC]: 1 }, Date.now() - 120_000);
+    const guard = new SpendingLimitGuard({ ...usdConfig, maxPriceAgeSec: 60 }, undefined, stale);
+    await expect(guard.valueInUsd(1_000_000n, USDC, 6)).rejects.toThrow(/old/);
+  });
+
+  it('refuses to sign when the oracle throws', async () => {
+    const failing = { getPrice: () => Promise.reject(new Error('down')), getPrices: () => Promise.reject(new Error('down')) };
+    const guard = new SpendingLimitGuard(usdConfig, undefined, failing);
+    await expect(guard.valueInUsd(1_000_000n, USDC, 6)).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+  });
+
+  it('check() throws when USD caps are configured but no USD value is supplied', () => {
+    const guard = new SpendingLimitGuard(usdConfig, undefined, oracle);
+    expect(() => guard.check(1_000n)).toThrow(/not priced/);
+  });
+
+  it('check() ignores USD values when no USD caps are configured', () => {
+    const guard = new SpendingLimitGuard(baseConfig);
+    expect(guard.requiresUsdValuation()).toBe(false);
+    expect(() => guard.check(1_000n, undefined, undefined, 1_000_000)).not.toThrow();
+  });
+
+  it('throws INVALID_CONFIG when USD caps are set without an oracle', () => {
+    expect(() => new SpendingLimitGuard(usdConfig)).toThrow(/price oracle/);
+  });
+
+  it('throws INVALID_CONFIG when maxPerTxUsd exceeds maxSessionUsd', () => {
+    expect(
+      () => new SpendingLimitGuard({ ...baseConfig, maxPerTxUsd: 50, maxSessionUsd: 25 }, undefined, oracle),
+    ).toThrow(WalletError);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for src/wallet/nonce.ts and durable-nonce sends in src/wallet/signer.ts
+ *
+ * Test gates:
+ *  ✅ Each wallet has one deterministic nonce account address
+ *  ✅ Nonce accounts are read and checked against the expected authority
+ *  ✅ Legacy and versioned transactions get AdvanceNonceAccount first, exactly once
+ *  ✅ Retries resend the same signed bytes while the nonce is unchanged
+ *  ✅ An advanced nonce returns the earlier attempt instead of sending again
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  NONCE_SEED,
+  getNonceAddress,
+  getNonceAccount,
+  getNonceValue,
+  withDurableNonce,
+} from '../../../src/wallet/nonce.js';
+import { sendAndConfirm } from '../../../src/wallet/signer.js';
+import { createLogger } from '../../../src/logger/logger.js';
+import type { WalletConfig } from '../../../src/wallet/types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const wallet = Keypair.generate();
+const NONCE_1 = Keypair.generate().publicKey.toBase58();
+const NONCE_2 = Keypair.generate().publicKey.toBase58();
+const logger = createLogger({ level: 'error' });
+
+function nonceAccount(nonce: string, authority = wallet.publicKey): AccountInfo<Buffer> {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH);
+  data.writeUInt32LE(1, 0); // version
+  data.writeUInt32LE(1, 4); // initialized
+  authority.toBuffer().copy(data, 8);
+  new PublicKey(nonce).toBuffer().copy(data, 40);
+  data.writeBigUInt64LE(5_000n, 72);
+  return { data, owner: SystemProgram.programId, lamports: 1_447_680, executable: false, rentEpoch: 0 };
+}
+
+function transfer(): Transaction {
+  return new Transaction({ feePayer: wallet.publicKey }).add(
+    SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1_000 }),
+  );
+}
+
+function isAdvanceNonce(programId: PublicKey, data: Uint8Array): boolean {
+  return programId.equals(SystemProgram.programId) && Buffer.from(data).readUInt32LE(0) === 4;
+}
+
+const config: WalletConfig = {
+  rpcUrl: 'http://localhost:8899',
+  limits: { maxPerTxLamports: 1_000_000n, maxSessionLamports: 10_000_000n },
+  simulateBeforeSend: false,
+  confirmationStrategy: 'confirmed',
+  maxRetries: 3,
+  retryDelayMs: 0,
+};
+
+// ── Accounts ──────────────────────────────────────────────────────────────────
+
+describe('nonce accounts', () => {
+  it('derives one address per wallet', async () => {
+    const address = await getNonceAddress(wallet.publicKey);
+    expect(address).toEqual(await PublicKey.createWithSeed(wallet.publicKey, NONCE_SEED, SystemProgram.programId));
+    expect(address).not.toEqual(await getNonceAddress(Keypair.generate().publicKey));
+  });
+
+  it('reads the nonce and checks its authority', async () => {
+    const address = await getNonceAddress(wallet.publicKey);
+    const connection = {
+      getAccountInfo: vi.fn(async (key: PublicKey) => (key.equals(address) ? nonceAccount(NONCE_1) : null)),
+    } as unknown as Connection;
+
+    expect((await getNonceAccount(connection, address))?.nonce).toBe(NONCE_1);
+    expect(await getNonceValue(connection, address, wallet.publicKey)).toBe(NONCE_1);
+    await expect(getNonceValue(connection, address, Keypair.generate().publicKey))
+      .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    await expect(getNonceValue(connection, Keypair.generate().publicKey, wallet.publicKey))
+      .rejects.toThrow(/nonce create/);
+  });
+
+  it('refuses accounts that are not nonce accounts', async () => {
+    const connection = {
+      getAccountInfo: async () => ({ ...nonceAccount(NONCE_1), data: Buffer.alloc(10) }),
+    } as unknown as Connection;
+    await expect(getNonceAccount(connection, wallet.publicKey)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+});
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+
+describe('withDurableNonce()', () => {
+  const connection = {} as Connection;
+
+  it('prefixes legacy transactions with AdvanceNonceAccount', async () => {
+    const address = await getNonceAddress(wallet.publicKey);
+    const tx = await withDurableNonce(connection, transfer(), address, wallet.publicKey, NONCE_1);
+
+    const message = tx.compileMessage();
+    expect(message.recentBlockhash).toBe(NONCE_1);
+    expect(message.instructions).toHaveLength(2);
+    const first = tx.nonceInfo!.nonceInstruction;
+    expect(SystemInstruction.decodeNonceAdvance(first).noncePubkey).toEqual(address);
+  });
+
+  it('prefixes versioned transactions once and updates the nonce after', async () => {
+    const address = await getNonceAddress(wallet.publicKey);
+    const legacy = transfer();
+    const v0 = new VersionedTransaction(new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: NONCE_1,
+      instructions: legacy.instructions,
+    }).compileToV0Message());
+
+    const once = await withDurableNonce(connection, v0, address, wallet.publicKey, NONCE_1);
+    const twice = await withDurableNonce(connection, once, address, wallet.publicKey, NONCE_2);
+
+    const keys = twice.message.staticAccountKeys;
+    const [first] = twice.message.compiledInstructions;
+    expect(twice.message.compiledInstructions).toHaveLength(2);
+    expect(isAdvanceNonce(keys[first!.programIdIndex]!, first!.data)).toBe(true);
+    expect(twice.message.recentBlockhash).toBe(NONCE_2);
+  });
+});
+
+// ── sendAndConfirm ────────────────────────────────────────────────────────────
+
+describe('sendAndConfirm() with a durable nonce', () => {
+  async function setup(nonces: string[], send: () => Promise<string>) {
+    const address = await getNonceAddress(wallet.publicKey);
+    let reads = 0;
+    const connection = {
+      getAccountInfo: vi.fn(async () => nonceAccount(nonces[Math.min(reads++, nonces.length - 1)]!)),
+      getLatestBlockhash: vi.fn(),
+      sendRawTransaction: vi.fn(send),
+      getSignatureStatuses: vi.fn(async () => ({ value: [{ slot: 7, confirmationStatus: 'confirmed', err: null }] })),
+      getTransaction: vi.fn(async () => ({ meta: { fee: 5_000, computeUnitsConsumed: 450 } })),
+    } as unknown as Connection;
+    const signerFn = vi.fn(async (tx: Transaction | VersionedTransaction) => {
+      (tx as Transaction).partialSign(wallet);
+      return tx;
+    });
+    return { connection, signerFn, nonce: { address, authority: wallet.publicKey } };
+  }
+
+  it('resends the same signed transaction while the nonce is unchanged', async () => {
+    let sends = 0;
+    const { connection, signerFn, nonce } = await setup([NONCE_1], async () => {
+      if (sends++ === 0) throw new Error('socket hang up');
+      return 'sig';
+    });
+
+    const result = await sendAndConfirm({ connection, transaction: transfer(), signerFn, config, logger, nonce });
+
+    expect(result).toMatchObject({ status: 'confirmed', feeLamports: 5_000 });
+    expect(signerFn).toHaveBeenCalledTimes(1);
+    expect(connection.getLatestBlockhash).not.toHaveBeenCalled();
+    const [[first], [second]] = (connection.sendRawTransaction as ReturnType<typeof vi.fn>).mock.calls;
+    expect(Buffer.from(second)).toEqual(Buffer.from(first));
+  });
+
+  it('returns the earlier attempt once the nonce has advanced', async () => {
+    const { connection, signerFn, nonce } = await setup([NONCE_1, NONCE_2], async () => {
+      throw new Error('timeout, but it landed');
+    });
+
+    const result = await sendAndConfirm({ connection, transaction: transfer(), signerFn, config, logger, nonce });
+
+    expect(result.status).toBe('confirmed');
+    const signed = await (signerFn.mock.results[0]!.value as Promise<Transaction>);
+    expect(result.signature).toBe(bs58.encode(signed.signature!));
+    expect(signerFn).toHaveBeenCalledTimes(1);
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to send without a nonce account', async () => {
+    const { signerFn, nonce } = await setup([NONCE_1], async () => 'sig');
+    const connection = { getAccountInfo: async () => null } as unknown as Connection;
+
+    await expect(sendAndConfirm({ connection, transaction: transfer(), signerFn, config, logger, nonce }))
+      .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+});
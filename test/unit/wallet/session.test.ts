@@ -0,0 +1,106 @@
+/**
+ * Unit tests for src/wallet/session.ts
+ *
+ * Test gates:
+ *  ✅ A session signs for every wallet it holds, over a 0600 socket
+ *  ✅ Wallets it does not hold are reported as absent, not signed for
+ *  ✅ `lock` and the TTL drop the keys and close the socket
+ *  ✅ A second session cannot take over a live socket
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import {
+  serveSession,
+  connectSession,
+  getSessionStatus,
+  lockSession,
+  type UnlockSession,
+} from '../../../src/wallet/session.js';
+import { keypairSigner, verifySignature } from '../../../src/wallet/signers.js';
+import { getRootLogger } from '../../../src/logger/logger.js';
+
+const logger = getRootLogger();
+
+describe('unlock session', () => {
+  let tmpDir: string;
+  let socketPath: string;
+  let alice: Keypair;
+  let bob: Keypair;
+  let session: UnlockSession | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-session-'));
+    socketPath = path.join(tmpDir, 'session.sock');
+    alice = Keypair.generate();
+    bob = Keypair.generate();
+  });
+
+  afterEach(async () => {
+    await session?.lock();
+    session = undefined;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function unlock(ttlMs = 60_000): Promise<UnlockSession> {
+    session = await serveSession([keypairSigner(alice), keypairSigner(bob)], socketPath, ttlMs, logger);
+    return session;
+  }
+
+  it('signs for each held wallet over a 0600 socket', async () => {
+    await unlock();
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+
+    const message = Buffer.from('transfer');
+    for (const keypair of [alice, bob]) {
+      const signer = await connectSession(socketPath, keypair.publicKey);
+      expect(signer?.publicKey.equals(keypair.publicKey)).toBe(true);
+      expect(verifySignature(keypair.publicKey, message, await signer!.signMessage(message))).toBe(true);
+    }
+  });
+
+  it('reports its wallets and expiry', async () => {
+    const { expiresAt } = await unlock();
+
+    expect(await getSessionStatus(socketPath)).toEqual({
+      publicKeys: [alice.publicKey.toBase58(), bob.publicKey.toBase58()],
+      expiresAt,
+    });
+  });
+
+  it('returns no signer for a wallet it does not hold, or when none is running', async () => {
+    expect(await connectSession(socketPath, alice.publicKey)).toBeUndefined();
+
+    await unlock();
+    expect(await connectSession(socketPath, Keypair.generate().publicKey)).toBeUndefined();
+  });
+
+  it('drops its keys and closes the socket on lock', async () => {
+    const s = await unlock();
+    const signer = await connectSession(socketPath, alice.publicKey);
+
+    expect(await lockSession(socketPath)).toBe(true);
+    await s.locked;
+
+    expect(fs.existsSync(socketPath)).toBe(false);
+    expect(await getSessionStatus(socketPath)).toBeUndefined();
+    await expect(signer!.signMessage(Buffer.from('late'))).rejects.toMatchObject({ code: 'RPC_ERROR' });
+    expect(await lockSession(socketPath)).toBe(false);
+  });
+
+  it('locks itself when the TTL runs out', async () => {
+    const s = await unlock(50);
+    await s.locked;
+    expect(await getSessionStatus(socketPath)).toBeUndefined();
+  });
+
+  it('refuses to replace a live session', async () => {
+    await unlock();
+    await expect(serveSession([keypairSigner(Keypair.generate())], socketPath, 60_000, logger))
+      .rejects.toThrow(/already listening/);
+    expect((await getSessionStatus(socketPath))?.publicKeys).toHaveLength(2);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for src/wallet/shamir.ts
+ *
+ * Test gates:
+ *  ✅ Any threshold-sized subset of shares rebuilds the secret
+ *  ✅ Split → recover yields a standard keystore for the same wallet
+ *  ✅ Shares from another wallet or split are rejected with INVALID_KEYSTORE
+ *  ✅ Too few shares, wrong passwords and relabelled shares are rejected
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import {
+  splitSecret,
+  combineShares,
+  splitKeystore,
+  recoverKeystore,
+  type ShareTarget,
+} from '../../../src/wallet/shamir.js';
+import { createKeystore, loadKeystore } from '../../../src/wallet/keystore.js';
+import { WalletError } from '../../../src/wallet/types.js';
+
+vi.hoisted(() => {
+  process.env['TEST_KDF_ARGON2_M'] = '256';
+});
+
+// ── GF(256) sharing ───────────────────────────────────────────────────────────
+
+describe('splitSecret() / combineShares()', () => {
+  const secret = crypto.randomBytes(32);
+
+  it('rebuilds the secret from every 3-of-5 subset', () => {
+    const shares = splitSecret(secret, 5, 3);
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          expect(combineShares([shares[c]!, shares[a]!, shares[b]!]).equals(secret)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('rebuilds a wrong secret from too few shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares(shares.slice(0, 2)).equals(secret)).toBe(false);
+  });
+
+  it('rejects impossible parameters', () => {
+    expect(() => splitSecret(secret, 3, 1)).toThrow(WalletError);
+    expect(() => splitSecret(secret, 2, 3)).toThrow(WalletError);
+    expect(() => splitSecret(secret, 256, 3)).toThrow(WalletError);
+  });
+});
+
+// ── Share files ───────────────────────────────────────────────────────────────
+
+describe('splitKeystore() / recoverKeystore()', () => {
+  let tmpDir: string;
+  let keystorePath: string;
+  let keypair: Keypair;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-shamir-'));
+    keystorePath = path.join(tmpDir, 'treasury.keystore.json');
+    keypair = Keypair.generate();
+    createKeystore(keypair, 'password12345', keystorePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function targets(prefix: string, n: number): ShareTarget[] {
+    return Array.from({ length: n }, (_, i) => ({
+      path: path.join(tmpDir, `${prefix}-${i + 1}.json`),
+      password: `share-password-${i + 1}`,
+    }));
+  }
+
+  it('writes encrypted share files that carry the wallet public key', () => {
+    const files = splitKeystore(keystorePath, 'password12345', 3, targets('s', 5));
+
+    expect(files).toHaveLength(5);
+    for (const [i, file] of files.entries()) {
+      expect(file).toMatchObject({ kind: 'shamir-share', publicKey: keypair.publicKey.toBase58(), threshold: 3, shares: 5, index: i + 1 });
+      expect(file.checksum).toMatch(/^[0-9a-f]{16}$/);
+    }
+    expect(new Set(files.map((f) => f.splitId)).size).toBe(1);
+    expect(fs.statSync(path.join(tmpDir, 's-1.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it('recovers a standard v2 keystore from any threshold of shares', () => {
+    const shares = targets('s', 5);
+    splitKeystore(keystorePath, 'password12345', 3, shares);
+    const out = path.join(tmpDir, 'recovered.keystore.json');
+
+    const ks = recoverKeystore([shares[4]!, shares[1]!, shares[2]!], 'new-password', out);
+
+    expect(ks.version).toBe(2);
+    expect(ks.publicKey).toBe(keypair.publicKey.toBase58());
+    expect(loadKeystore(out, 'new-password').secretKey).toEqual(keypair.secretKey);
+  });
+
+  it('rejects too few shares', () => {
+    const shares = targets('s', 5);
+    splitKeystore(keystorePath, 'password12345', 3, shares);
+
+    expect(() => recoverKeystore(shares.slice(0, 2), 'new-password', path.join(tmpDir, 'out.json')))
+      .toThrow('Need 3 key shares, got 2');
+  });
+
+  it('rejects shares from a different split of the same wallet', () => {
+    const first = targets('a', 3);
+    const second = targets('b', 3);
+    splitKeystore(keystorePath, 'password12345', 2, first);
+    splitKeystore(keystorePath, 'password12345', 2, second);
+
+    let err: unknown;
+    try {
+      recoverKeystore([first[0]!, second[1]!], 'new-password', path.join(tmpDir, 'out.json'));
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(WalletError);
+    expect(err).toMatchObject({ code: 'INVALID_KEYSTORE', message: expect.stringMatching(/different wallets or splits/) });
+  });
+
+  it('rejects a share whose header was relabelled', () => {
+    const shares = targets('s', 3);
+    splitKeystore(keystorePath, 'password12345', 2, shares);
+
+    // Claim share 1 is share 3 — the checksum and GCM tag both cover the index
+    const raw = JSON.parse(fs.readFileSync(shares[0]!.path, 'utf8'));
+    raw.index = 3;
+    fs.writeFileSync(shares[0]!.path, JSON.stringify(raw));
+
+    expect(() => recoverKeystore([shares[0]!, shares[1]!], 'new-password', path.join(tmpDir, 'out.json')))
+      .toThrow(WalletError);
+  });
+
+  it('rejects a wrong share password', () => {
+    const shares = targets('s', 3);
+    splitKeystore(keystorePath, 'password12345', 2, shares);
+
+    expect(() => recoverKeystore(
+      [shares[0]!, { ...shares[1]!, password: 'not-the-password' }],
+      'new-password',
+      path.join(tmpDir, 'out.json'),
+    )).toThrow(/Key share 2: wrong password/);
+  });
+
+  it('refuses to split with the wrong wallet password', () => {
+    expect(() => splitKeystore(keystorePath, 'wrongpassword', 2, targets('s', 3))).toThrow(WalletError);
+    expect(fs.existsSync(path.join(tmpDir, 's-1.json'))).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for src/wallet/signers.ts
+ *
+ * Test gates:
+ *  ✅ keypairSigner() produces the same signatures as Keypair signing
+ *  ✅ A WalletClient signs through any Signer, seeing only the message
+ *  ✅ Remote signer round-trips over a Unix socket and over HTTP
+ *  ✅ Wrong tokens, wrong public keys and forged signatures are refused
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  keypairSigner,
+  verifySignature,
+  connectRemoteSigner,
+  serveSigner,
+} from '../../../src/wallet/signers.js';
+import { createWalletClient } from '../../../src/wallet/wallet.js';
+import { WalletError, type Signer, type WalletConfig } from '../../../src/wallet/types.js';
+import { getRootLogger } from '../../../src/logger/logger.js';
+
+const logger = getRootLogger();
+
+const walletConfig: WalletConfig = {
+  rpcUrl: 'https://api.devnet.solana.com',
+  limits: { maxPerTxLamports: 100_000_000n, maxSessionLamports: 500_000_000n },
+  simulateBeforeSend: false,
+  confirmationStrategy: 'confirmed',
+  maxRetries: 1,
+  retryDelayMs: 100,
+};
+
+function transferFrom(from: Keypair['publicKey']): Transaction {
+  const tx = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: from, toPubkey: Keypair.generate().publicKey, lamports: 1 }),
+  );
+  tx.recentBlockhash = '11111111111111111111111111111111';
+  tx.feePayer = from;
+  return tx;
+}
+
+// ── In-process signers ────────────────────────────────────────────────────────
+
+describe('keypairSigner()', () => {
+  it('signs exactly as the Keypair would', async () => {
+    const keypair = Keypair.generate();
+    const tx = transferFrom(keypair.publicKey);
+    const message = tx.serializeMessage();
+
+    const signature = await keypairSigner(keypair).signMessage(message);
+
+    tx.sign(keypair);
+    expect(Buffer.from(signature).equals(tx.signature!)).toBe(true);
+    expect(verifySignature(keypair.publicKey, message, signature)).toBe(true);
+  });
+
+  it('serialises to its public key only', () => {
+    const keypair = Keypair.generate();
+    expect(JSON.stringify({ signer: keypairSigner(keypair) })).toBe(
+      `{"signer":"${keypair.publicKey.toBase58()}"}`,
+    );
+  });
+});
+
+describe('createWalletClient() with a Signer', () => {
+  it('signs through a backend that only ever sees the message', async () => {
+    const keypair = Keypair.generate();
+    const inner = keypairSigner(keypair);
+    const seen: Uint8Array[] = [];
+    const signer: Signer = {
+      publicKey: keypair.publicKey,
+      signMessage: (message) => {
+        seen.push(message);
+        return inner.signMessage(message);
+      },
+    };
+    const wallet = createWalletClient(signer, walletConfig, logger);
+    const tx = transferFrom(wallet.publicKey);
+
+    const signed = await wallet.signTransaction(tx);
+
+    expect(seen).toHaveLength(1);
+    expect(Buffer.from(seen[0]!).equals(tx.serializeMessage())).toBe(true);
+    expect(signed.verifySignatures()).toBe(true);
+  });
+
+  it('surfaces a signer failure as SIGNING_FAILED', async () => {
+    const keypair = Keypair.generate();
+    const signer: Signer = {
+      publicKey: keypair.publicKey,
+      signMessage: () => Promise.reject(new Error('HSM offline')),
+    };
+    const wallet = createWalletClient(signer, walletConfig, logger);
+
+    await expect(wallet.signTransaction(transferFrom(keypair.publicKey))).rejects.toMatchObject({
+      code: 'SIGNING_FAILED',
+    });
+  });
+});
+
+// ── Remote signer ─────────────────────────────────────────────────────────────
+
+describe('connectRemoteSigner() / serveSigner()', () => {
+  let tmpDir: string;
+  let keypair: Keypair;
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentw-signer-'));
+    keypair = Keypair.generate();
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = undefined;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function serveHttp(signer: Signer, authToken = 'secret-token'): Promise<string> {
+    server = await serveSigner(signer, 'http://127.0.0.1:0', { authToken }, logger);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it('signs over a 0600 Unix socket', async () => {
+    const endpoint = `unix:${path.join(tmpDir, 'signer.sock')}`;
+    server = await serveSigner(keypairSigner(keypair), endpoint, {}, logger);
+    expect(fs.statSync(path.join(tmpDir, 'signer.sock')).mode & 0o777).toBe(0o600);
+
+    const remote = await connectRemoteSigner(endpoint);
+    const wallet = createWalletClient(remote, walletConfig, logger);
+    const signed = await wallet.signTransaction(transferFrom(keypair.publicKey));
+
+    expect(remote.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(signed.verifySignatures()).toBe(true);
+  });
+
+  it('signs over HTTP with a bearer token', async () => {
+    const url = await serveHttp(keypairSigner(keypair));
+    const remote = await connectRemoteSigner(url, { authToken: 'secret-token', publicKey: keypair.publicKey });
+    const message = Buffer.from('hello');
+
+    expect(verifySignature(keypair.publicKey, message, await remote.signMessage(message))).toBe(true);
+  });
+
+  it('refuses a wrong token', async () => {
+    const url = await serveHttp(keypairSigner(keypair));
+    await expect(connectRemoteSigner(url, { authToken: 'guess' })).rejects.toThrow(/Unauthorized/);
+  });
+
+  it('refuses a signer for another wallet', async () => {
+    const url = await serveHttp(keypairSigner(keypair));
+    await expect(
+      connectRemoteSigner(url, { authToken: 'secret-token', publicKey: Keypair.generate().publicKey }),
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIG', message: expect.stringMatching(/does not hold/) });
+  });
+
+  it('rejects a signature the remote key did not make', async () => {
+    const liar: Signer = {
+      publicKey: keypair.publicKey,
+      signMessage: (message) => keypairSigner(Keypair.generate()).signMessage(message),
+    };
+    const url = await serveHttp(liar);
+    const remote = await connectRemoteSigner(url, { authToken: 'secret-token' });
+
+    let err: unknown;
+    try {
+      await remote.signMessage(Buffer.from('hello'));
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(WalletError);
+    expect(err).toMatchObject({ code: 'SIGNING_FAILED', message: expect.stringMatching(/invalid signature/) });
+  });
+
+  it('reports an unreachable signer as RPC_ERROR', async () => {
+    await expect(connectRemoteSigner(`unix:${path.join(tmpDir, 'missing.sock')}`)).rejects.toMatchObject({
+      code: 'RPC_ERROR',
+    });
+  });
+
+  it('refuses a TCP endpoint without a token and malformed endpoints', async () => {
+    await expect(serveSigner(keypairSigner(keypair), 'http://127.0.0.1:0', {}, logger)).rejects.toThrow(/auth token/);
+    await expect(connectRemoteSigner('ftp://example.com')).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Unit tests for src/wallet/tokens.ts
+ *
+ * Test gates:
+ *  ✅ The owning program is detected per mint and used for ATAs
+ *  ✅ The transfer fee in force this epoch is resolved and applied both ways
+ *  ✅ Transfers name the fee and resolve hook accounts when the mint needs them
+ *  ✅ Accounts that are not token mints are refused
+ *  ✅ Only empty accounts the owner can close are offered for closing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Connection, Keypair, PublicKey, SystemProgram, type AccountInfo } from '@solana/web3.js';
+import {
+  AccountType,
+  ExtensionType,
+  MINT_SIZE,
+  ACCOUNT_SIZE,
+  MintLayout,
+  AccountLayout,
+  AccountState,
+  TransferFeeConfigLayout,
+  TransferHookLayout,
+  TRANSFER_FEE_CONFIG_SIZE,
+  TRANSFER_HOOK_SIZE,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  getExtraAccountMetaAddress,
+  decodeTransferCheckedInstruction,
+  decodeTransferCheckedWithFeeInstruction,
+} from '@solana/spl-token';
+import {
+  getTokenProgramId,
+  getTokenMintInfo,
+  getTokenAddress,
+  calculateTokenTransferFee,
+  estimateTransferFeeOnReceived,
+  createTokenTransferInstruction,
+  findEmptyTokenAccounts,
+  type TokenMintInfo,
+} from '../../../src/wallet/tokens.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const owner = Keypair.generate().publicKey;
+const other = Keypair.generate().publicKey;
+const MINT = Keypair.generate().publicKey;
+const HOOK_PROGRAM = Keypair.generate().publicKey;
+
+interface Extension { type: ExtensionType; data: Buffer }
+
+function mintAccount(programId: PublicKey, decimals: number, extensions: Extension[] = []): AccountInfo<Buffer> {
+  const base = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 0n,
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    base,
+  );
+  let data = base;
+  if (extensions.length > 0) {
+    // Token-2022 pads the mint to an account's size, then a type byte and TLV entries
+    const tlv = extensions.map(({ type, data: value }) => {
+      const header = Buffer.alloc(4);
+      header.writeUInt16LE(type, 0);
+      header.writeUInt16LE(value.length, 2);
+      return Buffer.concat([header, value]);
+    });
+    data = Buffer.concat([base, Buffer.alloc(ACCOUNT_SIZE - MINT_SIZE), Buffer.from([AccountType.Mint]), ...tlv]);
+  }
+  return { data, owner: programId, lamports: 1_461_600, executable: false, rentEpoch: 0 };
+}
+
+function transferFeeExtension(older: [bigint, number, bigint], newer: [bigint, number, bigint]): Extension {
+  const data = Buffer.alloc(TRANSFER_FEE_CONFIG_SIZE);
+  const fee = ([epoch, transferFeeBasisPoints, maximumFee]: [bigint, number, bigint]) =>
+    ({ epoch, transferFeeBasisPoints, maximumFee });
+  TransferFeeConfigLayout.encode(
+    {
+      transferFeeConfigAuthority: PublicKey.default,
+      withdrawWithheldAuthority: PublicKey.default,
+      withheldAmount: 0n,
+      olderTransferFee: fee(older),
+      newerTransferFee: fee(newer),
+    },
+    data,
+  );
+  return { type: ExtensionType.TransferFeeConfig, data };
+}
+
+function transferHookExtension(programId: PublicKey): Extension {
+  const data = Buffer.alloc(TRANSFER_HOOK_SIZE);
+  TransferHookLayout.encode({ authority: PublicKey.default, programId }, data);
+  return { type: ExtensionType.TransferHook, data };
+}
+
+function fakeConnection(accounts: Map<string, AccountInfo<Buffer>>, epoch = 10): Connection {
+  return {
+    getAccountInfo: vi.fn(async (address: PublicKey) => accounts.get(address.toBase58()) ?? null),
+    getEpochInfo: vi.fn(async () => ({ epoch })),
+  } as unknown as Connection;
+}
+
+function withMint(account: AccountInfo<Buffer>, epoch?: number): Connection {
+  return fakeConnection(new Map([[MINT.toBase58(), account]]), epoch);
+}
+
+// ── Mint lookup ───────────────────────────────────────────────────────────────
+
+describe('getTokenMintInfo()', () => {
+  it('detects the owning program and derives ATAs under it', async () => {
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const connection = withMint(mintAccount(programId, 6));
+
+      const info = await getTokenMintInfo(connection, MINT);
+      expect(info).toEqual({ mint: MINT, programId, decimals: 6 });
+      expect(await getTokenProgramId(connection, MINT)).toEqual(programId);
+      expect(getTokenAddress(MINT, owner, programId))
+        .toEqual(getAssociatedTokenAddressSync(MINT, owner, true, programId));
+    }
+    expect(getTokenAddress(MINT, owner, TOKEN_2022_PROGRAM_ID))
+      .not.toEqual(getTokenAddress(MINT, owner, TOKEN_PROGRAM_ID));
+  });
+
+  it('resolves the transfer fee in force this epoch', async () => {
+    const account = mintAccount(TOKEN_2022_PROGRAM_ID, 6, [
+      transferFeeExtension([0n, 100, 1_000n], [12n, 250, 5_000n]),
+    ]);
+
+    const before = await getTokenMintInfo(withMint(account, 11), MINT);
+    expect(before.transferFee).toMatchObject({ transferFeeBasisPoints: 100, maximumFee: 1_000n });
+
+    const after = await getTokenMintInfo(withMint(account, 12), MINT);
+    expect(after.transferFee).toMatchObject({ transferFeeBasisPoints: 250, maximumFee: 5_000n });
+  });
+
+  it('ignores a zero fee and an unset hook', async () => {
+    const info = await getTokenMintInfo(withMint(mintAccount(TOKEN_2022_PROGRAM_ID, 6, [
+      transferFeeExtension([0n, 0, 0n], [0n, 0, 0n]),
+      transferHookExtension(PublicKey.default),
+    ])), MINT);
+
+    expect(info.transferFee).toBeUndefined();
+    expect(info.transferHookProgramId).toBeUndefined();
+  });
+
+  it('refuses accounts that are not token mints', async () => {
+    const systemOwned = { ...mintAccount(TOKEN_PROGRAM_ID, 6), owner: SystemProgram.programId };
+
+    await expect(getTokenMintInfo(withMint(systemOwned), MINT)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    await expect(getTokenMintInfo(fakeConnection(new Map()), MINT)).rejects.toThrow(/does not exist/);
+
+    const down = { getAccountInfo: async () => { throw new Error('503'); } } as unknown as Connection;
+    await expect(getTokenProgramId(down, MINT)).rejects.toMatchObject({ code: 'RPC_ERROR' });
+  });
+});
+
+// ── Fees ──────────────────────────────────────────────────────────────────────
+
+describe('transfer fees', () => {
+  const info: TokenMintInfo = {
+    mint: MINT,
+    programId: TOKEN_2022_PROGRAM_ID,
+    decimals: 6,
+    transferFee: { epoch: 0n, transferFeeBasisPoints: 250, maximumFee: 5_000n },
+  };
+
+  it('rounds the fee up and caps it', () => {
+    expect(calculateTokenTransferFee(info, 1_000n)).toBe(25n);
+    expect(calculateTokenTransferFee(info, 1_001n)).toBe(26n);
+    expect(calculateTokenTransferFee(info, 10_000_000n)).toBe(5_000n);
+    expect(calculateTokenTransferFee({ mint: MINT, programId: TOKEN_2022_PROGRAM_ID, decimals: 6 }, 1_000n)).toBe(0n);
+  });
+
+  it('recovers the withheld fee from the amount received', () => {
+    for (const gross of [1_000n, 1_001n, 39_999n, 123_456n, 10_000_000n]) {
+      const fee = calculateTokenTransferFee(info, gross);
+      const estimate = estimateTransferFeeOnReceived(info, gross - fee);
+      expect(estimate === fee || estimate === fee - 1n).toBe(true);
+    }
+    expect(estimateTransferFeeOnReceived(info, 0n)).toBe(0n);
+  });
+});
+
+// ── Instructions ──────────────────────────────────────────────────────────────
+
+describe('createTokenTransferInstruction()', () => {
+  const source = getTokenAddress(MINT, owner, TOKEN_2022_PROGRAM_ID);
+  const destination = getTokenAddress(MINT, other, TOKEN_2022_PROGRAM_ID);
+  const connection = fakeConnection(new Map());
+
+  it('uses TransferChecked under the mint\'s program', async () => {
+    const info: TokenMintInfo = { mint: MINT, programId: TOKEN_2022_PROGRAM_ID, decimals: 6 };
+    const ix = await createTokenTransferInstruction(connection, info, source, destination, owner, 1_000n);
+
+    expect(ix.programId).toEqual(TOKEN_2022_PROGRAM_ID);
+    const decoded = decodeTransferCheckedInstruction(ix, TOKEN_2022_PROGRAM_ID);
+    expect(decoded.data).toMatchObject({ amount: 1_000n, decimals: 6 });
+  });
+
+  it('names the transfer fee for fee-bearing mints', async () => {
+    const info: TokenMintInfo = {
+      mint: MINT,
+      programId: TOKEN_2022_PROGRAM_ID,
+      decimals: 6,
+      transferFee: { epoch: 0n, transferFeeBasisPoints: 250, maximumFee: 5_000n },
+    };
+    const ix = await createTokenTransferInstruction(connection, info, source, destination, owner, 1_000n);
+
+    const decoded = decodeTransferCheckedWithFeeInstruction(ix, TOKEN_2022_PROGRAM_ID);
+    expect(decoded.data).toMatchObject({ amount: 1_000n, decimals: 6, fee: 25n });
+  });
+
+  it('resolves hook accounts for transfer-hook mints', async () => {
+    const hooked = fakeConnection(new Map([[
+      MINT.toBase58(),
+      mintAccount(TOKEN_2022_PROGRAM_ID, 6, [transferHookExtension(HOOK_PROGRAM)]),
+    ]]));
+    const info = await getTokenMintInfo(hooked, MINT);
+    expect(info.transferHookProgramId).toEqual(HOOK_PROGRAM);
+
+    const ix = await createTokenTransferInstruction(hooked, info, source, destination, owner, 1_000n);
+
+    expect(decodeTransferCheckedInstruction(ix, TOKEN_2022_PROGRAM_ID).data.amount).toBe(1_000n);
+    expect(hooked.getAccountInfo).toHaveBeenCalledWith(getExtraAccountMetaAddress(MINT, HOOK_PROGRAM), 'confirmed');
+  });
+});
+
+// ── Empty accounts ────────────────────────────────────────────────────────────
+
+describe('findEmptyTokenAccounts()', () => {
+  function tokenAccount(
+    mint: PublicKey,
+    amount: bigint,
+    { state = AccountState.Initialized, closeAuthority }: { state?: AccountState; closeAuthority?: PublicKey } = {},
+  ) {
+    const data = Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode(
+      {
+        mint,
+        owner,
+        amount,
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state,
+        isNativeOption: 0,
+        isNative: 0n,
+        delegatedAmount: 0n,
+        closeAuthorityOption: closeAuthority ? 1 : 0,
+        closeAuthority: closeAuthority ?? PublicKey.default,
+      },
+      data,
+    );
+    return { pubkey: Keypair.generate().publicKey, account: { data, owner: TOKEN_PROGRAM_ID, lamports: 2_039_280, executable: false, rentEpoch: 0 } };
+  }
+
+  it('keeps zero-balance accounts that are not frozen or closable by someone else', async () => {
+    const OTHER_MINT = Keypair.generate().publicKey;
+    const empty = tokenAccount(MINT, 0n);
+    const emptyOther = tokenAccount(OTHER_MINT, 0n);
+    const accounts = [
+      empty,
+      emptyOther,
+      tokenAccount(MINT, 5n),
+      tokenAccount(MINT, 0n, { state: AccountState.Frozen }),
+      tokenAccount(MINT, 0n, { closeAuthority: other }),
+    ];
+    const connection = {
+      getTokenAccountsByOwner: vi.fn(async (_owner: PublicKey, { programId }: { programId: PublicKey }) => ({
+        context: { slot: 1 },
+        value: programId.equals(TOKEN_PROGRAM_ID) ? accounts : [],
+      })),
+    } as unknown as Connection;
+
+    const found = await findEmptyTokenAccounts(connection, owner);
+    expect(found.map((a) => a.address.toBase58())).toEqual([empty.pubkey.toBase58(), emptyOther.pubkey.toBase58()]);
+    expect(found[0]).toMatchObject({ mint: MINT, programId: TOKEN_PROGRAM_ID, lamports: 2_039_280n });
+    expect(connection.getTokenAccountsByOwner).toHaveBeenCalledTimes(2);
+
+    const onlyOther = await findEmptyTokenAccounts(connection, owner, [OTHER_MINT]);
+    expect(onlyOther.map((a) => a.address.toBase58())).toEqual([emptyOther.pubkey.toBase58()]);
+  });
+});
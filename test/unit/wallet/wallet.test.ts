@@ -5,14 +5,44 @@
  *  ✅ toJSON() on WalletClient returns pubkey only
  *  ✅ toString() on WalletClient returns pubkey only
  *  ✅ SOL transfer exceeding limit is rejected before signing (mock RPC)
+ *  ✅ No signature is produced while haltCheck reports a halt
+ *  ✅ A guardian signature that does not verify is refused before sending
+ *  ✅ getTokenAccounts() sums holdings per mint across both token programs
+ *  ✅ A spend is refused while an identical earlier one may still land
+ *  ✅ buildTransaction() compiles against the configured lookup tables
+ *  ✅ sendBatch() refuses a batch over the limits before sending any of it
+ *  ✅ sendBatch() checks WSOL legs against the WSOL account, not the SOL balance
+ *  ✅ wrapSol() is held to the lamport caps; unwrapSol() needs a WSOL account
+ *  ✅ Lookup-table rent counts as rent against the caps, not as a transfer
  *
  * Note: The full integration tests (SOL transfer on devnet, SPL token transfer)
  * live in test/integration/wallet/. These unit tests mock the RPC connection.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { Keypair, Connection, PublicKey } from '@solana/web3.js';
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Keypair,
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  type AccountInfo,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+} from '@solana/spl-token';
 import { createWalletClient } from '../../../src/wallet/wallet.js';
+import { createMemoryTxJournal, intentKey } from '../../../src/wallet/journal.js';
 import { WalletError } from '../../../src/wallet/types.js';
 import { getRootLogger } from '../../../src/logger/logger.js';
 import type { WalletConfig } from '../../../src/wallet/types.js';
@@ -156,14 +186,379 @@ describe('WalletClient — spending limit enforcement', () => {
     expect(Connection.prototype.sendRawTransaction).toBeUndefined;
   });
 
+  it('GATE: refuses a guardian signature that does not verify before sending', async () => {
+    const guardian = Keypair.generate().publicKey;
+    const cosign = vi.fn(async () => new Uint8Array(64).fill(1));
+    const wallet = makeWallet({ coSigner: { publicKey: guardian, cosign } });
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1_000 }),
+    );
+    tx.feePayer = wallet.publicKey;
+
+    vi.spyOn(Connection.prototype, 'getBalance').mockResolvedValue(1_000_000_000);
+    vi.spyOn(Connection.prototype, 'getTokenAccountsByOwner').mockResolvedValue({ context: { slot: 1 }, value: [] });
+    vi.spyOn(Connection.prototype, 'getLatestBlockhash')
+      .mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 1 });
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+
+    try {
+      await expect(wallet.signAndSendTransaction(tx, 1_000n)).rejects.toMatchObject({
+        code: 'SIGNING_FAILED',
+        message: 'Guardian returned an invalid signature.',
+      });
+      expect(cosign).toHaveBeenCalledOnce();
+      expect(send).not.toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
   it('getSpendingLimitStatus() returns correct initial state', () => {
     const wallet = makeWallet();
     const status = wallet.getSpendingLimitStatus();
 
     expect(status.sessionSpend).toBe(0n);
+    expect(status.sessionFees).toBe(0n);
+    expect(status.sessionRent).toBe(0n);
     expect(status.sessionCap).toBe(baseConfig.limits.maxSessionLamports);
     expect(status.perTxCap).toBe(baseConfig.limits.maxPerTxLamports);
   });
+
+  it('signTransaction() refuses while haltCheck reports a halt', async () => {
+    let halted: string | undefined = 'incident (halt #1)';
+    const wallet = makeWallet({ haltCheck: () => halted });
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }),
+    );
+    tx.recentBlockhash = '11111111111111111111111111111111';
+    tx.feePayer = wallet.publicKey;
+
+    await expect(wallet.signTransaction(tx)).rejects.toMatchObject({
+      code: 'WALLET_HALTED',
+      message: 'Signing is halted: incident (halt #1)',
+    });
+
+    halted = undefined;
+    const signed = await wallet.signTransaction(tx);
+    expect(signed.signatures[0]?.signature).not.toBeNull();
+  });
+});
+
+// ── Token discovery ───────────────────────────────────────────────────────────
+
+describe('WalletClient — getTokenAccounts()', () => {
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const PYUSD = Keypair.generate().publicKey.toBase58();
+  const TRACKED = Keypair.generate().publicKey;
+
+  function parsed(mint: string, amount: string, decimals: number) {
+    return {
+      pubkey: Keypair.generate().publicKey,
+      account: { data: { parsed: { info: { mint, tokenAmount: { amount, decimals } } } } },
+    };
+  }
+
+  it('sums accounts per mint across both token programs and adds tracked mints at zero', async () => {
+    const wallet = makeWallet();
+    vi.spyOn(Connection.prototype, 'getParsedTokenAccountsByOwner').mockImplementation(
+      async (_owner, filter) => ({
+        context: { slot: 1 },
+        value: ('programId' in filter && filter.programId.equals(TOKEN_PROGRAM_ID)
+          ? [parsed(USDC, '1500000', 6), parsed(USDC, '500000', 6)]
+          : [parsed(PYUSD, '42', 6)]) as never,
+      }),
+    );
+    const mintData = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode({
+      mintAuthorityOption: 0, mintAuthority: PublicKey.default, supply: 0n, decimals: 9,
+      isInitialized: true, freezeAuthorityOption: 0, freezeAuthority: PublicKey.default,
+    }, mintData);
+    vi.spyOn(Connection.prototype, 'getAccountInfo').mockResolvedValue({
+      data: mintData, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0,
+    });
+
+    try {
+      const holdings = await wallet.getTokenAccounts([new PublicKey(USDC), TRACKED]);
+
+      expect(holdings).toEqual([
+        { mint: USDC, programId: TOKEN_PROGRAM_ID.toBase58(), amount: 2_000_000n, decimals: 6, symbol: 'USDC' },
+        { mint: PYUSD, programId: TOKEN_2022_PROGRAM_ID.toBase58(), amount: 42n, decimals: 6 },
+        { mint: TRACKED.toBase58(), programId: TOKEN_PROGRAM_ID.toBase58(), amount: 0n, decimals: 9 },
+      ]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+// ── Lookup tables ─────────────────────────────────────────────────────────────
+
+describe('WalletClient — buildTransaction()', () => {
+  it('compiles against the configured lookup tables, or the ones given', async () => {
+    const recipients = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const tableKey = Keypair.generate().publicKey;
+    const wallet = makeWallet({ lookupTables: [tableKey] });
+    vi.spyOn(Connection.prototype, 'getLatestBlockhash')
+      .mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 1 });
+    vi.spyOn(Connection.prototype, 'getAddressLookupTable').mockResolvedValue({
+      context: { slot: 1 },
+      value: new AddressLookupTableAccount({
+        key: tableKey,
+        state: {
+          deactivationSlot: 0xffff_ffff_ffff_ffffn,
+          lastExtendedSlot: 0,
+          lastExtendedSlotStartIndex: 0,
+          authority: wallet.publicKey,
+          addresses: recipients,
+        },
+      }),
+    });
+    const transfers = recipients.map((toPubkey) =>
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey, lamports: 1_000 }),
+    );
+
+    try {
+      const batched = await wallet.buildTransaction(transfers);
+      expect(batched.message.addressTableLookups).toEqual([
+        { accountKey: tableKey, writableIndexes: [0, 1], readonlyIndexes: [] },
+      ]);
+
+      const plain = await wallet.buildTransaction(transfers, []);
+      expect(plain.message.addressTableLookups).toEqual([]);
+      expect(plain.message.staticAccountKeys).toHaveLength(4);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+// ── Batches ───────────────────────────────────────────────────────────────────
+
+describe('WalletClient — sendBatch()', () => {
+  it('GATE: refuses a batch whose total exceeds the session cap before sending anything', async () => {
+    const wallet = makeWallet();
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+    vi.spyOn(Connection.prototype, 'getBalance').mockResolvedValue(Number(1_000_000_000n));
+    // Six legs within the per-tx cap, 0.6 SOL against a 0.5 SOL session cap
+    const transfers = Array.from({ length: 6 }, () => ({ to: Keypair.generate().publicKey, amount: 100_000_000n }));
+
+    try {
+      await expect(wallet.sendBatch(transfers)).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+      expect(send).not.toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('GATE: refuses a batch the balance covers only before fees', async () => {
+    const wallet = makeWallet();
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+    // Exactly the two 0.06 SOL legs, which go out as two transactions, each with a fee
+    vi.spyOn(Connection.prototype, 'getBalance').mockResolvedValue(Number(120_000_000n));
+    const transfers = Array.from({ length: 2 }, () => ({ to: Keypair.generate().publicKey, amount: 60_000_000n }));
+
+    try {
+      await expect(wallet.sendBatch(transfers)).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS' });
+      expect(send).not.toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('reports each leg, skipping the rest once a transaction is refused', async () => {
+    const wallet = makeWallet();
+    vi.spyOn(Connection.prototype, 'getLatestBlockhash')
+      .mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 1 });
+    // Enough for the funds check; then the first send cannot snapshot balances
+    vi.spyOn(Connection.prototype, 'getBalance')
+      .mockResolvedValueOnce(Number(1_000_000_000n))
+      .mockRejectedValue(new Error('rpc down'));
+    // Two 0.06 SOL legs exceed the 0.1 SOL per-tx cap, so each goes alone
+    const transfers = Array.from({ length: 3 }, () => ({ to: Keypair.generate().publicKey, amount: 60_000_000n }));
+
+    try {
+      const results = await wallet.sendBatch(transfers);
+      expect(results.map((r) => r.status)).toEqual(['failed', 'skipped', 'skipped']);
+      expect(results[0]?.error).toBe('Failed to snapshot wallet balances.');
+      expect(results.map((r) => r.to)).toEqual(transfers.map((t) => t.to.toBase58()));
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('GATE: checks WSOL legs against the WSOL account, not the SOL balance', async () => {
+    const wallet = makeWallet();
+    const mintData = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode({
+      mintAuthorityOption: 0, mintAuthority: PublicKey.default, supply: 0n, decimals: 9,
+      isInitialized: true, freezeAuthorityOption: 0, freezeAuthority: PublicKey.default,
+    }, mintData);
+    let wsolHeld = 0n;
+    vi.spyOn(Connection.prototype, 'getAccountInfo').mockImplementation(async (address) => {
+      if (address.equals(NATIVE_MINT)) {
+        return { data: mintData, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 };
+      }
+      // The wallet's WSOL account
+      const data = Buffer.alloc(ACCOUNT_SIZE);
+      AccountLayout.encode({
+        mint: NATIVE_MINT, owner: wallet.publicKey, amount: wsolHeld, delegateOption: 0, delegate: PublicKey.default,
+        state: AccountState.Initialized, isNativeOption: 1, isNative: 2_039_280n, delegatedAmount: 0n,
+        closeAuthorityOption: 0, closeAuthority: PublicKey.default,
+      }, data);
+      return { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 };
+    });
+    // The recipient's WSOL account already exists
+    vi.spyOn(Connection.prototype, 'getMultipleAccountsInfo').mockImplementation(async (keys) => keys.map(() => ({
+      data: Buffer.alloc(ACCOUNT_SIZE), owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0,
+    })));
+    vi.spyOn(Connection.prototype, 'getLatestBlockhash')
+      .mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 1 });
+    const balance = vi.spyOn(Connection.prototype, 'getBalance');
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+    const transfers = [{ to: Keypair.generate().publicKey, amount: 50_000_000n, mint: NATIVE_MINT }];
+
+    try {
+      // Plenty of SOL does not cover a WSOL account that holds too little
+      balance.mockResolvedValue(1_000_000_000);
+      wsolHeld = 10_000_000n;
+      await expect(wallet.sendBatch(transfers)).rejects.toThrow(/^Insufficient WSOL/);
+      expect(send).not.toHaveBeenCalled();
+
+      // Enough WSOL needs only the fee in SOL; the first send then cannot snapshot balances
+      balance.mockResolvedValueOnce(1_000_000).mockRejectedValue(new Error('rpc down'));
+      wsolHeld = 50_000_000n;
+      const results = await wallet.sendBatch(transfers);
+      expect(results[0]?.error).toBe('Failed to snapshot wallet balances.');
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('rejects non-positive amounts', async () => {
+    const wallet = makeWallet();
+    await expect(wallet.sendBatch([{ to: Keypair.generate().publicKey, amount: 0n }]))
+      .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    expect(await wallet.sendBatch([])).toEqual([]);
+  });
+});
+
+// ── Wrapped SOL and rent ──────────────────────────────────────────────────────
+
+describe('WalletClient — wrapped SOL and rent', () => {
+  it('GATE: wrapSol() refuses an amount over the per-tx cap before sending', async () => {
+    const wallet = makeWallet();
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+    vi.spyOn(Connection.prototype, 'getBalance').mockResolvedValue(Number(1_000_000_000n));
+    vi.spyOn(Connection.prototype, 'getLatestBlockhash')
+      .mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 1 });
+    vi.spyOn(Connection.prototype, 'getMultipleAccountsInfo').mockResolvedValue([null]);
+    vi.spyOn(Connection.prototype, 'getMinimumBalanceForRentExemption').mockResolvedValue(2_039_280);
+
+    try {
+      await expect(wallet.wrapSol(200_000_000n)).rejects.toMatchObject({ code: 'LIMIT_BREACH' });
+      expect(send).not.toHaveBeenCalled();
+      await expect(wallet.wrapSol(0n)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('unwrapSol() refuses when there is no WSOL account', async () => {
+    const wallet = makeWallet();
+    vi.spyOn(Connection.prototype, 'getAccountInfo').mockResolvedValue(null);
+
+    try {
+      await expect(wallet.unwrapSol()).rejects.toThrow('The wallet has no wrapped SOL account.');
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('GATE: counts lookup-table rent against the caps without treating it as a transfer', async () => {
+    const wallet = makeWallet({
+      limits: { ...baseConfig.limits, allowedDestinations: [Keypair.generate().publicKey.toBase58()] },
+    });
+    const [create] = AddressLookupTableProgram.createLookupTable({
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      recentSlot: 1,
+    });
+    const tx = new Transaction().add(create);
+    tx.recentBlockhash = '11111111111111111111111111111111';
+    tx.feePayer = wallet.publicKey;
+    const rent = vi.spyOn(Connection.prototype, 'getMinimumBalanceForRentExemption').mockResolvedValue(200_000_000);
+    vi.spyOn(Connection.prototype, 'getBalance').mockRejectedValue(new Error('stop before sending'));
+
+    try {
+      await expect(wallet.signAndSendTransaction(tx, 0n)).rejects.toThrow(/exceeds per-tx limit/);
+
+      // Within the caps, rent goes to no recipient, so the allowlist does not apply
+      rent.mockResolvedValue(1_000_000);
+      await expect(wallet.signAndSendTransaction(tx, 0n)).rejects.toThrow('Failed to snapshot wallet balances.');
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('closeEmptyTokenAccounts() sends nothing when no account is empty', async () => {
+    const wallet = makeWallet();
+    vi.spyOn(Connection.prototype, 'getTokenAccountsByOwner').mockResolvedValue({ context: { slot: 1 }, value: [] });
+    const send = vi.spyOn(Connection.prototype, 'sendRawTransaction');
+
+    try {
+      expect(await wallet.closeEmptyTokenAccounts()).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+// ── Outgoing transaction journal ──────────────────────────────────────────────
+
+function nonceAccountInfo(nonce: string): AccountInfo<Buffer> {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH);
+  data.writeUInt32LE(1, 0); // version
+  data.writeUInt32LE(1, 4); // initialized
+  new PublicKey(nonce).toBuffer().copy(data, 40);
+  return { data, owner: SystemProgram.programId, lamports: 1_447_680, executable: false, rentEpoch: 0 };
+}
+
+describe('WalletClient — outgoing transaction journal', () => {
+  it('refuses a spend while an identical earlier one may still land', async () => {
+    const to = Keypair.generate().publicKey;
+    const nonceAddress = Keypair.generate().publicKey;
+    const NONCE_1 = Keypair.generate().publicKey.toBase58();
+    const journal = createMemoryTxJournal();
+    journal.record({
+      signature: 'earlier',
+      intentKey: intentKey({ lamports: 1_000n, tokens: {}, destinations: [to.toBase58()] }),
+      lamports: 1_000n,
+      nonceAccount: nonceAddress.toBase58(),
+      nonce: NONCE_1,
+    });
+    const wallet = makeWallet({ txJournal: journal });
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: to, lamports: 1_000 }),
+    );
+    tx.recentBlockhash = '11111111111111111111111111111111';
+    tx.feePayer = wallet.publicKey;
+
+    vi.spyOn(Connection.prototype, 'getSignatureStatuses').mockResolvedValue({ context: { slot: 1 }, value: [null] });
+    const nonceAccount = vi.spyOn(Connection.prototype, 'getAccountInfo').mockResolvedValue(nonceAccountInfo(NONCE_1));
+    vi.spyOn(Connection.prototype, 'getBalance').mockRejectedValue(new Error('stop before sending'));
+
+    try {
+      await expect(wallet.signAndSendTransaction(tx, 1_000n, to.toBase58())).rejects.toMatchObject({ code: 'TX_PENDING' });
+
+      // Once its nonce has advanced the earlier transaction can never land
+      nonceAccount.mockResolvedValue(nonceAccountInfo(Keypair.generate().publicKey.toBase58()));
+      await expect(wallet.signAndSendTransaction(tx, 1_000n, to.toBase58())).rejects.toThrow('Failed to snapshot wallet balances.');
+      expect(journal.pending()).toEqual([]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
 });
 
 // ── Config validation tests ────────────────────────────────────────────────────